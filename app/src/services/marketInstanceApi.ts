@@ -13,8 +13,17 @@ import type {
   CreateMarketInstanceResponse,
   MarketInstanceExport,
   MarketTemplate,
-  CreationProgress
+  CreationProgress,
+  MarketInstanceCreatedEvent,
+  MarketInstanceDestroyedEvent,
+  TimeShareResponse,
+  IndicatorResponse,
+  KLineResponse,
+  MarketIndexSnapshot,
+  MarketScenario,
+  ScenarioStatus
 } from '../types/environment';
+import { MarketInstanceEventType } from '../../../shared/types/marketInstance';
 
 /**
  * API 响应基础接口
@@ -29,6 +38,17 @@ interface ApiResponse<T> {
   };
 }
 
+/**
+ * 市场实例事件流处理函数
+ */
+export interface MarketInstanceEventHandlers {
+  onProgress?: (progress: CreationProgress) => void;
+  onCreated?: (event: MarketInstanceCreatedEvent) => void;
+  onDestroyed?: (event: MarketInstanceDestroyedEvent) => void;
+  /** 连接出错；closed 为 true 表示浏览器不再自动重连 */
+  onError?: (closed: boolean) => void;
+}
+
 /**
  * 市场实例 API 客户端
  */
@@ -298,10 +318,244 @@ export class MarketInstanceApiClient {
     }
   }
 
+  /**
+   * 获取股票分时数据
+   *
+   * @param days - 1 为当日分时，5 为五日分时
+   */
+  public async getIntraday(marketInstanceId: string, symbol: string, days: 1 | 5 = 1): Promise<TimeShareResponse> {
+    try {
+      const response: AxiosResponse<ApiResponse<TimeShareResponse>> = await this.api.get(
+        `/market-instances/${marketInstanceId}/stocks/${encodeURIComponent(symbol)}/intraday`,
+        {
+          params: { days }
+        }
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to get intraday data');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to get intraday data:', error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * 获取股票技术指标
+   *
+   * @param names - 指标名称（如 MA_5、MACD_12_26_9、RSI），省略时返回默认指标
+   */
+  public async getIndicators(
+    marketInstanceId: string,
+    symbol: string,
+    options: { granularity?: string; names?: string[]; limit?: number } = {}
+  ): Promise<IndicatorResponse> {
+    try {
+      const response: AxiosResponse<ApiResponse<IndicatorResponse>> = await this.api.get(
+        `/market-instances/${marketInstanceId}/stocks/${encodeURIComponent(symbol)}/indicators`,
+        {
+          params: {
+            granularity: options.granularity,
+            names: options.names?.join(','),
+            limit: options.limit
+          }
+        }
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to get indicators');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to get indicators:', error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * 获取市场指数行情
+   */
+  public async getMarketIndex(marketInstanceId: string): Promise<MarketIndexSnapshot> {
+    try {
+      const response: AxiosResponse<ApiResponse<MarketIndexSnapshot>> = await this.api.get(
+        `/market-instances/${marketInstanceId}/index`
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to get market index');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to get market index:', error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * 获取市场指数 K 线
+   */
+  public async getIndexKLine(
+    marketInstanceId: string,
+    options: { granularity?: string; startTime?: string; endTime?: string; limit?: number } = {}
+  ): Promise<KLineResponse> {
+    try {
+      const response: AxiosResponse<ApiResponse<KLineResponse>> = await this.api.get(
+        `/market-instances/${marketInstanceId}/index/kline`,
+        {
+          params: options
+        }
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to get market index K-line data');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to get market index K-line data:', error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * 获取剧本进度
+   */
+  public async getScenario(marketInstanceId: string): Promise<ScenarioStatus> {
+    try {
+      const response: AxiosResponse<ApiResponse<ScenarioStatus>> = await this.api.get(
+        `/market-instances/${marketInstanceId}/scenario`
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to get scenario');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to get scenario:', error);
+      throw this.handleApiError(error);
+    }
+  }
+
+  /**
+   * 附加剧本（替换已附加的剧本）
+   */
+  public async attachScenario(marketInstanceId: string, scenario: MarketScenario): Promise<ScenarioStatus> {
+    try {
+      const response: AxiosResponse<ApiResponse<ScenarioStatus>> = await this.api.post(
+        `/market-instances/${marketInstanceId}/scenario`,
+        scenario
+      );
+
+      if (!response.data.success) {
+        throw new Error(response.data.error?.message || 'Failed to attach scenario');
+      }
+
+      return response.data.data;
+    } catch (error) {
+      console.error('Failed to attach scenario:', error);
+      throw this.handleApiError(error);
+    }
+  }
+
+
+
+  /**
+   * 订阅市场实例事件流（Server-Sent Events）
+   * 推送创建进度、市场实例创建完成和销毁事件；指定 requestId 时只接收该创建请求的事件
+   *
+   * @returns 关闭事件流的函数
+   */
+  public subscribeMarketInstanceEvents(
+    handlers: MarketInstanceEventHandlers,
+    options?: { requestId?: string }
+  ): () => void {
+    const query = options?.requestId ? `?requestId=${encodeURIComponent(options.requestId)}` : '';
+    const source = new EventSource(`${this.baseURL}/market-instances/events${query}`);
+
+    source.addEventListener(MarketInstanceEventType.PROGRESS, (event) => {
+      const progress: CreationProgress = JSON.parse((event as MessageEvent).data);
+      handlers.onProgress?.(this.enhanceProgressData(progress));
+    });
+    source.addEventListener(MarketInstanceEventType.CREATED, (event) => {
+      handlers.onCreated?.(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener(MarketInstanceEventType.DESTROYED, (event) => {
+      handlers.onDestroyed?.(JSON.parse((event as MessageEvent).data));
+    });
+    source.onerror = () => {
+      handlers.onError?.(source.readyState === EventSource.CLOSED);
+    };
+
+    return () => source.close();
+  }
+
+  /**
+   * 跟踪创建进度
+   * 优先使用事件流；浏览器不支持或事件流无法建立时回退为轮询
+   */
+  public watchCreationProgress(
+    requestId: string,
+    onProgress: (progress: CreationProgress) => void,
+    options?: {
+      signal?: AbortSignal;
+    }
+  ): Promise<CreationProgress> {
+    const signal = options?.signal;
+
+    if (typeof EventSource === 'undefined') {
+      return this.pollCreationProgress(requestId, onProgress, { signal });
+    }
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+
+      const finish = (action: () => void) => {
+        if (settled) return;
+        settled = true;
+        close();
+        signal?.removeEventListener('abort', handleAbort);
+        action();
+      };
+
+      const handleAbort = () => finish(() => reject(new Error('Progress tracking cancelled')));
+
+      const close = this.subscribeMarketInstanceEvents({
+        onProgress: (progress) => {
+          onProgress(progress);
+
+          if (progress.stage === 'COMPLETE') {
+            finish(() => resolve(progress));
+          } else if (progress.stage === 'ERROR') {
+            finish(() => reject(new Error(progress.error?.message || 'Market instance creation failed')));
+          }
+        },
+        onError: (closed) => {
+          // 连接中断时浏览器会自动重连；事件流无法建立时改为轮询
+          if (closed) {
+            finish(() => {
+              console.warn('Progress event stream unavailable, falling back to polling');
+              this.pollCreationProgress(requestId, onProgress, { signal }).then(resolve, reject);
+            });
+          }
+        }
+      }, { requestId });
 
+      if (signal?.aborted) {
+        handleAbort();
+      } else {
+        signal?.addEventListener('abort', handleAbort);
+      }
+    });
+  }
 
   /**
-   * 轮询创建进度
+   * 轮询创建进度（事件流不可用时的回退方式）
    */
   public async pollCreationProgress(
     requestId: string,
@@ -309,14 +563,20 @@ export class MarketInstanceApiClient {
     options?: {
       intervalMs?: number;
       maxAttempts?: number;
+      signal?: AbortSignal;
     }
   ): Promise<CreationProgress> {
-    const { intervalMs = 2000, maxAttempts = 150 } = options || {}; // 默认2秒间隔，最多5分钟
+    const { intervalMs = 2000, maxAttempts = 150, signal } = options || {}; // 默认2秒间隔，最多5分钟
     let attempts = 0;
 
     return new Promise((resolve, reject) => {
       const poll = async () => {
         try {
+          if (signal?.aborted) {
+            reject(new Error('Progress tracking cancelled'));
+            return;
+          }
+
           attempts++;
           const progress = await this.getCreationProgress(requestId);
           
@@ -469,8 +729,8 @@ export const MarketInstanceService = {
   /**
    * 监控创建进度
    */
-  async monitorCreation(requestId: string, onProgress: (progress: CreationProgress) => void) {
-    return marketInstanceApi.pollCreationProgress(requestId, onProgress);
+  async monitorCreation(requestId: string, onProgress: (progress: CreationProgress) => void, signal?: AbortSignal) {
+    return marketInstanceApi.watchCreationProgress(requestId, onProgress, { signal });
   },
 
   /**
@@ -487,6 +747,48 @@ export const MarketInstanceService = {
     return marketInstanceApi.exportMarketInstance(marketInstanceId);
   },
 
+  /**
+   * 获取股票分时数据
+   */
+  async getIntraday(marketInstanceId: string, symbol: string, days: 1 | 5 = 1) {
+    return marketInstanceApi.getIntraday(marketInstanceId, symbol, days);
+  },
+
+  /**
+   * 获取股票技术指标
+   */
+  async getIndicators(marketInstanceId: string, symbol: string, options: { granularity?: string; names?: string[]; limit?: number } = {}) {
+    return marketInstanceApi.getIndicators(marketInstanceId, symbol, options);
+  },
+
+  /**
+   * 获取市场指数行情
+   */
+  async getMarketIndex(marketInstanceId: string) {
+    return marketInstanceApi.getMarketIndex(marketInstanceId);
+  },
+
+  /**
+   * 获取市场指数 K 线
+   */
+  async getIndexKLine(marketInstanceId: string, options: { granularity?: string; startTime?: string; endTime?: string; limit?: number } = {}) {
+    return marketInstanceApi.getIndexKLine(marketInstanceId, options);
+  },
+
+  /**
+   * 获取剧本进度
+   */
+  async getScenario(marketInstanceId: string) {
+    return marketInstanceApi.getScenario(marketInstanceId);
+  },
+
+  /**
+   * 附加剧本
+   */
+  async attachScenario(marketInstanceId: string, scenario: MarketScenario) {
+    return marketInstanceApi.attachScenario(marketInstanceId, scenario);
+  },
+
   /**
    * 下载导出文件
    */
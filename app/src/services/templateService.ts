@@ -39,6 +39,26 @@ interface StockTemplateData {
   category?: string
   description?: string
   status?: 'active' | 'inactive'
+  /** 价格模型，省略时使用默认随机游走，更新时为 null 恢复默认 */
+  priceModel?: PriceModelConfig | null
+  /** 对市场因子和行业因子的 β（默认均为 1），更新时为 null 恢复默认 */
+  factorExposure?: { marketBeta?: number; sectorBeta?: number } | null
+}
+
+// 价格模型配置接口
+interface PriceModelConfig {
+  type: 'random_walk' | 'gbm' | 'ou' | 'jump_diffusion' | 'garch'
+  /** 模型参数，省略的参数使用默认值 */
+  params?: Record<string, number>
+}
+
+// 种子历史导入数据接口
+interface SeedHistoryImportData {
+  /** K线导出文件（对象或JSON文本）、分时导出文件或CSV文本 */
+  content: string | Record<string, any>
+  format?: 'kline' | 'trends' | 'csv'
+  volumeUnit?: 'lot' | 'share'
+  maxBars?: number
 }
 
 // AI交易员模板数据接口
@@ -156,6 +176,52 @@ class TemplateService {
     }
   }
 
+  /**
+   * 导入股票模板的种子历史（替换已有的种子历史）
+   * @param id - 模板ID
+   * @param importData - 导入内容和选项
+   * @returns 种子历史摘要
+   */
+  async importStockSeedHistory(id: ID, importData: SeedHistoryImportData): Promise<any> {
+    try {
+      const response = await apiService.post(`${this.baseURL}/stocks/${id}/seed-history`, importData)
+      return response
+    } catch (error) {
+      console.error('导入种子历史失败:', error)
+      throw this._handleError(error)
+    }
+  }
+
+  /**
+   * 获取股票模板的种子历史
+   * @param id - 模板ID
+   * @returns 种子历史（含日K线）
+   */
+  async getStockSeedHistory(id: ID): Promise<any> {
+    try {
+      const response = await apiService.get(`${this.baseURL}/stocks/${id}/seed-history`)
+      return response
+    } catch (error) {
+      console.error('获取种子历史失败:', error)
+      throw this._handleError(error)
+    }
+  }
+
+  /**
+   * 删除股票模板的种子历史
+   * @param id - 模板ID
+   * @returns 删除结果
+   */
+  async deleteStockSeedHistory(id: ID): Promise<any> {
+    try {
+      const response = await apiService.delete(`${this.baseURL}/stocks/${id}/seed-history`)
+      return response
+    } catch (error) {
+      console.error('删除种子历史失败:', error)
+      throw this._handleError(error)
+    }
+  }
+
   // ==================== AI交易员模板服务 ====================
 
   /**
@@ -0,0 +1,322 @@
+/**
+ * 实时行情 WebSocket Pinia Store
+ * 管理行情推送连接、按市场实例和股票的订阅，以及各股票的最新价
+ *
+ * 连接断开后按指数退避自动重连，重连成功后重新发送全部订阅；
+ * 成交回报和 K 线收盘通过 onMessage 分发给组件
+ */
+
+import { defineStore } from 'pinia';
+import { API_ENDPOINTS } from '@shared/api';
+import type { MarketStreamClientMessage, MarketStreamServerMessage } from '@shared/marketStream';
+import { apiConfig } from '../config/api';
+import type { MarketStreamSubscription, WebSocketState } from '../types/stores';
+
+// 重连间隔（毫秒）
+const RECONNECT_BASE_DELAY = 1000;
+const RECONNECT_MAX_DELAY = 30000;
+
+// 连接和监听器不放入 state，避免被转换为响应式对象
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+let manualClose = false;
+
+const messageHandlers = new Set<(message: MarketStreamServerMessage) => void>();
+const errorHandlers = new Set<(error: Error) => void>();
+const connectHandlers = new Set<() => void>();
+const disconnectHandlers = new Set<() => void>();
+
+/**
+ * 根据 API 地址生成行情推送地址（http -> ws，https -> wss）
+ */
+const buildStreamUrl = (): string => {
+  const baseURL = apiConfig.baseURL || window.location.origin;
+  return baseURL.replace(/^http/, 'ws').replace(/\/$/, '') + API_ENDPOINTS.MARKET_INSTANCES.STREAM;
+};
+
+/**
+ * 最新价键
+ */
+const tickKey = (instanceId: string, symbol: string): string => `${instanceId}:${symbol}`;
+
+/**
+ * 注册监听器并返回取消函数
+ */
+const addHandler = <T>(handlers: Set<T>, handler: T): (() => void) => {
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
+  };
+};
+
+export const useWebSocketStore = defineStore('websocket', {
+  state: (): WebSocketState => ({
+    connected: false,
+    reconnecting: false,
+    subscriptions: {},
+    ticks: {},
+    error: null
+  }),
+
+  getters: {
+    /**
+     * 获取股票最新价
+     */
+    getTick: (state) => {
+      return (instanceId: string, symbol: string) => state.ticks[tickKey(instanceId, symbol)] ?? null;
+    },
+
+    /**
+     * 是否已订阅市场实例
+     */
+    isSubscribed: (state) => {
+      return (instanceId: string) => instanceId in state.subscriptions;
+    }
+  },
+
+  actions: {
+    /**
+     * 建立连接（已连接或正在连接时无操作）
+     */
+    connect(): void {
+      if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+        return;
+      }
+
+      manualClose = false;
+      const ws = new WebSocket(buildStreamUrl());
+      socket = ws;
+
+      ws.onopen = () => {
+        this.connected = true;
+        this.reconnecting = false;
+        this.error = null;
+        reconnectAttempts = 0;
+
+        // 重新发送全部订阅
+        Object.entries(this.subscriptions).forEach(([instanceId, subscription]) => {
+          this.sendSubscribe(instanceId, subscription);
+        });
+
+        connectHandlers.forEach(handler => handler());
+      };
+
+      ws.onmessage = (event: MessageEvent) => {
+        let message: MarketStreamServerMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          console.error('❌ Invalid market stream message:', event.data);
+          return;
+        }
+        this.handleMessage(message);
+      };
+
+      ws.onerror = () => {
+        const error = new Error('Market stream connection error');
+        this.error = error.message;
+        errorHandlers.forEach(handler => handler(error));
+      };
+
+      ws.onclose = () => {
+        if (socket === ws) {
+          socket = null;
+        }
+        const wasConnected = this.connected;
+        this.connected = false;
+
+        if (wasConnected) {
+          disconnectHandlers.forEach(handler => handler());
+        }
+        if (!manualClose) {
+          this.scheduleReconnect();
+        }
+      };
+    },
+
+    /**
+     * 主动断开连接（不再重连，保留订阅以便再次连接时恢复）
+     */
+    disconnect(): void {
+      manualClose = true;
+      this.reconnecting = false;
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      socket?.close(1000, 'Client disconnect');
+      socket = null;
+      this.connected = false;
+    },
+
+    /**
+     * 订阅市场实例中的股票（未指定股票时订阅全部股票），未连接时在连接后发送
+     */
+    subscribe(instanceId: string, symbols?: string[], granularities?: string[]): void {
+      const existing = this.subscriptions[instanceId];
+      const subscription: MarketStreamSubscription = {
+        symbols: !symbols || (existing && existing.symbols === null)
+          ? null
+          : Array.from(new Set([...(existing?.symbols ?? []), ...symbols])),
+        granularities: Array.from(new Set([...(existing?.granularities ?? []), ...(granularities ?? [])]))
+      };
+      if (subscription.symbols === null && symbols && existing?.excludedSymbols) {
+        subscription.excludedSymbols = existing.excludedSymbols.filter(symbol => !symbols.includes(symbol));
+      }
+      this.subscriptions[instanceId] = subscription;
+
+      if (this.connected) {
+        this.sendSubscribe(instanceId, { symbols: symbols ?? null, granularities: granularities ?? [] });
+      } else {
+        this.connect();
+      }
+    },
+
+    /**
+     * 退订市场实例中的股票（未指定股票时退订整个市场实例）
+     * 订阅全部股票且尚未收到订阅确认时，记录退订的股票，收到确认后从具体股票列表中移除
+     */
+    unsubscribe(instanceId: string, symbols?: string[]): void {
+      const subscription = this.subscriptions[instanceId];
+      if (!subscription) {
+        return;
+      }
+
+      if (!symbols) {
+        delete this.subscriptions[instanceId];
+      } else if (subscription.symbols) {
+        subscription.symbols = subscription.symbols.filter(symbol => !symbols.includes(symbol));
+        if (subscription.symbols.length === 0) {
+          delete this.subscriptions[instanceId];
+        }
+      } else {
+        subscription.excludedSymbols = Array.from(new Set([...(subscription.excludedSymbols ?? []), ...symbols]));
+      }
+      this.clearTicks(instanceId, symbols);
+
+      if (this.connected) {
+        this.send({ action: 'unsubscribe', instanceId, symbols });
+      }
+    },
+
+    /**
+     * 发送客户端消息
+     */
+    send(message: MarketStreamClientMessage): void {
+      if (socket && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      }
+    },
+
+    onMessage(handler: (message: MarketStreamServerMessage) => void): () => void {
+      return addHandler(messageHandlers, handler);
+    },
+
+    onError(handler: (error: Error) => void): () => void {
+      return addHandler(errorHandlers, handler);
+    },
+
+    onConnect(handler: () => void): () => void {
+      return addHandler(connectHandlers, handler);
+    },
+
+    onDisconnect(handler: () => void): () => void {
+      return addHandler(disconnectHandlers, handler);
+    },
+
+    // ==================== 内部方法 ====================
+
+    /**
+     * 处理服务端消息
+     */
+    handleMessage(message: MarketStreamServerMessage): void {
+      switch (message.type) {
+        case 'tick':
+          this.ticks[tickKey(message.data.instanceId, message.data.symbol)] = message.data;
+          break;
+        case 'subscribed':
+          this.resolveSubscription(message.instanceId, message.symbols);
+          break;
+        case 'instance_closed':
+          delete this.subscriptions[message.instanceId];
+          this.clearTicks(message.instanceId);
+          break;
+        case 'error':
+          this.error = message.message;
+          console.error(`❌ Market stream error [${message.code}]:`, message.message);
+          // 订阅的市场实例不存在时移除该订阅，避免重连后反复失败
+          if (message.code === 'MARKET_INSTANCE_NOT_FOUND' && message.instanceId) {
+            delete this.subscriptions[message.instanceId];
+          }
+          break;
+      }
+
+      messageHandlers.forEach(handler => handler(message));
+    },
+
+    /**
+     * 订阅全部股票收到确认后，以确认的具体股票列表替换本地订阅，
+     * 之后按股票退订和重连重新订阅都基于该列表；确认前已退订的股票重新发送退订
+     */
+    resolveSubscription(instanceId: string, symbols: string[]): void {
+      const subscription = this.subscriptions[instanceId];
+      if (!subscription || subscription.symbols !== null) {
+        return;
+      }
+
+      const excluded = subscription.excludedSymbols ?? [];
+      subscription.symbols = symbols.filter(symbol => !excluded.includes(symbol));
+      delete subscription.excludedSymbols;
+      if (subscription.symbols.length === 0) {
+        delete this.subscriptions[instanceId];
+      }
+
+      const resent = symbols.filter(symbol => excluded.includes(symbol));
+      if (resent.length > 0) {
+        this.send({ action: 'unsubscribe', instanceId, symbols: resent });
+      }
+    },
+
+    /**
+     * 发送订阅消息
+     */
+    sendSubscribe(instanceId: string, subscription: MarketStreamSubscription): void {
+      this.send({
+        action: 'subscribe',
+        instanceId,
+        symbols: subscription.symbols ?? undefined,
+        granularities: subscription.granularities.length > 0 ? subscription.granularities : undefined
+      });
+    },
+
+    /**
+     * 清除市场实例（或其中部分股票）的最新价
+     */
+    clearTicks(instanceId: string, symbols?: string[]): void {
+      Object.entries(this.ticks).forEach(([key, tick]) => {
+        if (tick.instanceId === instanceId && (!symbols || symbols.includes(tick.symbol))) {
+          delete this.ticks[key];
+        }
+      });
+    },
+
+    /**
+     * 按指数退避安排重连
+     */
+    scheduleReconnect(): void {
+      if (reconnectTimer) {
+        return;
+      }
+
+      const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY);
+      reconnectAttempts++;
+      this.reconnecting = true;
+
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        this.connect();
+      }, delay);
+    }
+  }
+});
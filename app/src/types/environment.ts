@@ -15,9 +15,39 @@ export type {
   CreateMarketInstanceRequest,
   CreateMarketInstanceResponse,
   MarketInstanceExport,
-  MarketInstanceSummary
+  MarketInstanceSummary,
+  MarketInstanceCreatedEvent,
+  MarketInstanceDestroyedEvent
 } from '../../../shared/types/marketInstance';
 
+export type {
+  KLineMetadata,
+  KLineResponse,
+  TimeSharePoint,
+  TimeShareResponse
+} from '../../../shared/types/kline';
+
+export type {
+  MarketIndexWeighting,
+  MarketIndexSnapshot
+} from '../../../shared/types/marketIndex';
+
+export type {
+  ScenarioEventType,
+  ScenarioEvent,
+  MarketScenario,
+  ScenarioEventStatus,
+  ScenarioEventProgress,
+  TradingHaltState,
+  ScenarioStatus
+} from '../../../shared/types/marketScenario';
+
+export type {
+  IndicatorPoint,
+  IndicatorSeries,
+  IndicatorResponse
+} from '../../../shared/types/indicator';
+
 // 导入类型用于本地使用
 import type {
   MarketInstanceStatus,
@@ -3,6 +3,7 @@ import type { User, UserPreferences } from '@shared/auth'
 import type { Portfolio, Position, PortfolioPerformance } from '@shared/portfolio'
 import type { Trade, TradeOrder, MarketData } from '@shared/trading'
 import type { Stock, MarketEnvironment } from '@shared/market'
+import type { MarketStreamClientMessage, MarketStreamServerMessage, MarketTick } from '@shared/marketStream'
 
 // Pinia Store 类型定义
 
@@ -294,25 +295,35 @@ export interface AppActions {
 }
 
 // ========== WebSocket Store ==========
+// 单个市场实例的行情订阅（symbols 为 null 表示订阅全部股票，收到订阅确认后替换为具体股票列表）
+export interface MarketStreamSubscription {
+  symbols: string[] | null
+  granularities: string[]
+  // 订阅全部股票后、收到订阅确认前退订的股票
+  excludedSymbols?: string[]
+}
+
 export interface WebSocketState {
   connected: boolean
   reconnecting: boolean
-  subscriptions: Set<string>
+  subscriptions: Record<string, MarketStreamSubscription>
+  // 最新价，键为 `${instanceId}:${symbol}`
+  ticks: Record<string, MarketTick>
   error: string | null
 }
 
 export interface WebSocketActions {
   connect(): void
   disconnect(): void
-  subscribe(channel: string): void
-  unsubscribe(channel: string): void
-  send(message: any): void
+  subscribe(instanceId: string, symbols?: string[], granularities?: string[]): void
+  unsubscribe(instanceId: string, symbols?: string[]): void
+  send(message: MarketStreamClientMessage): void
   
-  // 事件处理
-  onMessage(handler: (data: any) => void): void
-  onError(handler: (error: Error) => void): void
-  onConnect(handler: () => void): void
-  onDisconnect(handler: () => void): void
+  // 事件处理（返回取消监听的函数）
+  onMessage(handler: (message: MarketStreamServerMessage) => void): () => void
+  onError(handler: (error: Error) => void): () => void
+  onConnect(handler: () => void): () => void
+  onDisconnect(handler: () => void): () => void
 }
 
 // ========== Store 类型联合 ==========
@@ -12,6 +12,10 @@ import errorHandler from './middleware/errorHandler'
 import { createRoutes } from './routes/index'
 import healthRoutes from './routes/healthRoutes'
 import { LifecycleManagerService } from './services/lifecycleManagerService'
+import tradeHistoryService from './services/tradeHistoryService'
+import barHistoryService from './services/barHistoryService'
+import marketStreamService from './services/marketStreamService'
+import gameInstanceController from './controllers/gameInstanceController'
 
 // 加载环境变量
 dotenv.config()
@@ -95,7 +99,7 @@ async function startServer(): Promise<void> {
     // 错误处理中间件
     app.use(errorHandler)
     
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log('\n🎉 Server started successfully!')
       console.log('━'.repeat(50))
       console.log(`📡 Server running on port: ${PORT}`)
@@ -104,9 +108,13 @@ async function startServer(): Promise<void> {
       console.log(`📊 Detailed health: http://localhost:${PORT}/health/detailed`)
       console.log(`🔗 API base URL: http://localhost:${PORT}/api/v1`)
       console.log(`📚 API info: http://localhost:${PORT}/api/v1`)
+      console.log(`📈 Market stream: ws://localhost:${PORT}/api/v1/market-instances/stream`)
       console.log('━'.repeat(50))
       console.log('💡 Press Ctrl+C to stop the server')
     })
+
+    // 实时行情 WebSocket 端点
+    marketStreamService.attach(server, gameInstanceController)
   } catch (error: any) {
     console.error('❌ Failed to start server:', error.message)
     console.error('💥 Error details:', error)
@@ -126,6 +134,13 @@ async function gracefulShutdown(): Promise<void> {
       console.error('❌ Error during lifecycle shutdown:', error.message)
     }
   }
+
+  // 关闭实时行情连接
+  await marketStreamService.shutdown()
+
+  // 写入缓冲区中剩余的成交历史和 K 线历史
+  await tradeHistoryService.shutdown()
+  await barHistoryService.shutdown()
   
   process.exit(0)
 }
@@ -7,11 +7,23 @@
 import { WorkerThreadPoolService } from '../services/workerThreadPoolService';
 import { CreationProgress, CreationStage } from '../../../shared/types/progress';
 import { MarketInstancePreview, MarketInstanceDetails, MarketInstanceStatus } from '../../../shared/types/marketInstance';
-import { EnvironmentManagerEvents } from '../types/eventTypes';
+import { EnvironmentManagerEvents, ExchangeEvents } from '../types/eventTypes';
 import { MarketTemplateRequest, MarketTemplateResponse } from '../workers/types/business/marketTemplate';
 import { TaskType, TaskCallback, TaskError } from '../workers/types/worker/genericTask';
 import { TypedEventEmitter } from '../types/typedEventEmitter';
 import { ExchangeInstance } from '../models/runtime/exchangeInstance';
+import { OrderRequest, OrderAmendment, OrderQuery, OrderSubmitResult } from '../types/orderBook';
+import { LedgerSnapshot } from '../types/traderLedger';
+import { JournalPage, JournalQuery } from '../types/exchangeJournal';
+import { KLineQuery, KLineResponse, TimeShareResponse } from '../types/kline';
+import type { MarketIndexSnapshot } from '../types/marketIndex';
+import type { MarketScenario, ScenarioStatus } from '../types/marketScenario';
+import { IndicatorQuery, IndicatorResponse } from '../types/indicator';
+import { MatchedTrade } from '../types/orderBook';
+import { TradeHistoryQuery, TradeHistoryRecord, createTradeHistoryRecord } from '../types/tradeHistory';
+import tradeHistoryService from '../services/tradeHistoryService';
+import barHistoryService from '../services/barHistoryService';
+import { TradeOrder } from '../../../shared/types/trading';
 
 /**
  * 环境创建请求
@@ -21,6 +33,8 @@ export interface MarketInstanceCreationRequest {
   templateId: string;
   userId: string;
   customName?: string;
+  /** 随机种子（省略时由交易所实例生成） */
+  seed?: number;
 }
 
 /**
@@ -98,7 +112,8 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
   public createMarketInstance(
     templateId: string,
     userId: string,
-    customName?: string
+    customName?: string,
+    seed?: number
   ): string {
     const requestId = `env_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
@@ -107,7 +122,8 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
       requestId,
       templateId,
       userId,
-      customName
+      customName,
+      seed
     };
 
     this.creationRequests.set(requestId, request);
@@ -180,6 +196,10 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
       // 注册市场实例
       this.activeMarketInstances.set(marketInstanceRef.id, marketInstanceRef);
 
+      // 持久化成交历史和 K 线历史
+      this.attachTradeHistory(marketInstanceRef);
+      this.attachBarHistory(marketInstanceRef);
+
       // 完成创建
       this.updateProgress(requestId, CreationStage.COMPLETE, 100, 'Environment created successfully');
 
@@ -222,7 +242,9 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
       const exchangeInstance = gameObjectManager.createObject(ExchangeInstance, {
         templateId: templateData.exchange._id,
         name: request.customName || templateData.exchange.name,
-        description: templateData.exchange.description
+        description: templateData.exchange.description,
+        seed: request.seed,
+        scenario: templateData.exchange.scenario
       });
 
       // 创建股票实例
@@ -233,17 +255,24 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
           companyName: stockTemplate.companyName,
           category: stockTemplate.category,
           issuePrice: stockTemplate.issuePrice,
-          totalShares: stockTemplate.totalShares
+          totalShares: stockTemplate.totalShares,
+          seedHistory: stockTemplate.seedHistory,
+          priceModel: stockTemplate.priceModel,
+          factorExposure: stockTemplate.factorExposure
         });
       });
 
       // 创建交易员实例
       const traderInstances = templateData.traders.map((traderTemplate: any) => {
-        return gameObjectManager.createObject(AITraderInstance, {
+        return gameObjectManager.createObject(AITraderInstance, exchangeInstance, {
           templateId: traderTemplate._id,
           name: traderTemplate.name,
           riskProfile: traderTemplate.riskProfile,
-          initialCapital: traderTemplate.initialCapital
+          initialCapital: traderTemplate.initialCapital,
+          tradingStyle: traderTemplate.tradingStyle,
+          maxPositions: traderTemplate.maxPositions,
+          parameters: traderTemplate.parameters,
+          holdings: traderTemplate.holdings
         });
       });
 
@@ -412,34 +441,52 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
     const userMarketInstances = Array.from(this.activeMarketInstances.values())
       .filter(env => env.userId === userId);
 
-    return userMarketInstances.map(env => {
-      // 从实际 GameObject 实例获取统计信息
-      let statistics = {
-        traderCount: 0,
-        stockCount: 0,
-        totalCapital: 0,
-        averageCapitalPerTrader: 0
-      };
+    return userMarketInstances.map(env => this.createMarketInstancePreview(env));
+  }
 
-      if (env.exchangeInstance) {
-        const summary = env.exchangeInstance.getMarketInstanceSummary();
-        statistics = summary.statistics;
-      }
+  /**
+   * 获取单个环境的预览信息
+   */
+  public getMarketInstancePreview(marketInstanceId: string, userId: string): MarketInstancePreview | null {
+    const marketInstance = this.activeMarketInstances.get(marketInstanceId);
 
-      return {
-        exchangeId: env.id,
-        name: env.name,
-        description: `Environment created from template ${env.templateId}`,
-        status: env.status,
-        createdAt: env.createdAt,
-        lastActiveAt: env.lastActiveAt,
-        statistics,
-        templateInfo: {
-          templateId: env.templateId,
-          templateName: `Template ${env.templateId}`
-        }
-      };
-    });
+    if (!marketInstance || marketInstance.userId !== userId) {
+      return null;
+    }
+
+    return this.createMarketInstancePreview(marketInstance);
+  }
+
+  /**
+   * 创建环境预览信息
+   */
+  private createMarketInstancePreview(env: MarketInstanceReference): MarketInstancePreview {
+    // 从实际 GameObject 实例获取统计信息
+    let statistics = {
+      traderCount: 0,
+      stockCount: 0,
+      totalCapital: 0,
+      averageCapitalPerTrader: 0
+    };
+
+    if (env.exchangeInstance) {
+      const summary = env.exchangeInstance.getMarketInstanceSummary();
+      statistics = summary.statistics;
+    }
+
+    return {
+      exchangeId: env.id,
+      name: env.name,
+      description: `Environment created from template ${env.templateId}`,
+      status: env.status,
+      createdAt: env.createdAt,
+      lastActiveAt: env.lastActiveAt,
+      statistics,
+      templateInfo: {
+        templateId: env.templateId,
+        templateName: `Template ${env.templateId}`
+      }
+    };
   }
 
   /**
@@ -465,6 +512,8 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
         status: marketInstance.status,
         createdAt: marketInstance.createdAt,
         lastActiveAt: marketInstance.lastActiveAt,
+        seed: summary.seed,
+        marketIndex: marketInstance.exchangeInstance.getMarketIndex() ?? undefined,
         statistics: summary.statistics,
         templateInfo: {
           templateId: marketInstance.templateId,
@@ -547,6 +596,9 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
       // 从活跃市场实例中移除
       this.activeMarketInstances.delete(marketInstanceId);
 
+      // 写入剩余成交历史和 K 线历史（失败的批次留在缓冲区等待重试）
+      await Promise.all([tradeHistoryService.flush(), barHistoryService.flush()]);
+
       // 发出市场实例销毁事件
       this.broadcast(EnvironmentManagerEvents.ENVIRONMENT_DESTROYED, {
         environmentId: marketInstanceId,
@@ -566,6 +618,13 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
     return this.progressTracking.get(requestId) || null;
   }
 
+  /**
+   * 获取创建请求所属用户（请求完成或失败并清理后返回 null）
+   */
+  public getCreationRequestOwner(requestId: string): string | null {
+    return this.creationRequests.get(requestId)?.userId ?? null;
+  }
+
   /**
    * 导出市场实例状态
    */
@@ -616,6 +675,182 @@ export class GameInstanceController extends TypedEventEmitter<GameInstanceContro
     }
   }
 
+  /**
+   * 提交订单
+   * @throws OrderError 如果订单被拒绝
+   */
+  public submitOrder(marketInstanceId: string, userId: string, request: OrderRequest): OrderSubmitResult {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).submitOrder(request);
+  }
+
+  /**
+   * 修改订单
+   * @throws OrderError 如果订单不存在、已终结或改单内容无效
+   */
+  public amendOrder(marketInstanceId: string, userId: string, orderId: string, amendment: OrderAmendment): OrderSubmitResult {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).amendOrder(orderId, amendment);
+  }
+
+  /**
+   * 撤销订单
+   * @throws OrderError 如果订单不存在或已终结
+   */
+  public cancelOrder(marketInstanceId: string, userId: string, orderId: string): TradeOrder {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).cancelOrder(orderId);
+  }
+
+  /**
+   * 获取订单
+   */
+  public getOrder(marketInstanceId: string, userId: string, orderId: string): TradeOrder | null {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getOrder(orderId);
+  }
+
+  /**
+   * 查询订单
+   */
+  public getOrders(marketInstanceId: string, userId: string, query: OrderQuery): TradeOrder[] {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getOrders(query);
+  }
+
+  /**
+   * 获取交易员账本快照
+   */
+  public getTraderPortfolio(marketInstanceId: string, userId: string, traderId: string): LedgerSnapshot | null {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getTraderPortfolio(traderId);
+  }
+
+  /**
+   * 查询交易日志（交易所事件日志，最新的在前）
+   */
+  public getTradingLogs(marketInstanceId: string, userId: string, query: JournalQuery): JournalPage {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).queryJournal(query);
+  }
+
+  /**
+   * 查询股票 K 线（包含正在形成的 K 线）
+   */
+  public async getKLine(marketInstanceId: string, userId: string, symbol: string, query: KLineQuery): Promise<KLineResponse | null> {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getKLine(symbol, query);
+  }
+
+  /**
+   * 获取市场指数行情快照
+   */
+  public getMarketIndex(marketInstanceId: string, userId: string): MarketIndexSnapshot | null {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getMarketIndex();
+  }
+
+  /**
+   * 查询市场指数 K 线（包含正在形成的 K 线）
+   */
+  public async getIndexKLine(marketInstanceId: string, userId: string, query: KLineQuery): Promise<KLineResponse | null> {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getIndexKLine(query);
+  }
+
+  /**
+   * 获取剧本进度
+   */
+  public getScenario(marketInstanceId: string, userId: string): ScenarioStatus | null {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getScenarioStatus();
+  }
+
+  /**
+   * 为运行中的市场实例附加剧本（替换已附加的剧本）
+   * @throws ScenarioError 剧本无效时
+   */
+  public attachScenario(marketInstanceId: string, userId: string, scenario: MarketScenario): ScenarioStatus | null {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).attachScenario(scenario);
+  }
+
+  /**
+   * 查询股票分时数据（当日或最近五个交易日）
+   */
+  public async getTimeShare(marketInstanceId: string, userId: string, symbol: string, days: number): Promise<TimeShareResponse | null> {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getTimeShare(symbol, days);
+  }
+
+  /**
+   * 查询股票技术指标（基于已收盘的 K 线）
+   */
+  public getIndicators(marketInstanceId: string, userId: string, symbol: string, query: IndicatorQuery): IndicatorResponse | null {
+    return this.getOwnedExchangeInstance(marketInstanceId, userId).getIndicators(symbol, query);
+  }
+
+  /**
+   * 查询成交历史（从数据库读取，市场实例销毁后仍可查询）
+   * @throws Error 如果市场实例仍在运行但不属于该用户
+   * @throws AppError 如果数据库不可用
+   */
+  public async getTradeHistory(
+    marketInstanceId: string,
+    userId: string,
+    query: Omit<TradeHistoryQuery, 'exchangeId' | 'userId'>
+  ): Promise<TradeHistoryRecord[]> {
+    const marketInstance = this.activeMarketInstances.get(marketInstanceId);
+    if (marketInstance && marketInstance.userId !== userId) {
+      throw new Error('Market instance not found or access denied');
+    }
+
+    // 运行中的实例只返回本次创建的成交；已销毁的实例只返回该用户的成交，可按创建时间指定服务重启前的同 ID 实例
+    return tradeHistoryService.queryTrades({
+      ...query,
+      exchangeId: marketInstanceId,
+      userId,
+      instanceCreatedAt: marketInstance?.exchangeInstance.createdAt ?? query.instanceCreatedAt
+    });
+  }
+
+  /**
+   * 将市场实例的成交交给成交历史批量写入器
+   */
+  private attachTradeHistory(marketInstance: MarketInstanceReference): void {
+    const exchangeInstance = marketInstance.exchangeInstance;
+
+    exchangeInstance.bind(ExchangeEvents.TRADE_EXECUTED, (trade: MatchedTrade) => {
+      tradeHistoryService.recordTrade(createTradeHistoryRecord(trade, {
+        exchangeId: marketInstance.id,
+        instanceCreatedAt: exchangeInstance.createdAt,
+        userId: marketInstance.userId,
+        stockName: exchangeInstance.getStock(trade.symbol)?.companyName ?? trade.symbol,
+        buyerName: exchangeInstance.getTrader(trade.buyerId)?.name ?? trade.buyerId,
+        sellerName: exchangeInstance.getTrader(trade.sellerId)?.name ?? trade.sellerId
+      }));
+    });
+  }
+
+  /**
+   * 将市场实例时间序列关闭的窗口写入 K 线历史，并按保留规则从中读取较早的范围
+   * 数据库未连接时不附加存储，K 线全部保留在内存中
+   */
+  private attachBarHistory(marketInstance: MarketInstanceReference): void {
+    const exchangeInstance = marketInstance.exchangeInstance;
+
+    if (!barHistoryService.isAvailable()) {
+      console.warn(`[GameInstanceController] Database not connected, K-line history of market instance ${marketInstance.id} is kept in memory only`);
+      return;
+    }
+
+    exchangeInstance.getTimeSeriesManager().attachStore(barHistoryService.createStore({
+      exchangeId: marketInstance.id,
+      instanceCreatedAt: exchangeInstance.createdAt
+    }));
+  }
+
+  /**
+   * 获取用户拥有的交易所实例
+   * @throws Error 如果市场实例不存在或不属于该用户
+   */
+  public getOwnedExchangeInstance(marketInstanceId: string, userId: string): ExchangeInstance {
+    const marketInstance = this.activeMarketInstances.get(marketInstanceId);
+
+    if (!marketInstance || marketInstance.userId !== userId || !marketInstance.exchangeInstance) {
+      throw new Error('Market instance not found or access denied');
+    }
+
+    return marketInstance.exchangeInstance;
+  }
+
   /**
    * 序列化交易员实例
    */
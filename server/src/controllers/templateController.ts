@@ -7,6 +7,7 @@
 import { Request, Response, NextFunction } from 'express'
 import templateServiceModule from '../services/templateService'
 import { validators } from '../utils/validationUtils'
+import type { KLineSeedFormat, KLineSeedVolumeUnit } from '../types/klineSeed'
 
 const { stockTemplateService, aiTraderTemplateService, marketEnvironmentTemplateService } = templateServiceModule
 const { validateStockTemplate, validateTraderTemplate } = validators
@@ -87,6 +88,14 @@ interface StockTemplateRequest {
   [key: string]: any
 }
 
+// 种子历史导入请求体
+interface SeedHistoryImportRequest {
+  content: unknown
+  format?: KLineSeedFormat
+  volumeUnit?: KLineSeedVolumeUnit
+  maxBars?: number
+}
+
 // 交易员模板创建/更新请求体
 interface TraderTemplateRequest {
   name: string
@@ -263,6 +272,67 @@ class TemplateController {
     }
   }
 
+  /**
+   * 导入股票模板的种子历史
+   */
+  async importStockSeedHistory(req: Request<{ id: string }, {}, SeedHistoryImportRequest>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params
+      const { content, format, volumeUnit, maxBars } = req.body
+      const summary = await stockTemplateService.importSeedHistory(id, content, { format, volumeUnit, maxBars })
+
+      res.json({
+        success: true,
+        data: summary,
+        message: `已导入 ${summary.barCount} 根日K线`
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+
+  /**
+   * 获取股票模板的种子历史
+   */
+  async getStockSeedHistory(req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params
+      const history = await stockTemplateService.getSeedHistory(id)
+
+      if (!history) {
+        res.status(404).json({
+          success: false,
+          message: '股票模板没有种子历史'
+        })
+        return
+      }
+
+      res.json({
+        success: true,
+        data: history
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+
+  /**
+   * 删除股票模板的种子历史
+   */
+  async deleteStockSeedHistory(req: Request<{ id: string }>, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params
+      await stockTemplateService.clearSeedHistory(id)
+
+      res.json({
+        success: true,
+        message: '种子历史删除成功'
+      })
+    } catch (error) {
+      next(error)
+    }
+  }
+
   // ==================== AI交易员模板管理 ====================
 
   /**
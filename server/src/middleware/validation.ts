@@ -1,6 +1,8 @@
 import Joi from 'joi'
 import type { Request, Response, NextFunction } from 'express'
 import { ValidationError } from './errorHandler'
+import { PRICE_MODEL_TYPES } from '../types/priceModel'
+import { MAX_FACTOR_BETA } from '../types/marketFactor'
 
 // Validation detail interface
 export interface ValidationDetail {
@@ -80,6 +82,23 @@ export const commonSchemas = {
       'any.only': '股票分类必须是预定义的类型之一',
     }),
     status: Joi.string().valid('active', 'inactive').default('active'),
+    priceModel: Joi.object({
+      type: Joi.string().valid(...PRICE_MODEL_TYPES).required().messages({
+        'any.only': '价格模型必须是预定义的类型之一',
+        'any.required': '价格模型类型是必填项',
+      }),
+      params: Joi.object().pattern(Joi.string(), Joi.number()),
+    }).allow(null),
+    factorExposure: Joi.object({
+      marketBeta: Joi.number().min(-MAX_FACTOR_BETA).max(MAX_FACTOR_BETA).messages({
+        'number.min': `市场 β 不能小于 -${MAX_FACTOR_BETA}`,
+        'number.max': `市场 β 不能大于 ${MAX_FACTOR_BETA}`,
+      }),
+      sectorBeta: Joi.number().min(-MAX_FACTOR_BETA).max(MAX_FACTOR_BETA).messages({
+        'number.min': `行业 β 不能小于 -${MAX_FACTOR_BETA}`,
+        'number.max': `行业 β 不能大于 ${MAX_FACTOR_BETA}`,
+      }),
+    }).allow(null),
   }),
 
   // AI交易员模板验证
@@ -0,0 +1,102 @@
+import { Document, Model } from 'mongoose'
+import { BaseSchema, registerModel } from './index'
+import { Granularity } from '../types/timeSeries'
+import type { BarHistoryRecord } from '../types/barHistory'
+
+// 类型定义
+export interface IBarHistory extends BarHistoryRecord {
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Document 接口
+export interface IBarHistoryDocument extends IBarHistory, Document {}
+
+// Model 接口
+export interface IBarHistoryModel extends Model<IBarHistoryDocument> {}
+
+// K线历史Schema
+// 保留期按游戏时间的交易日计算，由时间序列管理器显式清理，不使用 TTL 索引
+const barHistorySchema = new BaseSchema<IBarHistoryDocument>({
+  // K线ID（全局唯一）
+  barId: {
+    type: String,
+    required: true,
+  },
+
+  // 市场实例
+  exchangeId: {
+    type: String,
+    required: true,
+  },
+  instanceCreatedAt: {
+    type: Date,
+    required: true,
+  },
+
+  // 序列和粒度
+  seriesId: {
+    type: String,
+    required: true,
+  },
+  granularity: {
+    type: String,
+    required: true,
+    enum: Object.values(Granularity),
+  },
+
+  // 时间窗口（游戏时间）
+  startTime: {
+    type: Date,
+    required: true,
+  },
+  endTime: {
+    type: Date,
+    required: true,
+  },
+
+  // 聚合值
+  open: {
+    type: Number,
+    required: true,
+  },
+  high: {
+    type: Number,
+    required: true,
+  },
+  low: {
+    type: Number,
+    required: true,
+  },
+  close: {
+    type: Number,
+    required: true,
+  },
+  volume: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  vwap: {
+    type: Number,
+  },
+  dataPointCount: {
+    type: Number,
+    required: true,
+    min: 0,
+  },
+}, {
+  collection: 'bar_history',
+})
+
+// 单字段索引
+barHistorySchema.index({ barId: 1 }, { unique: true })
+
+// 复合索引
+barHistorySchema.index({ exchangeId: 1, instanceCreatedAt: 1, seriesId: 1, granularity: 1, startTime: 1 }) // 范围查询
+barHistorySchema.index({ exchangeId: 1, instanceCreatedAt: 1, granularity: 1, endTime: 1 }) // 保留期清理
+
+// 注册模型
+const BarHistory = registerModel<IBarHistoryDocument>('BarHistory', barHistorySchema) as IBarHistoryModel
+
+export default BarHistory
@@ -4,6 +4,7 @@
  */
 
 import mongoose, { Document, Schema, Model } from 'mongoose'
+import { MarketScenario, validateScenario } from '../types/marketScenario'
 
 // 类型定义
 export interface IMarketStockHoldingTemplate {
@@ -70,6 +71,7 @@ export interface IMarketTemplate {
   totalMarketValue: number
   allocationAlgorithm: 'weighted_random' | 'equal_distribution' | 'risk_based'
   allocationSeed?: number
+  scenario?: MarketScenario | null
   statistics: IMarketStatisticsTemplate
   metadata: Record<string, any>
   version: string
@@ -398,6 +400,23 @@ const MarketEnvironmentSchema = new Schema<IMarketTemplateDocument, IMarketTempl
       message: '随机种子必须为整数'
     }
   },
+  // 市场剧本（事件结构多样，按 validateScenario 校验）
+  scenario: {
+    type: Schema.Types.Mixed,
+    default: undefined,
+    validate: {
+      validator: (scenario: MarketScenario | null) => {
+        if (!scenario) return true
+        try {
+          validateScenario(scenario)
+          return true
+        } catch {
+          return false
+        }
+      },
+      message: '市场剧本无效'
+    }
+  },
   statistics: StatisticsSchema,
   metadata: {
     type: Schema.Types.Mixed,
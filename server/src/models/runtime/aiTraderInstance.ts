@@ -1,10 +1,53 @@
 /**
  * AI 交易员运行时实例
- * 
- * 继承 GameObject，实现交易员的简单行为模拟
+ *
+ * 继承 GameObject，按交易策略定期评估行情并向交易所下单，
+ * 通过账本记录现金、持仓和盈亏，下单前经过风控检查
  */
 
 import { GameObject, GameObjectState } from '../../lifecycle/types';
+import { ExchangeInstance } from './exchangeInstance';
+import { MatchedTrade, OrderError, getRemainingQuantity } from '../../types/orderBook';
+import { ExchangeEvents } from '../../types/eventTypes';
+import type { AggregatedPoint } from '../../types/timeSeries';
+import {
+  TraderStrategy,
+  StrategyConfig,
+  StrategyContext,
+  StrategyPosition,
+  StrategyRegistry,
+  TradingStyle,
+  RiskProfile,
+  createStrategyConfig,
+  getNumberParameter,
+} from '../../types/traderStrategy';
+import { TraderLedger, LedgerHolding, LedgerSnapshot } from '../../types/traderLedger';
+import { TraderRiskManager, RiskExposure, RiskStatus, createRiskLimits } from '../../types/traderRisk';
+import { JournalEventType } from '../../types/exchangeJournal';
+import type { RandomSource } from '../../types/randomStream';
+import type { RiskManagement, TradeOrder } from '../../../../shared/types/trading';
+
+/**
+ * 各交易风格的默认决策间隔（游戏时间毫秒）
+ */
+const DEFAULT_DECISION_INTERVAL: Record<TradingStyle, number> = {
+  day_trading: 60 * 1000,
+  swing_trading: 5 * 60 * 1000,
+  position_trading: 30 * 60 * 1000,
+};
+
+/**
+ * 策略运行统计
+ */
+export interface StrategyRunStats {
+  evaluations: number;
+  submittedOrders: number;
+  rejectedOrders: number;
+  cancelledOrders: number;
+  riskExits: number;
+  errors: number;
+  lastEvaluatedAt: Date | null;
+}
 
 /**
  * AI 交易员实例类
@@ -16,24 +59,80 @@ export class AITraderInstance implements GameObject {
   // 模板数据
   public readonly templateId: string;
   public readonly name: string;
-  public readonly riskProfile: 'conservative' | 'moderate' | 'aggressive';
+  public readonly riskProfile: RiskProfile;
+  public readonly tradingStyle: TradingStyle;
+  public readonly initialCapital: number;
+
+  // 交易策略
+  private readonly exchangeInstance: ExchangeInstance;
+  private readonly strategyConfig: StrategyConfig;
+  private readonly strategy: TraderStrategy;
+  private readonly decisionInterval: number;       // 决策间隔（游戏时间毫秒）
+  private readonly random: RandomSource;           // 交易所为本交易员分配的 trader:<模板 ID>:<序号> 随机数子流
+  private lastDecisionGameTime: number = 0;
+  private hasClosedBar: boolean = false;         // 策略周期的 K 线已收盘，下一帧立即评估
+  private stats: StrategyRunStats = {
+    evaluations: 0,
+    submittedOrders: 0,
+    rejectedOrders: 0,
+    cancelledOrders: 0,
+    riskExits: 0,
+    errors: 0,
+    lastEvaluatedAt: null,
+  };
+
+  // 账本（期初持仓来自模板，之后根据自身成交更新）
+  private readonly ledger: TraderLedger;
+  private readonly initialHoldings: LedgerHolding[];
+
+  // 风控
+  private readonly riskManager: TraderRiskManager;
 
   // 运行时状态
   private isActive: boolean = false;
 
   constructor(
     id: number,
+    exchangeInstance: ExchangeInstance,
     templateData: {
       templateId: string;
       name: string;
-      riskProfile: 'conservative' | 'moderate' | 'aggressive';
+      riskProfile: RiskProfile;
       initialCapital: number;
+      tradingStyle?: TradingStyle;
+      maxPositions?: number;
+      parameters?: Record<string, any>;
+      holdings?: LedgerHolding[];
     }
   ) {
     this.id = id;
+    this.exchangeInstance = exchangeInstance;
     this.templateId = templateData.templateId;
     this.name = templateData.name;
     this.riskProfile = templateData.riskProfile;
+    this.initialCapital = templateData.initialCapital;
+
+    // 初始化账本
+    this.initialHoldings = (templateData.holdings ?? []).filter(holding => holding.quantity > 0);
+    this.ledger = new TraderLedger(this.getTraderId(), this.name, this.initialCapital, exchangeInstance.getSimulatedTime());
+    this.ledger.seed(this.initialHoldings, exchangeInstance.getSimulatedTime());
+
+    // 按模板选择策略
+    this.strategyConfig = createStrategyConfig(templateData);
+    this.tradingStyle = this.strategyConfig.tradingStyle;
+    this.strategy = StrategyRegistry.getInstance().create(this.strategyConfig);
+    this.decisionInterval = getNumberParameter(
+      this.strategyConfig.parameters,
+      'decisionIntervalSeconds',
+      DEFAULT_DECISION_INTERVAL[this.tradingStyle] / 1000,
+      { min: 1 }
+    ) * 1000;
+    this.random = exchangeInstance.createTraderRandomStream(this.templateId);
+
+    // 风控限额：风险偏好默认值 + 模板 maxPositions / parameters.riskManagement
+    this.riskManager = new TraderRiskManager(
+      createRiskLimits(this.riskProfile, this.strategyConfig.maxPositions, this.strategyConfig.parameters)
+    );
   }
 
   /**
@@ -41,18 +140,35 @@ export class AITraderInstance implements GameObject {
    */
   onBeginPlay(): void {
     this.isActive = true;
-    console.log(`[AITraderInstance] AI Trader "${this.name}" (ID: ${this.id}) started`);
+
+    // 初始持仓视为已交收，可直接卖出
+    for (const holding of this.initialHoldings) {
+      this.exchangeInstance.seedHoldings(this.getTraderId(), holding.stockSymbol, holding.quantity);
+    }
+    this.exchangeInstance.bind(ExchangeEvents.TRADE_EXECUTED, this.handleTrade);
+    this.exchangeInstance.bind(ExchangeEvents.BAR_CLOSED, this.handleBarClosed);
+    console.log(`[AITraderInstance] AI Trader "${this.name}" (ID: ${this.id}) started with ${this.strategy.name} strategy (${this.strategy.type})`);
   }
 
   /**
    * GameObject 生命周期 - 每帧更新
+   * 连续竞价和集合竞价期间评估策略（集合竞价只收集订单，区间结束时统一撮合）
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   onTick(deltaTime: number): void {
-    if (!this.isActive) {
+    if (!this.isActive || !(this.exchangeInstance.isInTradingHours() || this.exchangeInstance.isCallAuction())) {
+      return;
+    }
+
+    // 策略周期的 K 线收盘或到达决策间隔时评估
+    const now = this.exchangeInstance.getSimulatedTime();
+    if (!this.hasClosedBar && now.getTime() - this.lastDecisionGameTime < this.decisionInterval) {
       return;
     }
-    // 交易逻辑待后续实现
+    this.lastDecisionGameTime = now.getTime();
+    this.hasClosedBar = false;
+
+    this.runStrategy(now);
   }
 
   /**
@@ -60,6 +176,274 @@ export class AITraderInstance implements GameObject {
    */
   onDestroy(): void {
     this.isActive = false;
+    this.exchangeInstance.unbind(ExchangeEvents.TRADE_EXECUTED, this.handleTrade);
+    this.exchangeInstance.unbind(ExchangeEvents.BAR_CLOSED, this.handleBarClosed);
     console.log(`[AITraderInstance] AI Trader "${this.name}" (ID: ${this.id}) destroyed`);
   }
-}
\ No newline at end of file
+
+  /**
+   * 获取交易员 ID（订单中的 traderId）
+   */
+  public getTraderId(): string {
+    return this.id.toString();
+  }
+
+  /**
+   * 获取策略配置
+   */
+  public getStrategyConfig(): StrategyConfig {
+    return { ...this.strategyConfig, parameters: { ...this.strategyConfig.parameters } };
+  }
+
+  /**
+   * 获取策略运行统计
+   */
+  public getStrategyStats(): StrategyRunStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * 获取风控限额
+   */
+  public getRiskLimits(): RiskManagement {
+    return this.riskManager.getLimits();
+  }
+
+  /**
+   * 获取风控状态
+   */
+  public getRiskStatus(): RiskStatus {
+    return this.riskManager.getStatus();
+  }
+
+  /**
+   * 获取可用现金
+   */
+  public getCash(): number {
+    return this.ledger.getCash();
+  }
+
+  /**
+   * 获取累计交易费用
+   */
+  public getTotalFees(): number {
+    return this.ledger.getTotalFees();
+  }
+
+  /**
+   * 获取总资产（现金 + 持仓市值）
+   */
+  public getCapital(): number {
+    return this.getPortfolioSnapshot().portfolio.totalValue;
+  }
+
+  /**
+   * 获取账本快照（Portfolio / Position 结构，按最新价估值）
+   */
+  public getPortfolioSnapshot(): LedgerSnapshot {
+    return this.ledger.getSnapshot(
+      {
+        getCurrentPrice: (symbol: string) => this.exchangeInstance.getStock(symbol)?.getCurrentPrice() ?? null,
+        getPreviousClose: (symbol: string) => this.exchangeInstance.getStock(symbol)?.getPreviousClose() ?? null,
+      },
+      this.exchangeInstance.getSimulatedTime()
+    );
+  }
+
+  /**
+   * 获取持仓列表
+   */
+  public getPositions(): StrategyPosition[] {
+    const traderId = this.getTraderId();
+    return this.ledger.getPositions().map(position => ({
+      symbol: position.symbol,
+      quantity: position.quantity,
+      availableQuantity: this.exchangeInstance.getSettlementPosition(traderId, position.symbol).settled,
+      averageCost: position.averagePrice,
+    }));
+  }
+
+  /**
+   * 风控检查（交易所接受本交易员的任何订单前调用，包括 REST 下单和止损单触发）
+   * 敞口为持仓市值加其他未成交买单金额；买单按交易所预估的最高成交价计算（市价和止损买单按涨停价），
+   * 卖单按限价或最新价
+   *
+   * @param order - 待接受的订单（改单时为修改后的订单）
+   * @throws OrderError 如果订单违反风控限额
+   */
+  public checkRisk(order: TradeOrder): void {
+    const { portfolio, positions } = this.getPortfolioSnapshot();
+    const exposure: RiskExposure = { equity: portfolio.totalValue, symbols: new Map() };
+    for (const position of positions) {
+      if (position.quantity > 0) {
+        exposure.symbols.set(position.stockSymbol, position.marketValue);
+      }
+    }
+    for (const other of this.exchangeInstance.getOrders({ traderId: this.getTraderId(), openOnly: true })) {
+      if (other.id !== order.id && other.action === 'buy') {
+        const value = getRemainingQuantity(other) * this.exchangeInstance.estimateBuyPrice(other);
+        exposure.symbols.set(other.stockSymbol, (exposure.symbols.get(other.stockSymbol) ?? 0) + value);
+      }
+    }
+
+    const price = order.action === 'buy'
+      ? this.exchangeInstance.estimateBuyPrice(order)
+      : order.price ?? order.limitPrice ?? this.exchangeInstance.getStock(order.stockSymbol)?.getCurrentPrice() ?? 0;
+    this.riskManager.checkOrder(
+      { symbol: order.stockSymbol, type: order.type, action: order.action, quantity: getRemainingQuantity(order) },
+      price,
+      exposure
+    );
+  }
+
+  /**
+   * 执行一次策略评估：风控状态更新、止损止盈、策略决策和下单
+   */
+  private runStrategy(now: Date): void {
+    const traderId = this.getTraderId();
+    const openOrders = this.exchangeInstance.getOrders({ traderId, openOnly: true });
+    const { portfolio, positions } = this.getPortfolioSnapshot();
+
+    // 单日亏损达到上限：撤销所有挂单，当日不再交易
+    if (this.riskManager.updateDailyState(now, portfolio.totalValue)) {
+      console.warn(`[AITraderInstance] Trader "${this.name}" reached the daily loss limit, trading halted for the day`);
+      this.exchangeInstance.recordJournal({
+        type: JournalEventType.TRADING_HALTED,
+        time: now,
+        traderId,
+        message: `Daily loss limit ${this.riskManager.getLimits().maxDailyLoss}% reached, trading halted for the day`,
+        data: { status: this.riskManager.getStatus(), cancelledOrders: openOrders.map(order => order.id) },
+      });
+      for (const order of openOrders) {
+        this.tryOrderAction(() => {
+          this.exchangeInstance.cancelOrder(order.id);
+          this.stats.cancelledOrders++;
+        });
+      }
+    }
+    if (this.riskManager.isHalted()) {
+      return;
+    }
+
+    // 止损止盈（已有卖单的股票跳过）；止损止盈为市价单，集合竞价不接受，留到连续竞价执行
+    const sellingSymbols = new Set(openOrders.filter(order => order.action === 'sell').map(order => order.stockSymbol));
+    const exits = this.exchangeInstance.isCallAuction() ? [] : this.riskManager.getExitOrders(
+      positions.map(position => ({
+        symbol: position.stockSymbol,
+        availableQuantity: this.exchangeInstance.getSettlementPosition(traderId, position.stockSymbol).settled,
+        averagePrice: position.averagePrice,
+        currentPrice: position.currentPrice,
+      })),
+      sellingSymbols
+    );
+    const exitSymbols = new Set<string>();
+    for (const { order, reason } of exits) {
+      exitSymbols.add(order.symbol);
+      this.exchangeInstance.recordJournal({
+        type: JournalEventType.RISK_EXIT,
+        time: now,
+        traderId,
+        symbol: order.symbol,
+        message: `${reason} triggered, selling ${order.quantity}`,
+        data: { reason, order: { ...order } },
+      });
+      this.tryOrderAction(() => {
+        this.exchangeInstance.submitOrder({ ...order, traderId });
+        this.stats.riskExits++;
+      });
+    }
+
+    const market = this.exchangeInstance.getStrategyMarketView();
+    const context: StrategyContext = {
+      traderId,
+      time: now,
+      account: { cash: this.ledger.getCash(), positions: this.getPositions() },
+      openOrders,
+      market,
+      random: this.random,
+    };
+
+    let decision;
+    try {
+      decision = this.strategy.evaluate(context);
+    } catch (error) {
+      this.stats.errors++;
+      console.error(`[AITraderInstance] Strategy evaluation failed for trader "${this.name}":`, error);
+      this.exchangeInstance.recordJournal({
+        type: JournalEventType.STRATEGY_ERROR,
+        time: now,
+        traderId,
+        message: `${this.strategy.name} evaluation failed: ${error instanceof Error ? error.message : String(error)}`,
+      });
+      return;
+    }
+    this.stats.evaluations++;
+    this.stats.lastEvaluatedAt = now;
+
+    if (decision.orders.length > 0 || decision.cancelOrderIds.length > 0) {
+      this.exchangeInstance.recordJournal({
+        type: JournalEventType.STRATEGY_DECISION,
+        time: now,
+        traderId,
+        message: `${this.strategy.name}: ${decision.orders.length} orders, ${decision.cancelOrderIds.length} cancels`,
+        data: {
+          strategy: this.strategy.type,
+          orders: decision.orders.map(order => ({ ...order })),
+          cancelOrderIds: [...decision.cancelOrderIds],
+          cash: context.account.cash,
+        },
+      });
+    }
+
+    for (const orderId of decision.cancelOrderIds) {
+      this.tryOrderAction(() => {
+        this.exchangeInstance.cancelOrder(orderId);
+        this.stats.cancelledOrders++;
+      });
+    }
+
+    // 风控检查由交易所在接受订单前调用 checkRisk 完成
+    for (const order of decision.orders) {
+      if (exitSymbols.has(order.symbol)) {
+        continue;
+      }
+      this.tryOrderAction(() => {
+        this.exchangeInstance.submitOrder({ ...order, traderId });
+        this.stats.submittedOrders++;
+      });
+    }
+  }
+
+  /**
+   * 执行下单或撤单；交易所拒绝（OrderError，含风控拒绝）只计数，其他异常记录日志
+   * 拒绝原因由交易所写入事件日志
+   */
+  private tryOrderAction(action: () => void): void {
+    try {
+      action();
+    } catch (error) {
+      if (error instanceof OrderError) {
+        this.stats.rejectedOrders++;
+        return;
+      }
+      this.stats.errors++;
+      console.error(`[AITraderInstance] Order action failed for trader "${this.name}":`, error);
+    }
+  }
+
+  /**
+   * 根据自身成交更新账本
+   */
+  private handleTrade = (trade: MatchedTrade): void => {
+    this.ledger.applyTrade(trade);
+  };
+
+  /**
+   * 策略周期的 K 线收盘时标记下一帧立即评估
+   */
+  private handleBarClosed = (_symbol: string, bar: AggregatedPoint): void => {
+    if (bar.granularity === this.strategy.barGranularity) {
+      this.hasClosedBar = true;
+    }
+  };
+}
@@ -2,6 +2,10 @@
  * 交易所运行时实例
  * 
  * 继承 GameObject，管理 AI 交易员和股票的运行时容器
+ * 持有实例随机种子，股票和交易员从按名称派生的子流取随机数，相同模板和种子可复现价格路径
+ * 持有市场因子模型，股票按各自 β 叠加市场和行业因子收益率
+ * 编制市场指数，股票价格更新时重新计算点位并写入独立的时间序列
+ * 按游戏时钟触发市场剧本事件（价格跳变、波动率切换、停牌、行业冲击），并记录到事件日志
  */
 
 import { GameObject, GameObjectState } from '../../lifecycle/types';
@@ -11,17 +15,96 @@ import {
   TradingTimeState,
   TradingIntervalConfig,
   TimeStateInfo,
+  AuctionType,
 } from '../../types/tradingTime';
-import { TimeSeriesManager } from '../../types/timeSeries';
+import {
+  AggregatedPoint,
+  DataType,
+  Granularity,
+  Metric,
+  MissingDataStrategy,
+  TimeSeriesManager,
+  TradingCalendar,
+} from '../../types/timeSeries';
+import { IndicatorEngine, IndicatorQuery, IndicatorResponse, IndicatorSpec, buildIndicatorResponse, normalizeIndicatorLimit } from '../../types/indicator';
+import type { StrategyMarketView } from '../../types/traderStrategy';
+import type { LedgerSnapshot } from '../../types/traderLedger';
+import {
+  MatchedTrade,
+  AuctionResult,
+  OrderError,
+  OrderErrorCode,
+  OrderManager,
+  OrderRequest,
+  OrderAmendment,
+  OrderQuery,
+  OrderSubmitResult,
+  getRemainingQuantity,
+} from '../../types/orderBook';
+import {
+  TradingRuleConfig,
+  PriceLimitBand,
+  SettlementPosition,
+  SettlementTracker,
+  getDefaultTradingRuleConfig,
+  calculatePriceLimitBand,
+  validateOrderRules,
+} from '../../types/tradingRules';
+import { FeeSchedule, getDefaultFeeSchedule, calculateTradeFees, roundFee } from '../../types/tradingFees';
+import { ExchangeJournal, JournalEntry, JournalEntryInput, JournalEventType, JournalPage, JournalQuery } from '../../types/exchangeJournal';
+import { RandomSource, RandomStreams, generateRandomSeed } from '../../types/randomStream';
+import { FactorLevels, FactorModel, FactorModelConfig, calculateCorrelationMatrix, getDefaultFactorModelConfig } from '../../types/marketFactor';
+import {
+  INDEX_TICK_SIZE,
+  MarketIndex,
+  MarketIndexConfig,
+  MarketIndexSnapshot,
+  getCloseOnOrBefore,
+  getDefaultMarketIndexConfig,
+  parseIndexDate,
+  validateMarketIndexConfig,
+} from '../../types/marketIndex';
+import {
+  MARKET_WIDE_HALT,
+  MarketScenario,
+  ScenarioEventProgress,
+  ScenarioStatus,
+  ScenarioTimeline,
+  describeScenarioEvent,
+  percentToLogReturn,
+  sampleShockPercent,
+  validateScenario,
+} from '../../types/marketScenario';
+import type { TradeOrder } from '../../../../shared/types/trading';
+import {
+  KLineQuery,
+  KLineResponse,
+  TimeShareResponse,
+  buildKLineResponse,
+  buildTimeShareResponse,
+  normalizeKLineLimit
+} from '../../types/kline';
+import { ExchangeEvents, TimeSeriesEvents } from '../../types/eventTypes';
+import { TypedEventEmitter } from '../../types/typedEventEmitter';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { GameObjectManager } from '../../lifecycle/core/gameObjectManager';
 
+/**
+ * ExchangeInstance 事件数据接口
+ */
+export interface ExchangeInstanceEventData extends Record<ExchangeEvents, any[]> {
+  [ExchangeEvents.TRADE_EXECUTED]: [trade: MatchedTrade];
+  [ExchangeEvents.AUCTION_COMPLETED]: [auction: AuctionType, results: AuctionResult[]];
+  [ExchangeEvents.PRICE_UPDATED]: [symbol: string, price: number, timestamp: Date];
+  [ExchangeEvents.BAR_CLOSED]: [symbol: string, bar: AggregatedPoint];
+}
+
 /**
  * 交易所实例类
  */
-export class ExchangeInstance implements GameObject {
+export class ExchangeInstance extends TypedEventEmitter<ExchangeInstanceEventData> implements GameObject {
   public readonly id: number;
   public state: GameObjectState = GameObjectState.READY;
 
@@ -34,6 +117,7 @@ export class ExchangeInstance implements GameObject {
   // 运行时状态
   private traders: Map<string, AITraderInstance> = new Map();
   private stocks: Map<string, StockInstance> = new Map();
+  private priceSeriesSymbols: Map<string, string> = new Map();  // 价格序列 ID -> 股票代码
   private isActive: boolean = false;
   private lastActiveAt: Date = new Date();
 
@@ -41,9 +125,45 @@ export class ExchangeInstance implements GameObject {
   private simulatedTime: Date;                    // 游戏时间
   private timeAcceleration: number = 1.0;         // 时间加速倍数
   private tradingIntervalConfig: TradingIntervalConfig;
+  private currentAuction: AuctionType | null = null; // 当前所处的集合竞价
 
-  // 时间序列管理器
+  // 时间序列管理器与交易日历
   private readonly timeSeriesManager: TimeSeriesManager;
+  private readonly tradingCalendar: TradingCalendar;
+
+  // 订单管理器
+  private readonly orderManager: OrderManager;
+  private lastOrderMaintenanceDay: string = '';
+  private lastOrderMaintenanceState: TradingTimeState | null = null;
+
+  // 交易规则与交收持仓
+  private tradingRuleConfig: TradingRuleConfig;
+  private readonly settlementTracker: SettlementTracker;
+
+  // 交易费率
+  private feeSchedule: FeeSchedule;
+
+  // 事件日志
+  private readonly journal: ExchangeJournal = new ExchangeJournal();
+
+  // 可复现随机数流
+  private readonly randomStreams: RandomStreams;
+  private traderStreamCounts: Map<string, number> = new Map();  // 交易员模板 ID -> 已分配的子流数
+
+  // 市场因子模型
+  private readonly factorModelConfig: FactorModelConfig;
+  private readonly factorModel: FactorModel;
+
+  // 市场指数
+  private readonly marketIndexConfig: MarketIndexConfig;
+  private readonly marketIndex: MarketIndex;
+  private readonly indexSeriesId: string;
+
+  // 市场剧本（开始前附加的剧本在 onBeginPlay 中换算触发时间）与停牌
+  private startDate: Date | null = null;           // 第 1 个交易日零点
+  private pendingScenario: MarketScenario | null = null;
+  private scenarioTimeline: ScenarioTimeline | null = null;
+  private readonly tradingHalts: Map<string, Date> = new Map(); // 股票代码（全市场为 *）-> 复牌时间
 
   constructor(
     id: number,
@@ -51,14 +171,21 @@ export class ExchangeInstance implements GameObject {
       templateId: string;
       name: string;
       description: string;
+      seed?: number;
+      scenario?: MarketScenario;
     }
   ) {
+    super();
+
     this.id = id;
     this.templateId = templateData.templateId;
     this.name = templateData.name;
     this.description = templateData.description;
     this.createdAt = new Date();
 
+    // 初始化随机数流（未指定种子时生成一个，记录在导出状态中）
+    this.randomStreams = new RandomStreams(templateData.seed ?? generateRandomSeed());
+
     // 初始化游戏时间（临时值，将在 onBeginPlay 中正确初始化）
     this.simulatedTime = new Date();
 
@@ -68,8 +195,67 @@ export class ExchangeInstance implements GameObject {
     // 加载交易区间配置
     this.loadTradingIntervalConfig();
 
-    // 初始化时间序列管理器
-    this.timeSeriesManager = new TimeSeriesManager();
+    // 加载交易规则配置，并根据成交更新交收持仓
+    this.tradingRuleConfig = this.loadTradingRuleConfig();
+    this.settlementTracker = new SettlementTracker(this.tradingRuleConfig.tPlusOne);
+    this.bind(ExchangeEvents.TRADE_EXECUTED, (trade: MatchedTrade) => {
+      this.settlementTracker.recordTrade(trade);
+      this.recordFills(trade);
+    });
+
+    // 加载交易费率配置
+    this.feeSchedule = this.loadFeeSchedule();
+
+    // 加载市场因子配置
+    this.factorModelConfig = this.loadFactorModelConfig();
+    this.factorModel = new FactorModel(this.factorModelConfig, (key: string) => this.randomStreams.get(key));
+
+    // 加载市场指数配置，股票价格更新时重新计算点位
+    this.marketIndexConfig = this.loadMarketIndexConfig();
+    this.marketIndex = new MarketIndex(this.marketIndexConfig);
+    this.indexSeriesId = `${id}_index_${this.marketIndexConfig.code}`;
+    this.bind(ExchangeEvents.PRICE_UPDATED, this.handlePriceUpdated);
+
+    // 模板附带的剧本（开始后换算触发时间）
+    if (templateData.scenario) {
+      validateScenario(templateData.scenario);
+      this.pendingScenario = templateData.scenario;
+    }
+
+    // 初始化时间序列管理器（K 线按交易日和交易时段对齐）
+    this.tradingCalendar = new TradingCalendar({
+      isTradingDay: (date: Date) => this.isTradingDayInternal(date),
+      sessions: this.tradingIntervalConfig.tradingIntervals
+    });
+    this.timeSeriesManager = new TimeSeriesManager({ calendar: this.tradingCalendar });
+    // 只为价格序列计算技术指标
+    this.timeSeriesManager.attachIndicatorEngine(new IndicatorEngine({
+      seriesFilter: (seriesId: string) => this.priceSeriesSymbols.has(seriesId)
+    }));
+    this.timeSeriesManager.bind(TimeSeriesEvents.WINDOW_CLOSED, this.handleWindowClosed);
+
+    // 初始化订单管理器
+    this.orderManager = new OrderManager({
+      getVenue: (symbol: string) => {
+        const stock = this.stocks.get(symbol);
+        return stock && stock.state === GameObjectState.ACTIVE ? stock : undefined;
+      },
+      isKnownTrader: (traderId: string) => this.traders.has(traderId),
+      getTime: () => this.getSimulatedTime(),
+      isMarketOpen: () => this.isInTradingHours() || this.isCallAuction(),
+      isCallAuction: () => this.isCallAuction(),
+      checkRules: (order: TradeOrder, openSellQuantity: number) => this.checkTradingRules(order, openSellQuantity),
+      isHalted: (symbol: string) => this.isTradingHalted(symbol),
+      onTriggeredOrderRejected: (order: TradeOrder, error: OrderError) => this.recordJournal({
+        type: JournalEventType.ORDER_REJECTED,
+        time: this.getSimulatedTime(),
+        traderId: order.userId,
+        symbol: order.stockSymbol,
+        orderId: order.id,
+        message: `Triggered ${order.type} ${order.action} ${order.quantity} ${order.stockSymbol} rejected: ${error.message}`,
+        data: { code: error.code, order: { ...order } },
+      })
+    });
   }
 
   /**
@@ -81,9 +267,17 @@ export class ExchangeInstance implements GameObject {
 
     // 初始化游戏时间
     this.initializeSimulatedTime();
+    this.startDate = new Date(this.simulatedTime);
+    this.startDate.setHours(0, 0, 0, 0);
+
+    // 换算开始前附加的剧本的触发时间
+    if (this.pendingScenario) {
+      this.attachScenario(this.pendingScenario);
+      this.pendingScenario = null;
+    }
 
     console.log(`[ExchangeInstance] Exchange "${this.name}" (ID: ${this.id}) started with ${this.traders.size} traders and ${this.stocks.size} stocks`);
-    console.log(`[ExchangeInstance] Simulated time initialized: ${this.simulatedTime.toISOString()}, acceleration: ${this.timeAcceleration}x`);
+    console.log(`[ExchangeInstance] Simulated time initialized: ${this.simulatedTime.toISOString()}, acceleration: ${this.timeAcceleration}x, seed: ${this.randomStreams.seed}`);
   }
 
   /**
@@ -98,6 +292,19 @@ export class ExchangeInstance implements GameObject {
 
     // 游戏时间更新
     this.updateSimulatedTime(deltaTime);
+
+    // 所有股票开始后设定指数基日
+    this.initializeMarketIndex();
+
+    // 停牌到期复牌，触发到期的剧本事件
+    this.updateTradingHalts();
+    this.runScenario();
+
+    // 集合竞价（离开竞价区间时统一撮合）
+    this.updateCallAuction();
+
+    // 订单维护
+    this.maintainOrders();
   }
 
   /**
@@ -108,6 +315,13 @@ export class ExchangeInstance implements GameObject {
 
     console.log(`[ExchangeInstance] Exchange "${this.name}" (ID: ${this.id}) is being destroyed`);
 
+    // 清空订单、交收持仓和事件日志
+    this.orderManager.clear();
+    this.settlementTracker.clear();
+    this.journal.clear();
+    this.scenarioTimeline = null;
+    this.tradingHalts.clear();
+
     // 通过 GameObjectManager 销毁所有交易员
     const gameObjectManager = GameObjectManager.getInstance();
 
@@ -131,6 +345,11 @@ export class ExchangeInstance implements GameObject {
     // 清理容器
     this.traders.clear();
     this.stocks.clear();
+    this.priceSeriesSymbols.clear();
+
+    // 移除所有事件监听器
+    this.timeSeriesManager.unbind(TimeSeriesEvents.WINDOW_CLOSED, this.handleWindowClosed);
+    this.removeAll();
   }
 
   /**
@@ -166,6 +385,7 @@ export class ExchangeInstance implements GameObject {
    */
   public addStock(stock: StockInstance): void {
     this.stocks.set(stock.symbol, stock);
+    this.priceSeriesSymbols.set(stock.getPriceSeriesId(), stock.symbol);
     console.log(`[ExchangeInstance] Added stock "${stock.symbol}" (${stock.companyName}) to exchange "${this.name}"`);
   }
 
@@ -182,6 +402,7 @@ export class ExchangeInstance implements GameObject {
       try {
         gameObjectManager.destroyObject(stock.id);
         this.stocks.delete(stockSymbol);
+        this.priceSeriesSymbols.delete(stock.getPriceSeriesId());
         console.log(`[ExchangeInstance] Removed stock ${stockSymbol} from exchange "${this.name}"`);
       } catch (error) {
         console.error(`[ExchangeInstance] Failed to remove stock ${stockSymbol}:`, error);
@@ -208,11 +429,14 @@ export class ExchangeInstance implements GameObject {
   }
 
   /**
-   * 获取总资本（简化版本返回固定值）
+   * 获取总资本（所有交易员的现金 + 持仓市值）
    */
   public getTotalCapital(): number {
-    // 简化版本：返回交易员数量 * 100000 作为模拟总资本
-    return this.traders.size * 100000;
+    let total = 0;
+    for (const trader of this.traders.values()) {
+      total += trader.getCapital();
+    }
+    return total;
   }
 
   /**
@@ -225,6 +449,7 @@ export class ExchangeInstance implements GameObject {
     status: string;
     createdAt: Date;
     lastActiveAt: Date;
+    seed: number;
     statistics: {
       traderCount: number;
       stockCount: number;
@@ -242,6 +467,7 @@ export class ExchangeInstance implements GameObject {
       status: this.isActive ? 'ACTIVE' : 'INACTIVE',
       createdAt: this.createdAt,
       lastActiveAt: this.lastActiveAt,
+      seed: this.randomStreams.seed,
       statistics: {
         traderCount: activeTraders.length,
         stockCount: this.getAvailableStocks().length,
@@ -252,24 +478,37 @@ export class ExchangeInstance implements GameObject {
   }
 
   /**
-   * 获取交易员详细信息（简化版本）
+   * 获取交易员详细信息（资本按账本估值：期初权益与当前总资产）
    */
   public getTraderDetails(): Array<{
     id: string;
     name: string;
     currentCapital: number;
     initialCapital: number;
+    cash: number;
+    realizedPnL: number;
+    unrealizedPnL: number;
+    totalFees: number;
+    positionCount: number;
     riskProfile: string;
     isActive: boolean;
   }> {
-    return Array.from(this.traders.values()).map(trader => ({
-      id: trader.id.toString(),
-      name: trader.name,
-      currentCapital: 100000, // 简化版本：固定资本
-      initialCapital: 100000, // 简化版本：固定资本
-      riskProfile: trader.riskProfile,
-      isActive: trader.state === GameObjectState.ACTIVE
-    }));
+    return Array.from(this.traders.values()).map(trader => {
+      const { portfolio, positions } = trader.getPortfolioSnapshot();
+      return {
+        id: trader.id.toString(),
+        name: trader.name,
+        currentCapital: portfolio.totalValue,
+        initialCapital: portfolio.initialBalance,
+        cash: portfolio.availableCash,
+        realizedPnL: portfolio.realizedPnL,
+        unrealizedPnL: portfolio.unrealizedPnL,
+        totalFees: Math.round(trader.getTotalFees() * 100) / 100,
+        positionCount: positions.length,
+        riskProfile: trader.riskProfile,
+        isActive: trader.state === GameObjectState.ACTIVE
+      };
+    });
   }
 
   /**
@@ -314,7 +553,13 @@ export class ExchangeInstance implements GameObject {
         description: this.description,
         createdAt: this.createdAt,
         lastActiveAt: this.lastActiveAt,
-        isActive: this.isActive
+        isActive: this.isActive,
+        seed: this.randomStreams.seed,
+        tradingRules: this.getTradingRuleConfig(),
+        tradingFees: this.getFeeSchedule(),
+        marketFactors: this.getFactorModelConfig(),
+        marketIndex: this.getMarketIndex(),
+        scenario: this.getScenarioStatus()
       },
       traders: this.getTraderDetails(),
       stocks: this.getStockDetails(),
@@ -329,6 +574,40 @@ export class ExchangeInstance implements GameObject {
     return this.traders.get(traderId);
   }
 
+  /**
+   * 获取交易员账本快照
+   *
+   * @returns 账本快照（附持仓股票日收盘价的收益率相关系数矩阵），交易员不存在时返回 null
+   */
+  public getTraderPortfolio(traderId: string): LedgerSnapshot | null {
+    const snapshot = this.traders.get(traderId)?.getPortfolioSnapshot();
+    if (!snapshot) {
+      return null;
+    }
+
+    const closes: Record<string, number[]> = {};
+    for (const position of snapshot.positions) {
+      const stock = this.stocks.get(position.stockSymbol);
+      if (!stock || stock.state !== GameObjectState.ACTIVE || position.quantity <= 0) {
+        continue;
+      }
+      closes[stock.symbol] = this.timeSeriesManager.queryCachedData({
+        seriesId: stock.getPriceSeriesId(),
+        granularity: Granularity.DAY_1,
+        startTime: new Date(0),
+        endTime: this.getSimulatedTime()
+      }).map(bar => bar.close);
+    }
+
+    return {
+      ...snapshot,
+      analysis: {
+        portfolioId: snapshot.portfolio.id,
+        correlation: calculateCorrelationMatrix(closes)
+      }
+    };
+  }
+
   /**
    * 获取指定股票
    */
@@ -336,6 +615,506 @@ export class ExchangeInstance implements GameObject {
     return this.stocks.get(symbol);
   }
 
+  // ============================================================================
+  // 订单管理
+  // ============================================================================
+
+  /**
+   * 提交订单
+   *
+   * @param request - 下单请求
+   * @returns 提交结果
+   * @throws OrderError 如果订单被拒绝
+   */
+  public submitOrder(request: OrderRequest): OrderSubmitResult {
+    let result: OrderSubmitResult;
+    try {
+      result = this.orderManager.submit(request);
+    } catch (error) {
+      if (error instanceof OrderError) {
+        this.recordJournal({
+          type: error.code.startsWith('RISK_') ? JournalEventType.RISK_REJECTED : JournalEventType.ORDER_REJECTED,
+          time: this.getSimulatedTime(),
+          traderId: request.traderId,
+          symbol: request.symbol,
+          message: `${request.action} ${request.quantity} ${request.symbol} rejected: ${error.message}`,
+          data: { code: error.code, request: { ...request } },
+        });
+      }
+      throw error;
+    }
+
+    const order = result.order;
+    this.recordJournal({
+      type: JournalEventType.ORDER_SUBMITTED,
+      time: this.getSimulatedTime(),
+      traderId: order.userId,
+      symbol: order.stockSymbol,
+      orderId: order.id,
+      message: `${order.type} ${order.action} ${order.quantity} @ ${order.price ?? order.stopPrice ?? 'market'} (${order.timeInForce}) -> ${order.status}`,
+      data: { order: { ...order } },
+    });
+    return result;
+  }
+
+  /**
+   * 修改订单
+   *
+   * @param orderId - 订单 ID
+   * @param amendment - 改单内容
+   * @returns 改单后的提交结果
+   * @throws OrderError 如果订单不存在、已终结或改单内容无效
+   */
+  public amendOrder(orderId: string, amendment: OrderAmendment): OrderSubmitResult {
+    let result: OrderSubmitResult;
+    try {
+      result = this.orderManager.amend(orderId, amendment);
+    } catch (error) {
+      if (error instanceof OrderError) {
+        const original = this.orderManager.getOrder(orderId);
+        this.recordJournal({
+          type: error.code.startsWith('RISK_') ? JournalEventType.RISK_REJECTED : JournalEventType.ORDER_REJECTED,
+          time: this.getSimulatedTime(),
+          traderId: original?.userId,
+          symbol: original?.stockSymbol,
+          orderId,
+          message: `Amendment of order ${orderId} rejected: ${error.message}`,
+          data: { code: error.code, amendment: { ...amendment }, order: original ? { ...original } : undefined },
+        });
+      }
+      throw error;
+    }
+
+    const order = result.order;
+    this.recordJournal({
+      type: JournalEventType.ORDER_AMENDED,
+      time: this.getSimulatedTime(),
+      traderId: order.userId,
+      symbol: order.stockSymbol,
+      orderId: order.id,
+      message: `Order amended to ${order.quantity} @ ${order.price ?? order.stopPrice ?? 'market'} -> ${order.status}`,
+      data: { amendment: { ...amendment }, order: { ...order } },
+    });
+    return result;
+  }
+
+  /**
+   * 撤销订单
+   *
+   * @param orderId - 订单 ID
+   * @returns 被撤销的订单
+   * @throws OrderError 如果订单不存在或已终结
+   */
+  public cancelOrder(orderId: string): TradeOrder {
+    const order = this.orderManager.cancel(orderId);
+    this.recordJournal({
+      type: JournalEventType.ORDER_CANCELLED,
+      time: this.getSimulatedTime(),
+      traderId: order.userId,
+      symbol: order.stockSymbol,
+      orderId: order.id,
+      message: `Order cancelled with ${order.filledQuantity}/${order.quantity} filled`,
+      data: { order: { ...order } },
+    });
+    return order;
+  }
+
+  /**
+   * 获取订单
+   */
+  public getOrder(orderId: string): TradeOrder | null {
+    return this.orderManager.getOrder(orderId);
+  }
+
+  /**
+   * 查询订单
+   */
+  public getOrders(query?: OrderQuery): TradeOrder[] {
+    return this.orderManager.getOrders(query);
+  }
+
+  /**
+   * 订单维护：交易时段内触发止损单，进入收盘后或非交易日时段及跨日时使当日有效订单过期，
+   * 跨日时完成交收并使限价超出新交易日涨跌停区间的订单过期
+   * 过期只在时段切换时执行一次（收盘后不接受新订单，无需每帧重复检查）
+   */
+  private maintainOrders(): void {
+    const state = this.getTimeState();
+    const tradingDay = this.simulatedTime.toDateString();
+    const dayChanged = tradingDay !== this.lastOrderMaintenanceDay;
+    const sessionEnded = state !== this.lastOrderMaintenanceState &&
+      (state === TradingTimeState.POST_MARKET || state === TradingTimeState.NON_TRADING_DAY);
+    this.lastOrderMaintenanceDay = tradingDay;
+    this.lastOrderMaintenanceState = state;
+
+    if (dayChanged) {
+      this.settlementTracker.settle();
+      this.expireOutOfBandOrders();
+    }
+
+    if (dayChanged || sessionEnded) {
+      this.expireDayOrders();
+    }
+
+    if (this.isInTradingHours()) {
+      this.orderManager.processStopOrders();
+    }
+  }
+
+  /**
+   * 使当日有效订单过期并记录日志
+   */
+  private expireDayOrders(): void {
+    const expiring = this.orderManager.getOrders({ openOnly: true }).filter(order => order.timeInForce === 'day');
+    if (expiring.length === 0) {
+      return;
+    }
+
+    this.orderManager.expireDayOrders();
+    for (const order of expiring) {
+      this.recordJournal({
+        type: JournalEventType.ORDER_EXPIRED,
+        time: this.getSimulatedTime(),
+        traderId: order.userId,
+        symbol: order.stockSymbol,
+        orderId: order.id,
+        message: `Day order expired with ${order.filledQuantity}/${order.quantity} filled`,
+      });
+    }
+  }
+
+  /**
+   * 使限价超出当日涨跌停区间的未终结订单（隔日保留的 GTC 订单）过期并记录日志
+   */
+  private expireOutOfBandOrders(): void {
+    const getLimitPrice = (order: TradeOrder) => order.type === 'stop_limit' ? order.limitPrice : order.price;
+    const expired = this.orderManager.expireOrders(order => {
+      const band = this.getPriceLimitBand(order.stockSymbol);
+      const limitPrice = getLimitPrice(order);
+      return band !== null && limitPrice !== undefined && (limitPrice > band.limitUp || limitPrice < band.limitDown);
+    });
+
+    for (const order of expired) {
+      const band = this.getPriceLimitBand(order.stockSymbol)!;
+      this.recordJournal({
+        type: JournalEventType.ORDER_EXPIRED,
+        time: this.getSimulatedTime(),
+        traderId: order.userId,
+        symbol: order.stockSymbol,
+        orderId: order.id,
+        message: `Order price ${getLimitPrice(order)} is outside today's limit band ${band.limitDown} - ${band.limitUp}, expired with ${order.filledQuantity}/${order.quantity} filled`,
+      });
+    }
+  }
+
+  // ============================================================================
+  // 事件日志
+  // ============================================================================
+
+  /**
+   * 记录事件日志（AI 交易员通过此方法记录风控和策略事件）
+   *
+   * @param input - 日志内容
+   * @returns 日志条目
+   */
+  public recordJournal(input: JournalEntryInput): JournalEntry {
+    return this.journal.record(input);
+  }
+
+  /**
+   * 查询事件日志（最新的在前，按游标分页）
+   */
+  public queryJournal(query?: JournalQuery): JournalPage {
+    return this.journal.query(query);
+  }
+
+  /**
+   * 价格序列窗口关闭时转发为股票 K 线收盘事件
+   */
+  private handleWindowClosed = (bar: AggregatedPoint): void => {
+    const symbol = this.priceSeriesSymbols.get(bar.seriesId);
+    if (symbol) {
+      this.broadcast(ExchangeEvents.BAR_CLOSED, symbol, bar);
+    }
+  };
+
+  /**
+   * 为成交双方各记录一条成交日志
+   */
+  private recordFills(trade: MatchedTrade): void {
+    const sides = [
+      { action: 'buy', traderId: trade.buyerId, execution: trade.executions.buy },
+      { action: 'sell', traderId: trade.sellerId, execution: trade.executions.sell },
+    ];
+
+    for (const { action, traderId, execution } of sides) {
+      this.recordJournal({
+        type: JournalEventType.ORDER_FILLED,
+        time: trade.executedAt,
+        traderId,
+        symbol: trade.symbol,
+        orderId: execution.orderId,
+        message: `${action} ${trade.quantity} @ ${trade.price} filled (${trade.tradeId})`,
+        data: {
+          tradeId: trade.tradeId,
+          price: trade.price,
+          quantity: trade.quantity,
+          amount: trade.amount,
+          aggressor: trade.aggressorSide === action,
+          fees: execution.fees,
+        },
+      });
+    }
+  }
+
+  // ============================================================================
+  // 集合竞价
+  // ============================================================================
+
+  /**
+   * 获取当前所处的集合竞价类型
+   *
+   * @returns 集合竞价类型，不在集合竞价区间时返回 null
+   */
+  public getActiveAuction(): AuctionType | null {
+    if (!this.isTradingDayInternal(this.simulatedTime)) {
+      return null;
+    }
+
+    const timeValue = this.simulatedTime.getHours() * 60 + this.simulatedTime.getMinutes();
+
+    for (const interval of this.tradingIntervalConfig.nonTradingIntervals) {
+      if (!interval.auction) {
+        continue;
+      }
+
+      const [startHour, startMinute] = interval.start.split(':').map(Number);
+      const [endHour, endMinute] = interval.end.split(':').map(Number);
+
+      // 左闭右开
+      if (timeValue >= startHour * 60 + startMinute && timeValue < endHour * 60 + endMinute) {
+        return interval.auction;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 检查是否处于集合竞价（只收集订单不撮合）
+   */
+  public isCallAuction(): boolean {
+    return this.getActiveAuction() !== null;
+  }
+
+  /**
+   * 跟踪集合竞价区间，离开区间时执行统一撮合
+   */
+  private updateCallAuction(): void {
+    const auction = this.getActiveAuction();
+
+    if (this.currentAuction && auction !== this.currentAuction) {
+      this.runCallAuction(this.currentAuction);
+    }
+
+    this.currentAuction = auction;
+  }
+
+  /**
+   * 对所有股票执行集合竞价撮合
+   * 开盘集合竞价价格为当日开盘价，收盘集合竞价价格为当日收盘价
+   */
+  private runCallAuction(auction: AuctionType): void {
+    const results: AuctionResult[] = [];
+
+    for (const stock of this.getAvailableStocks()) {
+      try {
+        results.push(stock.runCallAuction(auction));
+      } catch (error) {
+        console.error(`[ExchangeInstance] Call auction failed for ${stock.symbol}:`, error);
+      }
+    }
+
+    const matched = results.filter(result => result.clearing !== null).length;
+    console.log(`[ExchangeInstance] ${auction} call auction completed for exchange "${this.name}": ${matched}/${results.length} stocks matched`);
+
+    this.broadcast(ExchangeEvents.AUCTION_COMPLETED, auction, results);
+
+    // 撮合后的新价格可能触发止损单
+    this.orderManager.processStopOrders();
+  }
+
+  // ============================================================================
+  // 交易规则
+  // ============================================================================
+
+  /**
+   * 获取交易规则配置
+   */
+  public getTradingRuleConfig(): TradingRuleConfig {
+    return {
+      ...this.tradingRuleConfig,
+      priceLimit: {
+        defaultPercent: this.tradingRuleConfig.priceLimit.defaultPercent,
+        categoryOverrides: { ...this.tradingRuleConfig.priceLimit.categoryOverrides }
+      }
+    };
+  }
+
+  /**
+   * 设置交易规则配置（仅对本交易所生效）
+   */
+  public setTradingRuleConfig(config: TradingRuleConfig): void {
+    this.tradingRuleConfig = config;
+    this.settlementTracker.setTPlusOne(config.tPlusOne);
+    console.log(`[ExchangeInstance] Trading rules updated for exchange "${this.name}"`);
+  }
+
+  // ============================================================================
+  // 交易费用
+  // ============================================================================
+
+  /**
+   * 获取交易费率配置
+   */
+  public getFeeSchedule(): FeeSchedule {
+    return { ...this.feeSchedule };
+  }
+
+  /**
+   * 设置交易费率配置（仅对本交易所生效，之后的成交按新费率计算）
+   */
+  public setFeeSchedule(schedule: FeeSchedule): void {
+    this.feeSchedule = { ...schedule };
+    console.log(`[ExchangeInstance] Fee schedule updated for exchange "${this.name}"`);
+  }
+
+  /**
+   * 计算成交费用（由 StockInstance 在广播成交前调用）
+   * 为买卖双方成交回报填写费用明细和佣金，并累计到订单佣金
+   *
+   * @param trade - 撮合成交（原地更新 executions）
+   */
+  public applyTradeFees(trade: MatchedTrade): void {
+    for (const action of ['buy', 'sell'] as const) {
+      const execution = trade.executions[action];
+      const order = this.orderManager.getOrder(execution.orderId);
+
+      // 订单簿已更新订单成交均价，扣除本笔得到此前的累计成交金额
+      const previous = order
+        ? { filledAmount: Math.max((order.averagePrice ?? 0) * order.filledQuantity - trade.amount, 0), commission: order.commission }
+        : undefined;
+      const fees = calculateTradeFees(action, trade.amount, this.feeSchedule, previous);
+
+      execution.commission = fees.commission;
+      execution.fees = fees;
+      this.orderManager.addCommission(execution.orderId, fees.commission);
+    }
+  }
+
+  /**
+   * 获取股票当日涨跌停区间
+   *
+   * @returns 涨跌停区间，规则未启用或股票不存在时返回 null
+   */
+  public getPriceLimitBand(symbol: string): PriceLimitBand | null {
+    const stock = this.stocks.get(symbol);
+    if (!stock || !this.tradingRuleConfig.enabled) {
+      return null;
+    }
+    return calculatePriceLimitBand(this.tradingRuleConfig, stock.category, stock.getPreviousClose());
+  }
+
+  /**
+   * 登记交易员初始持仓（视为已交收）
+   */
+  public seedHoldings(traderId: string, symbol: string, quantity: number): void {
+    this.settlementTracker.seed(traderId, symbol, quantity);
+  }
+
+  /**
+   * 获取交易员交收持仓
+   */
+  public getSettlementPosition(traderId: string, symbol: string): SettlementPosition {
+    return this.settlementTracker.getPosition(traderId, symbol);
+  }
+
+  /**
+   * 按交易规则检查订单：停牌、交易员风控、买单资金和交易规则
+   * 所有下单来源（AI 策略、REST、止损单触发、改单）都经过此检查
+   * @throws OrderError 如果订单违反交易规则
+   */
+  private checkTradingRules(order: TradeOrder, openSellQuantity: number): void {
+    if (this.isTradingHalted(order.stockSymbol)) {
+      const resumeAt = this.getTradingHaltResumeTime(order.stockSymbol)!;
+      throw new OrderError(`Stock ${order.stockSymbol} is halted until ${resumeAt.toISOString()}`, OrderErrorCode.TRADING_HALTED, order.id);
+    }
+
+    this.traders.get(order.userId)?.checkRisk(order);
+    this.checkBuyingPower(order);
+
+    const band = this.getPriceLimitBand(order.stockSymbol);
+    if (!band) {
+      return;
+    }
+
+    validateOrderRules(order, this.tradingRuleConfig, {
+      band,
+      position: this.settlementTracker.getPosition(order.userId, order.stockSymbol),
+      openSellQuantity
+    });
+  }
+
+  /**
+   * 检查买单资金：订单剩余部分的预估金额加预估费用不超过可用现金
+   * （现金减去该交易员其他未终结买单占用的资金）
+   * @throws OrderError 如果可用现金不足
+   */
+  private checkBuyingPower(order: TradeOrder): void {
+    const trader = this.traders.get(order.userId);
+    if (order.action !== 'buy' || !trader) {
+      return;
+    }
+
+    let reserved = 0;
+    for (const other of this.orderManager.getOrders({ traderId: order.userId, openOnly: true })) {
+      if (other.id !== order.id && other.action === 'buy') {
+        reserved += this.estimateBuyCost(other);
+      }
+    }
+
+    const available = roundFee(trader.getCash() - reserved);
+    const required = this.estimateBuyCost(order);
+    if (required > available) {
+      throw new OrderError(
+        `Buy order requires ${required} including estimated fees, but only ${Math.max(0, available)} cash is available`,
+        OrderErrorCode.INSUFFICIENT_FUNDS,
+        order.id
+      );
+    }
+  }
+
+  /**
+   * 预估买单的最高成交价（资金占用和风控敞口按此计算）
+   * 限价单和止损限价单按限价；市价单和止损单按涨停价，未启用涨跌停时按最新价和触发价中的较高者
+   */
+  public estimateBuyPrice(order: TradeOrder): number {
+    const price = order.price ?? order.limitPrice;
+    if (price !== undefined) {
+      return price;
+    }
+    const band = this.getPriceLimitBand(order.stockSymbol);
+    return band ? band.limitUp : Math.max(this.stocks.get(order.stockSymbol)?.getCurrentPrice() ?? 0, order.stopPrice ?? 0);
+  }
+
+  /**
+   * 预估买单剩余部分占用的资金（含费用）
+   */
+  private estimateBuyCost(order: TradeOrder): number {
+    const amount = getRemainingQuantity(order) * this.estimateBuyPrice(order);
+    return roundFee(amount + calculateTradeFees('buy', amount, this.feeSchedule).total);
+  }
+
   /**
    * 检查环境是否健康
    */
@@ -361,13 +1140,15 @@ export class ExchangeInstance implements GameObject {
           name: '集合竞价',
           start: '09:15',
           end: '09:25',
-          description: '开盘集合竞价时间，时间停止'
+          description: '开盘集合竞价时间，时间停止',
+          auction: AuctionType.OPENING
         },
         {
           name: '收盘集合竞价',
           start: '14:57',
           end: '15:00',
-          description: '收盘集合竞价时间，时间停止'
+          description: '收盘集合竞价时间，时间停止',
+          auction: AuctionType.CLOSING
         }
       ],
       tradingIntervals: [
@@ -387,21 +1168,26 @@ export class ExchangeInstance implements GameObject {
     };
   }
 
+  /**
+   * 获取 server 目录下配置文件的路径
+   * 从 src/models/runtime/ 或 dist/server/src/models/runtime/ 向上找到 server 目录
+   */
+  private resolveConfigPath(fileName: string): string {
+    if (__dirname.includes('dist')) {
+      // 编译后的路径：dist/server/src/models/runtime/ -> ../../../../<fileName>
+      return path.join(__dirname, '../../../..', fileName);
+    }
+    // 源码路径：src/models/runtime/ -> ../../<fileName>
+    return path.join(__dirname, '../..', fileName);
+  }
+
   /**
    * 加载交易区间配置
    */
   private loadTradingIntervalConfig(): void {
     try {
       // 配置文件路径：server/trading-intervals.yml
-      // 从 src/models/runtime/ 或 dist/server/src/models/runtime/ 向上找到 server 目录
-      let configPath: string;
-      if (__dirname.includes('dist')) {
-        // 编译后的路径：dist/server/src/models/runtime/ -> ../../../../trading-intervals.yml
-        configPath = path.join(__dirname, '../../../../trading-intervals.yml');
-      } else {
-        // 源码路径：src/models/runtime/ -> ../../trading-intervals.yml
-        configPath = path.join(__dirname, '../../trading-intervals.yml');
-      }
+      const configPath = this.resolveConfigPath('trading-intervals.yml');
 
       if (fs.existsSync(configPath)) {
         const configContent = fs.readFileSync(configPath, 'utf-8');
@@ -417,6 +1203,119 @@ export class ExchangeInstance implements GameObject {
     }
   }
 
+  /**
+   * 加载交易规则配置
+   * 配置文件中缺少的字段使用默认值
+   */
+  private loadTradingRuleConfig(): TradingRuleConfig {
+    const defaults = getDefaultTradingRuleConfig();
+
+    try {
+      // 配置文件路径：server/trading-rules.yml
+      const configPath = this.resolveConfigPath('trading-rules.yml');
+
+      if (!fs.existsSync(configPath)) {
+        console.warn(`[ExchangeInstance] Trading rule config file not found at ${configPath}, using defaults`);
+        return defaults;
+      }
+
+      const loaded = (yaml.load(fs.readFileSync(configPath, 'utf-8')) || {}) as Partial<TradingRuleConfig>;
+      console.log(`[ExchangeInstance] Trading rule config loaded from ${configPath}`);
+
+      return {
+        ...defaults,
+        ...loaded,
+        priceLimit: {
+          defaultPercent: loaded.priceLimit?.defaultPercent ?? defaults.priceLimit.defaultPercent,
+          categoryOverrides: loaded.priceLimit?.categoryOverrides ?? defaults.priceLimit.categoryOverrides
+        }
+      };
+    } catch (error) {
+      console.warn('[ExchangeInstance] Failed to load trading rule config, using defaults:', error);
+      return defaults;
+    }
+  }
+
+  /**
+   * 加载交易费率配置
+   * 配置文件中缺少的字段使用默认值
+   */
+  private loadFeeSchedule(): FeeSchedule {
+    const defaults = getDefaultFeeSchedule();
+
+    try {
+      // 配置文件路径：server/trading-fees.yml
+      const configPath = this.resolveConfigPath('trading-fees.yml');
+
+      if (!fs.existsSync(configPath)) {
+        console.warn(`[ExchangeInstance] Fee schedule file not found at ${configPath}, using defaults`);
+        return defaults;
+      }
+
+      const loaded = (yaml.load(fs.readFileSync(configPath, 'utf-8')) || {}) as Partial<FeeSchedule>;
+      console.log(`[ExchangeInstance] Fee schedule loaded from ${configPath}`);
+
+      return { ...defaults, ...loaded };
+    } catch (error) {
+      console.warn('[ExchangeInstance] Failed to load fee schedule, using defaults:', error);
+      return defaults;
+    }
+  }
+
+  /**
+   * 加载市场因子配置
+   * 配置文件中缺少的字段使用默认值
+   */
+  private loadFactorModelConfig(): FactorModelConfig {
+    const defaults = getDefaultFactorModelConfig();
+
+    try {
+      // 配置文件路径：server/market-factors.yml
+      const configPath = this.resolveConfigPath('market-factors.yml');
+
+      if (!fs.existsSync(configPath)) {
+        console.warn(`[ExchangeInstance] Market factor config file not found at ${configPath}, using defaults`);
+        return defaults;
+      }
+
+      const loaded = (yaml.load(fs.readFileSync(configPath, 'utf-8')) || {}) as Partial<FactorModelConfig>;
+      console.log(`[ExchangeInstance] Market factor config loaded from ${configPath}`);
+
+      return { ...defaults, ...loaded, categoryOverrides: loaded.categoryOverrides ?? defaults.categoryOverrides };
+    } catch (error) {
+      console.warn('[ExchangeInstance] Failed to load market factor config, using defaults:', error);
+      return defaults;
+    }
+  }
+
+  /**
+   * 加载市场指数配置
+   * 配置文件中缺少的字段使用默认值，配置无效时使用默认配置
+   */
+  private loadMarketIndexConfig(): MarketIndexConfig {
+    const defaults = getDefaultMarketIndexConfig();
+
+    try {
+      // 配置文件路径：server/market-index.yml
+      const configPath = this.resolveConfigPath('market-index.yml');
+
+      if (!fs.existsSync(configPath)) {
+        console.warn(`[ExchangeInstance] Market index config file not found at ${configPath}, using defaults`);
+        return defaults;
+      }
+
+      const loaded = (yaml.load(fs.readFileSync(configPath, 'utf-8')) || {}) as Partial<MarketIndexConfig>;
+      const config = { ...defaults, ...loaded, code: String(loaded.code ?? defaults.code) };
+      validateMarketIndexConfig(config);
+      console.log(`[ExchangeInstance] Market index config loaded from ${configPath}`);
+
+      return config;
+    } catch (error) {
+      console.warn('[ExchangeInstance] Failed to load market index config, using defaults:', error);
+      return defaults;
+    }
+  }
+
   /**
    * 初始化游戏时间
    */
@@ -551,8 +1450,9 @@ export class ExchangeInstance implements GameObject {
     const afternoonStart = 13 * 60;      // 13:00
     const afternoonEnd = 15 * 60;        // 15:00
 
-    return (timeValue >= morningStart && timeValue <= morningEnd) ||
-      (timeValue >= afternoonStart && timeValue <= afternoonEnd);
+    // 左闭右开：15:00 收盘集合竞价撮合后不再连续竞价
+    return (timeValue >= morningStart && timeValue < morningEnd) ||
+      (timeValue >= afternoonStart && timeValue < afternoonEnd);
   }
 
   /**
@@ -579,11 +1479,12 @@ export class ExchangeInstance implements GameObject {
     const afternoonStart = 13 * 60;      // 13:00
     const afternoonEnd = 15 * 60;        // 15:00
 
-    if (timeValue >= morningStart && timeValue <= morningEnd) {
+    // 交易时段左闭右开：15:00 收盘集合竞价撮合后不再连续竞价
+    if (timeValue >= morningStart && timeValue < morningEnd) {
       return TradingTimeState.MORNING_SESSION;
     }
 
-    if (timeValue >= afternoonStart && timeValue <= afternoonEnd) {
+    if (timeValue >= afternoonStart && timeValue < afternoonEnd) {
       return TradingTimeState.AFTERNOON_SESSION;
     }
 
@@ -591,11 +1492,11 @@ export class ExchangeInstance implements GameObject {
       return TradingTimeState.PRE_MARKET;
     }
 
-    if (timeValue > morningEnd && timeValue < afternoonStart) {
+    if (timeValue >= morningEnd && timeValue < afternoonStart) {
       return TradingTimeState.LUNCH_BREAK;
     }
 
-    if (timeValue > afternoonEnd) {
+    if (timeValue >= afternoonEnd) {
       return TradingTimeState.POST_MARKET;
     }
 
@@ -706,4 +1607,535 @@ export class ExchangeInstance implements GameObject {
   public getTimeSeriesManager(): TimeSeriesManager {
     return this.timeSeriesManager;
   }
-}
\ No newline at end of file
+
+  /**
+   * 获取实例随机种子
+   */
+  public getRandomSeed(): number {
+    return this.randomStreams.seed;
+  }
+
+  /**
+   * 获取随机数子流（同一名称始终返回同一个子流）
+   *
+   * @param key - 子流名称，如 stock:600000、factor:market
+   */
+  public getRandomStream(key: string): RandomSource {
+    return this.randomStreams.get(key);
+  }
+
+  /**
+   * 为新创建的交易员分配独立的随机数子流 trader:<交易员模板 ID>:<序号>
+   * 序号按同一模板的交易员在本交易所内的创建顺序递增，相同模板和种子创建的实例仍可复现
+   *
+   * @param templateId - 交易员模板 ID
+   */
+  public createTraderRandomStream(templateId: string): RandomSource {
+    const index = this.traderStreamCounts.get(templateId) ?? 0;
+    this.traderStreamCounts.set(templateId, index + 1);
+    return this.randomStreams.get(`trader:${templateId}:${index}`);
+  }
+
+  // ============================================================================
+  // 市场因子
+  // ============================================================================
+
+  /**
+   * 获取市场因子配置
+   */
+  public getFactorModelConfig(): FactorModelConfig {
+    return { ...this.factorModelConfig, categoryOverrides: { ...this.factorModelConfig.categoryOverrides } };
+  }
+
+  /**
+   * 推进市场和行业因子（由 StockInstance 在价格更新时调用，同一游戏时间只推进一次）
+   *
+   * @param time - 游戏时间
+   * @param dtSeconds - 时间步长（游戏时间秒）
+   */
+  public advanceFactors(time: Date, dtSeconds: number): void {
+    this.factorModel.advance(time, dtSeconds);
+  }
+
+  /**
+   * 获取市场因子和指定行业因子的当前水平（累计对数收益率）
+   *
+   * @param category - 股票分类
+   */
+  public getFactorLevels(category: string): FactorLevels {
+    return this.factorModel.getLevels(category);
+  }
+
+  // ============================================================================
+  // 市场指数
+  // ============================================================================
+
+  /**
+   * 获取市场指数配置
+   */
+  public getMarketIndexConfig(): MarketIndexConfig {
+    return { ...this.marketIndexConfig };
+  }
+
+  /**
+   * 获取市场指数行情快照
+   *
+   * @returns 快照，指数未启用或尚未设定基日时返回 null
+   */
+  public getMarketIndex(): MarketIndexSnapshot | null {
+    return this.marketIndex.getSnapshot();
+  }
+
+  /**
+   * 获取市场指数序列 ID
+   */
+  public getIndexSeriesId(): string {
+    return this.indexSeriesId;
+  }
+
+  /**
+   * 设定指数基日并创建指数序列（所有股票开始后、第一次价格更新前执行一次）
+   * 配置的基日早于开始日期且股票种子历史覆盖基日时，以基日收盘价为基准并回填基日以来的日 K 线；
+   * 否则以开始日期为基日，成分股以前收盘价为基准
+   */
+  private initializeMarketIndex(): void {
+    const stocks = this.getAvailableStocks();
+    if (!this.marketIndexConfig.enabled || this.marketIndex.isBased() || stocks.length === 0) {
+      return;
+    }
+
+    const today = this.getSimulatedTime();
+    today.setHours(0, 0, 0, 0);
+    const configured = this.marketIndexConfig.baseDate ? parseIndexDate(this.marketIndexConfig.baseDate) : null;
+    const history = Object.fromEntries(stocks.map(stock => [
+      stock.symbol,
+      this.timeSeriesManager.queryCachedData({
+        seriesId: stock.getPriceSeriesId(),
+        granularity: Granularity.DAY_1,
+        startTime: new Date(0),
+        endTime: this.getSimulatedTime()
+      })
+    ]));
+    const useHistory = configured !== null && configured < today &&
+      stocks.some(stock => getCloseOnOrBefore(history[stock.symbol], configured) !== null);
+    const baseDate = useHistory ? configured : today;
+
+    try {
+      this.marketIndex.setBase(baseDate, stocks.map(stock => ({
+        symbol: stock.symbol,
+        basePrice: (useHistory ? getCloseOnOrBefore(history[stock.symbol], baseDate) : null) ?? stock.getPreviousClose(),
+        totalShares: stock.totalShares
+      })));
+
+      this.timeSeriesManager.createSeries({
+        seriesId: this.indexSeriesId,
+        name: `${this.marketIndexConfig.name} Index`,
+        dataType: DataType.CONTINUOUS,
+        metrics: [Metric.OPEN, Metric.HIGH, Metric.LOW, Metric.CLOSE],
+        missingDataStrategy: MissingDataStrategy.USE_PREVIOUS
+      });
+      if (useHistory) {
+        this.timeSeriesManager.importBars(this.indexSeriesId, Granularity.DAY_1, this.marketIndex.backfill(history));
+      }
+    } catch (error) {
+      console.error(`[ExchangeInstance] Failed to initialize market index for exchange "${this.name}":`, error);
+      return;
+    }
+
+    const snapshot = this.marketIndex.getSnapshot()!;
+    console.log(`[ExchangeInstance] Market index ${snapshot.code} (${snapshot.weighting}) based at ${snapshot.baseValue} on ${snapshot.baseDate} with ${snapshot.constituentCount} stocks`);
+  }
+
+  /**
+   * 股票价格更新时重新计算指数点位并写入指数序列
+   */
+  private handlePriceUpdated = (symbol: string, price: number, timestamp: Date): void => {
+    if (!this.marketIndex.isBased()) {
+      return;
+    }
+
+    const value = this.marketIndex.update(timestamp, (constituent: string) =>
+      constituent === symbol ? price : this.stocks.get(constituent)?.getCurrentPrice() ?? null
+    );
+    try {
+      this.timeSeriesManager.addDataPoint(this.indexSeriesId, { timestamp: new Date(timestamp), value, volume: 0 });
+    } catch (error) {
+      console.error(`[ExchangeInstance] Failed to write market index data point for exchange "${this.name}":`, error);
+    }
+  };
+
+  // ============================================================================
+  // 市场剧本
+  // ============================================================================
+
+  /**
+   * 附加剧本（替换已附加的剧本，已触发事件的效果保留）
+   * 第 1 天为市场实例开始的交易日；开始前附加时在开始时换算触发时间，
+   * 附加时触发时间已过的事件不再触发
+   *
+   * @param scenario - 剧本
+   * @returns 剧本进度，尚未开始时返回 null
+   * @throws ScenarioError 剧本无效时
+   */
+  public attachScenario(scenario: MarketScenario): ScenarioStatus | null {
+    validateScenario(scenario);
+
+    if (!this.startDate) {
+      this.pendingScenario = scenario;
+      return null;
+    }
+
+    // 第 N 个交易日（开始日期为第 1 个），一次推算到最晚的事件日
+    const lastDay = Math.max(1, ...scenario.events.map(event => event.day));
+    const tradingDays = [new Date(this.startDate)];
+    while (tradingDays.length < lastDay) {
+      tradingDays.push(this.getNextTradingDay(tradingDays[tradingDays.length - 1]));
+    }
+
+    this.scenarioTimeline = new ScenarioTimeline(scenario, this.getSimulatedTime(), (day: number) => new Date(tradingDays[day - 1]));
+
+    const status = this.getScenarioStatus()!;
+    const pending = status.events.filter(progress => progress.status === 'pending').length;
+    console.log(`[ExchangeInstance] Scenario "${scenario.name}" attached to exchange "${this.name}": ${pending}/${status.events.length} events pending`);
+    return status;
+  }
+
+  /**
+   * 获取剧本进度
+   *
+   * @returns 剧本进度，未附加剧本或尚未开始时返回 null
+   */
+  public getScenarioStatus(): ScenarioStatus | null {
+    if (!this.scenarioTimeline) {
+      return null;
+    }
+
+    return {
+      name: this.scenarioTimeline.getName(),
+      description: this.scenarioTimeline.getDescription(),
+      attachedAt: this.scenarioTimeline.getAttachedAt(),
+      events: this.scenarioTimeline.getEvents(),
+      halts: Array.from(this.tradingHalts, ([symbol, resumeAt]) => ({ symbol, resumeAt: new Date(resumeAt) })),
+    };
+  }
+
+  /**
+   * 检查股票是否停牌（个股停牌或全市场停牌）
+   */
+  public isTradingHalted(symbol: string): boolean {
+    return this.getTradingHaltResumeTime(symbol) !== null;
+  }
+
+  /**
+   * 获取停牌股票的复牌时间
+   *
+   * @returns 复牌时间（个股和全市场停牌取较晚者），未停牌时返回 null
+   */
+  private getTradingHaltResumeTime(symbol: string): Date | null {
+    let resumeAt: Date | null = null;
+    for (const key of [symbol, MARKET_WIDE_HALT]) {
+      const time = this.tradingHalts.get(key);
+      if (time && time > this.simulatedTime && (!resumeAt || time > resumeAt)) {
+        resumeAt = time;
+      }
+    }
+    return resumeAt;
+  }
+
+  /**
+   * 解除到期的停牌并记录复牌日志
+   */
+  private updateTradingHalts(): void {
+    for (const [key, resumeAt] of this.tradingHalts) {
+      if (resumeAt > this.simulatedTime) {
+        continue;
+      }
+
+      this.tradingHalts.delete(key);
+      this.recordJournal({
+        type: JournalEventType.SCENARIO_EVENT,
+        time: this.getSimulatedTime(),
+        symbol: key === MARKET_WIDE_HALT ? undefined : key,
+        message: `trading resumed for ${key === MARKET_WIDE_HALT ? 'whole market' : key}`,
+        data: { eventType: 'trading_resume', resumeAt: new Date(resumeAt) },
+      });
+    }
+  }
+
+  /**
+   * 依次执行到期的剧本事件（单个事件失败时记录日志，不影响其他事件）
+   */
+  private runScenario(): void {
+    if (!this.scenarioTimeline) {
+      return;
+    }
+
+    for (const progress of this.scenarioTimeline.takeDue(this.getSimulatedTime())) {
+      try {
+        this.applyScenarioEvent(progress);
+      } catch (error) {
+        console.error(`[ExchangeInstance] Scenario event #${progress.index} failed for exchange "${this.name}":`, error);
+        this.recordJournal({
+          type: JournalEventType.SCENARIO_EVENT,
+          time: this.getSimulatedTime(),
+          message: `${describeScenarioEvent(progress.event)} failed: ${error instanceof Error ? error.message : String(error)}`,
+          data: { scenario: this.scenarioTimeline.getName(), index: progress.index, eventType: progress.event.type, failed: true },
+        });
+      }
+    }
+  }
+
+  /**
+   * 执行剧本事件并记录事件日志
+   * - price_jump：股票价格按（带扰动的）涨跌幅跳变
+   * - sector_shock：行业或市场因子水平跳变，股票在下一次价格更新时按 β 计入
+   * - volatility_regime：设置股票（省略代码时为全部股票）的波动率倍数
+   * - trading_halt：股票（省略代码时为全市场）停牌到触发时间加停牌时长，拒绝下单和改单
+   */
+  private applyScenarioEvent(progress: ScenarioEventProgress): void {
+    const event = progress.event;
+    const now = this.getSimulatedTime();
+    const random = this.randomStreams.get(`scenario:${this.scenarioTimeline!.getName()}`);
+    const data: Record<string, any> = {
+      scenario: this.scenarioTimeline!.getName(),
+      index: progress.index,
+      eventType: event.type,
+      day: event.day,
+      time: event.time,
+    };
+    let symbol: string | undefined;
+
+    switch (event.type) {
+      case 'price_jump': {
+        const stock = this.stocks.get(event.symbol);
+        if (!stock) {
+          throw new Error(`Stock ${event.symbol} not found`);
+        }
+        symbol = event.symbol;
+        progress.appliedPercent = sampleShockPercent(event.percent, event.stdDev, random);
+        data.previousPrice = stock.getCurrentPrice();
+        data.price = stock.applyPriceShock(progress.appliedPercent);
+        data.appliedPercent = progress.appliedPercent;
+        break;
+      }
+      case 'sector_shock':
+        progress.appliedPercent = sampleShockPercent(event.percent, event.stdDev, random);
+        this.factorModel.applyShock(event.category ?? null, percentToLogReturn(progress.appliedPercent));
+        data.category = event.category ?? null;
+        data.appliedPercent = progress.appliedPercent;
+        break;
+      case 'volatility_regime': {
+        const stocks = event.symbol ? [this.stocks.get(event.symbol)] : Array.from(this.stocks.values());
+        if (stocks.some(stock => !stock)) {
+          throw new Error(`Stock ${event.symbol} not found`);
+        }
+        stocks.forEach(stock => stock!.setVolatilityMultiplier(event.multiplier));
+        symbol = event.symbol;
+        data.multiplier = event.multiplier;
+        break;
+      }
+      case 'trading_halt': {
+        const key = event.symbol ?? MARKET_WIDE_HALT;
+        const resumeAt = new Date(now.getTime() + event.durationMinutes * 60 * 1000);
+        const existing = this.tradingHalts.get(key);
+        this.tradingHalts.set(key, existing && existing > resumeAt ? existing : resumeAt);
+        symbol = event.symbol;
+        data.resumeAt = this.tradingHalts.get(key);
+        break;
+      }
+    }
+
+    this.recordJournal({
+      type: JournalEventType.SCENARIO_EVENT,
+      time: now,
+      symbol,
+      message: event.message ?? describeScenarioEvent(event),
+      data,
+    });
+  }
+
+  /**
+   * 获取供交易策略使用的行情视图
+   */
+  public getStrategyMarketView(): StrategyMarketView {
+    return {
+      getSymbols: () => this.getAvailableStocks().map(stock => stock.symbol),
+      getCurrentPrice: (symbol: string) => this.stocks.get(symbol)?.getCurrentPrice() ?? null,
+      getBars: (symbol: string, granularity: Granularity, limit?: number) => {
+        const stock = this.stocks.get(symbol);
+        if (!stock) {
+          return [];
+        }
+        const bars = this.timeSeriesManager.queryCachedData({
+          seriesId: stock.getPriceSeriesId(),
+          granularity,
+          startTime: new Date(0),
+          endTime: this.getSimulatedTime()
+        });
+        return limit !== undefined && limit > 0 ? bars.slice(-limit) : bars;
+      },
+      getIndicator: (symbol: string, granularity: Granularity, spec: IndicatorSpec, limit?: number) => {
+        const stock = this.stocks.get(symbol);
+        return stock ? this.timeSeriesManager.queryIndicator(stock.getPriceSeriesId(), granularity, spec, limit) : [];
+      },
+      getPriceLimitBand: (symbol: string) => this.getPriceLimitBand(symbol),
+      getFeeSchedule: () => this.getFeeSchedule(),
+      getIndexValue: () => this.marketIndex.getSnapshot()?.value ?? null,
+      getIndexBars: (granularity: Granularity, limit?: number) => {
+        if (!this.marketIndex.isBased()) {
+          return [];
+        }
+        const bars = this.timeSeriesManager.queryCachedData({
+          seriesId: this.indexSeriesId,
+          granularity,
+          startTime: new Date(0),
+          endTime: this.getSimulatedTime()
+        });
+        return limit !== undefined && limit > 0 ? bars.slice(-limit) : bars;
+      }
+    };
+  }
+
+  /**
+   * 查询市场指数 K 线（包含正在形成的 K 线，超出内存保留期的范围从存储读取）
+   *
+   * @param query - 查询条件
+   * @returns K 线响应，指数未启用或尚未设定基日时返回 null
+   */
+  public async getIndexKLine(query: KLineQuery): Promise<KLineResponse | null> {
+    if (!this.marketIndex.isBased()) {
+      return null;
+    }
+
+    const endTime = query.endTime ?? this.getSimulatedTime();
+    const startTime = query.startTime ?? this.getKLineStartTime(endTime, query);
+    const bars = startTime <= endTime
+      ? await this.timeSeriesManager.queryAggregatedData({ seriesId: this.indexSeriesId, granularity: query.granularity, startTime, endTime })
+      : [];
+
+    const forming = this.timeSeriesManager.getActiveWindowData(this.indexSeriesId, query.granularity);
+    const formingBar = forming && forming.startTime >= startTime && forming.startTime <= endTime ? forming : null;
+
+    return buildKLineResponse(
+      {
+        symbol: this.marketIndexConfig.code,
+        name: this.marketIndexConfig.name,
+        tickSize: INDEX_TICK_SIZE,
+        preClose: this.marketIndex.getPreviousClose(),
+        totalShares: 0,
+        bars,
+        formingBar
+      },
+      query.granularity,
+      normalizeKLineLimit(query.limit)
+    );
+  }
+
+  /**
+   * 查询股票 K 线（包含正在形成的 K 线，超出内存保留期的范围从存储读取）
+   *
+   * @param symbol - 股票代码
+   * @param query - 查询条件
+   * @returns K 线响应，股票不存在时返回 null
+   */
+  public async getKLine(symbol: string, query: KLineQuery): Promise<KLineResponse | null> {
+    const stock = this.stocks.get(symbol);
+    if (!stock) {
+      return null;
+    }
+
+    const seriesId = stock.getPriceSeriesId();
+    const endTime = query.endTime ?? this.getSimulatedTime();
+    const startTime = query.startTime ?? this.getKLineStartTime(endTime, query);
+    // 开始时间晚于截止时间（如未指定截止时间且开始时间在模拟时间之后）时没有 K 线
+    const bars = startTime <= endTime
+      ? await this.timeSeriesManager.queryAggregatedData({ seriesId, granularity: query.granularity, startTime, endTime })
+      : [];
+
+    // 正在形成的 K 线只要开始时间落在查询范围内即返回
+    const forming = this.timeSeriesManager.getActiveWindowData(seriesId, query.granularity);
+    const formingBar = forming && forming.startTime >= startTime && forming.startTime <= endTime ? forming : null;
+
+    return buildKLineResponse(
+      {
+        symbol,
+        name: stock.companyName,
+        tickSize: this.tradingRuleConfig.tickSize,
+        preClose: stock.getPreviousClose(),
+        totalShares: stock.totalShares,
+        bars,
+        formingBar
+      },
+      query.granularity,
+      normalizeKLineLimit(query.limit)
+    );
+  }
+
+  /**
+   * 未指定开始时间时，K 线查询从截止时间向前约 limit 个窗口开始，避免读取全部历史
+   */
+  private getKLineStartTime(endTime: Date, query: KLineQuery): Date {
+    return this.tradingCalendar.getLookbackStart(endTime, query.granularity, normalizeKLineLimit(query.limit));
+  }
+
+  /**
+   * 查询股票分时数据（最近 days 个交易日的 1 分钟数据）
+   *
+   * @param symbol - 股票代码
+   * @param days - 交易日数量
+   * @returns 分时响应，股票不存在时返回 null
+   */
+  public async getTimeShare(symbol: string, days: number): Promise<TimeShareResponse | null> {
+    const stock = this.stocks.get(symbol);
+    if (!stock) {
+      return null;
+    }
+
+    // 多取一个交易日，用于计算最早一个交易日的前收盘价
+    const endTime = this.getSimulatedTime();
+    const startTime = this.tradingCalendar.shiftTradingDays(this.tradingCalendar.getTradingDay(endTime), -days);
+    const range = { granularity: Granularity.MIN_1, startTime, endTime };
+    const [priceBars, volumeBars] = await Promise.all([
+      this.timeSeriesManager.queryAggregatedData({ seriesId: stock.getPriceSeriesId(), ...range }),
+      this.timeSeriesManager.queryAggregatedData({ seriesId: stock.getVolumeSeriesId(), ...range })
+    ]);
+
+    return buildTimeShareResponse(
+      {
+        symbol,
+        name: stock.companyName,
+        tickSize: this.tradingRuleConfig.tickSize,
+        preClose: stock.getPreviousClose(),
+        priceBars,
+        volumeBars,
+        formingPrice: this.timeSeriesManager.getActiveWindowData(stock.getPriceSeriesId(), Granularity.MIN_1),
+        formingVolume: this.timeSeriesManager.getActiveWindowData(stock.getVolumeSeriesId(), Granularity.MIN_1)
+      },
+      days
+    );
+  }
+
+  /**
+   * 查询股票技术指标（基于已收盘的 K 线）
+   *
+   * @param symbol - 股票代码
+   * @param query - 查询条件
+   * @returns 指标响应，股票不存在时返回 null
+   * @throws Error 指标参数无效时
+   */
+  public getIndicators(symbol: string, query: IndicatorQuery): IndicatorResponse | null {
+    const stock = this.stocks.get(symbol);
+    if (!stock) {
+      return null;
+    }
+
+    return buildIndicatorResponse(
+      symbol,
+      query.granularity,
+      query.indicators.map(spec => ({
+        spec,
+        data: this.timeSeriesManager.queryIndicator(stock.getPriceSeriesId(), query.granularity, spec, normalizeIndicatorLimit(query.limit))
+      }))
+    );
+  }
+}
@@ -1,12 +1,32 @@
 /**
  * 股票运行时实例
  * 
- * 继承 GameObject，提供股票的静态信息和基础市场数据
+ * 继承 GameObject，提供股票的静态信息、订单簿撮合和基础市场数据
+ * 模板带有种子历史时，开始前导入种子日 K 线，价格从最后收盘价继续
+ * 没有真实成交的更新区间由模板配置的价格模型推进参考价（默认 1% 随机游走），
+ * 随机数取自交易所的 stock:<股票代码> 子流；在此之上按股票的 β 叠加交易所的市场和行业因子收益率
+ * 剧本事件可使价格跳变、缩放价格模型的波动；停牌期间不推进参考价
  */
 
 import { GameObject, GameObjectState } from '../../lifecycle/types';
 import { ExchangeInstance } from './exchangeInstance';
-import { TimeSeriesManager, DataType, Metric, MissingDataStrategy } from '../../types/timeSeries';
+import { TimeSeriesManager, DataType, Granularity, Metric, MissingDataStrategy } from '../../types/timeSeries';
+import { SeedBar, toHistoricalBars } from '../../types/klineSeed';
+import { PriceModel, PriceModelConfig, DEFAULT_PRICE_MODEL_CONFIG, RandomSource, createPriceModel } from '../../types/priceModel';
+import { FactorExposure, FactorLevels, calculateSystematicReturn, getFactorExposure } from '../../types/marketFactor';
+import {
+  OrderBook,
+  MatchedTrade,
+  MatchResult,
+  OrderBookSnapshot,
+  OrderVenue,
+  AuctionClearing,
+  AuctionResult,
+} from '../../types/orderBook';
+import { AuctionType } from '../../types/tradingTime';
+import { ExchangeEvents } from '../../types/eventTypes';
+import { PriceLimitBand, clampToBand, roundToTick } from '../../types/tradingRules';
+import type { TradeOrder } from '../../../../shared/types/trading';
 
 /**
  * 股票信息接口
@@ -21,10 +41,34 @@ export interface StockInfo {
   issuePrice: number;
 }
 
+/**
+ * 当日行情统计（由真实成交驱动）
+ */
+export interface SessionStats {
+  /** 交易日（游戏时间日期） */
+  tradingDay: string;
+  /** 前收盘价（涨跌停基准） */
+  previousClose: number;
+  /** 开盘价（开盘集合竞价价格，无竞价成交时为首笔成交价） */
+  open: number | null;
+  /** 最高成交价 */
+  high: number | null;
+  /** 最低成交价 */
+  low: number | null;
+  /** 收盘价（收盘集合竞价价格） */
+  close: number | null;
+  /** 累计成交量 */
+  volume: number;
+  /** 累计成交额 */
+  turnover: number;
+  /** 成交笔数 */
+  tradeCount: number;
+}
+
 /**
  * 股票实例类
  */
-export class StockInstance implements GameObject {
+export class StockInstance implements GameObject, OrderVenue {
   public readonly id: number;
   public state: GameObjectState = GameObjectState.READY;
 
@@ -35,6 +79,7 @@ export class StockInstance implements GameObject {
   public readonly category: string;
   public readonly issuePrice: number;
   public readonly totalShares: number;
+  private readonly seedHistory: SeedBar[];
 
   // 运行时状态
   private currentPrice: number;
@@ -47,14 +92,31 @@ export class StockInstance implements GameObject {
   private readonly priceSeriesId: string;
   private readonly volumeSeriesId: string;
 
-  // 股价模拟相关（固定值）
-  private readonly priceVolatility: number = 0.01;       // 价格波动率 1%
-  private readonly baseVolume: number = 1000;            // 基础成交量
-  private readonly volumeVolatility: number = 0.5;       // 成交量波动率 50%
+  // 订单簿（价格优先、时间优先撮合）
+  private readonly orderBook: OrderBook;
+
+  // 成交回报流（最近成交，按时间升序）
+  private recentTrades: MatchedTrade[] = [];
+  private readonly maxRecentTrades: number = 200;
+
+  // 当日行情统计
+  private sessionStats: SessionStats;
+
+  // 价格模型（仅在无成交的区间推进参考价）及其随机数子流
+  private readonly priceModel: PriceModel;
+  private readonly random: RandomSource;
+
+  // 因子暴露及上次价格更新时的因子水平
+  private readonly factorExposure: FactorExposure;
+  private factorLevels: FactorLevels = { market: 0, sector: 0 };
+
+  // 波动率倍数（剧本的波动率状态切换，缩放价格模型的收益率）
+  private volatilityMultiplier: number = 1;
 
   // 数据写入频率控制（基于游戏时间）
   private lastPriceUpdateGameTime: number = 0;           // 上次价格更新的游戏时间（毫秒）
   private readonly priceUpdateInterval: number = 1000;    // 价格更新间隔（游戏时间毫秒，默认1秒）
+  private hasTradedSinceLastUpdate: boolean = false;     // 本更新区间内是否有真实成交
 
   // 市场数据历史（简单存储）
   private priceHistory: Array<{ price: number; timestamp: Date }> = [];
@@ -70,6 +132,9 @@ export class StockInstance implements GameObject {
       category: string;
       issuePrice: number;
       totalShares: number;
+      seedHistory?: SeedBar[];
+      priceModel?: PriceModelConfig;
+      factorExposure?: Partial<FactorExposure>;
     }
   ) {
     this.id = id;
@@ -93,19 +158,27 @@ export class StockInstance implements GameObject {
     this.category = templateData.category;
     this.issuePrice = templateData.issuePrice;
     this.totalShares = templateData.totalShares;
+    this.seedHistory = templateData.seedHistory ?? [];
     
-    // 初始化当前价格为发行价
-    this.currentPrice = templateData.issuePrice;
+    // 初始化当前价格为起始价格
+    this.currentPrice = this.getStartPrice();
+    this.priceModel = createPriceModel(templateData.priceModel ?? DEFAULT_PRICE_MODEL_CONFIG, this.currentPrice);
+    this.random = exchangeInstance.getRandomStream(`stock:${templateData.symbol}`);
+    this.factorExposure = getFactorExposure(templateData.factorExposure);
     this.createdAt = new Date();
     this.lastUpdateAt = new Date();
+
+    // 初始化订单簿和当日统计
+    this.orderBook = new OrderBook(templateData.symbol);
+    this.sessionStats = this.createSessionStats(exchangeInstance.getSimulatedTime(), this.currentPrice);
   }
 
   /**
    * GameObject 生命周期 - 开始播放
    */
   onBeginPlay(): void {
-    // 初始化当前价格为发行价
-    this.currentPrice = this.issuePrice;
+    // 初始化当前价格为起始价格
+    this.currentPrice = this.getStartPrice();
     this.lastUpdateAt = new Date();
     
     // 验证 TimeSeriesManager 已初始化
@@ -130,12 +203,25 @@ export class StockInstance implements GameObject {
       metrics: [Metric.VOLUME],
       missingDataStrategy: MissingDataStrategy.USE_ZERO
     });
+
+    // 导入种子历史（映射到开始时间之前的连续交易日）
+    if (this.seedHistory.length > 0) {
+      const lastTradingDay = this.exchangeInstance.getPreviousTradingDay(this.exchangeInstance.getSimulatedTime());
+      this.timeSeriesManager.importBars(
+        this.priceSeriesId,
+        Granularity.DAY_1,
+        toHistoricalBars(this.seedHistory, lastTradingDay, (date: Date) => this.exchangeInstance.getPreviousTradingDay(date))
+      );
+    }
     
-    // 写入初始数据点（如果当前在交易时间内）
+    // 记录起始因子水平（同时登记所属行业因子）
+    this.factorLevels = this.exchangeInstance.getFactorLevels(this.category);
+
+    // 写入初始数据点（如果当前在交易时间内，尚无成交，成交量为 0）
     const initialGameTime = this.exchangeInstance.getSimulatedTime();
+    this.sessionStats = this.createSessionStats(initialGameTime, this.currentPrice);
     if (this.exchangeInstance.isInTradingHours()) {
-      const initialVolume = this.generateVolume();
-      this.writeDataPoint(initialGameTime, this.currentPrice, initialVolume);
+      this.writeDataPoint(initialGameTime, this.currentPrice, 0);
       this.lastPriceUpdateGameTime = initialGameTime.getTime();
     }
     
@@ -150,30 +236,39 @@ export class StockInstance implements GameObject {
    */
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   onTick(deltaTime: number): void {
+    // 获取当前游戏时间，跨交易日时重置当日统计
+    const currentGameTime = this.exchangeInstance.getSimulatedTime();
+    const currentGameTimeMs = currentGameTime.getTime();
+    this.rollSessionIfNeeded(currentGameTime);
+
     // 检查是否在交易时间段内
     if (!this.exchangeInstance.isInTradingHours()) {
       return; // 非交易时间，不更新价格
     }
-    
-    // 获取当前游戏时间
-    const currentGameTime = this.exchangeInstance.getSimulatedTime();
-    const currentGameTimeMs = currentGameTime.getTime();
+
+    // 停牌期间不更新价格，复牌后的第一次更新一并计入停牌期间的因子变化
+    if (this.exchangeInstance.isTradingHalted(this.symbol)) {
+      return;
+    }
     
     // 检查是否需要更新价格（基于游戏时间间隔）
     if (currentGameTimeMs - this.lastPriceUpdateGameTime >= this.priceUpdateInterval) {
-      // 1. 生成新价格（随机游走）
-      const newPrice = this.generateNextPrice();
-      this.currentPrice = newPrice;
+      // 推进因子，所有股票在同一游戏时间看到相同的因子变化
+      this.exchangeInstance.advanceFactors(currentGameTime, this.priceUpdateInterval / 1000);
+      const factorLevels = this.exchangeInstance.getFactorLevels(this.category);
+
+      // 本区间有真实成交时，价格和成交量已在成交时写入；否则由价格模型和因子推进参考价，成交量为 0
+      if (!this.hasTradedSinceLastUpdate) {
+        const newPrice = this.generateNextPrice(calculateSystematicReturn(this.factorExposure, this.factorLevels, factorLevels));
+        this.currentPrice = newPrice;
+        this.writeDataPoint(currentGameTime, newPrice, 0);
+      }
+      this.factorLevels = factorLevels;
       
-      // 2. 生成成交量
-      const volume = this.generateVolume();
-      
-      // 3. 写入时间序列（使用游戏时间作为时间戳）
-      this.writeDataPoint(currentGameTime, newPrice, volume);
-      
-      // 4. 更新历史记录
-      this.addPriceHistory(newPrice);
+      // 更新历史记录
+      this.addPriceHistory(this.currentPrice);
       this.lastPriceUpdateGameTime = currentGameTimeMs;
+      this.hasTradedSinceLastUpdate = false;
       this.lastUpdateAt = new Date(); // 系统时间用于记录
     }
   }
@@ -184,8 +279,211 @@ export class StockInstance implements GameObject {
   onDestroy(): void {
     console.log(`[StockInstance] Stock ${this.symbol} (${this.companyName}) destroyed`);
     
-    // 清理价格历史
+    // 清理价格历史、订单簿和成交回报
     this.priceHistory = [];
+    this.orderBook.clear();
+    this.recentTrades = [];
+
+    // 移除时间序列（订阅者据此清理技术指标等派生数据）
+    this.timeSeriesManager.removeSeries(this.priceSeriesId);
+    this.timeSeriesManager.removeSeries(this.volumeSeriesId);
+  }
+
+  // ============================================================================
+  // 订单簿与撮合
+  // ============================================================================
+
+  /**
+   * 提交订单到订单簿并撮合（集合竞价期间只挂单）
+   * 成交价格不超出当日涨跌停区间，成交价格成为当前价格，成交量写入时间序列
+   *
+   * @param order - 订单（原地更新成交数量和状态）
+   * @returns 撮合结果
+   * @throws 如果订单无效
+   */
+  public submitOrder(order: TradeOrder): MatchResult {
+    const timestamp = this.exchangeInstance.getSimulatedTime();
+    const result = this.exchangeInstance.isCallAuction()
+      ? this.orderBook.collect(order, timestamp)
+      : this.orderBook.submit(order, timestamp, this.getMatchPriceLimits());
+
+    for (const trade of result.trades) {
+      this.handleTrade(trade);
+    }
+
+    return result;
+  }
+
+  /**
+   * 执行集合竞价统一撮合
+   * 以最新价（开盘前即前收盘价）作为参考价；撮合价格分别成为当日开盘价或收盘价
+   *
+   * @param auction - 集合竞价类型
+   * @returns 集合竞价结果
+   */
+  public runCallAuction(auction: AuctionType): AuctionResult {
+    const timestamp = this.exchangeInstance.getSimulatedTime();
+    const result = this.orderBook.uncross(timestamp, this.currentPrice, this.getMatchPriceLimits());
+
+    for (const trade of result.trades) {
+      this.handleTrade(trade);
+    }
+
+    if (result.clearing) {
+      if (auction === AuctionType.OPENING) {
+        this.sessionStats.open = result.clearing.price;
+      } else {
+        this.sessionStats.close = result.clearing.price;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 获取集合竞价参考撮合价格（不修改订单簿）
+   *
+   * @returns 参考撮合价格，无法成交时返回 null
+   */
+  public getIndicativeAuction(): AuctionClearing | null {
+    return this.orderBook.getIndicativeClearing(this.currentPrice, this.getMatchPriceLimits());
+  }
+
+  /**
+   * 撤销挂单
+   *
+   * @param orderId - 订单 ID
+   * @returns 被撤销的订单，不在订单簿中时返回 null
+   */
+  public cancelOrder(orderId: string): TradeOrder | null {
+    return this.orderBook.cancel(orderId, this.exchangeInstance.getSimulatedTime());
+  }
+
+  /**
+   * 从订单簿撤回挂单（不修改订单状态，用于改单和过期）
+   *
+   * @param orderId - 订单 ID
+   * @returns 被撤回的订单，不在订单簿中时返回 null
+   */
+  public withdrawOrder(orderId: string): TradeOrder | null {
+    return this.orderBook.remove(orderId);
+  }
+
+  /**
+   * 获取盘口快照
+   *
+   * @param depth - 每侧价位数量（默认5档）
+   */
+  public getOrderBookSnapshot(depth: number = 5): OrderBookSnapshot {
+    return this.orderBook.getSnapshot(depth, this.exchangeInstance.getSimulatedTime());
+  }
+
+  /**
+   * 获取最近成交（成交回报流）
+   *
+   * @param limit - 最大返回数量
+   * @returns 最近成交，按时间升序
+   */
+  public getRecentTrades(limit: number = 50): MatchedTrade[] {
+    return this.recentTrades.slice(-limit);
+  }
+
+  /**
+   * 获取前收盘价（跨交易日后首次获取时即按新交易日计算）
+   */
+  public getPreviousClose(): number {
+    this.rollSessionIfNeeded(this.exchangeInstance.getSimulatedTime());
+    return this.sessionStats.previousClose;
+  }
+
+  /**
+   * 获取当日行情统计
+   */
+  public getSessionStats(): SessionStats {
+    return { ...this.sessionStats };
+  }
+
+  /**
+   * 撮合价格区间：当日涨跌停区间，交易规则未启用时不限制
+   */
+  private getMatchPriceLimits(): PriceLimitBand | undefined {
+    return this.exchangeInstance.getPriceLimitBand(this.symbol) ?? undefined;
+  }
+
+  /**
+   * 处理成交
+   */
+  private handleTrade(trade: MatchedTrade): void {
+    this.rollSessionIfNeeded(trade.executedAt);
+
+    // 1. 更新当前价格为最新成交价
+    this.currentPrice = trade.price;
+    this.hasTradedSinceLastUpdate = true;
+    this.lastUpdateAt = new Date();
+
+    // 2. 写入时间序列（成交量来自真实成交）
+    this.writeDataPoint(trade.executedAt, trade.price, trade.quantity);
+
+    // 3. 更新当日统计
+    this.updateSessionStats(trade);
+
+    // 4. 计算双方交易费用
+    this.exchangeInstance.applyTradeFees(trade);
+
+    // 5. 记录成交回报
+    this.recentTrades.push(trade);
+    if (this.recentTrades.length > this.maxRecentTrades) {
+      this.recentTrades.splice(0, this.recentTrades.length - this.maxRecentTrades);
+    }
+
+    // 6. 通知交易所
+    this.exchangeInstance.broadcast(ExchangeEvents.TRADE_EXECUTED, trade);
+  }
+
+  /**
+   * 起始价格：有种子历史时为最后收盘价，否则为发行价
+   */
+  private getStartPrice(): number {
+    return this.seedHistory.length > 0 ? this.seedHistory[this.seedHistory.length - 1].close : this.issuePrice;
+  }
+
+  /**
+   * 创建空的当日统计
+   */
+  private createSessionStats(gameTime: Date, previousClose: number): SessionStats {
+    return {
+      tradingDay: gameTime.toDateString(),
+      previousClose,
+      open: null,
+      high: null,
+      low: null,
+      close: null,
+      volume: 0,
+      turnover: 0,
+      tradeCount: 0
+    };
+  }
+
+  /**
+   * 跨交易日时重置当日统计，以最新价作为前收盘价
+   */
+  private rollSessionIfNeeded(gameTime: Date): void {
+    if (this.sessionStats.tradingDay !== gameTime.toDateString()) {
+      this.sessionStats = this.createSessionStats(gameTime, this.currentPrice);
+    }
+  }
+
+  /**
+   * 根据成交更新当日统计
+   */
+  private updateSessionStats(trade: MatchedTrade): void {
+    const stats = this.sessionStats;
+    stats.open = stats.open ?? trade.price;
+    stats.high = stats.high === null ? trade.price : Math.max(stats.high, trade.price);
+    stats.low = stats.low === null ? trade.price : Math.min(stats.low, trade.price);
+    stats.volume += trade.quantity;
+    stats.turnover += trade.amount;
+    stats.tradeCount += 1;
   }
 
   /**
@@ -195,6 +493,20 @@ export class StockInstance implements GameObject {
     return this.currentPrice;
   }
 
+  /**
+   * 获取价格序列 ID（价格点携带成交量）
+   */
+  public getPriceSeriesId(): string {
+    return this.priceSeriesId;
+  }
+
+  /**
+   * 获取成交量序列 ID
+   */
+  public getVolumeSeriesId(): string {
+    return this.volumeSeriesId;
+  }
+
   /**
    * 获取市值
    */
@@ -287,24 +599,25 @@ export class StockInstance implements GameObject {
   public getMarketData(): {
     symbol: string;
     price: number;
-    volume: number; // 模拟交易量
-    high: number;   // 模拟最高价
-    low: number;    // 模拟最低价
-    open: number;   // 模拟开盘价
-    close: number;  // 模拟收盘价
+    volume: number; // 当日成交量
+    high: number;   // 当日最高成交价
+    low: number;    // 当日最低成交价
+    open: number;   // 当日开盘价
+    close: number;  // 收盘价（收盘集合竞价前为最新价）
     timestamp: Date;
   } {
-    // 由于价格静态，这些值都基于当前价格生成
+    // 当日尚无成交时，各价格字段回退为当前价格
     const basePrice = this.currentPrice;
+    const stats = this.sessionStats;
     
     return {
       symbol: this.symbol,
       price: basePrice,
-      volume: Math.floor(Math.random() * 1000000) + 100000, // 模拟交易量
-      high: basePrice * (1 + Math.random() * 0.02), // 模拟最高价（+0-2%）
-      low: basePrice * (1 - Math.random() * 0.02),  // 模拟最低价（-0-2%）
-      open: basePrice,  // 开盘价等于当前价
-      close: basePrice, // 收盘价等于当前价
+      volume: stats.volume,
+      high: stats.high ?? basePrice,
+      low: stats.low ?? basePrice,
+      open: stats.open ?? basePrice,
+      close: stats.close ?? basePrice,
       timestamp: this.lastUpdateAt
     };
   }
@@ -401,7 +714,8 @@ export class StockInstance implements GameObject {
   // ============================================================================
 
   /**
-   * 写入数据点到时间序列
+   * 写入数据点到时间序列并广播最新价
+   * 价格点同样携带成交量，使价格序列的 VWAP 按成交量加权
    */
   private writeDataPoint(timestamp: Date, price: number, volume: number): void {
     if (!this.timeSeriesManager) {
@@ -413,7 +727,7 @@ export class StockInstance implements GameObject {
       this.timeSeriesManager.addDataPoint(this.priceSeriesId, {
         timestamp: new Date(timestamp), // 使用游戏时间
         value: price,
-        volume: 0  // 价格序列不需要volume字段
+        volume: volume  // 无成交时为 0，聚合时按权重 1 计入 VWAP
       });
       
       // 写入成交量数据点
@@ -425,40 +739,76 @@ export class StockInstance implements GameObject {
     } catch (error) {
       console.error(`[StockInstance] Failed to write data point for ${this.symbol}:`, error);
       // 不抛出异常，避免影响游戏循环
+      return;
     }
+
+    // 通知交易所最新价（此时已完成的 K 线窗口已关闭）
+    this.exchangeInstance.broadcast(ExchangeEvents.PRICE_UPDATED, this.symbol, price, timestamp);
   }
 
   /**
-   * 生成下一个价格（随机游走模型）
-   * 公式: newPrice = oldPrice * (1 + volatility * randomNormal)
+   * 由价格模型生成下一个价格，并叠加因子带来的系统性收益率
+   * 时间步长固定为更新间隔而不是实际经过的游戏时间，价格路径只取决于种子和更新次数，
+   * 不受帧间隔抖动影响；波动率倍数不为 1 时按倍数缩放价格模型的对数收益率
+   *
+   * @param systematicReturn - 本次更新的系统性对数收益率
    */
-  private generateNextPrice(): number {
-    const randomNormal = this.generateNormalRandom();
-    const change = this.priceVolatility * randomNormal;
-    const newPrice = this.currentPrice * (1 + change);
-    
-    // 确保价格不为负（不设置上限，允许自由波动）
-    return Math.max(0.01, newPrice);
+  private generateNextPrice(systematicReturn: number): number {
+    let modelPrice = this.priceModel.next(this.currentPrice, this.priceUpdateInterval / 1000, this.random);
+    if (this.volatilityMultiplier !== 1 && modelPrice > 0) {
+      modelPrice = this.currentPrice * Math.exp(this.volatilityMultiplier * Math.log(modelPrice / this.currentPrice));
+    }
+    return this.clampPrice(modelPrice * Math.exp(systematicReturn));
   }
 
   /**
-   * 生成成交量
-   * 公式: volume = baseVolume * (1 + volumeVolatility * randomNormal)
+   * 启用交易规则时对齐价格步长并限制在涨跌停区间内，否则仅确保价格不为负
    */
-  private generateVolume(): number {
-    const randomNormal = this.generateNormalRandom();
-    const change = this.volumeVolatility * randomNormal;
-    const volume = this.baseVolume * (1 + change);
-    return Math.max(1, Math.floor(volume)); // 至少1手
+  private clampPrice(newPrice: number): number {
+    const band = this.exchangeInstance.getPriceLimitBand(this.symbol);
+    if (!band) {
+      return Math.max(0.01, newPrice);
+    }
+    const tickSize = this.exchangeInstance.getTradingRuleConfig().tickSize;
+    return clampToBand(roundToTick(newPrice, tickSize), band);
+  }
+
+  // ============================================================================
+  // 剧本事件
+  // ============================================================================
+
+  /**
+   * 价格跳变（剧本的消息面冲击）
+   * 跳变后的价格同样对齐价格步长并受涨跌停限制；跨交易日的盘前跳变先结算前收盘价，
+   * 当日涨跌幅包含跳空。交易时间内且未停牌时立即写入价格，否则在下一次价格更新时体现
+   *
+   * @param percent - 涨跌幅（百分比）
+   * @returns 跳变后的价格
+   */
+  public applyPriceShock(percent: number): number {
+    const gameTime = this.exchangeInstance.getSimulatedTime();
+    this.rollSessionIfNeeded(gameTime);
+
+    this.currentPrice = this.clampPrice(this.currentPrice * (1 + percent / 100));
+    if (this.exchangeInstance.isInTradingHours() && !this.exchangeInstance.isTradingHalted(this.symbol)) {
+      this.writeDataPoint(gameTime, this.currentPrice, 0);
+      this.addPriceHistory(this.currentPrice);
+    }
+    this.lastUpdateAt = new Date();
+    return this.currentPrice;
+  }
+
+  /**
+   * 设置波动率倍数（1 为正常波动）
+   */
+  public setVolatilityMultiplier(multiplier: number): void {
+    this.volatilityMultiplier = multiplier;
   }
 
   /**
-   * 生成正态分布随机数（Box-Muller 变换）
-   * @returns 均值为0、标准差为1的正态随机数
+   * 获取波动率倍数
    */
-  private generateNormalRandom(): number {
-    const u1 = Math.random();
-    const u2 = Math.random();
-    return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+  public getVolatilityMultiplier(): number {
+    return this.volatilityMultiplier;
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,8 @@
 import mongoose, { Document, Model, Types } from 'mongoose'
 import { BaseSchema, validators, commonFields, registerModel } from './index'
+import { KLineSeedHistory, toSeedSummary } from '../types/klineSeed'
+import { PRICE_MODEL_TYPES, PriceModelConfig, validatePriceModelConfig } from '../types/priceModel'
+import { FactorExposure, MAX_FACTOR_BETA } from '../types/marketFactor'
 
 // 类型定义
 export interface IStockTemplate {
@@ -11,6 +14,9 @@ export interface IStockTemplate {
   status: 'active' | 'inactive'
   createdBy?: string
   description?: string
+  seedHistory?: KLineSeedHistory
+  priceModel?: PriceModelConfig
+  factorExposure?: Partial<FactorExposure>
   createdAt: Date
   updatedAt: Date
 }
@@ -28,6 +34,40 @@ export interface IStockTemplateModel extends Model<IStockTemplateDocument> {
   searchByName(searchTerm: string, options?: any): any
 }
 
+// 种子日K线Schema
+const seedBarSchema = new mongoose.Schema({
+  date: { type: Date, required: true },
+  open: { type: Number, required: true, min: 0 },
+  high: { type: Number, required: true, min: 0 },
+  low: { type: Number, required: true, min: 0 },
+  close: { type: Number, required: true, min: 0 },
+  volume: { type: Number, required: true, min: 0 },
+  amount: { type: Number, min: 0 },
+}, { _id: false })
+
+// 种子历史Schema（导入的日K线，市场实例从最后收盘价开始）
+const seedHistorySchema = new mongoose.Schema({
+  format: { type: String, enum: ['kline', 'trends', 'csv'], required: true },
+  importedAt: { type: Date, required: true },
+  barCount: { type: Number, required: true, min: 1 },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  lastClose: { type: Number, required: true, min: 0 },
+  bars: { type: [seedBarSchema], default: undefined },
+}, { _id: false })
+
+// 价格模型Schema（省略时使用默认随机游走）
+const priceModelSchema = new mongoose.Schema({
+  type: { type: String, enum: PRICE_MODEL_TYPES, required: true },
+  params: { type: mongoose.Schema.Types.Mixed, default: undefined },
+}, { _id: false })
+
+// 因子暴露Schema（省略的 β 默认为 1）
+const factorExposureSchema = new mongoose.Schema({
+  marketBeta: { type: Number, min: -MAX_FACTOR_BETA, max: MAX_FACTOR_BETA },
+  sectorBeta: { type: Number, min: -MAX_FACTOR_BETA, max: MAX_FACTOR_BETA },
+}, { _id: false })
+
 // 股票模板Schema
 const stockTemplateSchema = new BaseSchema<IStockTemplateDocument>({
   // 股票名称
@@ -79,6 +119,36 @@ const stockTemplateSchema = new BaseSchema<IStockTemplateDocument>({
     },
   },
   
+  // 种子历史
+  seedHistory: {
+    type: seedHistorySchema,
+    default: undefined,
+  },
+
+  // 价格模型
+  priceModel: {
+    type: priceModelSchema,
+    default: undefined,
+    validate: {
+      validator: (config: PriceModelConfig | null) => {
+        if (!config) return true
+        try {
+          validatePriceModelConfig(config)
+          return true
+        } catch {
+          return false
+        }
+      },
+      message: '价格模型参数无效',
+    },
+  },
+
+  // 因子暴露
+  factorExposure: {
+    type: factorExposureSchema,
+    default: undefined,
+  },
+
   // 通用字段
   ...commonFields,
 })
@@ -106,6 +176,9 @@ stockTemplateSchema.methods.toSafeObject = function(this: IStockTemplateDocument
     category: obj.category,
     description: obj.description,
     status: obj.status,
+    seedHistory: obj.seedHistory ? toSeedSummary(obj.seedHistory) : undefined,
+    priceModel: obj.priceModel ?? undefined,
+    factorExposure: obj.factorExposure ?? undefined,
     marketValue: this.marketValue,
     createdAt: obj.createdAt,
     updatedAt: obj.updatedAt,
@@ -0,0 +1,154 @@
+import { Document, Model } from 'mongoose'
+import { BaseSchema, registerModel } from './index'
+import type { TradeHistoryRecord } from '../types/tradeHistory'
+
+// 类型定义
+export interface ITradeHistory extends TradeHistoryRecord {
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Document 接口
+export interface ITradeHistoryDocument extends ITradeHistory, Document {}
+
+// Model 接口
+export interface ITradeHistoryModel extends Model<ITradeHistoryDocument> {}
+
+// 成交历史Schema
+const tradeHistorySchema = new BaseSchema<ITradeHistoryDocument>({
+  // 成交ID（全局唯一）
+  tradeId: {
+    type: String,
+    required: true,
+  },
+
+  // 市场实例ID
+  exchangeId: {
+    type: String,
+    required: true,
+  },
+  instanceCreatedAt: {
+    type: Date,
+    required: true,
+  },
+
+  // 市场实例所属用户ID
+  userId: {
+    type: String,
+    required: true,
+  },
+
+  // 成交时间（游戏时间）
+  timestamp: {
+    type: Date,
+    required: true,
+  },
+
+  // 股票信息
+  symbol: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true,
+  },
+  stockName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+
+  // 买方信息
+  buyerId: {
+    type: String,
+    required: true,
+  },
+  buyerName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+
+  // 卖方信息
+  sellerId: {
+    type: String,
+    required: true,
+  },
+  sellerName: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+
+  // 成交详情
+  price: {
+    type: Number,
+    required: true,
+    min: 0.01,
+    set: (v: number) => Math.round(v * 100) / 100, // 保留2位小数
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1,
+    validate: {
+      validator: Number.isInteger,
+      message: '成交数量必须为整数',
+    },
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0,
+    set: (v: number) => Math.round(v * 100) / 100, // 保留2位小数
+  },
+  // 主动方方向
+  tradeType: {
+    type: String,
+    required: true,
+    enum: ['buy', 'sell'],
+  },
+
+  // 订单信息
+  buyerOrderId: {
+    type: String,
+    required: true,
+  },
+  sellerOrderId: {
+    type: String,
+    required: true,
+  },
+
+  // 双方交易费用
+  buyerFee: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+  sellerFee: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
+}, {
+  collection: 'trade_history',
+})
+
+// 单字段索引
+tradeHistorySchema.index({ tradeId: 1 }, { unique: true })
+tradeHistorySchema.index({ exchangeId: 1 })
+tradeHistorySchema.index({ symbol: 1 })
+tradeHistorySchema.index({ buyerId: 1 })
+tradeHistorySchema.index({ sellerId: 1 })
+tradeHistorySchema.index({ timestamp: -1 })
+
+// 复合索引
+tradeHistorySchema.index({ exchangeId: 1, userId: 1, instanceCreatedAt: 1, timestamp: -1 }) // 交易所查询
+tradeHistorySchema.index({ buyerId: 1, timestamp: -1 }) // 交易员查询
+tradeHistorySchema.index({ sellerId: 1, timestamp: -1 }) // 交易员查询
+tradeHistorySchema.index({ symbol: 1, timestamp: -1 }) // 股票查询
+tradeHistorySchema.index({ exchangeId: 1, userId: 1, instanceCreatedAt: 1, timestamp: 1 }) // 时间范围查询
+
+// 注册模型
+const TradeHistory = registerModel<ITradeHistoryDocument>('TradeHistory', tradeHistorySchema) as ITradeHistoryModel
+
+export default TradeHistory
@@ -9,9 +9,113 @@ import { Router, Request, Response } from 'express';
 import gameInstanceController from '../controllers/gameInstanceController';
 import { EnvironmentManagerEvents } from '../types/eventTypes';
 import { CreationProgress } from '../../../shared/types/progress';
+import {
+  MarketInstanceEventType,
+  MarketInstanceCreatedEvent,
+  MarketInstanceDestroyedEvent
+} from '../../../shared/types/marketInstance';
+import { OrderError, OrderErrorCode, OrderRequest, OrderAmendment, isOrderStatus } from '../types/orderBook';
+import { JournalEventType, isJournalEventType, normalizeJournalPageSize } from '../types/exchangeJournal';
+import { Granularity, isGranularity } from '../types/timeSeries';
+import { TIME_SHARE_DAYS } from '../types/kline';
+import { isValidRandomSeed } from '../types/randomStream';
+import { ScenarioError } from '../types/marketScenario';
+import { DEFAULT_INDICATOR_ENGINE_OPTIONS, IndicatorSpec, parseIndicatorName } from '../types/indicator';
+import { AppError } from '../middleware/errorHandler';
+import { EventStream, openEventStream } from '../utils/sse';
 
 const router = Router();
 
+/**
+ * 市场实例事件流订阅者
+ */
+interface EventStreamClient {
+  userId: string;
+  /** 只接收该创建请求的事件 */
+  requestId?: string;
+  stream: EventStream;
+}
+
+const eventStreamClients = new Set<EventStreamClient>();
+
+/**
+ * 订单错误代码对应的 HTTP 状态码（未列出的为 400）
+ */
+const ORDER_ERROR_STATUS: Partial<Record<OrderErrorCode, number>> = {
+  [OrderErrorCode.ORDER_NOT_FOUND]: 404,
+  [OrderErrorCode.ORDER_NOT_ACTIVE]: 409,
+  [OrderErrorCode.MARKET_CLOSED]: 409,
+  [OrderErrorCode.TRADING_HALTED]: 409
+};
+
+/**
+ * 订单接口错误响应
+ * OrderError 返回拒绝原因代码，市场实例不存在返回 404，其他返回 500
+ */
+function sendOrderError(res: Response, error: unknown, defaultMessage: string): void {
+  if (error instanceof OrderError) {
+    res.status(ORDER_ERROR_STATUS[error.code] ?? 400).json({
+      success: false,
+      error: {
+        code: error.code,
+        message: error.message,
+        orderId: error.orderId
+      }
+    });
+    return;
+  }
+
+  if (error instanceof Error && error.message.includes('not found')) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'MARKET_INSTANCE_NOT_FOUND',
+        message: 'Market instance not found'
+      }
+    });
+    return;
+  }
+
+  console.error(`${defaultMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: defaultMessage
+    }
+  });
+}
+
+/**
+ * 解析非负整数查询参数
+ * @returns 未提供时为 undefined，不是非负整数时为 null
+ */
+function parseIntegerQuery(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value, 10) : null;
+}
+
+/**
+ * 解析返回数量查询参数，不是正整数时直接返回 400
+ * @returns 未提供时为 undefined，无效时为 null（已发送响应）
+ */
+function parseLimitQuery(res: Response, value: unknown): number | null | undefined {
+  const limit = parseIntegerQuery(value);
+  if (limit === null || limit === 0) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'limit must be a positive integer'
+      }
+    });
+    return null;
+  }
+  return limit;
+}
+
 /**
  * 获取市场实例列表
  * GET /api/v1/market-instances
@@ -52,10 +156,11 @@ router.get('/', async (req: Request, res: Response) => {
 /**
  * 创建新市场实例
  * POST /api/v1/market-instances
+ * 请求体可带 seed（32 位无符号整数），相同模板和种子创建的实例价格路径相同
  */
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { templateId, name } = req.body;
+    const { templateId, name, seed } = req.body;
     
     // 验证请求参数
     if (!templateId) {
@@ -67,12 +172,22 @@ router.post('/', async (req: Request, res: Response) => {
         }
       });
     }
+
+    if (seed !== undefined && !isValidRandomSeed(seed)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Seed must be an integer between 0 and 4294967295'
+        }
+      });
+    }
     
     // TODO: 从认证中间件获取用户ID
     const userId = req.user?.id || 'default-user';
     
     // 创建环境
-    const requestId = gameInstanceController.createMarketInstance(templateId, userId, name);
+    const requestId = gameInstanceController.createMarketInstance(templateId, userId, name, seed);
     
     const response = {
       success: true,
@@ -108,6 +223,37 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 订阅市场实例事件（Server-Sent Events）
+ * GET /api/v1/market-instances/events?requestId=
+ * 推送创建进度、市场实例创建完成和销毁事件；指定 requestId 时只推送该创建请求的事件，并先推送当前进度
+ */
+router.get('/events', (req: Request, res: Response) => {
+  // TODO: 从认证中间件获取用户ID
+  const userId = req.user?.id || 'default-user';
+  const requestId = typeof req.query.requestId === 'string' ? req.query.requestId : undefined;
+  const progress = requestId ? gameInstanceController.getCreationProgress(requestId) : null;
+
+  if (requestId && !progress) {
+    return res.status(404).json({
+      success: false,
+      error: {
+        code: 'PROGRESS_NOT_FOUND',
+        message: 'Progress request not found'
+      }
+    });
+  }
+
+  const stream = openEventStream(req, res);
+  const client: EventStreamClient = { userId, requestId, stream };
+  eventStreamClients.add(client);
+  stream.onClose(() => eventStreamClients.delete(client));
+
+  if (progress) {
+    stream.send(MarketInstanceEventType.PROGRESS, progress);
+  }
+});
+
 /**
  * 获取市场实例详情
  * GET /api/v1/market-instances/:environmentId
@@ -291,51 +437,714 @@ router.get('/:environmentId/export', async (req: Request, res: Response) => {
 
 /**
  * 获取交易日志
- * GET /api/v1/market-instances/:environmentId/logs
+ * GET /api/v1/market-instances/:environmentId/logs?traderId=&symbol=&type=&startTime=&endTime=&cursor=&limit=
+ * type 可用逗号分隔多个事件类型；下一页将 meta.nextCursor 作为 cursor 传入
  */
 router.get('/:environmentId/logs', async (req: Request, res: Response) => {
   try {
     const environmentId = req.params.environmentId as string;
-    const { limit = 50, traderId } = req.query;
+    const { limit, traderId, symbol, type, startTime, endTime, cursor } = req.query;
     
     // TODO: 从认证中间件获取用户ID
     const userId = req.user?.id || 'default-user';
     
-    // 验证市场实例存在
-    const marketInstance = gameInstanceController.getMarketInstanceDetails(environmentId, userId);
+    const types = type ? (type as string).split(',').map(value => value.trim()).filter(Boolean) : [];
+    const invalidType = types.find(value => !isJournalEventType(value));
+    if (invalidType) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_EVENT_TYPE',
+          message: `Unknown event type: ${invalidType}`
+        }
+      });
+    }
     
-    if (!marketInstance) {
+    const start = startTime ? new Date(startTime as string) : undefined;
+    const end = endTime ? new Date(endTime as string) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIME_RANGE',
+          message: 'startTime and endTime must be valid ISO 8601 timestamps'
+        }
+      });
+    }
+    
+    const pageSize = parseLimitQuery(res, limit);
+    if (pageSize === null) {
+      return;
+    }
+    const pageCursor = parseIntegerQuery(cursor);
+    if (pageCursor === null) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'cursor must be a non-negative integer'
+        }
+      });
+    }
+    
+    const page = gameInstanceController.getTradingLogs(environmentId, userId, {
+      traderId: traderId as string | undefined,
+      symbol: symbol as string | undefined,
+      types: types as JournalEventType[],
+      startTime: start,
+      endTime: end,
+      cursor: pageCursor,
+      limit: pageSize
+    });
+    
+    res.json({
+      success: true,
+      data: page.entries,
+      meta: {
+        total: page.entries.length,
+        limit: normalizeJournalPageSize(pageSize),
+        nextCursor: page.nextCursor,
+        retained: page.retained,
+        environmentId
+      }
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve trading logs');
+  }
+});
+
+/**
+ * 获取股票 K 线（最后一根可能是正在形成的 K 线，标记 partial）
+ * GET /api/v1/market-instances/:environmentId/stocks/:symbol/kline?granularity=&startTime=&endTime=&limit=
+ */
+router.get('/:environmentId/stocks/:symbol/kline', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const symbol = req.params.symbol as string;
+    const { granularity = Granularity.MIN_1, startTime, endTime, limit } = req.query;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    if (!isGranularity(granularity)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_GRANULARITY',
+          message: `Unknown granularity: ${granularity}`
+        }
+      });
+    }
+    
+    const start = startTime ? new Date(startTime as string) : undefined;
+    const end = endTime ? new Date(endTime as string) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime())) || (start && end && start > end)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIME_RANGE',
+          message: 'startTime and endTime must be valid ISO 8601 timestamps and startTime must not be after endTime'
+        }
+      });
+    }
+    
+    const pageSize = parseLimitQuery(res, limit);
+    if (pageSize === null) {
+      return;
+    }
+    
+    const kline = await gameInstanceController.getKLine(environmentId, userId, symbol, {
+      granularity,
+      startTime: start,
+      endTime: end,
+      limit: pageSize
+    });
+    
+    if (!kline) {
       return res.status(404).json({
         success: false,
         error: {
-          code: 'ENVIRONMENT_NOT_FOUND',
-          message: 'Environment not found'
+          code: 'STOCK_NOT_FOUND',
+          message: `Stock ${symbol} not found`
         }
       });
     }
     
-    // TODO: 实现实际的日志获取逻辑
-    const logs: any[] = []; // 从实际的 GameObject 实例获取日志
+    res.json({
+      success: true,
+      data: kline
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve K-line data');
+  }
+});
+
+/**
+ * 获取股票分时数据（days=1 为当日分时，days=5 为五日分时）
+ * GET /api/v1/market-instances/:environmentId/stocks/:symbol/intraday?days=
+ */
+router.get('/:environmentId/stocks/:symbol/intraday', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const symbol = req.params.symbol as string;
+    const days = parseIntegerQuery(req.query.days ?? '1');
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    if (days === null || days === undefined || !(TIME_SHARE_DAYS as readonly number[]).includes(days)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_DAYS',
+          message: `days must be one of ${TIME_SHARE_DAYS.join(', ')}`
+        }
+      });
+    }
+    
+    const timeShare = await gameInstanceController.getTimeShare(environmentId, userId, symbol, days);
+    
+    if (!timeShare) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'STOCK_NOT_FOUND',
+          message: `Stock ${symbol} not found`
+        }
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: timeShare
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve intraday data');
+  }
+});
+
+/**
+ * 获取股票技术指标（names 为逗号分隔的指标名称，如 MA_5,MACD_12_26_9,RSI；省略时返回默认指标）
+ * GET /api/v1/market-instances/:environmentId/stocks/:symbol/indicators?granularity=&names=&limit=
+ */
+router.get('/:environmentId/stocks/:symbol/indicators', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const symbol = req.params.symbol as string;
+    const { granularity = Granularity.MIN_1, names, limit } = req.query;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    if (!isGranularity(granularity)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_GRANULARITY',
+          message: `Unknown granularity: ${granularity}`
+        }
+      });
+    }
+    
+    let indicators: IndicatorSpec[] = DEFAULT_INDICATOR_ENGINE_OPTIONS.defaultIndicators;
+    if (names) {
+      const requested = (names as string).split(',').filter(name => name.trim());
+      const invalid = requested.filter(name => !parseIndicatorName(name));
+      if (requested.length === 0 || invalid.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            code: 'INVALID_INDICATOR',
+            message: `Unknown or invalid indicators: ${invalid.join(', ') || names}`
+          }
+        });
+      }
+      indicators = requested.map(name => parseIndicatorName(name)!);
+    }
+    
+    const pageSize = parseLimitQuery(res, limit);
+    if (pageSize === null) {
+      return;
+    }
+    
+    const result = gameInstanceController.getIndicators(environmentId, userId, symbol, {
+      granularity,
+      indicators,
+      limit: pageSize
+    });
+    
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'STOCK_NOT_FOUND',
+          message: `Stock ${symbol} not found`
+        }
+      });
+    }
     
     res.json({
       success: true,
-      data: logs,
+      data: result
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve indicators');
+  }
+});
+
+/**
+ * 获取市场指数行情
+ * GET /api/v1/market-instances/:environmentId/index
+ */
+router.get('/:environmentId/index', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const snapshot = gameInstanceController.getMarketIndex(environmentId, userId);
+    
+    if (!snapshot) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'INDEX_NOT_AVAILABLE',
+          message: 'Market index is disabled or has not started yet'
+        }
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: snapshot
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve market index');
+  }
+});
+
+/**
+ * 获取市场指数 K 线（最后一根可能是正在形成的 K 线，标记 partial）
+ * GET /api/v1/market-instances/:environmentId/index/kline?granularity=&startTime=&endTime=&limit=
+ */
+router.get('/:environmentId/index/kline', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const { granularity = Granularity.MIN_1, startTime, endTime, limit } = req.query;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    if (!isGranularity(granularity)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_GRANULARITY',
+          message: `Unknown granularity: ${granularity}`
+        }
+      });
+    }
+    
+    const start = startTime ? new Date(startTime as string) : undefined;
+    const end = endTime ? new Date(endTime as string) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime())) || (start && end && start > end)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIME_RANGE',
+          message: 'startTime and endTime must be valid ISO 8601 timestamps and startTime must not be after endTime'
+        }
+      });
+    }
+    
+    const pageSize = parseLimitQuery(res, limit);
+    if (pageSize === null) {
+      return;
+    }
+    
+    const kline = await gameInstanceController.getIndexKLine(environmentId, userId, {
+      granularity,
+      startTime: start,
+      endTime: end,
+      limit: pageSize
+    });
+    
+    if (!kline) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'INDEX_NOT_AVAILABLE',
+          message: 'Market index is disabled or has not started yet'
+        }
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: kline
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve market index K-line data');
+  }
+});
+
+/**
+ * 获取剧本进度
+ * GET /api/v1/market-instances/:environmentId/scenario
+ */
+router.get('/:environmentId/scenario', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const status = gameInstanceController.getScenario(environmentId, userId);
+    
+    if (!status) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'SCENARIO_NOT_ATTACHED',
+          message: 'No scenario is attached to this market instance'
+        }
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: status
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve scenario');
+  }
+});
+
+/**
+ * 附加剧本（替换已附加的剧本，触发时间已过的事件不再触发）
+ * POST /api/v1/market-instances/:environmentId/scenario
+ */
+router.post('/:environmentId/scenario', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const status = gameInstanceController.attachScenario(environmentId, userId, req.body);
+    
+    res.status(201).json({
+      success: true,
+      data: status
+    });
+    
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_SCENARIO',
+          message: error.message,
+          field: error.path
+        }
+      });
+    }
+    sendOrderError(res, error, 'Failed to attach scenario');
+  }
+});
+
+/**
+ * 提交订单
+ * POST /api/v1/market-instances/:environmentId/orders
+ */
+router.post('/:environmentId/orders', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const { traderId, symbol, type, action, quantity, price, stopPrice, limitPrice, timeInForce } = req.body;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    if (typeof traderId !== 'string' || traderId.trim() === '') {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'traderId is required'
+        }
+      });
+    }
+    
+    const orderRequest: OrderRequest = {
+      traderId,
+      symbol,
+      type,
+      action,
+      quantity,
+      price,
+      stopPrice,
+      limitPrice,
+      timeInForce
+    };
+    
+    const result = gameInstanceController.submitOrder(environmentId, userId, orderRequest);
+    
+    res.status(201).json({
+      success: true,
+      data: result
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to submit order');
+  }
+});
+
+/**
+ * 查询订单列表
+ * GET /api/v1/market-instances/:environmentId/orders
+ */
+router.get('/:environmentId/orders', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const { traderId, symbol, status, open, limit = '100' } = req.query;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    if (status !== undefined && !isOrderStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Unknown order status: ${String(status)}`
+        }
+      });
+    }
+    
+    const pageSize = parseLimitQuery(res, limit);
+    if (pageSize === null) {
+      return;
+    }
+    
+    const orders = gameInstanceController.getOrders(environmentId, userId, {
+      traderId: traderId as string | undefined,
+      symbol: symbol as string | undefined,
+      status,
+      openOnly: open === 'true',
+      limit: pageSize
+    });
+    
+    res.json({
+      success: true,
+      data: orders,
       meta: {
-        total: logs.length,
-        limit: parseInt(limit as string),
+        total: orders.length,
+        limit: pageSize,
         environmentId
       }
     });
     
   } catch (error) {
-    console.error('Failed to get trading logs:', error);
-    res.status(500).json({
-      success: false,
-      error: {
-        code: 'INTERNAL_ERROR',
-        message: 'Failed to retrieve trading logs'
+    sendOrderError(res, error, 'Failed to retrieve orders');
+  }
+});
+
+/**
+ * 获取订单详情
+ * GET /api/v1/market-instances/:environmentId/orders/:orderId
+ */
+router.get('/:environmentId/orders/:orderId', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const orderId = req.params.orderId as string;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const order = gameInstanceController.getOrder(environmentId, userId, orderId);
+    
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: OrderErrorCode.ORDER_NOT_FOUND,
+          message: `Order ${orderId} not found`
+        }
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: order
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve order');
+  }
+});
+
+/**
+ * 修改订单
+ * PATCH /api/v1/market-instances/:environmentId/orders/:orderId
+ */
+router.patch('/:environmentId/orders/:orderId', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const orderId = req.params.orderId as string;
+    const { quantity, price, stopPrice, limitPrice } = req.body;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const amendment: OrderAmendment = { quantity, price, stopPrice, limitPrice };
+    const result = gameInstanceController.amendOrder(environmentId, userId, orderId, amendment);
+    
+    res.json({
+      success: true,
+      data: result
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to amend order');
+  }
+});
+
+/**
+ * 撤销订单
+ * DELETE /api/v1/market-instances/:environmentId/orders/:orderId
+ */
+router.delete('/:environmentId/orders/:orderId', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const orderId = req.params.orderId as string;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const order = gameInstanceController.cancelOrder(environmentId, userId, orderId);
+    
+    res.json({
+      success: true,
+      data: order
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to cancel order');
+  }
+});
+
+/**
+ * 查询成交历史（市场实例销毁后仍可查询）
+ * GET /api/v1/market-instances/:environmentId/trades?symbol=&traderId=&startTime=&endTime=&limit=&instanceCreatedAt=
+ * 实例已销毁时 instanceCreatedAt 指定服务重启前的同 ID 实例，省略时为最近一次创建的实例
+ */
+router.get('/:environmentId/trades', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const { symbol, traderId, startTime, endTime, limit, instanceCreatedAt } = req.query;
+
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+
+    const start = startTime ? new Date(startTime as string) : undefined;
+    const end = endTime ? new Date(endTime as string) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIME_RANGE',
+          message: 'startTime and endTime must be valid ISO 8601 timestamps'
+        }
+      });
+    }
+
+    const createdAt = instanceCreatedAt ? new Date(instanceCreatedAt as string) : undefined;
+    if (createdAt && isNaN(createdAt.getTime())) {
+      return res.status(400).json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'instanceCreatedAt must be a valid ISO 8601 timestamp'
+        }
+      });
+    }
+
+    const pageSize = parseLimitQuery(res, limit);
+    if (pageSize === null) {
+      return;
+    }
+
+    const trades = await gameInstanceController.getTradeHistory(environmentId, userId, {
+      symbol: symbol as string | undefined,
+      traderId: traderId as string | undefined,
+      startTime: start,
+      endTime: end,
+      instanceCreatedAt: createdAt,
+      limit: pageSize
+    });
+
+    res.json({
+      success: true,
+      data: trades,
+      meta: {
+        total: trades.length,
+        environmentId
       }
     });
+
+  } catch (error) {
+    if (error instanceof AppError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message
+        }
+      });
+    }
+    sendOrderError(res, error, 'Failed to retrieve trade history');
+  }
+});
+
+/**
+ * 获取交易员账本（投资组合与持仓）
+ * GET /api/v1/market-instances/:environmentId/traders/:traderId/portfolio
+ */
+router.get('/:environmentId/traders/:traderId/portfolio', async (req: Request, res: Response) => {
+  try {
+    const environmentId = req.params.environmentId as string;
+    const traderId = req.params.traderId as string;
+    
+    // TODO: 从认证中间件获取用户ID
+    const userId = req.user?.id || 'default-user';
+    
+    const snapshot = gameInstanceController.getTraderPortfolio(environmentId, userId, traderId);
+    
+    if (!snapshot) {
+      return res.status(404).json({
+        success: false,
+        error: {
+          code: 'TRADER_NOT_FOUND',
+          message: `Trader ${traderId} not found`
+        }
+      });
+    }
+    
+    res.json({
+      success: true,
+      data: snapshot
+    });
+    
+  } catch (error) {
+    sendOrderError(res, error, 'Failed to retrieve trader portfolio');
   }
 });
 
@@ -364,10 +1173,33 @@ router.get('/_status', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 向事件流订阅者推送事件
+ *
+ * @param userId - 事件所属用户
+ * @param requestId - 事件关联的创建请求（只订阅某个创建请求的连接据此过滤）
+ */
+function publishMarketInstanceEvent(
+  userId: string,
+  requestId: string | undefined,
+  event: MarketInstanceEventType,
+  data: unknown
+): void {
+  for (const client of eventStreamClients) {
+    if (client.userId !== userId) continue;
+    if (client.requestId && client.requestId !== requestId) continue;
+    client.stream.send(event, data);
+  }
+}
+
 // 设置进度更新事件监听器
 gameInstanceController.bind(EnvironmentManagerEvents.PROGRESS_UPDATE, (progress: CreationProgress) => {
-  // TODO: 实现 WebSocket 或 Server-Sent Events 来推送进度更新
   console.log('Progress update:', progress);
+
+  const userId = gameInstanceController.getCreationRequestOwner(progress.requestId);
+  if (userId) {
+    publishMarketInstanceEvent(userId, progress.requestId, MarketInstanceEventType.PROGRESS, progress);
+  }
 });
 
 gameInstanceController.bind(EnvironmentManagerEvents.ENVIRONMENT_CREATED, (event: {
@@ -376,6 +1208,14 @@ gameInstanceController.bind(EnvironmentManagerEvents.ENVIRONMENT_CREATED, (event
   environment: any;
 }) => {
   console.log('Environment created:', event);
+
+  const userId: string = event.environment.userId;
+  const data: MarketInstanceCreatedEvent = {
+    requestId: event.requestId,
+    environmentId: event.environmentId,
+    environment: gameInstanceController.getMarketInstancePreview(event.environmentId, userId)
+  };
+  publishMarketInstanceEvent(userId, event.requestId, MarketInstanceEventType.CREATED, data);
 });
 
 gameInstanceController.bind(EnvironmentManagerEvents.ENVIRONMENT_CREATION_FAILED, (event: {
@@ -391,11 +1231,17 @@ gameInstanceController.bind(EnvironmentManagerEvents.ENVIRONMENT_DESTROYED, (eve
   destroyedAt: Date;
 }) => {
   console.log('Environment destroyed:', event);
+
+  const data: MarketInstanceDestroyedEvent = {
+    environmentId: event.environmentId,
+    destroyedAt: event.destroyedAt
+  };
+  publishMarketInstanceEvent(event.userId, undefined, MarketInstanceEventType.DESTROYED, data);
 });
 
-// 定期清理过期的进度跟踪
+// 定期清理过期的进度跟踪（不阻止进程退出）
 setInterval(() => {
   gameInstanceController.cleanupExpiredProgress();
-}, 60 * 60 * 1000); // 每小时清理一次
+}, 60 * 60 * 1000).unref(); // 每小时清理一次
 
 export default router;
\ No newline at end of file
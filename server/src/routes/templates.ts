@@ -7,11 +7,36 @@ import express, { Request, Response, NextFunction } from 'express'
 import templateController from '../controllers/templateController'
 import { validateRequest, commonSchemas } from '../middleware/validation'
 import Joi from 'joi'
+import { MAX_SEED_BARS } from '../types/klineSeed'
+import {
+  MAX_SCENARIO_DESCRIPTION_LENGTH,
+  MAX_SCENARIO_NAME_LENGTH,
+  MarketScenario,
+  ScenarioError,
+  validateScenario
+} from '../types/marketScenario'
 
 const router = express.Router()
 
 // ==================== 验证规则 ====================
 
+// 市场剧本验证规则（事件结构按 validateScenario 校验）
+const scenarioSchema = Joi.object({
+  name: Joi.string().min(1).max(MAX_SCENARIO_NAME_LENGTH).required(),
+  description: Joi.string().max(MAX_SCENARIO_DESCRIPTION_LENGTH).optional(),
+  events: Joi.array().items(Joi.object().unknown(true)).required()
+}).custom((scenario: MarketScenario, helpers) => {
+  try {
+    validateScenario(scenario)
+    return scenario
+  } catch (error) {
+    if (error instanceof ScenarioError) {
+      return helpers.message({ custom: `市场剧本无效（${error.path ?? 'scenario'}）: ${error.message}` })
+    }
+    throw error
+  }
+}).allow(null)
+
 // 市场环境创建验证规则
 const createMarketSchema = Joi.object({
   name: Joi.string().min(1).max(200).optional(),
@@ -27,6 +52,7 @@ const createMarketSchema = Joi.object({
   stockTemplateIds: Joi.array().items(Joi.string()).min(1).required(),
   allocationAlgorithm: Joi.string().valid('weighted_random', 'equal_distribution', 'risk_based').optional().default('weighted_random'),
   seed: Joi.number().integer().min(0).optional(),
+  scenario: scenarioSchema.optional(),
   createdBy: Joi.string().optional()
 })
 
@@ -43,7 +69,8 @@ const updateMarketSchema = Joi.object({
     })
   ).min(1).optional(),
   stockTemplateIds: Joi.array().items(Joi.string()).min(1).optional(),
-  allocationAlgorithm: Joi.string().valid('weighted_random', 'equal_distribution', 'risk_based').optional()
+  allocationAlgorithm: Joi.string().valid('weighted_random', 'equal_distribution', 'risk_based').optional(),
+  scenario: scenarioSchema.optional()
 })
 
 // 查询验证规则
@@ -56,6 +83,14 @@ const querySchema = Joi.object({
   search: Joi.string().optional()
 })
 
+// 种子历史导入验证规则
+const seedHistorySchema = Joi.object({
+  content: Joi.alternatives().try(Joi.string().min(1), Joi.object()).required(),
+  format: Joi.string().valid('kline', 'trends', 'csv').optional(),
+  volumeUnit: Joi.string().valid('lot', 'share').optional(),
+  maxBars: Joi.number().integer().min(1).max(MAX_SEED_BARS).optional()
+})
+
 // 批量删除验证规则
 const batchDeleteSchema = Joi.object({
   ids: Joi.array().items(Joi.string()).min(1).required()
@@ -80,7 +115,10 @@ router.get('/', (_req: Request, res: Response): void => {
           detail: 'GET /stocks/:id',
           create: 'POST /stocks',
           update: 'PUT /stocks/:id',
-          delete: 'DELETE /stocks/:id'
+          delete: 'DELETE /stocks/:id',
+          seedHistory: 'GET /stocks/:id/seed-history',
+          importSeedHistory: 'POST /stocks/:id/seed-history',
+          deleteSeedHistory: 'DELETE /stocks/:id/seed-history'
         },
         traders: {
           list: 'GET /traders',
@@ -148,6 +186,27 @@ router.put('/stocks/:id',
  */
 router.delete('/stocks/:id', templateController.deleteStockTemplate)
 
+/**
+ * @route GET /api/templates/stocks/:id/seed-history
+ * @desc 获取股票模板的种子历史（日K线）
+ */
+router.get('/stocks/:id/seed-history', templateController.getStockSeedHistory)
+
+/**
+ * @route POST /api/templates/stocks/:id/seed-history
+ * @desc 导入种子历史（K线导出文件、分时导出文件或CSV），替换已有的种子历史
+ */
+router.post('/stocks/:id/seed-history',
+  validateRequest({ body: seedHistorySchema }),
+  templateController.importStockSeedHistory
+)
+
+/**
+ * @route DELETE /api/templates/stocks/:id/seed-history
+ * @desc 删除股票模板的种子历史
+ */
+router.delete('/stocks/:id/seed-history', templateController.deleteStockSeedHistory)
+
 // ==================== AI交易员模板路由 ====================
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * Bar History Service
+ *
+ * @description K 线历史持久化服务：持有进程级的批量写入器，
+ * 为每个市场实例的时间序列管理器提供 MongoDB 聚合数据存储（写入、范围读取和保留期清理）。
+ */
+
+import BarHistory from '../models/barHistory'
+import { checkConnection } from '../models/index'
+import { isDuplicateOnlyError } from '../utils/mongoUtils'
+import {
+  BarHistoryContext,
+  BarHistoryRecord,
+  BarHistorySink,
+  BarHistoryWriter,
+  BarHistoryWriterStats,
+  buildBarHistoryFilter,
+  createBarHistoryRecord,
+  toAggregatedPoint,
+} from '../types/barHistory'
+import type { AggregatedDataQuery, AggregatedDataStore, AggregatedPoint, Granularity } from '../types/timeSeries'
+
+/**
+ * 检查数据库连接
+ * @throws Error 数据库未连接时抛出（写入批次重新排队，读取回退到内存数据）
+ */
+const ensureConnected = (): void => {
+  if (!checkConnection().isConnected) {
+    throw new Error('Database not connected')
+  }
+}
+
+// MongoDB 存储
+const mongoSink: BarHistorySink = {
+  async insert(records: BarHistoryRecord[]): Promise<void> {
+    ensureConnected()
+
+    try {
+      await BarHistory.insertMany(records, { ordered: false })
+    } catch (error) {
+      if (!isDuplicateOnlyError(error)) {
+        throw error
+      }
+    }
+  },
+}
+
+const writer = new BarHistoryWriter(mongoSink)
+
+/**
+ * K 线历史存储是否可用（数据库已连接）
+ * 不可用时不应附加存储：时间序列管理器只在附加存储后按保留规则清理内存
+ */
+export const isAvailable = (): boolean => {
+  return checkConnection().isConnected
+}
+
+/**
+ * 创建市场实例的聚合数据存储
+ *
+ * @param context - 市场实例
+ * @returns 供 TimeSeriesManager.attachStore 使用的存储
+ */
+export const createStore = (context: BarHistoryContext): AggregatedDataStore => {
+  return {
+    save(point: AggregatedPoint): void {
+      writer.start()
+      writer.enqueue(createBarHistoryRecord(point, context))
+    },
+
+    async query(options: AggregatedDataQuery): Promise<AggregatedPoint[]> {
+      ensureConnected()
+
+      const records = await BarHistory.find(buildBarHistoryFilter(options, context))
+        .sort({ startTime: 1 })
+        .select('-_id -createdAt -updatedAt')
+        .lean()
+
+      return (records as unknown as BarHistoryRecord[]).map(toAggregatedPoint)
+    },
+
+    async prune(granularity: Granularity, before: Date): Promise<void> {
+      ensureConnected()
+
+      await BarHistory.deleteMany({
+        exchangeId: context.exchangeId,
+        instanceCreatedAt: context.instanceCreatedAt,
+        granularity,
+        endTime: { $lt: before },
+      })
+    },
+
+    isAvailable,
+  }
+}
+
+/**
+ * 立即写入缓冲区中的 K 线
+ */
+export const flush = (): Promise<void> => {
+  return writer.flush()
+}
+
+/**
+ * 停止定时写入并写入剩余 K 线（服务关闭时调用）
+ */
+export const shutdown = (): Promise<void> => {
+  return writer.stop()
+}
+
+/**
+ * 获取写入统计
+ */
+export const getWriterStats = (): BarHistoryWriterStats => {
+  return writer.getStats()
+}
+
+export default {
+  isAvailable,
+  createStore,
+  flush,
+  shutdown,
+  getWriterStats,
+}
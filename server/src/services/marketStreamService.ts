@@ -0,0 +1,334 @@
+/**
+ * Market Stream Service
+ *
+ * @description 实时行情 WebSocket 服务：在 HTTP 服务上挂载 WebSocket 端点，
+ * 客户端按市场实例和股票订阅，交易所的最新价、成交回报和 K 线收盘事件经推送中心分发给订阅者。
+ * 市场实例只在有订阅者时绑定交易所事件，实例销毁时通知订阅者。
+ */
+
+import { Server } from 'http'
+import { WebSocket, WebSocketServer } from 'ws'
+import { API_ENDPOINTS } from '../../../shared/types/api'
+import type { GameInstanceController } from '../controllers/gameInstanceController'
+import type { ExchangeInstance } from '../models/runtime/exchangeInstance'
+import { EnvironmentManagerEvents, ExchangeEvents } from '../types/eventTypes'
+import type { MatchedTrade } from '../types/orderBook'
+import type { AggregatedPoint, Granularity } from '../types/timeSeries'
+import {
+  DEFAULT_BAR_GRANULARITY,
+  DEFAULT_MARKET_STREAM_OPTIONS,
+  MarketStreamError,
+  MarketStreamErrorCode,
+  MarketStreamHub,
+  MarketStreamSubscribeMessage,
+  MarketStreamUnsubscribeMessage,
+  MarketTick,
+  createBarClose,
+  createTradePrint,
+  parseClientMessage,
+} from '../types/marketStream'
+
+// 未接入认证时与 REST 路由一致，使用默认用户
+const DEFAULT_USER_ID = 'default-user'
+
+// 心跳间隔（未响应 ping 的连接在下一次心跳时断开）
+const HEARTBEAT_INTERVAL_MS = 30000
+
+// 单条客户端消息最大字节数
+const MAX_PAYLOAD_BYTES = 64 * 1024
+
+/**
+ * 单个市场实例的行情源：绑定交易所事件并转换为推送消息
+ */
+class InstanceFeed {
+  constructor(
+    private readonly instanceId: string,
+    private readonly exchange: ExchangeInstance,
+    private readonly streamHub: MarketStreamHub
+  ) {}
+
+  attach(): void {
+    this.exchange.bind(ExchangeEvents.TRADE_EXECUTED, this.handleTrade)
+    this.exchange.bind(ExchangeEvents.PRICE_UPDATED, this.handlePriceUpdated)
+    this.exchange.bind(ExchangeEvents.BAR_CLOSED, this.handleBarClosed)
+  }
+
+  detach(): void {
+    this.exchange.unbind(ExchangeEvents.TRADE_EXECUTED, this.handleTrade)
+    this.exchange.unbind(ExchangeEvents.PRICE_UPDATED, this.handlePriceUpdated)
+    this.exchange.unbind(ExchangeEvents.BAR_CLOSED, this.handleBarClosed)
+  }
+
+  /**
+   * 根据股票当前行情创建最新价推送
+   */
+  createTick(symbol: string, timestamp: Date): MarketTick | null {
+    const stock = this.exchange.getStock(symbol)
+    if (!stock) {
+      return null
+    }
+
+    const marketData = stock.getMarketData()
+    const previousClose = stock.getPreviousClose()
+    const change = marketData.price - previousClose
+
+    return {
+      instanceId: this.instanceId,
+      symbol,
+      price: marketData.price,
+      previousClose,
+      change,
+      changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+      open: marketData.open,
+      high: marketData.high,
+      low: marketData.low,
+      volume: marketData.volume,
+      timestamp: timestamp.toISOString(),
+    }
+  }
+
+  private handleTrade = (trade: MatchedTrade): void => {
+    this.streamHub.publishTrade(createTradePrint(this.instanceId, trade))
+  }
+
+  private handlePriceUpdated = (symbol: string, _price: number, timestamp: Date): void => {
+    if (!this.streamHub.isSubscribed(this.instanceId, symbol)) {
+      return
+    }
+
+    const tick = this.createTick(symbol, timestamp)
+    if (tick) {
+      this.streamHub.queueTick(tick)
+    }
+  }
+
+  // K 线收盘只推送给订阅了该股票和周期的连接，订阅前关闭的 K 线不补发
+  private handleBarClosed = (symbol: string, bar: AggregatedPoint): void => {
+    this.streamHub.publishBar(createBarClose(this.instanceId, symbol, bar))
+  }
+}
+
+const hub = new MarketStreamHub()
+const feeds: Map<string, InstanceFeed> = new Map()
+
+let wss: WebSocketServer | null = null
+let controller: GameInstanceController | null = null
+let heartbeatTimer: NodeJS.Timeout | null = null
+let tickTimer: NodeJS.Timeout | null = null
+let clientSequence = 0
+
+/**
+ * 处理订阅：校验市场实例和股票，未指定股票时订阅全部股票
+ */
+const handleSubscribe = (clientId: string, message: MarketStreamSubscribeMessage): void => {
+  const { instanceId } = message
+
+  let exchange: ExchangeInstance
+  try {
+    exchange = controller!.getOwnedExchangeInstance(instanceId, DEFAULT_USER_ID)
+  } catch {
+    throw new MarketStreamError('Market instance not found', MarketStreamErrorCode.MARKET_INSTANCE_NOT_FOUND, instanceId)
+  }
+
+  const symbols = message.symbols ?? exchange.getAvailableStocks().map(stock => stock.symbol)
+  const unknownSymbol = symbols.find(symbol => !exchange.getStock(symbol))
+  if (unknownSymbol !== undefined) {
+    throw new MarketStreamError(`Unknown symbol: ${unknownSymbol}`, MarketStreamErrorCode.UNKNOWN_SYMBOL, instanceId)
+  }
+  const granularities = (message.granularities ?? [DEFAULT_BAR_GRANULARITY]) as Granularity[]
+
+  const subscription = hub.subscribe(clientId, instanceId, symbols, granularities)
+
+  let feed = feeds.get(instanceId)
+  if (!feed) {
+    feed = new InstanceFeed(instanceId, exchange, hub)
+    feed.attach()
+    feeds.set(instanceId, feed)
+  }
+
+  hub.send(clientId, {
+    type: 'subscribed',
+    instanceId,
+    symbols: Array.from(subscription.symbols),
+    granularities: Array.from(subscription.granularities),
+  })
+
+  // 订阅成功后立即推送当前行情作为快照
+  const now = exchange.getSimulatedTime()
+  for (const symbol of symbols) {
+    const tick = feed.createTick(symbol, now)
+    if (tick) {
+      hub.send(clientId, { type: 'tick', data: tick })
+    }
+  }
+}
+
+/**
+ * 处理退订
+ */
+const handleUnsubscribe = (clientId: string, message: MarketStreamUnsubscribeMessage): void => {
+  const symbols = hub.unsubscribe(clientId, message.instanceId, message.symbols)
+  hub.send(clientId, { type: 'unsubscribed', instanceId: message.instanceId, symbols })
+  releaseFeeds([message.instanceId])
+}
+
+/**
+ * 处理客户端消息，无效消息返回错误消息而不断开连接
+ */
+const handleMessage = (clientId: string, raw: string): void => {
+  try {
+    const message = parseClientMessage(raw)
+    switch (message.action) {
+      case 'ping':
+        hub.send(clientId, { type: 'pong' })
+        break
+      case 'subscribe':
+        handleSubscribe(clientId, message)
+        break
+      case 'unsubscribe':
+        handleUnsubscribe(clientId, message)
+        break
+    }
+  } catch (error) {
+    if (error instanceof MarketStreamError) {
+      hub.send(clientId, { type: 'error', code: error.code, message: error.message, instanceId: error.instanceId })
+      return
+    }
+    console.error('[MarketStream] Failed to handle message:', error)
+    hub.send(clientId, { type: 'error', code: 'INTERNAL_ERROR', message: 'Failed to handle message' })
+  }
+}
+
+/**
+ * 解绑不再有订阅者的市场实例
+ */
+const releaseFeeds = (instanceIds: string[]): void => {
+  for (const instanceId of instanceIds) {
+    const feed = feeds.get(instanceId)
+    if (feed && !hub.hasSubscribers(instanceId)) {
+      feed.detach()
+      feeds.delete(instanceId)
+    }
+  }
+}
+
+/**
+ * 市场实例销毁时通知订阅者
+ */
+const handleEnvironmentDestroyed = (event: { environmentId: string }): void => {
+  feeds.get(event.environmentId)?.detach()
+  feeds.delete(event.environmentId)
+  hub.closeInstance(event.environmentId)
+}
+
+/**
+ * 接受新连接
+ */
+const handleConnection = (socket: WebSocket): void => {
+  const clientId = `ws_${++clientSequence}`
+  const aliveSocket = socket as WebSocket & { isAlive?: boolean }
+  aliveSocket.isAlive = true
+
+  hub.addClient({
+    id: clientId,
+    send: (payload: string) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload)
+      }
+    },
+  })
+
+  socket.on('pong', () => {
+    aliveSocket.isAlive = true
+  })
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      hub.send(clientId, { type: 'error', code: MarketStreamErrorCode.INVALID_MESSAGE, message: 'Binary messages are not supported' })
+      return
+    }
+    handleMessage(clientId, data.toString())
+  })
+  socket.on('close', () => {
+    releaseFeeds(hub.removeClient(clientId))
+  })
+  socket.on('error', (error) => {
+    console.error(`[MarketStream] Connection ${clientId} error:`, error.message)
+  })
+}
+
+/**
+ * 在 HTTP 服务上挂载 WebSocket 端点（重复调用无效）
+ *
+ * @param server - HTTP 服务
+ * @param instanceController - 游戏实例控制器（用于查找市场实例和监听实例销毁）
+ */
+export const attach = (server: Server, instanceController: GameInstanceController): void => {
+  if (wss) {
+    return
+  }
+
+  controller = instanceController
+  controller.bind(EnvironmentManagerEvents.ENVIRONMENT_DESTROYED, handleEnvironmentDestroyed)
+
+  wss = new WebSocketServer({ server, path: API_ENDPOINTS.MARKET_INSTANCES.STREAM, maxPayload: MAX_PAYLOAD_BYTES })
+  wss.on('connection', handleConnection)
+
+  heartbeatTimer = setInterval(() => {
+    for (const socket of wss?.clients ?? []) {
+      const aliveSocket = socket as WebSocket & { isAlive?: boolean }
+      if (!aliveSocket.isAlive) {
+        socket.terminate()
+        continue
+      }
+      aliveSocket.isAlive = false
+      socket.ping()
+    }
+  }, HEARTBEAT_INTERVAL_MS)
+  heartbeatTimer.unref()
+
+  tickTimer = setInterval(() => hub.flushTicks(), DEFAULT_MARKET_STREAM_OPTIONS.tickIntervalMs)
+  tickTimer.unref()
+}
+
+/**
+ * 关闭所有连接并停止推送（服务关闭时调用）
+ */
+export const shutdown = (): Promise<void> => {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer)
+    heartbeatTimer = null
+  }
+  if (tickTimer) {
+    clearInterval(tickTimer)
+    tickTimer = null
+  }
+
+  feeds.forEach(feed => feed.detach())
+  feeds.clear()
+  controller?.unbind(EnvironmentManagerEvents.ENVIRONMENT_DESTROYED, handleEnvironmentDestroyed)
+  controller = null
+
+  const server = wss
+  wss = null
+  if (!server) {
+    return Promise.resolve()
+  }
+
+  for (const socket of server.clients) {
+    socket.close(1001, 'Server shutting down')
+  }
+  return new Promise(resolve => server.close(() => resolve()))
+}
+
+/**
+ * 获取连接数和订阅数
+ */
+export const getStats = (): { clients: number; subscriptions: number } => {
+  return hub.getStats()
+}
+
+export default {
+  attach,
+  shutdown,
+  getStats,
+}
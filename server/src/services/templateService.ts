@@ -8,6 +8,17 @@ import MarketEnvironment from '../models/marketTemplate'
 import MarketUtils from '../utils/marketUtils'
 import AllocationService from './allocationService'
 import { validators } from '../utils/validationUtils'
+import {
+  KLineSeedError,
+  KLineSeedHistory,
+  KLineSeedImportOptions,
+  KLineSeedSummary,
+  parseKLineSeed,
+  toSeedSummary,
+} from '../types/klineSeed'
+import type { PriceModelConfig } from '../types/priceModel'
+import type { FactorExposure } from '../types/marketFactor'
+import type { MarketScenario } from '../types/marketScenario'
 import type { Document } from 'mongoose'
 
 // 分页查询参数接口
@@ -57,6 +68,8 @@ interface CreateStockTemplateData {
   category: string
   description?: string
   status?: 'active' | 'inactive'
+  priceModel?: PriceModelConfig | null
+  factorExposure?: Partial<FactorExposure> | null
 }
 
 interface CreateAITraderTemplateData {
@@ -91,6 +104,7 @@ export interface MarketConfig {
   stockTemplateIds: string[]
   allocationAlgorithm?: string
   seed?: number
+  scenario?: MarketScenario | null
   createdBy?: string
 }
 
@@ -149,6 +163,7 @@ export interface MarketEnvironmentObject {
   totalMarketValue: number
   allocationAlgorithm: string
   allocationSeed: string
+  scenario?: MarketScenario
   statistics: MarketStatistics
   metadata: MarketMetadata
   version: string
@@ -278,7 +293,7 @@ export class StockTemplateService {
       // 执行查询
       const skip = (page - 1) * limit
       const [templates, total] = await Promise.all([
-        StockTemplate.find(query).sort(sortObj).skip(skip).limit(limit).lean(),
+        StockTemplate.find(query).select('-seedHistory.bars').sort(sortObj).skip(skip).limit(limit).lean(),
         StockTemplate.countDocuments(query),
       ])
 
@@ -306,7 +321,7 @@ export class StockTemplateService {
   // 根据ID获取股票模板
   async getById(id: ID): Promise<StockTemplateDocument & { id: string; issuePrice: number }> {
     try {
-      const template = await StockTemplate.findById(id).lean()
+      const template = await StockTemplate.findById(id).select('-seedHistory.bars').lean()
       if (!template) {
         throw new NotFoundError('股票模板')
       }
@@ -348,6 +363,8 @@ export class StockTemplateService {
       const templateData = {
         ...data,
         symbol: data.symbol.toUpperCase(),
+        priceModel: data.priceModel ?? undefined,
+        factorExposure: data.factorExposure ?? undefined,
         createdBy,
       }
 
@@ -405,6 +422,18 @@ export class StockTemplateService {
         updateData.symbol = data.symbol.toUpperCase()
       }
 
+      // priceModel、factorExposure 为 null 时恢复默认值
+      const unset: Record<string, 1> = {}
+      for (const field of ['priceModel', 'factorExposure'] as const) {
+        if (data[field] === null) {
+          delete updateData[field]
+          unset[field] = 1
+        }
+      }
+      if (Object.keys(unset).length > 0) {
+        updateData.$unset = unset
+      }
+
       const template = await StockTemplate.findByIdAndUpdate(id, updateData, {
         new: true,
         runValidators: true,
@@ -440,6 +469,74 @@ export class StockTemplateService {
     }
   }
 
+  // 导入种子历史（K线导出文件或CSV），替换已有的种子历史
+  async importSeedHistory(id: ID, content: unknown, options: KLineSeedImportOptions = {}): Promise<KLineSeedSummary> {
+    let history: KLineSeedHistory
+    try {
+      history = parseKLineSeed(content, options)
+    } catch (error) {
+      if (error instanceof KLineSeedError) {
+        throw new ValidationError('种子历史数据解析失败', [{
+          field: 'content',
+          message: error.message,
+          value: { code: error.code, row: error.row },
+        }])
+      }
+      throw error
+    }
+
+    try {
+      const template = await StockTemplate.findByIdAndUpdate(
+        id,
+        { seedHistory: history, updatedAt: new Date() },
+        { new: true, runValidators: true }
+      ).select('_id')
+      if (!template) {
+        throw new NotFoundError('股票模板')
+      }
+      return toSeedSummary(history)
+    } catch (error: any) {
+      if (error.name === 'CastError') {
+        throw new NotFoundError('股票模板')
+      }
+      throw error
+    }
+  }
+
+  // 获取种子历史（含K线），没有种子历史时返回 null
+  async getSeedHistory(id: ID): Promise<KLineSeedHistory | null> {
+    try {
+      const template = await StockTemplate.findById(id).select('seedHistory').lean()
+      if (!template) {
+        throw new NotFoundError('股票模板')
+      }
+      return (template.seedHistory as KLineSeedHistory | undefined) ?? null
+    } catch (error: any) {
+      if (error.name === 'CastError') {
+        throw new NotFoundError('股票模板')
+      }
+      throw error
+    }
+  }
+
+  // 删除种子历史
+  async clearSeedHistory(id: ID): Promise<void> {
+    try {
+      const template = await StockTemplate.findByIdAndUpdate(
+        id,
+        { $unset: { seedHistory: 1 }, updatedAt: new Date() }
+      ).select('_id')
+      if (!template) {
+        throw new NotFoundError('股票模板')
+      }
+    } catch (error: any) {
+      if (error.name === 'CastError') {
+        throw new NotFoundError('股票模板')
+      }
+      throw error
+    }
+  }
+
   // 根据分类获取模板
   async getByCategory(category: string, options: Record<string, any> = {}): Promise<any[]> {
     const templates = await StockTemplate.findByCategory(category, options)
@@ -921,6 +1018,7 @@ export class MarketEnvironmentTemplateService {
       totalMarketValue: statistics.totalMarketValue,
       allocationAlgorithm: params.allocationAlgorithm || 'weighted_random',
       allocationSeed: params.allocationResult.seed,
+      scenario: params.scenario ?? undefined,
       statistics: {
         totalCapital: statistics.totalCapital,
         totalMarketValue: statistics.totalMarketValue,
@@ -0,0 +1,106 @@
+/**
+ * Trade History Service
+ *
+ * @description 成交历史持久化服务：持有进程级的批量写入器，
+ * 将各市场实例的成交写入 MongoDB，并提供按实例、股票、交易员和时间范围的查询。
+ */
+
+import TradeHistory from '../models/tradeHistory'
+import { checkConnection } from '../models/index'
+import { isDuplicateOnlyError } from '../utils/mongoUtils'
+import { AppError } from '../middleware/errorHandler'
+import {
+  TradeHistoryRecord,
+  TradeHistoryQuery,
+  TradeHistorySink,
+  TradeHistoryWriter,
+  TradeHistoryWriterStats,
+  buildTradeHistoryFilter,
+  normalizeTradeHistoryLimit,
+} from '../types/tradeHistory'
+
+// MongoDB 存储
+const mongoSink: TradeHistorySink = {
+  async insert(records: TradeHistoryRecord[]): Promise<void> {
+    if (!checkConnection().isConnected) {
+      throw new Error('Database not connected')
+    }
+
+    try {
+      await TradeHistory.insertMany(records, { ordered: false })
+    } catch (error) {
+      if (!isDuplicateOnlyError(error)) {
+        throw error
+      }
+    }
+  },
+}
+
+const writer = new TradeHistoryWriter(mongoSink)
+
+/**
+ * 记录一笔成交（异步批量写入）
+ */
+export const recordTrade = (record: TradeHistoryRecord): void => {
+  writer.start()
+  writer.enqueue(record)
+}
+
+/**
+ * 立即写入缓冲区中的成交
+ */
+export const flush = (): Promise<void> => {
+  return writer.flush()
+}
+
+/**
+ * 停止定时写入并写入剩余成交（服务关闭时调用）
+ */
+export const shutdown = (): Promise<void> => {
+  return writer.stop()
+}
+
+/**
+ * 获取写入统计
+ */
+export const getWriterStats = (): TradeHistoryWriterStats => {
+  return writer.getStats()
+}
+
+/**
+ * 查询成交历史（按成交时间倒序）
+ * 指定市场实例但未指定创建时间时，查询该用户最近一次创建的同 ID 实例
+ * @throws AppError 数据库未连接时返回 503
+ */
+export const queryTrades = async (query: TradeHistoryQuery): Promise<TradeHistoryRecord[]> => {
+  if (!checkConnection().isConnected) {
+    throw new AppError('Trade history database is not available', 503, 'DATABASE_UNAVAILABLE')
+  }
+
+  if (query.exchangeId && !query.instanceCreatedAt) {
+    const latest = await TradeHistory.findOne(buildTradeHistoryFilter({ exchangeId: query.exchangeId, userId: query.userId }))
+      .sort({ instanceCreatedAt: -1 })
+      .select('instanceCreatedAt')
+      .lean()
+    if (!latest) {
+      return []
+    }
+    query = { ...query, instanceCreatedAt: latest.instanceCreatedAt }
+  }
+
+  const records = await TradeHistory.find(buildTradeHistoryFilter(query))
+    .sort({ timestamp: -1 })
+    .limit(normalizeTradeHistoryLimit(query.limit))
+    .select('-_id -createdAt -updatedAt')
+    .lean()
+
+  return records as unknown as TradeHistoryRecord[]
+}
+
+export default {
+  recordTrade,
+  flush,
+  shutdown,
+  getWriterStats,
+  queryTrades,
+}
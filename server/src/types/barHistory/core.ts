@@ -0,0 +1,74 @@
+/**
+ * Bar History Core Types
+ * K 线历史核心类型定义
+ *
+ * 时间序列窗口关闭后生成的 AggregatedPoint 转换为 BarHistoryRecord，
+ * 由 BarHistoryWriter 批量写入持久化存储（MongoDB bar_history 集合），
+ * 超出内存保留期的范围由 TimeSeriesManager 通过 AggregatedDataStore 读回
+ *
+ * @feature bar-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { Granularity } from '../timeSeries';
+import type { BatchSink, BatchWriterOptions, BatchWriterStats } from '../batchWriter';
+
+/**
+ * K 线历史记录（一个序列的一个已关闭窗口对应一条记录）
+ */
+export interface BarHistoryRecord {
+  /** 全局唯一 K 线 ID：市场实例 ID + 实例创建时间 + 序列 ID + 粒度 + 窗口开始时间 */
+  barId: string;
+  /** 所属市场实例 ID */
+  exchangeId: string;
+  /** 市场实例创建时间（区分服务重启后复用的实例 ID） */
+  instanceCreatedAt: Date;
+  /** 序列唯一标识 */
+  seriesId: string;
+  /** 时间粒度 */
+  granularity: Granularity;
+  /** 窗口开始时间（游戏时间） */
+  startTime: Date;
+  /** 窗口结束时间（游戏时间） */
+  endTime: Date;
+  /** 开盘价 */
+  open: number;
+  /** 最高价 */
+  high: number;
+  /** 最低价 */
+  low: number;
+  /** 收盘价 */
+  close: number;
+  /** 成交量 */
+  volume: number;
+  /** 成交量加权平均价 */
+  vwap?: number;
+  /** 原始数据点数量 */
+  dataPointCount: number;
+}
+
+/**
+ * 生成 K 线历史记录所需的上下文
+ */
+export interface BarHistoryContext {
+  /** 市场实例 ID */
+  exchangeId: string;
+  /** 市场实例创建时间 */
+  instanceCreatedAt: Date;
+}
+
+/**
+ * K 线历史存储
+ */
+export type BarHistorySink = BatchSink<BarHistoryRecord>;
+
+/**
+ * 批量写入器配置
+ */
+export type BarHistoryWriterOptions = BatchWriterOptions;
+
+/**
+ * 批量写入器统计
+ */
+export type BarHistoryWriterStats = BatchWriterStats;
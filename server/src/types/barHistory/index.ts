@@ -0,0 +1,20 @@
+/**
+ * Bar History Library
+ * K 线历史 - 已关闭时间窗口的持久化记录与批量写入
+ *
+ * 市场实例创建后，其时间序列管理器关闭的窗口转换为 BarHistoryRecord 交给批量写入器，
+ * 写入 MongoDB bar_history 集合；按粒度的保留规则清理内存后，较早的范围从该集合读取
+ *
+ * @feature bar-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// BarHistoryWriter
+export { BarHistoryWriter } from './writer';
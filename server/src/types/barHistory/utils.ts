@@ -0,0 +1,95 @@
+/**
+ * Bar History Utilities
+ * K 线历史工具函数
+ *
+ * @feature bar-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { AggregatedDataQuery, AggregatedPoint } from '../timeSeries';
+import type { BarHistoryContext, BarHistoryRecord, BarHistoryWriterOptions } from './core';
+
+/**
+ * 默认批量写入配置
+ * 每个序列每个粒度一分钟最多关闭一个窗口，批次比成交历史更大、间隔更长
+ */
+export const DEFAULT_BAR_HISTORY_WRITER_OPTIONS: BarHistoryWriterOptions = {
+  batchSize: 500,
+  flushIntervalMs: 5000,
+  maxBufferSize: 50000,
+};
+
+/**
+ * 将聚合数据点转换为 K 线历史记录
+ *
+ * @param point - 已关闭窗口的聚合数据点
+ * @param context - 市场实例
+ * @returns K 线历史记录
+ */
+export function createBarHistoryRecord(point: AggregatedPoint, context: BarHistoryContext): BarHistoryRecord {
+  const instanceKey = `${context.exchangeId}-${context.instanceCreatedAt.getTime()}`;
+
+  return {
+    barId: `${instanceKey}-${point.seriesId}-${point.granularity}-${point.startTime.getTime()}`,
+    exchangeId: context.exchangeId,
+    instanceCreatedAt: context.instanceCreatedAt,
+    seriesId: point.seriesId,
+    granularity: point.granularity,
+    startTime: point.startTime,
+    endTime: point.endTime,
+    open: point.open,
+    high: point.high,
+    low: point.low,
+    close: point.close,
+    volume: point.volume,
+    vwap: point.vwap,
+    dataPointCount: point.dataPointCount,
+  };
+}
+
+/**
+ * 将 K 线历史记录还原为聚合数据点
+ * 存储中不保存创建和更新时间，以窗口结束时间代替
+ *
+ * @param record - K 线历史记录
+ * @returns 聚合数据点
+ */
+export function toAggregatedPoint(record: BarHistoryRecord): AggregatedPoint {
+  const point: AggregatedPoint = {
+    seriesId: record.seriesId,
+    granularity: record.granularity,
+    startTime: record.startTime,
+    endTime: record.endTime,
+    open: record.open,
+    high: record.high,
+    low: record.low,
+    close: record.close,
+    volume: record.volume,
+    dataPointCount: record.dataPointCount,
+    createdAt: record.endTime,
+    updatedAt: record.endTime,
+  };
+  if (record.vwap !== undefined && record.vwap !== null) {
+    point.vwap = record.vwap;
+  }
+  return point;
+}
+
+/**
+ * 将聚合数据查询转换为 MongoDB 过滤条件
+ *
+ * @param query - 聚合数据查询
+ * @param context - 市场实例
+ * @returns 过滤条件
+ */
+export function buildBarHistoryFilter(query: AggregatedDataQuery, context: BarHistoryContext): Record<string, any> {
+  return {
+    exchangeId: context.exchangeId,
+    instanceCreatedAt: context.instanceCreatedAt,
+    seriesId: query.seriesId,
+    granularity: query.granularity,
+    startTime: { $gte: query.startTime },
+    endTime: { $lte: query.endTime },
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Bar History Writer
+ * K 线历史批量写入器
+ *
+ * 使用 K 线历史的默认批量配置；写入在时间序列聚合之外异步进行，失败只记录日志，不影响行情推进
+ *
+ * @feature bar-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { BatchWriter } from '../batchWriter';
+import type { BarHistoryRecord, BarHistorySink, BarHistoryWriterOptions } from './core';
+import { DEFAULT_BAR_HISTORY_WRITER_OPTIONS } from './utils';
+
+/**
+ * K 线历史批量写入器
+ */
+export class BarHistoryWriter extends BatchWriter<BarHistoryRecord> {
+  constructor(sink: BarHistorySink, options: Partial<BarHistoryWriterOptions> = {}) {
+    super('BarHistoryWriter', sink, { ...DEFAULT_BAR_HISTORY_WRITER_OPTIONS, ...options });
+  }
+}
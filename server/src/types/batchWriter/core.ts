@@ -0,0 +1,47 @@
+/**
+ * Batch Writer Core Types
+ * 批量写入器核心类型定义
+ *
+ * @feature batch-writer
+ * @author System
+ * @since 2026-10-18
+ */
+
+/**
+ * 批量写入的持久化存储
+ */
+export interface BatchSink<T> {
+  /**
+   * 批量写入记录
+   * @throws 写入失败时抛出，批次会重新排队
+   */
+  insert(records: T[]): Promise<void>;
+}
+
+/**
+ * 批量写入器配置
+ */
+export interface BatchWriterOptions {
+  /** 单批写入条数 */
+  batchSize: number;
+  /** 定时写入间隔（毫秒，现实时间） */
+  flushIntervalMs: number;
+  /** 缓冲区上限，超出时丢弃最早的记录 */
+  maxBufferSize: number;
+}
+
+/**
+ * 批量写入器统计
+ */
+export interface BatchWriterStats {
+  /** 当前缓冲条数 */
+  buffered: number;
+  /** 累计写入条数 */
+  written: number;
+  /** 累计失败批次数 */
+  failedBatches: number;
+  /** 因缓冲区溢出丢弃的条数 */
+  dropped: number;
+  /** 最近一次写入成功时间 */
+  lastFlushedAt: Date | null;
+}
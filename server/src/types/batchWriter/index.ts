@@ -0,0 +1,16 @@
+/**
+ * Batch Writer Library
+ * 批量写入器 - 缓冲记录并按批次异步写入持久化存储
+ *
+ * 成交历史和 K 线历史共用同一个写入器，各自提供记录类型、存储和默认配置
+ *
+ * @feature batch-writer
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// BatchWriter
+export { BatchWriter } from './writer';
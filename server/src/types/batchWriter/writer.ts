@@ -0,0 +1,131 @@
+/**
+ * Batch Writer
+ * 批量写入器
+ *
+ * - enqueue：记录进入缓冲区，达到 batchSize 时立即触发写入
+ * - 定时器每 flushIntervalMs 写入一次缓冲区中的剩余记录
+ * - 写入失败的批次重新排到缓冲区头部，下次写入时重试；缓冲区超出上限时丢弃最早的记录
+ * 写入在调用方的业务流程之外异步进行，失败只记录日志
+ *
+ * @feature batch-writer
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { BatchSink, BatchWriterOptions, BatchWriterStats } from './core';
+
+/**
+ * 批量写入器
+ */
+export class BatchWriter<T> {
+  private buffer: T[] = [];
+  private flushing: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private stats: Omit<BatchWriterStats, 'buffered'> = {
+    written: 0,
+    failedBatches: 0,
+    dropped: 0,
+    lastFlushedAt: null,
+  };
+
+  /**
+   * @param name - 日志前缀
+   * @param sink - 持久化存储
+   * @param options - 写入配置
+   */
+  constructor(
+    private readonly name: string,
+    private readonly sink: BatchSink<T>,
+    private readonly options: BatchWriterOptions
+  ) {}
+
+  /**
+   * 启动定时写入（重复调用无效）
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, this.options.flushIntervalMs);
+    // 定时器不阻止进程退出
+    this.timer.unref();
+  }
+
+  /**
+   * 停止定时写入并写入缓冲区中的剩余记录
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * 记录一条待写入的记录
+   */
+  enqueue(record: T): void {
+    this.buffer.push(record);
+    this.trimBuffer();
+
+    if (this.buffer.length >= this.options.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * 写入缓冲区中的全部记录
+   * 写入进行中时返回同一个 Promise；某一批失败时停止本次写入，剩余记录留待下次
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.drain().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * 获取写入统计
+   */
+  getStats(): BatchWriterStats {
+    return { buffered: this.buffer.length, ...this.stats };
+  }
+
+  /**
+   * 按批次写入缓冲区
+   */
+  private async drain(): Promise<void> {
+    while (this.buffer.length > 0) {
+      const batch = this.buffer.splice(0, this.options.batchSize);
+
+      try {
+        await this.sink.insert(batch);
+        this.stats.written += batch.length;
+        this.stats.lastFlushedAt = new Date();
+      } catch (error) {
+        this.stats.failedBatches++;
+        this.buffer.unshift(...batch);
+        this.trimBuffer();
+        console.error(`[${this.name}] Failed to write ${batch.length} records, ${this.buffer.length} buffered:`, error);
+        return;
+      }
+    }
+  }
+
+  /**
+   * 缓冲区超出上限时丢弃最早的记录
+   */
+  private trimBuffer(): void {
+    const overflow = this.buffer.length - this.options.maxBufferSize;
+    if (overflow > 0) {
+      this.buffer.splice(0, overflow);
+      this.stats.dropped += overflow;
+      console.warn(`[${this.name}] Buffer full, dropped ${overflow} oldest records`);
+    }
+  }
+}
@@ -32,6 +32,25 @@ export enum EnvironmentManagerEvents {
   ENVIRONMENT_DESTROYED = 'environmentDestroyed'
 }
 
+/**
+ * Exchange Instance 事件枚举
+ */
+export enum ExchangeEvents {
+  TRADE_EXECUTED = 'tradeExecuted',
+  AUCTION_COMPLETED = 'auctionCompleted',
+  PRICE_UPDATED = 'priceUpdated',
+  BAR_CLOSED = 'barClosed'
+}
+
+/**
+ * Time Series Manager 事件枚举
+ */
+export enum TimeSeriesEvents {
+  WINDOW_CLOSED = 'windowClosed',
+  SERIES_CREATED = 'seriesCreated',
+  SERIES_REMOVED = 'seriesRemoved'
+}
+
 /**
  * Worker Error Handler 事件枚举
  */
@@ -43,7 +62,7 @@ export enum ErrorHandlerEvents {
 /**
  * 所有事件类型的联合类型
  */
-export type AllEventTypes = WorkerPoolEvents | EnvironmentManagerEvents | ErrorHandlerEvents;
+export type AllEventTypes = WorkerPoolEvents | EnvironmentManagerEvents | ExchangeEvents | TimeSeriesEvents | ErrorHandlerEvents;
 
 /**
  * 事件数据接口定义
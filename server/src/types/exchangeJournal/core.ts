@@ -0,0 +1,100 @@
+/**
+ * Exchange Journal Core Types
+ * 交易所事件日志核心类型定义
+ *
+ * 每个 ExchangeInstance 持有一份有界的内存日志，记录订单、成交、撤单、
+ * 风控拒绝和策略决策，供交易日志接口按条件分页查询
+ *
+ * @feature exchange-journal
+ * @author System
+ * @since 2026-10-18
+ */
+
+/**
+ * 日志事件类型
+ */
+export enum JournalEventType {
+  /** 订单已受理（含立即成交或 IOC 剩余撤销后的状态） */
+  ORDER_SUBMITTED = 'order_submitted',
+  /** 订单被交易所拒绝 */
+  ORDER_REJECTED = 'order_rejected',
+  /** 改单 */
+  ORDER_AMENDED = 'order_amended',
+  /** 撤单 */
+  ORDER_CANCELLED = 'order_cancelled',
+  /** 当日有效订单过期 */
+  ORDER_EXPIRED = 'order_expired',
+  /** 订单成交（买卖双方各一条） */
+  ORDER_FILLED = 'order_filled',
+  /** 订单被交易员风控拒绝（RISK_* 错误代码，代替 ORDER_REJECTED） */
+  RISK_REJECTED = 'risk_rejected',
+  /** 触发止损 / 止盈 */
+  RISK_EXIT = 'risk_exit',
+  /** 单日亏损达到上限，停止交易 */
+  TRADING_HALTED = 'trading_halted',
+  /** 策略决策（仅记录有下单或撤单的决策） */
+  STRATEGY_DECISION = 'strategy_decision',
+  /** 策略评估异常 */
+  STRATEGY_ERROR = 'strategy_error',
+  /** 剧本事件触发（含停牌结束复牌） */
+  SCENARIO_EVENT = 'scenario_event',
+}
+
+/**
+ * 日志条目
+ */
+export interface JournalEntry {
+  /** 序号（单调递增，用作分页游标） */
+  id: number;
+  /** 事件类型 */
+  type: JournalEventType;
+  /** 事件时间（游戏时间） */
+  time: Date;
+  /** 相关交易员 ID */
+  traderId?: string;
+  /** 相关股票代码 */
+  symbol?: string;
+  /** 相关订单 ID */
+  orderId?: string;
+  /** 事件描述 */
+  message: string;
+  /** 事件详情 */
+  data?: Record<string, any>;
+}
+
+/**
+ * 待记录的日志条目（序号由日志分配）
+ */
+export type JournalEntryInput = Omit<JournalEntry, 'id'>;
+
+/**
+ * 日志查询条件（结果按序号倒序，即最新的在前）
+ */
+export interface JournalQuery {
+  /** 交易员 ID */
+  traderId?: string;
+  /** 股票代码 */
+  symbol?: string;
+  /** 事件类型（任一匹配） */
+  types?: JournalEventType[];
+  /** 起始时间（含，游戏时间） */
+  startTime?: Date;
+  /** 结束时间（含，游戏时间） */
+  endTime?: Date;
+  /** 分页游标：只返回序号小于该值的条目（上一页的 nextCursor） */
+  cursor?: number;
+  /** 每页条数 */
+  limit?: number;
+}
+
+/**
+ * 日志查询结果
+ */
+export interface JournalPage {
+  /** 本页条目 */
+  entries: JournalEntry[];
+  /** 下一页游标，没有更多条目时为 null */
+  nextCursor: number | null;
+  /** 日志当前保留的条目数 */
+  retained: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Exchange Journal Library
+ * 交易所事件日志 - 订单、成交、撤单、风控拒绝和策略决策的有界内存日志
+ *
+ * 交易所记录订单生命周期和成交，AI 交易员记录风控与策略事件，
+ * 交易日志接口按交易员、股票、事件类型和时间过滤并按游标分页
+ *
+ * @feature exchange-journal
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// ExchangeJournal
+export { ExchangeJournal } from './journal';
@@ -0,0 +1,89 @@
+/**
+ * Exchange Journal
+ * 交易所事件日志 - 有界内存日志与游标分页查询
+ *
+ * 条目按序号递增追加，超出容量时丢弃最早的条目；
+ * 查询从最新条目向前扫描，nextCursor 为本页最后一条的序号
+ *
+ * @feature exchange-journal
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { JournalEntry, JournalEntryInput, JournalPage, JournalQuery } from './core';
+import { DEFAULT_JOURNAL_CAPACITY, matchesJournalQuery, normalizeJournalPageSize } from './utils';
+
+/**
+ * 交易所事件日志
+ */
+export class ExchangeJournal {
+  private entries: JournalEntry[] = [];
+  private sequence: number = 0;
+
+  constructor(private readonly capacity: number = DEFAULT_JOURNAL_CAPACITY) {}
+
+  /**
+   * 记录一条日志
+   *
+   * @param input - 日志内容
+   * @returns 分配序号后的日志条目
+   */
+  record(input: JournalEntryInput): JournalEntry {
+    const entry: JournalEntry = { id: ++this.sequence, ...input };
+    this.entries.push(entry);
+
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+
+    return entry;
+  }
+
+  /**
+   * 按条件分页查询（最新的在前）
+   *
+   * @param query - 查询条件
+   * @returns 查询结果
+   */
+  query(query: JournalQuery = {}): JournalPage {
+    const limit = normalizeJournalPageSize(query.limit);
+    const cursor = query.cursor !== undefined && Number.isFinite(query.cursor) ? query.cursor : Infinity;
+    const result: JournalEntry[] = [];
+    let hasMore = false;
+
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (entry.id >= cursor) {
+        continue;
+      }
+      if (!matchesJournalQuery(entry, query)) {
+        continue;
+      }
+      if (result.length >= limit) {
+        hasMore = true;
+        break;
+      }
+      result.push(entry);
+    }
+
+    return {
+      entries: result.map(entry => ({ ...entry })),
+      nextCursor: hasMore ? result[result.length - 1].id : null,
+      retained: this.entries.length,
+    };
+  }
+
+  /**
+   * 获取当前保留的条目数
+   */
+  getSize(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * 清空日志（交易所销毁时调用）
+   */
+  clear(): void {
+    this.entries = [];
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Exchange Journal Utilities
+ * 交易所事件日志工具函数
+ *
+ * @feature exchange-journal
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { JournalEntry, JournalEventType, JournalQuery } from './core';
+
+/**
+ * 默认日志容量（超出时丢弃最早的条目）
+ */
+export const DEFAULT_JOURNAL_CAPACITY = 5000;
+
+/**
+ * 查询默认每页条数
+ */
+export const DEFAULT_JOURNAL_PAGE_SIZE = 50;
+
+/**
+ * 查询最大每页条数
+ */
+export const MAX_JOURNAL_PAGE_SIZE = 500;
+
+const JOURNAL_EVENT_TYPES = new Set<string>(Object.values(JournalEventType));
+
+/**
+ * 判断是否为有效的日志事件类型
+ */
+export function isJournalEventType(value: string): value is JournalEventType {
+  return JOURNAL_EVENT_TYPES.has(value);
+}
+
+/**
+ * 规范化每页条数
+ *
+ * @param limit - 请求的条数
+ * @returns 1 ~ MAX_JOURNAL_PAGE_SIZE 之间的整数
+ */
+export function normalizeJournalPageSize(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_JOURNAL_PAGE_SIZE;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_JOURNAL_PAGE_SIZE);
+}
+
+/**
+ * 判断日志条目是否满足查询条件（不含游标和条数）
+ *
+ * @param entry - 日志条目
+ * @param query - 查询条件
+ * @returns 是否匹配
+ */
+export function matchesJournalQuery(entry: JournalEntry, query: JournalQuery): boolean {
+  if (query.traderId !== undefined && entry.traderId !== query.traderId) return false;
+  if (query.symbol !== undefined && entry.symbol !== query.symbol) return false;
+  if (query.types && query.types.length > 0 && !query.types.includes(entry.type)) return false;
+  if (query.startTime && entry.time < query.startTime) return false;
+  if (query.endTime && entry.time > query.endTime) return false;
+  return true;
+}
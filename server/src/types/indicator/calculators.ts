@@ -0,0 +1,283 @@
+/**
+ * Indicator Calculators
+ * 增量技术指标计算器
+ *
+ * 每个计算器只保存计算下一个值所需的状态（滚动窗口、平滑均值），
+ * 每根 K 线 O(周期) 以内完成更新，不回看全部历史
+ * 平滑方式遵循国内行情软件的常用定义：
+ * - EMA：α = 2 / (N + 1)，以首个值为初值
+ * - MACD：DIF = EMA(快) - EMA(慢)，DEA = EMA(DIF, 信号)，柱 = 2 × (DIF - DEA)
+ * - RSI：Wilder 平滑（α = 1 / N），以前 N 个涨跌幅的简单平均为初值
+ * - KDJ：K = 2/3 × K' + 1/3 × RSV，D 同理（K、D 初值 50），J = 3K - 2D
+ * - BOLL：中轨为 N 周期简单平均，上下轨为中轨加减 k 倍总体标准差
+ * - ATR：真实波幅的 N 周期简单平均
+ *
+ * @feature indicator
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { AggregatedPoint } from '../timeSeries';
+import type { IndicatorCalculator, IndicatorSpec } from './core';
+import { getIndicatorParams, validateIndicatorSpec } from './utils';
+
+/**
+ * 滚动窗口：保存最近 size 个值及其和
+ */
+class RollingWindow {
+  private values: number[] = [];
+  private sum = 0;
+
+  constructor(private readonly size: number) {}
+
+  push(value: number): void {
+    this.values.push(value);
+    this.sum += value;
+    if (this.values.length > this.size) {
+      this.sum -= this.values.shift()!;
+    }
+  }
+
+  isFull(): boolean {
+    return this.values.length === this.size;
+  }
+
+  mean(): number {
+    return this.sum / this.values.length;
+  }
+
+  /** 总体标准差 */
+  stdDev(): number {
+    const mean = this.mean();
+    const variance = this.values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / this.values.length;
+    return Math.sqrt(variance);
+  }
+
+  max(): number {
+    return Math.max(...this.values);
+  }
+
+  min(): number {
+    return Math.min(...this.values);
+  }
+}
+
+/**
+ * 指数移动平均（以首个值为初值）
+ */
+class ExponentialAverage {
+  private value: number | null = null;
+  private count = 0;
+  private readonly alpha: number;
+
+  constructor(private readonly period: number) {
+    this.alpha = 2 / (period + 1);
+  }
+
+  push(input: number): number {
+    this.value = this.value === null ? input : this.value + this.alpha * (input - this.value);
+    this.count++;
+    return this.value;
+  }
+
+  /** 是否已输入至少一个周期的值 */
+  isReady(): boolean {
+    return this.count >= this.period;
+  }
+}
+
+/**
+ * 简单移动平均
+ */
+class MACalculator implements IndicatorCalculator {
+  private readonly window: RollingWindow;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    this.window.push(bar.close);
+    return this.window.isFull() ? { value: this.window.mean() } : null;
+  }
+}
+
+/**
+ * 指数移动平均
+ */
+class EMACalculator implements IndicatorCalculator {
+  private readonly ema: ExponentialAverage;
+
+  constructor(period: number) {
+    this.ema = new ExponentialAverage(period);
+  }
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    const value = this.ema.push(bar.close);
+    return this.ema.isReady() ? { value } : null;
+  }
+}
+
+/**
+ * MACD（慢线满一个周期后输出）
+ */
+class MACDCalculator implements IndicatorCalculator {
+  private readonly fast: ExponentialAverage;
+  private readonly slow: ExponentialAverage;
+  private readonly signal: ExponentialAverage;
+
+  constructor(fastPeriod: number, slowPeriod: number, signalPeriod: number) {
+    this.fast = new ExponentialAverage(fastPeriod);
+    this.slow = new ExponentialAverage(slowPeriod);
+    this.signal = new ExponentialAverage(signalPeriod);
+  }
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    const dif = this.fast.push(bar.close) - this.slow.push(bar.close);
+    const dea = this.signal.push(dif);
+    return this.slow.isReady() ? { dif, dea, macd: 2 * (dif - dea) } : null;
+  }
+}
+
+/**
+ * 相对强弱指数
+ */
+class RSICalculator implements IndicatorCalculator {
+  private previousClose: number | null = null;
+  private averageGain = 0;
+  private averageLoss = 0;
+  private count = 0;
+
+  constructor(private readonly period: number) {}
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    const previousClose = this.previousClose;
+    this.previousClose = bar.close;
+    if (previousClose === null) {
+      return null;
+    }
+
+    const change = bar.close - previousClose;
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    this.count++;
+
+    if (this.count <= this.period) {
+      // 预热期累计简单平均
+      this.averageGain += (gain - this.averageGain) / this.count;
+      this.averageLoss += (loss - this.averageLoss) / this.count;
+    } else {
+      this.averageGain += (gain - this.averageGain) / this.period;
+      this.averageLoss += (loss - this.averageLoss) / this.period;
+    }
+
+    if (this.count < this.period) {
+      return null;
+    }
+    const total = this.averageGain + this.averageLoss;
+    // 无涨跌时视为中性
+    return { value: total === 0 ? 50 : (this.averageGain / total) * 100 };
+  }
+}
+
+/**
+ * 随机指标 KDJ
+ */
+class KDJCalculator implements IndicatorCalculator {
+  private readonly highs: RollingWindow;
+  private readonly lows: RollingWindow;
+  private k = 50;
+  private d = 50;
+
+  constructor(period: number, private readonly kPeriod: number, private readonly dPeriod: number) {
+    this.highs = new RollingWindow(period);
+    this.lows = new RollingWindow(period);
+  }
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    this.highs.push(bar.high);
+    this.lows.push(bar.low);
+
+    const highest = this.highs.max();
+    const lowest = this.lows.min();
+    // 区间无波动时 RSV 取中值
+    const rsv = highest === lowest ? 50 : ((bar.close - lowest) / (highest - lowest)) * 100;
+    this.k += (rsv - this.k) / this.kPeriod;
+    this.d += (this.k - this.d) / this.dPeriod;
+
+    return this.highs.isFull() ? { k: this.k, d: this.d, j: 3 * this.k - 2 * this.d } : null;
+  }
+}
+
+/**
+ * 布林带
+ */
+class BOLLCalculator implements IndicatorCalculator {
+  private readonly window: RollingWindow;
+
+  constructor(period: number, private readonly multiplier: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    this.window.push(bar.close);
+    if (!this.window.isFull()) {
+      return null;
+    }
+
+    const middle = this.window.mean();
+    const width = this.multiplier * this.window.stdDev();
+    return { upper: middle + width, middle, lower: middle - width };
+  }
+}
+
+/**
+ * 平均真实波幅
+ */
+class ATRCalculator implements IndicatorCalculator {
+  private readonly window: RollingWindow;
+  private previousClose: number | null = null;
+
+  constructor(period: number) {
+    this.window = new RollingWindow(period);
+  }
+
+  update(bar: AggregatedPoint): Record<string, number> | null {
+    const trueRange = this.previousClose === null
+      ? bar.high - bar.low
+      : Math.max(bar.high, this.previousClose) - Math.min(bar.low, this.previousClose);
+    this.previousClose = bar.close;
+
+    this.window.push(trueRange);
+    return this.window.isFull() ? { value: this.window.mean() } : null;
+  }
+}
+
+/**
+ * 创建指标计算器
+ *
+ * @param spec - 指标定义
+ * @returns 增量计算器
+ * @throws Error 参数无效时
+ */
+export function createIndicatorCalculator(spec: IndicatorSpec): IndicatorCalculator {
+  validateIndicatorSpec(spec);
+  const params = getIndicatorParams(spec);
+
+  switch (spec.type) {
+    case 'MA':
+      return new MACalculator(params[0]);
+    case 'EMA':
+      return new EMACalculator(params[0]);
+    case 'MACD':
+      return new MACDCalculator(params[0], params[1], params[2]);
+    case 'RSI':
+      return new RSICalculator(params[0]);
+    case 'KDJ':
+      return new KDJCalculator(params[0], params[1], params[2]);
+    case 'BOLL':
+      return new BOLLCalculator(params[0], params[1]);
+    case 'ATR':
+      return new ATRCalculator(params[0]);
+  }
+}
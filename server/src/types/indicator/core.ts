@@ -0,0 +1,72 @@
+/**
+ * Indicator Core Types
+ * 技术指标核心类型定义
+ *
+ * 指标引擎挂接在 TimeSeriesManager 上，每个窗口关闭时按序列和粒度增量更新，
+ * 数据结构直接复用 shared/types/indicator.ts，与前端共用
+ *
+ * @feature indicator
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { AggregatedPoint, Granularity } from '../timeSeries';
+import type { IndicatorType } from '../../../../shared/types/indicator';
+
+export type {
+  IndicatorType,
+  IndicatorPoint,
+  IndicatorSeries,
+  IndicatorResponse,
+} from '../../../../shared/types/indicator';
+
+/**
+ * 技术指标定义
+ */
+export interface IndicatorSpec {
+  /** 指标类型 */
+  type: IndicatorType;
+  /**
+   * 指标参数，省略时使用默认参数
+   * - MA / EMA / RSI / ATR：[周期]
+   * - MACD：[快线周期, 慢线周期, 信号线周期]
+   * - KDJ：[RSV 周期, K 平滑周期, D 平滑周期]
+   * - BOLL：[周期, 标准差倍数]
+   */
+  params?: number[];
+}
+
+/**
+ * 增量指标计算器
+ */
+export interface IndicatorCalculator {
+  /**
+   * 输入一根已收盘 K 线
+   * @returns 指标值，数据不足（预热期）时返回 null
+   */
+  update(bar: AggregatedPoint): Record<string, number> | null;
+}
+
+/**
+ * 指标引擎配置
+ */
+export interface IndicatorEngineOptions {
+  /** 每个序列和粒度默认计算的指标 */
+  defaultIndicators: IndicatorSpec[];
+  /** 每个指标保留的数据点数量上限 */
+  maxHistory: number;
+  /** 只为返回 true 的序列计算指标，省略时计算全部序列 */
+  seriesFilter?: (seriesId: string) => boolean;
+}
+
+/**
+ * 技术指标查询条件
+ */
+export interface IndicatorQuery {
+  /** 时间粒度 */
+  granularity: Granularity;
+  /** 指标定义 */
+  indicators: IndicatorSpec[];
+  /** 每个指标返回的数据点数量 */
+  limit?: number;
+}
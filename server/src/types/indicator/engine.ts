@@ -0,0 +1,225 @@
+/**
+ * Indicator Engine
+ * 技术指标引擎
+ *
+ * - update：时间序列窗口关闭时输入聚合数据点，更新该序列和粒度的全部指标
+ * - 序列和粒度第一次出现时按默认配置创建指标；track 可追加其他指标或参数，
+ *   并用已有的聚合数据预热，使新指标立即可用
+ * - 每个指标只保留最近 maxHistory 个数据点
+ *
+ * @feature indicator
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { AggregatedPoint, Granularity } from '../timeSeries';
+import type {
+  IndicatorCalculator,
+  IndicatorEngineOptions,
+  IndicatorPoint,
+  IndicatorSeries,
+  IndicatorSpec,
+} from './core';
+import { createIndicatorCalculator } from './calculators';
+import {
+  DEFAULT_INDICATOR_ENGINE_OPTIONS,
+  getIndicatorName,
+  getIndicatorParams,
+  getIndicatorSignal,
+  validateIndicatorSpec,
+} from './utils';
+
+/**
+ * 单个序列、粒度上的一个指标
+ */
+interface TrackedIndicator {
+  spec: Required<IndicatorSpec>;
+  calculator: IndicatorCalculator;
+  history: IndicatorPoint[];
+  /** 上一根 K 线的指标值和收盘价（用于交叉类信号） */
+  previous: { values: Record<string, number>; close: number } | null;
+  /** 最近输入的 K 线开始时间，用于跳过重复输入 */
+  lastBarStart: number;
+}
+
+/**
+ * 技术指标引擎
+ */
+export class IndicatorEngine {
+  private readonly options: IndicatorEngineOptions;
+
+  /** 指标状态：seriesId -> granularity -> 指标名称 -> 指标 */
+  private streams: Map<string, Map<Granularity, Map<string, TrackedIndicator>>> = new Map();
+
+  /**
+   * @throws Error 如果默认指标参数无效
+   */
+  constructor(options: Partial<IndicatorEngineOptions> = {}) {
+    this.options = { ...DEFAULT_INDICATOR_ENGINE_OPTIONS, ...options };
+    // 提前校验默认指标，避免在窗口关闭时抛出
+    this.options.defaultIndicators.forEach(spec => createIndicatorCalculator(spec));
+  }
+
+  /**
+   * 输入一根已收盘 K 线
+   *
+   * @param bar - 窗口关闭时生成的聚合数据点
+   */
+  update(bar: AggregatedPoint): void {
+    if (this.options.seriesFilter && !this.options.seriesFilter(bar.seriesId)) {
+      return;
+    }
+
+    const indicators = this.getStream(bar.seriesId, bar.granularity) ?? this.createStream(bar.seriesId, bar.granularity, []);
+    for (const indicator of indicators.values()) {
+      this.apply(indicator, bar);
+    }
+  }
+
+  /**
+   * 确保序列和粒度上计算指定指标
+   * 新建的指标（以及第一次出现的序列和粒度的默认指标）用 getBars 返回的已收盘 K 线预热
+   *
+   * @param seriesId - 序列 ID
+   * @param granularity - 时间粒度
+   * @param spec - 指标定义
+   * @param getBars - 获取已收盘 K 线（按时间升序），只在需要预热时调用
+   * @returns 指标名称
+   * @throws Error 指标参数无效时
+   */
+  track(seriesId: string, granularity: Granularity, spec: IndicatorSpec, getBars: () => AggregatedPoint[]): string {
+    validateIndicatorSpec(spec);
+    const name = getIndicatorName(spec);
+    let indicators = this.getStream(seriesId, granularity);
+    if (indicators?.has(name)) {
+      return name;
+    }
+
+    const bars = getBars();
+    indicators ??= this.createStream(seriesId, granularity, bars);
+    if (!indicators.has(name)) {
+      const indicator = this.createIndicator(spec);
+      bars.forEach(bar => this.apply(indicator, bar));
+      indicators.set(name, indicator);
+    }
+    return name;
+  }
+
+  /**
+   * 获取指标数据点
+   *
+   * @param seriesId - 序列 ID
+   * @param granularity - 时间粒度
+   * @param name - 指标名称
+   * @param limit - 返回最近的数据点数量，省略时返回全部保留的数据点
+   * @returns 数据点数组（按时间升序），指标未计算时返回空数组
+   */
+  getHistory(seriesId: string, granularity: Granularity, name: string, limit?: number): IndicatorPoint[] {
+    const history = this.getStream(seriesId, granularity)?.get(name)?.history ?? [];
+    return limit !== undefined && limit > 0 ? history.slice(-limit) : history.slice();
+  }
+
+  /**
+   * 获取指标的最新数据点
+   *
+   * @returns 最新数据点，指标未计算或仍在预热期时返回 null
+   */
+  getLatest(seriesId: string, granularity: Granularity, name: string): IndicatorPoint | null {
+    const history = this.getStream(seriesId, granularity)?.get(name)?.history;
+    return history && history.length > 0 ? history[history.length - 1] : null;
+  }
+
+  /**
+   * 获取序列和粒度上正在计算的全部指标
+   *
+   * @param limit - 每个指标返回最近的数据点数量
+   */
+  getSeries(seriesId: string, granularity: Granularity, limit?: number): IndicatorSeries[] {
+    const indicators = this.getStream(seriesId, granularity);
+    if (!indicators) {
+      return [];
+    }
+
+    return Array.from(indicators.entries()).map(([name, indicator]) => ({
+      name,
+      type: indicator.spec.type,
+      params: indicator.spec.params,
+      data: this.getHistory(seriesId, granularity, name, limit),
+    }));
+  }
+
+  /**
+   * 删除序列的全部指标
+   *
+   * @param seriesId - 序列 ID
+   */
+  removeSeries(seriesId: string): void {
+    this.streams.delete(seriesId);
+  }
+
+  /**
+   * 获取序列和粒度的指标集合
+   */
+  private getStream(seriesId: string, granularity: Granularity): Map<string, TrackedIndicator> | undefined {
+    return this.streams.get(seriesId)?.get(granularity);
+  }
+
+  /**
+   * 按默认配置创建序列和粒度的指标集合，并用已收盘 K 线预热
+   */
+  private createStream(seriesId: string, granularity: Granularity, bars: AggregatedPoint[]): Map<string, TrackedIndicator> {
+    let granularityMap = this.streams.get(seriesId);
+    if (!granularityMap) {
+      granularityMap = new Map();
+      this.streams.set(seriesId, granularityMap);
+    }
+
+    const indicators = new Map<string, TrackedIndicator>();
+    for (const spec of this.options.defaultIndicators) {
+      const indicator = this.createIndicator(spec);
+      bars.forEach(bar => this.apply(indicator, bar));
+      indicators.set(getIndicatorName(spec), indicator);
+    }
+    granularityMap.set(granularity, indicators);
+    return indicators;
+  }
+
+  /**
+   * 创建指标状态
+   */
+  private createIndicator(spec: IndicatorSpec): TrackedIndicator {
+    return {
+      spec: { type: spec.type, params: getIndicatorParams(spec) },
+      calculator: createIndicatorCalculator(spec),
+      history: [],
+      previous: null,
+      lastBarStart: -Infinity,
+    };
+  }
+
+  /**
+   * 输入一根 K 线并记录指标值和信号
+   */
+  private apply(indicator: TrackedIndicator, bar: AggregatedPoint): void {
+    const barStart = bar.startTime.getTime();
+    if (barStart <= indicator.lastBarStart) {
+      return;
+    }
+    indicator.lastBarStart = barStart;
+
+    const values = indicator.calculator.update(bar);
+    if (!values) {
+      return;
+    }
+
+    indicator.history.push({
+      timestamp: bar.startTime,
+      values,
+      signal: getIndicatorSignal(indicator.spec.type, values, indicator.previous, bar.close),
+    });
+    if (indicator.history.length > this.options.maxHistory) {
+      indicator.history.shift();
+    }
+    indicator.previous = { values, close: bar.close };
+  }
+}
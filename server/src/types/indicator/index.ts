@@ -0,0 +1,23 @@
+/**
+ * Indicator Library
+ * 技术指标 - MA、EMA、MACD、RSI、KDJ、布林带和 ATR 的增量计算
+ *
+ * IndicatorEngine 挂接在 TimeSeriesManager 上，每个窗口关闭时更新对应序列和粒度的指标，
+ * 供指标查询接口和 AI 交易员策略读取，策略无需各自从 K 线重新计算
+ *
+ * @feature indicator
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// Calculators
+export { createIndicatorCalculator } from './calculators';
+
+// IndicatorEngine
+export { IndicatorEngine } from './engine';
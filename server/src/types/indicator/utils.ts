@@ -0,0 +1,271 @@
+/**
+ * Indicator Utilities
+ * 技术指标工具函数
+ *
+ * 包含指标命名与解析、默认参数和买卖信号规则
+ *
+ * @feature indicator
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TechnicalIndicator } from '../../../../shared/types/trading';
+import type {
+  IndicatorEngineOptions,
+  IndicatorPoint,
+  IndicatorResponse,
+  IndicatorSeries,
+  IndicatorSpec,
+  IndicatorType,
+} from './core';
+
+/**
+ * 合法的指标类型
+ */
+export const INDICATOR_TYPES: readonly IndicatorType[] = ['MA', 'EMA', 'MACD', 'RSI', 'KDJ', 'BOLL', 'ATR'];
+
+/**
+ * 各指标类型的默认参数
+ */
+export const DEFAULT_INDICATOR_PARAMS: Record<IndicatorType, number[]> = {
+  MA: [20],
+  EMA: [20],
+  MACD: [12, 26, 9],
+  RSI: [14],
+  KDJ: [9, 3, 3],
+  BOLL: [20, 2],
+  ATR: [14],
+};
+
+/**
+ * 各指标类型的主值（用于信号摘要）
+ */
+export const INDICATOR_PRIMARY_VALUE: Record<IndicatorType, string> = {
+  MA: 'value',
+  EMA: 'value',
+  MACD: 'macd',
+  RSI: 'value',
+  KDJ: 'k',
+  BOLL: 'middle',
+  ATR: 'value',
+};
+
+/**
+ * RSI 超卖 / 超买阈值
+ */
+export const RSI_OVERSOLD = 30;
+export const RSI_OVERBOUGHT = 70;
+
+/**
+ * 默认指标引擎配置：常用周期的均线、MACD、RSI、KDJ、布林带和 ATR
+ */
+export const DEFAULT_INDICATOR_ENGINE_OPTIONS: IndicatorEngineOptions = {
+  defaultIndicators: [
+    { type: 'MA', params: [5] },
+    { type: 'MA', params: [10] },
+    { type: 'MA', params: [20] },
+    { type: 'EMA', params: [12] },
+    { type: 'EMA', params: [26] },
+    { type: 'MACD' },
+    { type: 'RSI' },
+    { type: 'KDJ' },
+    { type: 'BOLL' },
+    { type: 'ATR' },
+  ],
+  maxHistory: 200,
+};
+
+/**
+ * 查询默认返回的数据点数量
+ */
+export const DEFAULT_INDICATOR_LIMIT = 100;
+
+/**
+ * 查询最大返回的数据点数量（与默认保留的数据点数量一致）
+ */
+export const MAX_INDICATOR_LIMIT = DEFAULT_INDICATOR_ENGINE_OPTIONS.maxHistory;
+
+/**
+ * 判断是否为合法的指标类型
+ */
+export function isIndicatorType(value: unknown): value is IndicatorType {
+  return typeof value === 'string' && (INDICATOR_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * 获取指标参数（补全默认参数）
+ *
+ * @param spec - 指标定义
+ * @returns 与默认参数等长的参数
+ */
+export function getIndicatorParams(spec: IndicatorSpec): number[] {
+  const defaults = DEFAULT_INDICATOR_PARAMS[spec.type];
+  return defaults.map((value, i) => spec.params?.[i] ?? value);
+}
+
+/**
+ * 获取指标名称（类型_参数）
+ *
+ * @param spec - 指标定义
+ * @returns 如 MA_5、MACD_12_26_9
+ */
+export function getIndicatorName(spec: IndicatorSpec): string {
+  return [spec.type, ...getIndicatorParams(spec)].join('_');
+}
+
+/**
+ * 校验指标参数：周期为正整数，布林带标准差倍数为正数，MACD 快线短于慢线
+ *
+ * @throws Error 参数无效时
+ */
+export function validateIndicatorSpec(spec: IndicatorSpec): void {
+  if (!isIndicatorType(spec.type)) {
+    throw new Error(`Unknown indicator type: ${spec.type}`);
+  }
+
+  const params = getIndicatorParams(spec);
+  const periods = spec.type === 'BOLL' ? params.slice(0, 1) : params;
+  if (periods.some(period => !Number.isInteger(period) || period < 1 || period > 1000)) {
+    throw new Error(`Indicator ${getIndicatorName(spec)} periods must be integers between 1 and 1000`);
+  }
+  if (spec.type === 'BOLL' && !(params[1] > 0)) {
+    throw new Error(`Indicator ${getIndicatorName(spec)} standard deviation multiplier must be positive`);
+  }
+  if (spec.type === 'MACD' && params[0] >= params[1]) {
+    throw new Error(`Indicator ${getIndicatorName(spec)} fast period must be shorter than slow period`);
+  }
+}
+
+/**
+ * 解析指标名称
+ * 只给出类型（如 RSI）时使用默认参数，参数个数不能超过默认参数
+ *
+ * @param name - 指标名称（不区分大小写）
+ * @returns 指标定义，无法解析或参数无效时返回 null
+ */
+export function parseIndicatorName(name: string): IndicatorSpec | null {
+  const [type, ...rawParams] = name.trim().toUpperCase().split('_');
+  if (!isIndicatorType(type) || rawParams.length > DEFAULT_INDICATOR_PARAMS[type].length) {
+    return null;
+  }
+
+  const params = rawParams.map(Number);
+  if (params.some(param => !Number.isFinite(param))) {
+    return null;
+  }
+
+  const spec: IndicatorSpec = params.length > 0 ? { type, params } : { type };
+  try {
+    validateIndicatorSpec(spec);
+  } catch {
+    return null;
+  }
+  return spec;
+}
+
+/**
+ * 计算指标在一根 K 线收盘时的买卖信号
+ * - MA / EMA：收盘价上穿均线买入，下穿卖出
+ * - MACD：DIF 上穿 DEA（金叉）买入，下穿（死叉）卖出
+ * - RSI：低于 30 超卖买入，高于 70 超买卖出
+ * - KDJ：J 低于 0 买入，高于 100 卖出
+ * - BOLL：收盘价跌破下轨买入，突破上轨卖出
+ * - ATR：只反映波动幅度，不给出方向
+ *
+ * @param type - 指标类型
+ * @param values - 本根 K 线的指标值
+ * @param previous - 上一根 K 线的指标值和收盘价，预热期结束后的第一根为 null
+ * @param close - 本根 K 线收盘价
+ */
+export function getIndicatorSignal(
+  type: IndicatorType,
+  values: Record<string, number>,
+  previous: { values: Record<string, number>; close: number } | null,
+  close: number
+): TechnicalIndicator['signal'] {
+  switch (type) {
+    case 'MA':
+    case 'EMA':
+      if (!previous) return 'hold';
+      if (previous.close <= previous.values.value && close > values.value) return 'buy';
+      if (previous.close >= previous.values.value && close < values.value) return 'sell';
+      return 'hold';
+    case 'MACD':
+      if (!previous) return 'hold';
+      if (previous.values.dif <= previous.values.dea && values.dif > values.dea) return 'buy';
+      if (previous.values.dif >= previous.values.dea && values.dif < values.dea) return 'sell';
+      return 'hold';
+    case 'RSI':
+      if (values.value < RSI_OVERSOLD) return 'buy';
+      if (values.value > RSI_OVERBOUGHT) return 'sell';
+      return 'hold';
+    case 'KDJ':
+      if (values.j < 0) return 'buy';
+      if (values.j > 100) return 'sell';
+      return 'hold';
+    case 'BOLL':
+      if (close < values.lower) return 'buy';
+      if (close > values.upper) return 'sell';
+      return 'hold';
+    default:
+      return 'hold';
+  }
+}
+
+/**
+ * 将最新指标数据点转换为信号摘要
+ *
+ * @param name - 指标名称
+ * @param type - 指标类型
+ * @param point - 最新数据点
+ */
+export function toTechnicalIndicator(name: string, type: IndicatorType, point: IndicatorPoint): TechnicalIndicator {
+  return {
+    name,
+    value: point.values[INDICATOR_PRIMARY_VALUE[type]],
+    signal: point.signal,
+    timestamp: point.timestamp,
+  };
+}
+
+/**
+ * 规范化查询返回的数据点数量
+ *
+ * @param limit - 请求的数量
+ * @returns 1 ~ MAX_INDICATOR_LIMIT 之间的整数
+ */
+export function normalizeIndicatorLimit(limit?: number): number {
+  if (limit === undefined || !Number.isFinite(limit) || limit < 1) {
+    return DEFAULT_INDICATOR_LIMIT;
+  }
+  return Math.min(Math.floor(limit), MAX_INDICATOR_LIMIT);
+}
+
+/**
+ * 组装技术指标查询响应，信号取每个指标的最新数据点（预热期内的指标没有信号）
+ *
+ * @param symbol - 股票代码
+ * @param granularity - 时间粒度
+ * @param indicators - 各指标的定义和数据点
+ */
+export function buildIndicatorResponse(
+  symbol: string,
+  granularity: string,
+  indicators: Array<{ spec: IndicatorSpec; data: IndicatorPoint[] }>
+): IndicatorResponse {
+  const series: IndicatorSeries[] = indicators.map(({ spec, data }) => ({
+    name: getIndicatorName(spec),
+    type: spec.type,
+    params: getIndicatorParams(spec),
+    data,
+  }));
+
+  return {
+    symbol,
+    granularity,
+    indicators: series,
+    signals: series
+      .filter(item => item.data.length > 0)
+      .map(item => toTechnicalIndicator(item.name, item.type, item.data[item.data.length - 1])),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * K-Line Core Types
+ * K 线查询核心类型定义
+ *
+ * 响应结构直接复用 shared/types/kline.ts，与前端共用
+ *
+ * @feature kline
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { AggregatedPoint, Granularity } from '../timeSeries';
+
+export type {
+  KLinePoint,
+  KLineMetadata,
+  KLineResponse,
+  TimeSharePoint,
+  TimeShareResponse,
+} from '../../../../shared/types/kline';
+
+/**
+ * K 线查询条件
+ */
+export interface KLineQuery {
+  /** 时间粒度 */
+  granularity: Granularity;
+  /** 开始时间（包含），省略时不限制 */
+  startTime?: Date;
+  /** 结束时间（包含），省略时为交易所当前模拟时间 */
+  endTime?: Date;
+  /** 最多返回的 K 线数量（取最近的若干根） */
+  limit?: number;
+}
+
+/**
+ * 组装 K 线响应所需的数据源
+ */
+export interface KLineSource {
+  /** 股票代码 */
+  symbol: string;
+  /** 股票名称 */
+  name: string;
+  /** 最小价格变动单位（决定价格小数位数） */
+  tickSize: number;
+  /** 前收盘价 */
+  preClose: number;
+  /** 总股本（计算换手率） */
+  totalShares: number;
+  /** 查询范围内已收盘的 K 线（按时间升序） */
+  bars: AggregatedPoint[];
+  /** 正在形成的 K 线 */
+  formingBar: AggregatedPoint | null;
+}
+
+/**
+ * 组装分时响应所需的数据源（均为 1 分钟粒度，按时间升序）
+ */
+export interface TimeShareSource {
+  /** 股票代码 */
+  symbol: string;
+  /** 股票名称 */
+  name: string;
+  /** 最小价格变动单位 */
+  tickSize: number;
+  /** 当前交易日的前收盘价 */
+  preClose: number;
+  /** 价格序列已收盘的分钟 K 线 */
+  priceBars: AggregatedPoint[];
+  /** 成交量序列已收盘的分钟聚合 */
+  volumeBars: AggregatedPoint[];
+  /** 价格序列正在形成的分钟 */
+  formingPrice: AggregatedPoint | null;
+  /** 成交量序列正在形成的分钟 */
+  formingVolume: AggregatedPoint | null;
+}
@@ -0,0 +1,17 @@
+/**
+ * K-Line Library
+ * K 线查询 - 将时间序列的聚合数据转换为 K 线数据点，并附带正在形成的 K 线；
+ * 分时查询 - 按交易日拼接 1 分钟数据，计算当日均价和累计成交量
+ *
+ * 数据结构遵循 document/kline-data-structure-design.md 第 3 节
+ *
+ * @feature kline
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
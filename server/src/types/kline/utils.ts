@@ -0,0 +1,244 @@
+/**
+ * K-Line Utilities
+ * K 线查询工具函数
+ *
+ * @feature kline
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { AggregatedPoint, Granularity } from '../timeSeries';
+import type { KLinePoint, KLineResponse, KLineSource, TimeSharePoint, TimeShareResponse, TimeShareSource } from './core';
+
+/** 默认返回的 K 线数量 */
+export const DEFAULT_KLINE_LIMIT = 200;
+
+/** 单次最多返回的 K 线数量 */
+export const MAX_KLINE_LIMIT = 1000;
+
+/** 支持的分时天数（当日分时、五日分时） */
+export const TIME_SHARE_DAYS = [1, 5] as const;
+
+/**
+ * 规范化返回数量（非正数或非整数时使用默认值，超出上限时取上限）
+ */
+export function normalizeKLineLimit(limit?: number): number {
+  if (limit === undefined || !Number.isInteger(limit) || limit <= 0) {
+    return DEFAULT_KLINE_LIMIT;
+  }
+  return Math.min(limit, MAX_KLINE_LIMIT);
+}
+
+/**
+ * 根据股票代码推断市场类型（6、9 开头为上海，其余为深圳）
+ *
+ * @returns 1=上海，2=深圳
+ */
+export function getMarketType(symbol: string): number {
+  return /^[69]/.test(symbol) ? 1 : 2;
+}
+
+/**
+ * 根据最小价格变动单位计算价格小数位数（0.01 -> 2）
+ */
+export function getPriceDecimals(tickSize: number): number {
+  if (!(tickSize > 0)) {
+    return 2;
+  }
+  return Math.max(0, Math.ceil(-Math.log10(tickSize) - 1e-9));
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * 将聚合数据点转换为 K 线数据点
+ * 成交额按 VWAP × 成交量估算；涨跌额、涨跌幅和振幅相对上一根 K 线的收盘价，
+ * 没有上一根 K 线时省略
+ *
+ * @param point - 聚合数据点
+ * @param previousClose - 上一根 K 线的收盘价
+ * @param totalShares - 总股本
+ * @param decimal - 价格小数位数
+ */
+export function toKLinePoint(
+  point: AggregatedPoint,
+  previousClose: number | null,
+  totalShares: number,
+  decimal: number
+): KLinePoint {
+  const kline: KLinePoint = {
+    timestamp: point.startTime,
+    open: point.open,
+    close: point.close,
+    high: point.high,
+    low: point.low,
+    volume: point.volume,
+    amount: point.volume > 0 && point.vwap !== undefined ? round(point.vwap * point.volume, 2) : 0,
+  };
+
+  if (totalShares > 0) {
+    kline.turnoverRate = round((point.volume / totalShares) * 100, 4);
+  }
+
+  if (previousClose !== null && previousClose > 0) {
+    kline.changeAmount = round(point.close - previousClose, decimal);
+    kline.changePercent = round(((point.close - previousClose) / previousClose) * 100, 2);
+    kline.amplitude = round(((point.high - point.low) / previousClose) * 100, 2);
+  }
+
+  return kline;
+}
+
+/**
+ * 组装 K 线响应
+ * 正在形成的 K 线追加在已收盘 K 线之后并标记 partial，之后只保留最近 limit 根
+ *
+ * @param source - 数据源
+ * @param granularity - 时间粒度
+ * @param limit - 最多返回的数量
+ */
+export function buildKLineResponse(source: KLineSource, granularity: Granularity, limit: number): KLineResponse {
+  const decimal = getPriceDecimals(source.tickSize);
+  const bars = [...source.bars];
+  const lastBar = bars[bars.length - 1];
+  const hasForming = source.formingBar !== null &&
+    (!lastBar || source.formingBar.startTime.getTime() > lastBar.startTime.getTime());
+  if (hasForming) {
+    bars.push(source.formingBar!);
+  }
+
+  const total = bars.length;
+  const start = Math.max(0, total - limit);
+  const data: KLinePoint[] = [];
+
+  for (let i = start; i < total; i++) {
+    const previousClose = i > 0 ? bars[i - 1].close : null;
+    const kline = toKLinePoint(bars[i], previousClose, source.totalShares, decimal);
+    if (hasForming && i === total - 1) {
+      kline.partial = true;
+    }
+    data.push(kline);
+  }
+
+  return {
+    metadata: {
+      symbol: source.symbol,
+      name: source.name,
+      market: getMarketType(source.symbol),
+      decimal,
+      preClose: source.preClose,
+      total,
+    },
+    data,
+    granularity,
+    isFull: total <= limit,
+  };
+}
+
+/**
+ * 获取交易日标识（与 StockInstance 当日统计的划分方式一致）
+ */
+export function getTradingDayKey(timestamp: Date): string {
+  return timestamp.toDateString();
+}
+
+/**
+ * 追加正在形成的分钟（开始时间晚于最后一个已收盘分钟时）
+ */
+function appendForming(bars: AggregatedPoint[], forming: AggregatedPoint | null): boolean {
+  const last = bars[bars.length - 1];
+  if (forming && (!last || forming.startTime.getTime() > last.startTime.getTime())) {
+    bars.push(forming);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * 组装分时响应
+ * 价格取价格序列的分钟 K 线，成交量取成交量序列的分钟聚合，成交额按 VWAP × 成交量估算；
+ * 分钟按交易日分组，取最近 days 个交易日依次拼接，均价和累计成交量在每个交易日开始时归零
+ *
+ * @param source - 数据源
+ * @param days - 交易日数量
+ */
+export function buildTimeShareResponse(source: TimeShareSource, days: number): TimeShareResponse {
+  const decimal = getPriceDecimals(source.tickSize);
+  const priceBars = [...source.priceBars];
+  const hasForming = appendForming(priceBars, source.formingPrice);
+
+  const volumeBars = [...source.volumeBars];
+  appendForming(volumeBars, source.formingVolume);
+  const volumes = new Map(volumeBars.map(bar => [bar.startTime.getTime(), bar.volume]));
+
+  // 按交易日分组（价格分钟已按时间升序）
+  const sessions: AggregatedPoint[][] = [];
+  let sessionKey: string | null = null;
+  for (const bar of priceBars) {
+    const key = getTradingDayKey(bar.startTime);
+    if (key !== sessionKey) {
+      sessions.push([]);
+      sessionKey = key;
+    }
+    sessions[sessions.length - 1].push(bar);
+  }
+
+  const firstSession = Math.max(0, sessions.length - days);
+  const data: TimeSharePoint[] = [];
+  const hisPrePrices: Array<{ date: Date; prePrice: number }> = [];
+
+  for (let i = firstSession; i < sessions.length; i++) {
+    const session = sessions[i];
+    const isLatest = i === sessions.length - 1;
+    // 前收盘价：上一交易日最后一分钟的收盘价；最近交易日没有更早数据时使用股票的前收盘价
+    const prePrice = i > 0
+      ? sessions[i - 1][sessions[i - 1].length - 1].close
+      : isLatest ? source.preClose : session[0].open;
+
+    const date = new Date(session[0].startTime);
+    date.setHours(0, 0, 0, 0);
+    hisPrePrices.push({ date, prePrice });
+
+    let cumulativeVolume = 0;
+    let cumulativeAmount = 0;
+    for (const bar of session) {
+      const volume = volumes.get(bar.startTime.getTime()) ?? 0;
+      const amount = volume > 0 && bar.vwap !== undefined ? bar.vwap * volume : 0;
+      cumulativeVolume += volume;
+      cumulativeAmount += amount;
+
+      data.push({
+        timestamp: bar.startTime,
+        price: bar.close,
+        open: bar.open,
+        high: bar.high,
+        low: bar.low,
+        volume,
+        amount: round(amount, 2),
+        // 均价比价格多保留一位小数
+        averagePrice: cumulativeVolume > 0 ? round(cumulativeAmount / cumulativeVolume, decimal + 1) : bar.close,
+        cumulativeVolume,
+      });
+    }
+  }
+
+  if (hasForming && data.length > 0) {
+    data[data.length - 1].partial = true;
+  }
+
+  return {
+    metadata: {
+      symbol: source.symbol,
+      name: source.name,
+      market: getMarketType(source.symbol),
+      decimal,
+      preClose: hisPrePrices.length > 0 ? hisPrePrices[hisPrePrices.length - 1].prePrice : source.preClose,
+      total: data.length,
+    },
+    data,
+    hisPrePrices,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * K-Line Seed Core Types
+ * K 线种子历史核心类型定义
+ *
+ * 导入文件格式见 document/kline-data-structure-design.md 第 2 节
+ *
+ * @feature kline-seed
+ * @author System
+ * @since 2026-10-18
+ */
+
+/**
+ * 导入数据格式
+ * - kline：K 线导出文件（kline-day.json，data.klines）
+ * - trends：分时导出文件（fenshi.json、5-day.json，data.trends），按交易日汇总为日 K 线
+ * - csv：与 klines 行格式相同的 CSV 文本，可带表头
+ */
+export type KLineSeedFormat = 'kline' | 'trends' | 'csv';
+
+/**
+ * 成交量单位（导出文件以手为单位，1 手 = 100 股）
+ */
+export type KLineSeedVolumeUnit = 'lot' | 'share';
+
+/**
+ * 种子日 K 线
+ */
+export interface SeedBar {
+  /** 交易日（当地时间零点） */
+  date: Date;
+  /** 开盘价 */
+  open: number;
+  /** 最高价 */
+  high: number;
+  /** 最低价 */
+  low: number;
+  /** 收盘价 */
+  close: number;
+  /** 成交量（股） */
+  volume: number;
+  /** 成交额（元，可选） */
+  amount?: number;
+}
+
+/**
+ * 种子历史摘要（模板列表和详情中返回，不含 K 线）
+ */
+export interface KLineSeedSummary {
+  /** 导入数据格式 */
+  format: KLineSeedFormat;
+  /** 导入时间 */
+  importedAt: Date;
+  /** K 线数量 */
+  barCount: number;
+  /** 第一根 K 线的交易日 */
+  startDate: Date;
+  /** 最后一根 K 线的交易日 */
+  endDate: Date;
+  /** 最后收盘价（市场实例从此价格开始） */
+  lastClose: number;
+}
+
+/**
+ * 股票模板的种子历史
+ */
+export interface KLineSeedHistory extends KLineSeedSummary {
+  /** 日 K 线（按交易日升序） */
+  bars: SeedBar[];
+}
+
+/**
+ * 导入选项
+ */
+export interface KLineSeedImportOptions {
+  /** 数据格式，省略时按内容识别 */
+  format?: KLineSeedFormat;
+  /** 成交量单位，默认 lot */
+  volumeUnit?: KLineSeedVolumeUnit;
+  /** 最多保留的 K 线数量（保留最近的），默认 MAX_SEED_BARS */
+  maxBars?: number;
+}
+
+/**
+ * 导出文件的数据内容（只列出导入用到的字段）
+ */
+export interface KLineExportData {
+  /** 股票代码 */
+  code?: string;
+  /** 股票名称 */
+  name?: string;
+  /** 价格小数位数 */
+  decimal?: number;
+  /** K 线行（日期,开盘价,收盘价,最高价,最低价,成交量,成交额,...） */
+  klines?: string[];
+  /** 分时行（日期时间,开盘价,当前价,最高价,最低价,成交量,成交额,平均价） */
+  trends?: string[];
+}
+
+/**
+ * 导出文件的通用响应结构
+ */
+export interface KLineExportFile {
+  /** 返回码（0 表示成功） */
+  rc?: number;
+  /** 数据内容 */
+  data: KLineExportData | null;
+}
+
+/**
+ * 导入错误代码
+ */
+export enum KLineSeedErrorCode {
+  INVALID_CONTENT = 'INVALID_CONTENT',
+  UNSUPPORTED_PERIOD = 'UNSUPPORTED_PERIOD',
+  INVALID_ROW = 'INVALID_ROW',
+  EMPTY_HISTORY = 'EMPTY_HISTORY',
+}
+
+/**
+ * 导入内容无法解析时抛出的错误
+ */
+export class KLineSeedError extends Error {
+  constructor(
+    message: string,
+    public readonly code: KLineSeedErrorCode,
+    public readonly row?: number
+  ) {
+    super(message);
+    this.name = 'KLineSeedError';
+  }
+}
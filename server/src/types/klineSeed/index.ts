@@ -0,0 +1,18 @@
+/**
+ * K-Line Seed Library
+ * K 线种子历史 - 将 K 线导出文件（kline-day.json）、分时导出文件（fenshi.json、5-day.json）
+ * 或等价的 CSV 解析为日 K 线，作为股票模板的种子历史；
+ * 市场实例创建时种子 K 线映射到开始时间之前的连续交易日，价格从最后收盘价继续
+ *
+ * 文件格式见 document/kline-data-structure-design.md 第 2 节
+ *
+ * @feature kline-seed
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
@@ -0,0 +1,404 @@
+/**
+ * K-Line Seed Utilities
+ * K 线种子历史工具函数：解析导出文件和 CSV 为日 K 线，并转换为时间序列的历史 K 线
+ *
+ * @feature kline-seed
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { HistoricalBar } from '../timeSeries';
+import {
+  KLineExportData,
+  KLineSeedError,
+  KLineSeedErrorCode,
+  KLineSeedFormat,
+  KLineSeedHistory,
+  KLineSeedImportOptions,
+  KLineSeedSummary,
+  SeedBar,
+} from './core';
+
+/**
+ * 种子历史最多保留的 K 线数量（约 4 年日线）
+ */
+export const MAX_SEED_BARS = 1000;
+
+/**
+ * 相邻 K 线间隔的中位数超过此自然日数时视为周线或月线
+ */
+export const MAX_DAILY_GAP_DAYS = 4;
+
+/**
+ * 每手股数（导出文件的成交量单位）
+ */
+export const SHARES_PER_LOT = 100;
+
+/**
+ * 种子 K 线映射到交易日后的时刻（交易日中午，不受交易时段和时区对齐影响）
+ */
+const SEED_BAR_HOUR = 12;
+
+/**
+ * CSV 表头别名 -> 字段
+ */
+const CSV_HEADER_ALIASES: Record<string, keyof SeedBar> = {
+  date: 'date',
+  time: 'date',
+  日期: 'date',
+  时间: 'date',
+  日期时间: 'date',
+  open: 'open',
+  开盘: 'open',
+  开盘价: 'open',
+  close: 'close',
+  收盘: 'close',
+  收盘价: 'close',
+  high: 'high',
+  最高: 'high',
+  最高价: 'high',
+  low: 'low',
+  最低: 'low',
+  最低价: 'low',
+  volume: 'volume',
+  成交量: 'volume',
+  amount: 'amount',
+  turnover: 'amount',
+  成交额: 'amount',
+};
+
+/**
+ * klines 行（及无表头 CSV）的列顺序：日期,开盘价,收盘价,最高价,最低价,成交量,成交额,...
+ */
+const KLINE_COLUMNS: Array<keyof SeedBar> = ['date', 'open', 'close', 'high', 'low', 'volume', 'amount'];
+
+const DAY_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+/**
+ * 解析日期（YYYY-MM-DD、YYYY/MM/DD 或 YYYYMMDD，可带 HH:mm），返回当地时间零点
+ */
+export function parseSeedDate(text: string): Date | null {
+  const match = /^(\d{4})[-/]?(\d{1,2})[-/]?(\d{1,2})(?:[ T]\d{1,2}:\d{2}(?::\d{2})?)?$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * 解析数值字段
+ *
+ * @throws KLineSeedError 如果字段不是有限数值
+ */
+function parseNumber(text: string | undefined, field: string, row: number): number {
+  const value = Number(text?.trim());
+  if (text === undefined || text.trim() === '' || !isFinite(value)) {
+    throw new KLineSeedError(`Row ${row}: ${field} is not a number`, KLineSeedErrorCode.INVALID_ROW, row);
+  }
+  return value;
+}
+
+/**
+ * 解析日期字段
+ *
+ * @throws KLineSeedError 如果日期无效
+ */
+function parseDateField(text: string | undefined, row: number): Date {
+  const date = text ? parseSeedDate(text) : null;
+  if (!date) {
+    throw new KLineSeedError(`Row ${row}: invalid date "${text ?? ''}"`, KLineSeedErrorCode.INVALID_ROW, row);
+  }
+  return date;
+}
+
+/**
+ * 校验 K 线价格关系和成交量
+ *
+ * @throws KLineSeedError 如果价格非正、最高价/最低价不包含开盘价和收盘价或成交量为负
+ */
+function validateBar(bar: SeedBar, row: number): SeedBar {
+  if (bar.low <= 0) {
+    throw new KLineSeedError(`Row ${row}: prices must be positive`, KLineSeedErrorCode.INVALID_ROW, row);
+  }
+  if (bar.high < Math.max(bar.open, bar.close) || bar.low > Math.min(bar.open, bar.close)) {
+    throw new KLineSeedError(`Row ${row}: high/low must contain open and close`, KLineSeedErrorCode.INVALID_ROW, row);
+  }
+  if (bar.volume < 0 || (bar.amount !== undefined && bar.amount < 0)) {
+    throw new KLineSeedError(`Row ${row}: volume and amount must not be negative`, KLineSeedErrorCode.INVALID_ROW, row);
+  }
+  return bar;
+}
+
+/**
+ * 按列映射解析一行 K 线
+ */
+function parseBarRow(fields: string[], columns: Array<keyof SeedBar | undefined>, volumeScale: number, row: number): SeedBar {
+  const field = (name: keyof SeedBar): string | undefined => {
+    const index = columns.indexOf(name);
+    return index === -1 ? undefined : fields[index];
+  };
+
+  const amountText = field('amount');
+  return validateBar({
+    date: parseDateField(field('date'), row),
+    open: parseNumber(field('open'), 'open', row),
+    high: parseNumber(field('high'), 'high', row),
+    low: parseNumber(field('low'), 'low', row),
+    close: parseNumber(field('close'), 'close', row),
+    volume: parseNumber(field('volume'), 'volume', row) * volumeScale,
+    amount: amountText !== undefined && amountText.trim() !== '' ? parseNumber(amountText, 'amount', row) : undefined,
+  }, row);
+}
+
+/**
+ * 解析 klines 行
+ */
+function parseKLineRows(rows: string[], volumeScale: number): SeedBar[] {
+  return rows.map((line, index) => parseBarRow(line.split(','), KLINE_COLUMNS, volumeScale, index + 1));
+}
+
+/**
+ * 解析分时行并按交易日汇总为日 K 线
+ * 分时行的第二列在 fenshi.json 中为分钟开盘价，在 5-day.json 中为 0，为 0 时以当前价作为开盘价
+ */
+function parseTrendRows(rows: string[], volumeScale: number): SeedBar[] {
+  const days: Map<number, SeedBar> = new Map();
+
+  rows.forEach((line, index) => {
+    const row = index + 1;
+    const fields = line.split(',');
+    const date = parseDateField(fields[0], row);
+    const minuteOpen = parseNumber(fields[1], 'open', row);
+    const price = parseNumber(fields[2], 'price', row);
+    const high = parseNumber(fields[3], 'high', row);
+    const low = parseNumber(fields[4], 'low', row);
+    const volume = parseNumber(fields[5], 'volume', row) * volumeScale;
+    const amount = parseNumber(fields[6], 'amount', row);
+
+    const day = days.get(date.getTime());
+    days.set(date.getTime(), validateBar(day ? {
+      ...day,
+      high: Math.max(day.high, high),
+      low: Math.min(day.low, low),
+      close: price,
+      volume: day.volume + volume,
+      amount: (day.amount ?? 0) + amount,
+    } : {
+      date,
+      open: minuteOpen > 0 ? minuteOpen : price,
+      high: Math.max(high, price),
+      low: Math.min(low, price),
+      close: price,
+      volume,
+      amount,
+    }, row));
+  });
+
+  return Array.from(days.values());
+}
+
+/**
+ * 解析 CSV 文本（首行不是日期时视为表头，按表头映射列；否则按 klines 列顺序）
+ *
+ * @throws KLineSeedError 如果表头缺少必需的列
+ */
+function parseCsvRows(text: string, volumeScale: number): SeedBar[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  let columns: Array<keyof SeedBar | undefined> = KLINE_COLUMNS;
+  let firstDataLine = 0;
+  const headerFields = lines[0].split(',').map(field => field.trim().replace(/^\uFEFF/, ''));
+  if (!parseSeedDate(headerFields[0])) {
+    columns = headerFields.map(field => CSV_HEADER_ALIASES[field.toLowerCase()]);
+    const missing = (['date', 'open', 'high', 'low', 'close', 'volume'] as const).filter(name => !columns.includes(name));
+    if (missing.length > 0) {
+      throw new KLineSeedError(`CSV header is missing columns: ${missing.join(', ')}`, KLineSeedErrorCode.INVALID_CONTENT);
+    }
+    firstDataLine = 1;
+  }
+
+  return lines.slice(firstDataLine).map((line, index) =>
+    parseBarRow(line.split(','), columns, volumeScale, firstDataLine + index + 1)
+  );
+}
+
+/**
+ * 将导入内容规范化为导出文件的数据内容或 CSV 文本
+ *
+ * @throws KLineSeedError 如果内容既不是导出文件也不是文本
+ */
+function normalizeContent(content: unknown): KLineExportData | string {
+  if (typeof content === 'string') {
+    const text = content.trim();
+    if (!text.startsWith('{')) {
+      return text;
+    }
+    try {
+      content = JSON.parse(text);
+    } catch {
+      throw new KLineSeedError('Content is not valid JSON', KLineSeedErrorCode.INVALID_CONTENT);
+    }
+  }
+
+  const data = content && typeof content === 'object' ? (content as { data?: unknown }).data : undefined;
+  if (!data || typeof data !== 'object') {
+    throw new KLineSeedError('Content must be a K-line export file with a data object, or CSV text', KLineSeedErrorCode.INVALID_CONTENT);
+  }
+  return data as KLineExportData;
+}
+
+/**
+ * 识别规范化内容的格式
+ *
+ * @throws KLineSeedError 如果导出文件既没有 klines 也没有 trends
+ */
+function detectNormalizedFormat(normalized: KLineExportData | string): KLineSeedFormat {
+  if (typeof normalized === 'string') {
+    return 'csv';
+  }
+  if (Array.isArray(normalized.klines)) {
+    return 'kline';
+  }
+  if (Array.isArray(normalized.trends)) {
+    return 'trends';
+  }
+  throw new KLineSeedError('Export file has neither klines nor trends', KLineSeedErrorCode.INVALID_CONTENT);
+}
+
+/**
+ * 识别导入内容的格式
+ *
+ * @throws KLineSeedError 如果内容无效或导出文件既没有 klines 也没有 trends
+ */
+export function detectSeedFormat(content: unknown): KLineSeedFormat {
+  return detectNormalizedFormat(normalizeContent(content));
+}
+
+/**
+ * 按交易日排序，并拒绝重复的交易日和周线、月线数据
+ *
+ * @throws KLineSeedError 如果有重复交易日或相邻 K 线间隔的中位数超过 MAX_DAILY_GAP_DAYS
+ */
+function sortDailyBars(bars: SeedBar[]): SeedBar[] {
+  const sorted = [...bars].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const gaps: number[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = Math.round((sorted[i].date.getTime() - sorted[i - 1].date.getTime()) / DAY_MILLISECONDS);
+    if (gap === 0) {
+      throw new KLineSeedError(`Duplicate trading day ${sorted[i].date.toDateString()}`, KLineSeedErrorCode.INVALID_ROW);
+    }
+    gaps.push(gap);
+  }
+
+  gaps.sort((a, b) => a - b);
+  if (gaps.length > 0 && gaps[Math.floor(gaps.length / 2)] > MAX_DAILY_GAP_DAYS) {
+    throw new KLineSeedError('Only daily K-lines can seed history, weekly or monthly data is not supported', KLineSeedErrorCode.UNSUPPORTED_PERIOD);
+  }
+  return sorted;
+}
+
+/**
+ * 解析导入内容为种子历史
+ *
+ * @param content - 导出文件（对象或 JSON 文本）或 CSV 文本
+ * @param options - 导入选项
+ * @param importedAt - 导入时间
+ * @throws KLineSeedError 如果内容无法解析、不是日线数据或没有 K 线
+ */
+export function parseKLineSeed(
+  content: unknown,
+  options: KLineSeedImportOptions = {},
+  importedAt: Date = new Date()
+): KLineSeedHistory {
+  const normalized = normalizeContent(content);
+  const format = options.format ?? detectNormalizedFormat(normalized);
+  const volumeScale = (options.volumeUnit ?? 'lot') === 'lot' ? SHARES_PER_LOT : 1;
+
+  let bars: SeedBar[];
+  if (format === 'csv') {
+    if (typeof normalized !== 'string') {
+      throw new KLineSeedError('CSV format requires text content', KLineSeedErrorCode.INVALID_CONTENT);
+    }
+    bars = parseCsvRows(normalized, volumeScale);
+  } else {
+    const rows = typeof normalized === 'string' ? undefined : normalized[format === 'kline' ? 'klines' : 'trends'];
+    if (!Array.isArray(rows)) {
+      throw new KLineSeedError(`Content has no ${format === 'kline' ? 'klines' : 'trends'} array`, KLineSeedErrorCode.INVALID_CONTENT);
+    }
+    bars = format === 'kline' ? parseKLineRows(rows, volumeScale) : parseTrendRows(rows, volumeScale);
+  }
+
+  const sorted = sortDailyBars(bars).slice(-(options.maxBars ?? MAX_SEED_BARS));
+  if (sorted.length === 0) {
+    throw new KLineSeedError('Content has no K-lines', KLineSeedErrorCode.EMPTY_HISTORY);
+  }
+
+  return {
+    format,
+    importedAt,
+    barCount: sorted.length,
+    startDate: sorted[0].date,
+    endDate: sorted[sorted.length - 1].date,
+    lastClose: sorted[sorted.length - 1].close,
+    bars: sorted,
+  };
+}
+
+/**
+ * 获取种子历史摘要
+ */
+export function toSeedSummary(history: KLineSeedHistory): KLineSeedSummary {
+  return {
+    format: history.format,
+    importedAt: history.importedAt,
+    barCount: history.barCount,
+    startDate: history.startDate,
+    endDate: history.endDate,
+    lastClose: history.lastClose,
+  };
+}
+
+/**
+ * 将种子 K 线映射为截至指定交易日的连续交易日上的历史 K 线
+ * 最后一根 K 线落在 lastTradingDay，之前的 K 线依次落在前一个交易日；价格和成交量保持不变
+ *
+ * @param bars - 种子 K 线（按交易日升序）
+ * @param lastTradingDay - 最后一根 K 线所在的交易日
+ * @param getPreviousTradingDay - 获取上一个交易日
+ */
+export function toHistoricalBars(
+  bars: SeedBar[],
+  lastTradingDay: Date,
+  getPreviousTradingDay: (date: Date) => Date
+): HistoricalBar[] {
+  const historical: HistoricalBar[] = new Array(bars.length);
+  let day = lastTradingDay;
+
+  for (let i = bars.length - 1; i >= 0; i--) {
+    const bar = bars[i];
+    historical[i] = {
+      timestamp: new Date(day.getFullYear(), day.getMonth(), day.getDate(), SEED_BAR_HOUR),
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      vwap: bar.amount && bar.volume > 0 ? bar.amount / bar.volume : undefined,
+    };
+    if (i > 0) {
+      day = getPreviousTradingDay(day);
+    }
+  }
+
+  return historical;
+}
@@ -0,0 +1,50 @@
+/**
+ * Market Factor Core Types
+ * 市场因子模型核心类型定义
+ *
+ * 股票的对数收益率 = β市场 × 市场因子收益率 + β行业 × 行业因子收益率 + 价格模型的特质收益率
+ * 市场因子全市场共用，行业因子按股票分类（tech、finance 等）各有一个，
+ * 同行业股票共同波动，市场因子下跌时全市场同步下跌
+ *
+ * 因子波动率为年化值，每次推进按 TRADING_SECONDS_PER_YEAR 换算
+ *
+ * @feature market-factor
+ * @author System
+ * @since 2026-10-18
+ */
+
+export type { CorrelationMatrix } from '../../../../shared/types/portfolio';
+
+/**
+ * 因子模型配置（每个交易所一份）
+ */
+export interface FactorModelConfig {
+  /** 是否启用因子模型（关闭时各股票只按自身价格模型独立波动） */
+  enabled: boolean;
+  /** 市场因子年化波动率 */
+  marketVolatility: number;
+  /** 行业因子默认年化波动率 */
+  sectorVolatility: number;
+  /** 按股票分类覆盖行业因子波动率 */
+  categoryOverrides: Record<string, number>;
+}
+
+/**
+ * 股票对因子的暴露（保存在股票模板中）
+ */
+export interface FactorExposure {
+  /** 对市场因子的 β */
+  marketBeta: number;
+  /** 对所属行业因子的 β */
+  sectorBeta: number;
+}
+
+/**
+ * 因子累计对数收益率
+ */
+export interface FactorLevels {
+  /** 市场因子 */
+  market: number;
+  /** 股票所属行业的因子 */
+  sector: number;
+}
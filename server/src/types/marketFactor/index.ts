@@ -0,0 +1,20 @@
+/**
+ * Market Factor Library
+ * 市场因子模型 - 市场因子、按股票分类的行业因子和股票 β
+ *
+ * 每个 ExchangeInstance 持有一个 FactorModel，股票在价格模型的特质收益率之上叠加
+ * β × 因子收益率，使同行业股票相关、全市场同涨同跌，行业轮动和系统性下跌自然出现
+ *
+ * @feature market-factor
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// FactorModel
+export { FactorModel } from './model';
@@ -0,0 +1,111 @@
+/**
+ * Factor Model
+ * 市场和行业因子
+ *
+ * 每次推进为市场因子和已登记的各行业因子各抽取一次正态冲击，累加到因子水平
+ * （累计对数收益率）。同一游戏时间只推进一次，所有股票在同一时刻看到相同的因子变化；
+ * 股票记录上次更新时的因子水平，按两次水平之差和自身 β 计算系统性收益率，
+ * 因此跳过的更新区间（如有真实成交）不会错过因子变化
+ *
+ * 随机数子流：factor:market、factor:sector:<股票分类>
+ *
+ * @feature market-factor
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RandomSource } from '../randomStream';
+import { TRADING_SECONDS_PER_YEAR, normalRandom } from '../priceModel';
+import type { FactorLevels, FactorModelConfig } from './core';
+
+/**
+ * 单个因子的状态
+ */
+interface FactorState {
+  level: number;
+  volatility: number;
+  random: RandomSource;
+}
+
+/**
+ * 市场因子模型
+ */
+export class FactorModel {
+  private readonly market: FactorState;
+  private readonly sectors: Map<string, FactorState> = new Map();
+  private lastAdvancedAt: number | null = null;
+
+  /**
+   * @param config - 因子模型配置
+   * @param getRandomStream - 按名称获取随机数子流
+   */
+  constructor(
+    private readonly config: FactorModelConfig,
+    private readonly getRandomStream: (key: string) => RandomSource
+  ) {
+    this.market = { level: 0, volatility: config.marketVolatility, random: getRandomStream('factor:market') };
+  }
+
+  /**
+   * 推进因子（同一游戏时间只推进一次，未启用时不推进）
+   *
+   * @param time - 游戏时间
+   * @param dtSeconds - 时间步长（游戏时间秒）
+   */
+  advance(time: Date, dtSeconds: number): void {
+    if (!this.config.enabled || this.lastAdvancedAt === time.getTime()) {
+      return;
+    }
+    this.lastAdvancedAt = time.getTime();
+
+    const scale = Math.sqrt(dtSeconds / TRADING_SECONDS_PER_YEAR);
+    this.step(this.market, scale);
+    for (const sector of this.sectors.values()) {
+      this.step(sector, scale);
+    }
+  }
+
+  /**
+   * 获取市场因子和指定行业因子的当前水平（首次获取时登记行业）
+   *
+   * @param category - 股票分类
+   */
+  getLevels(category: string): FactorLevels {
+    return { market: this.market.level, sector: this.getSector(category).level };
+  }
+
+  /**
+   * 冲击因子：因子水平直接加上一次对数收益率（未启用随机推进时同样生效），
+   * 股票在下一次价格更新时按自身 β 计入
+   *
+   * @param category - 股票分类，为 null 时冲击市场因子
+   * @param logReturn - 冲击的对数收益率
+   */
+  applyShock(category: string | null, logReturn: number): void {
+    const factor = category === null ? this.market : this.getSector(category);
+    factor.level += logReturn;
+  }
+
+  /**
+   * 获取行业因子状态，不存在时登记
+   */
+  private getSector(category: string): FactorState {
+    let sector = this.sectors.get(category);
+    if (!sector) {
+      sector = {
+        level: 0,
+        volatility: this.config.categoryOverrides[category] ?? this.config.sectorVolatility,
+        random: this.getRandomStream(`factor:sector:${category}`),
+      };
+      this.sectors.set(category, sector);
+    }
+    return sector;
+  }
+
+  /**
+   * 因子水平加上一次零均值正态冲击
+   */
+  private step(factor: FactorState, scale: number): void {
+    factor.level += factor.volatility * scale * normalRandom(factor.random);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Market Factor Utilities
+ * 市场因子模型工具函数
+ *
+ * @feature market-factor
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { CorrelationMatrix, FactorExposure, FactorLevels, FactorModelConfig } from './core';
+
+/**
+ * β 的取值范围
+ */
+export const MAX_FACTOR_BETA = 5;
+
+/**
+ * 默认因子暴露（与市场和行业同步波动）
+ */
+export const DEFAULT_FACTOR_EXPOSURE: FactorExposure = { marketBeta: 1, sectorBeta: 1 };
+
+/**
+ * 获取默认因子模型配置
+ */
+export function getDefaultFactorModelConfig(): FactorModelConfig {
+  return {
+    enabled: true,
+    marketVolatility: 0.2,
+    sectorVolatility: 0.15,
+    categoryOverrides: {},
+  };
+}
+
+/**
+ * 获取因子暴露（补全默认值）
+ */
+export function getFactorExposure(exposure?: Partial<FactorExposure>): FactorExposure {
+  return { ...DEFAULT_FACTOR_EXPOSURE, ...exposure };
+}
+
+/**
+ * 校验因子暴露：β 为 -MAX_FACTOR_BETA 到 MAX_FACTOR_BETA 之间的有限数
+ *
+ * @throws Error 参数无效时
+ */
+export function validateFactorExposure(exposure: Partial<FactorExposure>): void {
+  for (const name of Object.keys(exposure)) {
+    if (name !== 'marketBeta' && name !== 'sectorBeta') {
+      throw new Error(`Unknown factor exposure: ${name}`);
+    }
+    const beta = exposure[name];
+    if (typeof beta !== 'number' || !Number.isFinite(beta) || Math.abs(beta) > MAX_FACTOR_BETA) {
+      throw new Error(`Factor exposure ${name} must be between -${MAX_FACTOR_BETA} and ${MAX_FACTOR_BETA}`);
+    }
+  }
+}
+
+/**
+ * 计算两次因子水平之间股票的系统性对数收益率
+ *
+ * @param exposure - 因子暴露
+ * @param from - 上次更新时的因子水平
+ * @param to - 本次更新时的因子水平
+ */
+export function calculateSystematicReturn(exposure: FactorExposure, from: FactorLevels, to: FactorLevels): number {
+  return exposure.marketBeta * (to.market - from.market) + exposure.sectorBeta * (to.sector - from.sector);
+}
+
+/**
+ * 计算收益率相关系数矩阵
+ * 各股票按收盘价计算对数收益率，只使用所有股票共有的最近一段（按最短序列对齐）
+ *
+ * @param closes - 股票代码 -> 按时间升序的收盘价
+ * @returns 皮尔逊相关系数矩阵，收益率不足两个或无波动时为 0（对角线为 1）
+ */
+export function calculateCorrelationMatrix(closes: Record<string, number[]>): CorrelationMatrix {
+  const symbols = Object.keys(closes);
+  const length = Math.min(...symbols.map(symbol => closes[symbol].length));
+  const returns = new Map(symbols.map(symbol => {
+    const prices = closes[symbol].slice(closes[symbol].length - length);
+    return [symbol, prices.slice(1).map((price, i) => Math.log(price / prices[i]))];
+  }));
+
+  const matrix: CorrelationMatrix = {};
+  for (const a of symbols) {
+    matrix[a] = {};
+    for (const b of symbols) {
+      matrix[a][b] = a === b ? 1 : pearson(returns.get(a)!, returns.get(b)!);
+    }
+  }
+  return matrix;
+}
+
+/**
+ * 皮尔逊相关系数
+ */
+function pearson(x: number[], y: number[]): number {
+  if (x.length < 2) {
+    return 0;
+  }
+
+  const meanX = x.reduce((sum, value) => sum + value, 0) / x.length;
+  const meanY = y.reduce((sum, value) => sum + value, 0) / y.length;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < x.length; i++) {
+    covariance += (x[i] - meanX) * (y[i] - meanY);
+    varianceX += (x[i] - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+}
@@ -0,0 +1,205 @@
+/**
+ * Market Index Calculator
+ * 市场指数计算器
+ *
+ * 基日确定成分股权重和基日总额，之后每次价格更新按成分股现价重新计算点位；
+ * 跨交易日时上一交易日最后的点位成为前收盘点位
+ *
+ * @feature market-index
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { HistoricalBar } from '../timeSeries';
+import type { ConstituentDailyBar, IndexConstituent, MarketIndexConfig, MarketIndexSnapshot } from './core';
+import { formatIndexDate, getIndexWeight } from './utils';
+
+/**
+ * 市场指数
+ */
+export class MarketIndex {
+  private readonly weights: Map<string, number> = new Map();
+  private readonly basePrices: Map<string, number> = new Map();
+  private baseAmount: number = 0;
+  private baseDate: Date | null = null;
+
+  private value: number;
+  private previousClose: number;
+  private tradingDay: string = '';
+  private updatedAt: Date | null = null;
+
+  constructor(private readonly config: MarketIndexConfig) {
+    this.value = config.baseValue;
+    this.previousClose = config.baseValue;
+  }
+
+  /**
+   * 是否已设定基日
+   */
+  isBased(): boolean {
+    return this.baseDate !== null;
+  }
+
+  /**
+   * 设定基日：按基日价格确定成分股权重，基日点位为基点
+   * 基日价格无效的股票不计入指数
+   *
+   * @param baseDate - 基日（本地时间零点）
+   * @param constituents - 成分股基日数据
+   * @throws Error 没有有效的成分股时
+   */
+  setBase(baseDate: Date, constituents: IndexConstituent[]): void {
+    const valid = constituents.filter(constituent => constituent.basePrice > 0 && constituent.totalShares > 0);
+    if (valid.length === 0) {
+      throw new Error(`Market index ${this.config.code} has no constituent with a positive base price`);
+    }
+
+    this.weights.clear();
+    this.basePrices.clear();
+    this.baseAmount = 0;
+    for (const constituent of valid) {
+      const weight = getIndexWeight(this.config.weighting, constituent);
+      this.weights.set(constituent.symbol, weight);
+      this.basePrices.set(constituent.symbol, constituent.basePrice);
+      this.baseAmount += weight * constituent.basePrice;
+    }
+
+    this.baseDate = new Date(baseDate);
+    this.value = this.config.baseValue;
+    this.previousClose = this.config.baseValue;
+    this.tradingDay = '';
+    this.updatedAt = null;
+  }
+
+  /**
+   * 按成分股价格计算点位（不改变指数状态）
+   *
+   * @param getPrice - 成分股现价，返回 null 时按基日价格计算
+   * @returns 点位（两位小数）
+   */
+  calculate(getPrice: (symbol: string) => number | null): number {
+    let amount = 0;
+    for (const [symbol, weight] of this.weights) {
+      amount += weight * (getPrice(symbol) ?? this.basePrices.get(symbol)!);
+    }
+    return Math.round(this.config.baseValue * amount / this.baseAmount * 100) / 100;
+  }
+
+  /**
+   * 按最新价格更新点位（跨交易日时先把上一交易日最后的点位记为前收盘点位）
+   *
+   * @param time - 游戏时间
+   * @param getPrice - 成分股现价
+   * @returns 最新点位
+   * @throws Error 尚未设定基日时
+   */
+  update(time: Date, getPrice: (symbol: string) => number | null): number {
+    if (!this.isBased()) {
+      throw new Error(`Market index ${this.config.code} has no base date`);
+    }
+
+    const tradingDay = time.toDateString();
+    if (tradingDay !== this.tradingDay) {
+      if (this.tradingDay !== '') {
+        this.previousClose = this.value;
+      }
+      this.tradingDay = tradingDay;
+    }
+
+    this.value = this.calculate(getPrice);
+    this.updatedAt = new Date(time);
+    return this.value;
+  }
+
+  /**
+   * 用成分股日 K 线回填基日以来的指数日 K 线，最后一根的收盘点位成为前收盘点位
+   * 成分股某日没有 K 线时沿用其上一收盘价；指数最高、最低点按成分股最高、最低价计算，是实际区间的外包络
+   *
+   * @param history - 股票代码 -> 按时间升序的日 K 线
+   * @returns 指数日 K 线（按时间升序，成交量为 0）
+   */
+  backfill(history: Record<string, ConstituentDailyBar[]>): HistoricalBar[] {
+    if (!this.baseDate) {
+      return [];
+    }
+
+    // 基日及之后出现过的交易日
+    const days = new Map<string, Date>();
+    for (const symbol of this.weights.keys()) {
+      for (const bar of history[symbol] ?? []) {
+        if (bar.startTime >= this.baseDate) {
+          days.set(bar.startTime.toDateString(), bar.startTime);
+        }
+      }
+    }
+
+    const lastCloses = new Map(this.basePrices);
+    const result: HistoricalBar[] = [];
+    for (const day of [...days.values()].sort((a, b) => a.getTime() - b.getTime())) {
+      const key = day.toDateString();
+      const bars = new Map<string, ConstituentDailyBar>();
+      for (const symbol of this.weights.keys()) {
+        const bar = history[symbol]?.find(candidate => candidate.startTime.toDateString() === key);
+        if (bar) {
+          bars.set(symbol, bar);
+        }
+      }
+
+      const level = (field: 'open' | 'high' | 'low' | 'close') =>
+        this.calculate(symbol => bars.get(symbol)?.[field] ?? lastCloses.get(symbol)!);
+      const open = level('open');
+      const close = level('close');
+      result.push({
+        timestamp: day,
+        open,
+        high: Math.max(level('high'), open, close),
+        low: Math.min(level('low'), open, close),
+        close,
+        volume: 0,
+      });
+
+      for (const [symbol, bar] of bars) {
+        lastCloses.set(symbol, bar.close);
+      }
+    }
+
+    if (result.length > 0) {
+      this.value = result[result.length - 1].close;
+      this.previousClose = this.value;
+    }
+    return result;
+  }
+
+  /**
+   * 获取指数行情快照
+   *
+   * @returns 快照，尚未设定基日时返回 null
+   */
+  getSnapshot(): MarketIndexSnapshot | null {
+    if (!this.baseDate) {
+      return null;
+    }
+
+    const change = Math.round((this.value - this.previousClose) * 100) / 100;
+    return {
+      code: this.config.code,
+      name: this.config.name,
+      weighting: this.config.weighting,
+      baseDate: formatIndexDate(this.baseDate),
+      baseValue: this.config.baseValue,
+      value: this.value,
+      previousClose: this.previousClose,
+      change,
+      changePercent: Math.round(change / this.previousClose * 10000) / 100,
+      constituentCount: this.weights.size,
+      updatedAt: new Date(this.updatedAt ?? this.baseDate),
+    };
+  }
+
+  /**
+   * 获取前收盘点位
+   */
+  getPreviousClose(): number {
+    return this.previousClose;
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Market Index Core Types
+ * 市场指数核心类型定义
+ *
+ * 指数 = 基点 × Σ(权重 × 现价) / Σ(权重 × 基日价格)
+ * 权重在基日确定后不再变化：按市值加权时为总股本，按价格加权时为 1，等权时为 1 / 基日价格
+ *
+ * 快照结构直接复用 shared/types/marketIndex.ts，与前端共用
+ *
+ * @feature market-index
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { MarketIndexWeighting } from '../../../../shared/types/marketIndex';
+
+export type { MarketIndexSnapshot, MarketIndexWeighting } from '../../../../shared/types/marketIndex';
+
+/**
+ * 市场指数配置（每个交易所一份）
+ */
+export interface MarketIndexConfig {
+  /** 是否编制指数 */
+  enabled: boolean;
+  /** 指数代码 */
+  code: string;
+  /** 指数名称 */
+  name: string;
+  /** 加权方式 */
+  weighting: MarketIndexWeighting;
+  /** 基点 */
+  baseValue: number;
+  /**
+   * 基日（YYYY-MM-DD）
+   * 早于开始日期且股票有种子历史时以基日收盘价为基准，并用种子历史回填基日以来的日 K 线；
+   * 为 null 或不早于开始日期时以开始日期（前收盘价）为基准
+   */
+  baseDate: string | null;
+}
+
+/**
+ * 成分股基日数据
+ */
+export interface IndexConstituent {
+  /** 股票代码 */
+  symbol: string;
+  /** 基日价格 */
+  basePrice: number;
+  /** 总股本 */
+  totalShares: number;
+}
+
+/**
+ * 成分股的一根日 K 线（回填指数历史用）
+ */
+export interface ConstituentDailyBar {
+  /** K 线开始时间 */
+  startTime: Date;
+  /** 开盘价 */
+  open: number;
+  /** 最高价 */
+  high: number;
+  /** 最低价 */
+  low: number;
+  /** 收盘价 */
+  close: number;
+}
@@ -0,0 +1,20 @@
+/**
+ * Market Index Library
+ * 市场指数 - 每个交易所的综合指数（按市值、价格加权或等权）
+ *
+ * 每个 ExchangeInstance 持有一个 MarketIndex，股票价格更新时重新计算点位并写入独立的时间序列，
+ * 指数与股票一样有 K 线，供交易策略和前端作为基准
+ *
+ * @feature market-index
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// MarketIndex
+export { MarketIndex } from './calculator';
@@ -0,0 +1,115 @@
+/**
+ * Market Index Utilities
+ * 市场指数工具函数
+ *
+ * @feature market-index
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { ConstituentDailyBar, IndexConstituent, MarketIndexConfig, MarketIndexWeighting } from './core';
+
+/**
+ * 支持的加权方式
+ */
+export const MARKET_INDEX_WEIGHTINGS: readonly MarketIndexWeighting[] = ['market_cap', 'price', 'equal'];
+
+/**
+ * 指数点位的最小变动单位（保留两位小数）
+ */
+export const INDEX_TICK_SIZE = 0.01;
+
+/**
+ * 获取默认市场指数配置（市值加权，以开始日期为基日，基点 1000）
+ */
+export function getDefaultMarketIndexConfig(): MarketIndexConfig {
+  return {
+    enabled: true,
+    code: '000001',
+    name: '综合指数',
+    weighting: 'market_cap',
+    baseValue: 1000,
+    baseDate: null,
+  };
+}
+
+/**
+ * 校验市场指数配置
+ *
+ * @throws Error 配置无效时
+ */
+export function validateMarketIndexConfig(config: MarketIndexConfig): void {
+  if (typeof config.code !== 'string' || config.code.trim() === '') {
+    throw new Error('Market index code must be a non-empty string');
+  }
+  if (!MARKET_INDEX_WEIGHTINGS.includes(config.weighting)) {
+    throw new Error(`Unknown market index weighting: ${config.weighting}`);
+  }
+  if (typeof config.baseValue !== 'number' || !Number.isFinite(config.baseValue) || config.baseValue <= 0) {
+    throw new Error('Market index base value must be a positive number');
+  }
+  if (config.baseDate !== null && parseIndexDate(config.baseDate) === null) {
+    throw new Error(`Market index base date must be in YYYY-MM-DD format, got ${config.baseDate}`);
+  }
+}
+
+/**
+ * 解析 YYYY-MM-DD 格式的日期（本地时间零点）
+ *
+ * @returns 日期，格式无效时返回 null
+ */
+export function parseIndexDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 && date.getDate() === Number(match[3]) ? date : null;
+}
+
+/**
+ * 格式化为 YYYY-MM-DD（本地时间）
+ */
+export function formatIndexDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * 计算成分股权重（基日确定后不再变化）
+ * - market_cap：总股本，指数随总市值变化
+ * - price：1，高价股影响更大
+ * - equal：1 / 基日价格，基日每只股票的市值贡献相同
+ */
+export function getIndexWeight(weighting: MarketIndexWeighting, constituent: IndexConstituent): number {
+  switch (weighting) {
+    case 'market_cap':
+      return constituent.totalShares;
+    case 'price':
+      return 1;
+    case 'equal':
+      return 1 / constituent.basePrice;
+  }
+}
+
+/**
+ * 获取指定日期（含）之前最后一根日 K 线的收盘价
+ *
+ * @param bars - 按时间升序的日 K 线
+ * @param date - 日期（本地时间零点）
+ * @returns 收盘价，没有该日期之前的 K 线时返回 null
+ */
+export function getCloseOnOrBefore(bars: ConstituentDailyBar[], date: Date): number | null {
+  const nextDay = new Date(date);
+  nextDay.setDate(nextDay.getDate() + 1);
+
+  let close: number | null = null;
+  for (const bar of bars) {
+    if (bar.startTime >= nextDay) {
+      break;
+    }
+    close = bar.close;
+  }
+  return close;
+}
@@ -0,0 +1,40 @@
+/**
+ * Market Scenario Core Types
+ * 市场剧本核心类型定义
+ *
+ * 剧本事件以"第几个交易日 + HH:mm"表示触发时间，附加到交易所时换算为游戏时间；
+ * 价格跳变和因子冲击可带随机扰动，扰动取自交易所的 scenario:<剧本名称> 子流
+ *
+ * 剧本结构直接复用 shared/types/marketScenario.ts，与前端共用
+ *
+ * @feature market-scenario
+ * @author System
+ * @since 2026-10-18
+ */
+
+export type {
+  MarketScenario,
+  PriceJumpEvent,
+  ScenarioEvent,
+  ScenarioEventProgress,
+  ScenarioEventStatus,
+  ScenarioEventType,
+  ScenarioStatus,
+  SectorShockEvent,
+  TradingHaltEvent,
+  TradingHaltState,
+  VolatilityRegimeEvent,
+} from '../../../../shared/types/marketScenario';
+
+/**
+ * 剧本无效时抛出的错误
+ */
+export class ScenarioError extends Error {
+  constructor(
+    message: string,
+    public readonly path?: string
+  ) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
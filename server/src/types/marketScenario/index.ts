@@ -0,0 +1,20 @@
+/**
+ * Market Scenario Library
+ * 市场剧本 - 按游戏时间编排的消息面事件（价格跳变、波动率切换、停牌、行业冲击）
+ *
+ * 剧本保存在市场模板中或附加到运行中的市场实例，由 ExchangeInstance 的游戏时钟触发，
+ * 每个事件执行后记录到交易所事件日志，用于复现"第 3 天 10:30 暴跌"之类的教学场景
+ *
+ * @feature market-scenario
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// ScenarioTimeline
+export { ScenarioTimeline } from './timeline';
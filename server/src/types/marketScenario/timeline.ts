@@ -0,0 +1,106 @@
+/**
+ * Scenario Timeline
+ * 剧本时间线
+ *
+ * 附加剧本时把每个事件的"第几个交易日 + HH:mm"换算为游戏时间并按时间排序，
+ * 触发时间早于附加时间的事件标记为已跳过；之后交易所每帧取出到期事件依次执行
+ *
+ * @feature market-scenario
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { MarketScenario, ScenarioEventProgress } from './core';
+import { parseScenarioTime } from './utils';
+
+/**
+ * 剧本时间线
+ */
+export class ScenarioTimeline {
+  private readonly events: ScenarioEventProgress[];
+
+  /**
+   * @param scenario - 剧本（应已通过 validateScenario 校验）
+   * @param attachedAt - 附加时间（游戏时间）
+   * @param resolveDay - 第几个交易日 -> 该交易日零点
+   */
+  constructor(
+    private readonly scenario: MarketScenario,
+    private readonly attachedAt: Date,
+    resolveDay: (day: number) => Date
+  ) {
+    this.events = scenario.events
+      .map((event, index) => {
+        const scheduledAt = resolveDay(event.day);
+        scheduledAt.setMinutes(parseScenarioTime(event.time)!);
+        return {
+          index,
+          event,
+          scheduledAt,
+          status: scheduledAt < attachedAt ? 'skipped' as const : 'pending' as const,
+        };
+      })
+      .sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime() || a.index - b.index);
+  }
+
+  /**
+   * 获取剧本名称
+   */
+  getName(): string {
+    return this.scenario.name;
+  }
+
+  /**
+   * 取出到期事件并标记为已触发
+   * 返回的进度条目由调用方补充实际涨跌幅
+   *
+   * @param now - 游戏时间
+   * @returns 到期事件，按计划触发时间升序
+   */
+  takeDue(now: Date): ScenarioEventProgress[] {
+    const due: ScenarioEventProgress[] = [];
+    for (const progress of this.events) {
+      if (progress.scheduledAt > now) {
+        break;
+      }
+      if (progress.status === 'pending') {
+        progress.status = 'fired';
+        progress.firedAt = new Date(now);
+        due.push(progress);
+      }
+    }
+    return due;
+  }
+
+  /**
+   * 是否还有等待触发的事件
+   */
+  hasPending(): boolean {
+    return this.events.some(progress => progress.status === 'pending');
+  }
+
+  /**
+   * 获取附加时间
+   */
+  getAttachedAt(): Date {
+    return new Date(this.attachedAt);
+  }
+
+  /**
+   * 获取剧本说明
+   */
+  getDescription(): string {
+    return this.scenario.description ?? '';
+  }
+
+  /**
+   * 获取事件进度（副本，按计划触发时间升序）
+   */
+  getEvents(): ScenarioEventProgress[] {
+    return this.events.map(progress => ({
+      ...progress,
+      scheduledAt: new Date(progress.scheduledAt),
+      firedAt: progress.firedAt ? new Date(progress.firedAt) : undefined,
+    }));
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Market Scenario Utilities
+ * 市场剧本工具函数
+ *
+ * @feature market-scenario
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RandomSource } from '../randomStream';
+import { normalRandom } from '../priceModel';
+import { ScenarioError } from './core';
+import type { MarketScenario, ScenarioEvent, ScenarioEventType } from './core';
+
+/**
+ * 支持的剧本事件类型
+ */
+export const SCENARIO_EVENT_TYPES: readonly ScenarioEventType[] = ['price_jump', 'volatility_regime', 'trading_halt', 'sector_shock'];
+
+/**
+ * 剧本名称最大长度
+ */
+export const MAX_SCENARIO_NAME_LENGTH = 200;
+
+/**
+ * 剧本说明最大长度
+ */
+export const MAX_SCENARIO_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * 单个剧本的最大事件数量
+ */
+export const MAX_SCENARIO_EVENTS = 500;
+
+/**
+ * 剧本覆盖的最大交易日数
+ */
+export const MAX_SCENARIO_DAYS = 3650;
+
+/**
+ * 价格跳变和因子冲击的涨跌幅范围（百分比）
+ */
+export const SCENARIO_SHOCK_PERCENT_RANGE: [number, number] = [-90, 100];
+
+/**
+ * 随机扰动标准差上限（百分点）
+ */
+export const MAX_SCENARIO_SHOCK_STD_DEV = 50;
+
+/**
+ * 波动率倍数上限
+ */
+export const MAX_VOLATILITY_MULTIPLIER = 10;
+
+/**
+ * 停牌时长上限（游戏时间分钟，7 天）
+ */
+export const MAX_HALT_MINUTES = 7 * 24 * 60;
+
+/**
+ * 全市场停牌的键
+ */
+export const MARKET_WIDE_HALT = '*';
+
+/**
+ * 解析 HH:mm 格式的时间
+ *
+ * @returns 当天零点起的分钟数，格式无效时返回 null
+ */
+export function parseScenarioTime(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours <= 23 && minutes <= 59 ? hours * 60 + minutes : null;
+}
+
+/**
+ * 校验剧本：名称非空，名称和说明不超过长度上限，事件数量不超过上限，各事件类型合法、参数在取值范围内
+ *
+ * @throws ScenarioError 剧本无效时（path 为出错字段，如 events[2].percent）
+ */
+export function validateScenario(scenario: MarketScenario): void {
+  if (typeof scenario !== 'object' || scenario === null) {
+    throw new ScenarioError('Scenario must be an object');
+  }
+  if (typeof scenario.name !== 'string' || scenario.name.trim() === '') {
+    throw new ScenarioError('Scenario name must be a non-empty string', 'name');
+  }
+  if (scenario.name.length > MAX_SCENARIO_NAME_LENGTH) {
+    throw new ScenarioError(`Scenario name cannot be longer than ${MAX_SCENARIO_NAME_LENGTH} characters`, 'name');
+  }
+  if (scenario.description !== undefined &&
+    (typeof scenario.description !== 'string' || scenario.description.length > MAX_SCENARIO_DESCRIPTION_LENGTH)) {
+    throw new ScenarioError(`Scenario description must be a string of at most ${MAX_SCENARIO_DESCRIPTION_LENGTH} characters`, 'description');
+  }
+  if (!Array.isArray(scenario.events)) {
+    throw new ScenarioError('Scenario events must be an array', 'events');
+  }
+  if (scenario.events.length > MAX_SCENARIO_EVENTS) {
+    throw new ScenarioError(`Scenario cannot have more than ${MAX_SCENARIO_EVENTS} events`, 'events');
+  }
+
+  scenario.events.forEach((event, index) => validateScenarioEvent(event, `events[${index}]`));
+}
+
+/**
+ * 校验单个剧本事件
+ */
+function validateScenarioEvent(event: ScenarioEvent, path: string): void {
+  if (typeof event !== 'object' || event === null) {
+    throw new ScenarioError('Scenario event must be an object', path);
+  }
+  if (!SCENARIO_EVENT_TYPES.includes(event.type)) {
+    throw new ScenarioError(`Unknown scenario event type: ${event.type}`, `${path}.type`);
+  }
+  if (!Number.isInteger(event.day) || event.day < 1 || event.day > MAX_SCENARIO_DAYS) {
+    throw new ScenarioError(`Scenario event day must be an integer between 1 and ${MAX_SCENARIO_DAYS}`, `${path}.day`);
+  }
+  if (typeof event.time !== 'string' || parseScenarioTime(event.time) === null) {
+    throw new ScenarioError(`Scenario event time must be in HH:mm format, got ${event.time}`, `${path}.time`);
+  }
+  if (event.message !== undefined && typeof event.message !== 'string') {
+    throw new ScenarioError('Scenario event message must be a string', `${path}.message`);
+  }
+
+  switch (event.type) {
+    case 'price_jump':
+      requireText(event.symbol, `${path}.symbol`, 'symbol');
+      requireShock(event.percent, event.stdDev, path);
+      break;
+    case 'sector_shock':
+      optionalText(event.category, `${path}.category`, 'category');
+      requireShock(event.percent, event.stdDev, path);
+      break;
+    case 'volatility_regime':
+      optionalText(event.symbol, `${path}.symbol`, 'symbol');
+      if (!isFiniteNumber(event.multiplier) || event.multiplier <= 0 || event.multiplier > MAX_VOLATILITY_MULTIPLIER) {
+        throw new ScenarioError(`Volatility multiplier must be greater than 0 and at most ${MAX_VOLATILITY_MULTIPLIER}`, `${path}.multiplier`);
+      }
+      break;
+    case 'trading_halt':
+      optionalText(event.symbol, `${path}.symbol`, 'symbol');
+      if (!Number.isInteger(event.durationMinutes) || event.durationMinutes < 1 || event.durationMinutes > MAX_HALT_MINUTES) {
+        throw new ScenarioError(`Trading halt duration must be an integer between 1 and ${MAX_HALT_MINUTES} minutes`, `${path}.durationMinutes`);
+      }
+      break;
+  }
+}
+
+/**
+ * 描述剧本事件（事件未填写说明时作为日志内容）
+ */
+export function describeScenarioEvent(event: ScenarioEvent): string {
+  switch (event.type) {
+    case 'price_jump':
+      return `price jump ${formatPercent(event.percent)} for ${event.symbol}`;
+    case 'sector_shock':
+      return `${event.category ? `sector ${event.category}` : 'market'} shock ${formatPercent(event.percent)}`;
+    case 'volatility_regime':
+      return `volatility x${event.multiplier} for ${event.symbol ?? 'all stocks'}`;
+    case 'trading_halt':
+      return `trading halt for ${event.symbol ?? 'whole market'} (${event.durationMinutes} min)`;
+  }
+}
+
+/**
+ * 抽取实际涨跌幅：设定涨跌幅加上正态随机扰动，限制在 SCENARIO_SHOCK_PERCENT_RANGE 内
+ *
+ * @param percent - 设定涨跌幅（百分比）
+ * @param stdDev - 扰动标准差（百分点），省略或为 0 时不消耗随机数
+ * @param random - 随机数源
+ * @returns 实际涨跌幅（两位小数）
+ */
+export function sampleShockPercent(percent: number, stdDev: number | undefined, random: RandomSource): number {
+  const [min, max] = SCENARIO_SHOCK_PERCENT_RANGE;
+  const sampled = stdDev ? percent + stdDev * normalRandom(random) : percent;
+  return Math.round(Math.min(max, Math.max(min, sampled)) * 100) / 100;
+}
+
+/**
+ * 百分比涨跌幅换算为对数收益率
+ */
+export function percentToLogReturn(percent: number): number {
+  return Math.log(1 + percent / 100);
+}
+
+/**
+ * 判断是否为有限数
+ */
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * 校验必填的文本字段
+ */
+function requireText(value: unknown, path: string, name: string): void {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new ScenarioError(`Scenario event ${name} must be a non-empty string`, path);
+  }
+}
+
+/**
+ * 校验可选的文本字段
+ */
+function optionalText(value: unknown, path: string, name: string): void {
+  if (value !== undefined) {
+    requireText(value, path, name);
+  }
+}
+
+/**
+ * 校验冲击涨跌幅和随机扰动标准差
+ */
+function requireShock(percent: unknown, stdDev: unknown, path: string): void {
+  const [min, max] = SCENARIO_SHOCK_PERCENT_RANGE;
+  if (!isFiniteNumber(percent) || percent < min || percent > max) {
+    throw new ScenarioError(`Scenario shock percent must be between ${min} and ${max}`, `${path}.percent`);
+  }
+  if (stdDev !== undefined && (!isFiniteNumber(stdDev) || stdDev < 0 || stdDev > MAX_SCENARIO_SHOCK_STD_DEV)) {
+    throw new ScenarioError(`Scenario shock stdDev must be between 0 and ${MAX_SCENARIO_SHOCK_STD_DEV}`, `${path}.stdDev`);
+  }
+}
+
+/**
+ * 格式化涨跌幅（正数带 + 号）
+ */
+function formatPercent(percent: number): string {
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+}
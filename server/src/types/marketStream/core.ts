@@ -0,0 +1,76 @@
+/**
+ * Market Stream Core Types
+ * 实时行情推送核心类型定义
+ *
+ * @feature market-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { Granularity } from '../timeSeries';
+
+export type {
+  MarketStreamClientMessage,
+  MarketStreamSubscribeMessage,
+  MarketStreamUnsubscribeMessage,
+  MarketStreamServerMessage,
+  MarketTick,
+  TradePrint,
+  BarClose,
+} from '../../../../shared/types/marketStream';
+
+/**
+ * 推送连接（与具体 WebSocket 实现解耦）
+ */
+export interface MarketStreamClient {
+  /** 连接 ID */
+  id: string;
+  /** 发送序列化后的消息 */
+  send(payload: string): void;
+}
+
+/**
+ * 单个市场实例的订阅
+ */
+export interface InstanceSubscription {
+  /** 订阅的股票代码 */
+  symbols: Set<string>;
+  /** 推送的 K 线周期 */
+  granularities: Set<Granularity>;
+}
+
+/**
+ * 推送配置
+ */
+export interface MarketStreamOptions {
+  /** 最新价合并推送间隔（系统时间毫秒） */
+  tickIntervalMs: number;
+  /** 单个连接最多订阅的市场实例数量 */
+  maxInstancesPerClient: number;
+}
+
+/**
+ * 推送错误代码
+ */
+export enum MarketStreamErrorCode {
+  INVALID_MESSAGE = 'INVALID_MESSAGE',
+  UNKNOWN_ACTION = 'UNKNOWN_ACTION',
+  INVALID_GRANULARITY = 'INVALID_GRANULARITY',
+  UNKNOWN_SYMBOL = 'UNKNOWN_SYMBOL',
+  MARKET_INSTANCE_NOT_FOUND = 'MARKET_INSTANCE_NOT_FOUND',
+  TOO_MANY_SUBSCRIPTIONS = 'TOO_MANY_SUBSCRIPTIONS',
+}
+
+/**
+ * 客户端消息无效或订阅无法完成时抛出的错误
+ */
+export class MarketStreamError extends Error {
+  constructor(
+    message: string,
+    public readonly code: MarketStreamErrorCode,
+    public readonly instanceId?: string
+  ) {
+    super(message);
+    this.name = 'MarketStreamError';
+  }
+}
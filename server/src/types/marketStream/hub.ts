@@ -0,0 +1,265 @@
+/**
+ * Market Stream Hub
+ * 实时行情推送中心
+ *
+ * - 维护连接及其按市场实例、股票的订阅
+ * - 最新价按 实例 + 股票 合并，由 flushTicks 定时推送最新一条
+ * - 成交回报和 K 线收盘立即推送给订阅了对应股票（及周期）的连接
+ * 不依赖具体的 WebSocket 实现，连接发送失败只记录日志
+ *
+ * @feature market-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { Granularity } from '../timeSeries';
+import {
+  BarClose,
+  InstanceSubscription,
+  MarketStreamClient,
+  MarketStreamError,
+  MarketStreamErrorCode,
+  MarketStreamOptions,
+  MarketStreamServerMessage,
+  MarketTick,
+  TradePrint,
+} from './core';
+import { DEFAULT_MARKET_STREAM_OPTIONS, serializeServerMessage } from './utils';
+
+interface ClientEntry {
+  client: MarketStreamClient;
+  subscriptions: Map<string, InstanceSubscription>;
+}
+
+/**
+ * 实时行情推送中心
+ */
+export class MarketStreamHub {
+  private readonly options: MarketStreamOptions;
+  private clients: Map<string, ClientEntry> = new Map();
+  private pendingTicks: Map<string, MarketTick> = new Map();
+
+  constructor(options: Partial<MarketStreamOptions> = {}) {
+    this.options = { ...DEFAULT_MARKET_STREAM_OPTIONS, ...options };
+  }
+
+  /**
+   * 注册连接
+   */
+  addClient(client: MarketStreamClient): void {
+    this.clients.set(client.id, { client, subscriptions: new Map() });
+  }
+
+  /**
+   * 移除连接
+   *
+   * @returns 因此不再有订阅者的市场实例 ID
+   */
+  removeClient(clientId: string): string[] {
+    const entry = this.clients.get(clientId);
+    if (!entry) {
+      return [];
+    }
+
+    this.clients.delete(clientId);
+    return Array.from(entry.subscriptions.keys()).filter(instanceId => !this.hasSubscribers(instanceId));
+  }
+
+  /**
+   * 订阅市场实例中的股票（与已有订阅合并）
+   *
+   * @param clientId - 连接 ID
+   * @param instanceId - 市场实例 ID
+   * @param symbols - 股票代码
+   * @param granularities - 推送的 K 线周期
+   * @returns 合并后的订阅
+   * @throws MarketStreamError 如果连接订阅的市场实例数量超出上限
+   */
+  subscribe(clientId: string, instanceId: string, symbols: string[], granularities: Granularity[]): InstanceSubscription {
+    const entry = this.getEntry(clientId);
+    let subscription = entry.subscriptions.get(instanceId);
+
+    if (!subscription) {
+      if (entry.subscriptions.size >= this.options.maxInstancesPerClient) {
+        throw new MarketStreamError(
+          `A connection can subscribe to at most ${this.options.maxInstancesPerClient} market instances`,
+          MarketStreamErrorCode.TOO_MANY_SUBSCRIPTIONS,
+          instanceId
+        );
+      }
+      subscription = { symbols: new Set(), granularities: new Set() };
+      entry.subscriptions.set(instanceId, subscription);
+    }
+
+    symbols.forEach(symbol => subscription!.symbols.add(symbol));
+    granularities.forEach(granularity => subscription!.granularities.add(granularity));
+    return subscription;
+  }
+
+  /**
+   * 退订市场实例中的股票
+   *
+   * @param symbols - 股票代码，未指定时退订整个市场实例
+   * @returns 实际退订的股票代码
+   */
+  unsubscribe(clientId: string, instanceId: string, symbols?: string[]): string[] {
+    const subscription = this.getEntry(clientId).subscriptions.get(instanceId);
+    if (!subscription) {
+      return [];
+    }
+
+    const removed = symbols
+      ? symbols.filter(symbol => subscription.symbols.has(symbol))
+      : Array.from(subscription.symbols);
+    removed.forEach(symbol => subscription.symbols.delete(symbol));
+
+    if (!symbols || subscription.symbols.size === 0) {
+      this.getEntry(clientId).subscriptions.delete(instanceId);
+    }
+    return removed;
+  }
+
+  /**
+   * 市场实例是否仍有订阅者
+   */
+  hasSubscribers(instanceId: string): boolean {
+    for (const entry of this.clients.values()) {
+      if (entry.subscriptions.has(instanceId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 股票是否有订阅者
+   */
+  isSubscribed(instanceId: string, symbol: string): boolean {
+    for (const entry of this.clients.values()) {
+      if (entry.subscriptions.get(instanceId)?.symbols.has(symbol)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 获取股票所有订阅者需要的 K 线周期
+   */
+  getBarGranularities(instanceId: string, symbol: string): Set<Granularity> {
+    const granularities = new Set<Granularity>();
+    for (const entry of this.clients.values()) {
+      const subscription = entry.subscriptions.get(instanceId);
+      if (subscription?.symbols.has(symbol)) {
+        subscription.granularities.forEach(granularity => granularities.add(granularity));
+      }
+    }
+    return granularities;
+  }
+
+  /**
+   * 记录最新价（同一股票在下次 flushTicks 前只保留最新一条）
+   */
+  queueTick(tick: MarketTick): void {
+    this.pendingTicks.set(`${tick.instanceId}|${tick.symbol}`, tick);
+  }
+
+  /**
+   * 推送合并后的最新价
+   */
+  flushTicks(): void {
+    if (this.pendingTicks.size === 0) {
+      return;
+    }
+
+    const ticks = Array.from(this.pendingTicks.values());
+    this.pendingTicks.clear();
+    for (const tick of ticks) {
+      this.publish(tick.instanceId, tick.symbol, { type: 'tick', data: tick });
+    }
+  }
+
+  /**
+   * 推送成交回报
+   */
+  publishTrade(print: TradePrint): void {
+    this.publish(print.instanceId, print.symbol, { type: 'trade', data: print });
+  }
+
+  /**
+   * 推送 K 线收盘（只推送给订阅了该周期的连接）
+   */
+  publishBar(bar: BarClose): void {
+    this.publish(bar.instanceId, bar.symbol, { type: 'bar', data: bar }, bar.granularity as Granularity);
+  }
+
+  /**
+   * 市场实例已销毁：通知订阅者并移除相关订阅
+   */
+  closeInstance(instanceId: string): void {
+    for (const [clientId, entry] of this.clients) {
+      if (entry.subscriptions.delete(instanceId)) {
+        this.send(clientId, { type: 'instance_closed', instanceId });
+      }
+    }
+
+    for (const key of this.pendingTicks.keys()) {
+      if (key.startsWith(`${instanceId}|`)) {
+        this.pendingTicks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 向单个连接发送消息
+   */
+  send(clientId: string, message: MarketStreamServerMessage): void {
+    const entry = this.clients.get(clientId);
+    if (entry) {
+      this.deliver(entry.client, serializeServerMessage(message));
+    }
+  }
+
+  /**
+   * 获取连接数和订阅数
+   */
+  getStats(): { clients: number; subscriptions: number } {
+    let subscriptions = 0;
+    for (const entry of this.clients.values()) {
+      subscriptions += entry.subscriptions.size;
+    }
+    return { clients: this.clients.size, subscriptions };
+  }
+
+  /**
+   * 推送给订阅了该股票的连接
+   */
+  private publish(instanceId: string, symbol: string, message: MarketStreamServerMessage, granularity?: Granularity): void {
+    let payload: string | null = null;
+
+    for (const entry of this.clients.values()) {
+      const subscription = entry.subscriptions.get(instanceId);
+      if (!subscription?.symbols.has(symbol)) continue;
+      if (granularity && !subscription.granularities.has(granularity)) continue;
+
+      payload = payload ?? serializeServerMessage(message);
+      this.deliver(entry.client, payload);
+    }
+  }
+
+  private deliver(client: MarketStreamClient, payload: string): void {
+    try {
+      client.send(payload);
+    } catch (error) {
+      console.error(`[MarketStreamHub] Failed to send to client ${client.id}:`, error);
+    }
+  }
+
+  private getEntry(clientId: string): ClientEntry {
+    const entry = this.clients.get(clientId);
+    if (!entry) {
+      throw new Error(`Market stream client ${clientId} not found`);
+    }
+    return entry;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Market Stream Library
+ * 实时行情推送 - 按市场实例和股票订阅的最新价、成交回报和 K 线收盘推送
+ *
+ * 本模块只维护订阅和消息路由，WebSocket 连接和交易所事件的接入由 marketStreamService 完成
+ *
+ * @feature market-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// MarketStreamHub
+export { MarketStreamHub } from './hub';
@@ -0,0 +1,150 @@
+/**
+ * Market Stream Utilities
+ * 实时行情推送工具函数
+ *
+ * @feature market-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { AggregatedPoint, Granularity, isGranularity } from '../timeSeries';
+import type { MatchedTrade } from '../orderBook';
+import {
+  BarClose,
+  MarketStreamClientMessage,
+  MarketStreamError,
+  MarketStreamErrorCode,
+  MarketStreamOptions,
+  MarketStreamServerMessage,
+  TradePrint,
+} from './core';
+
+/**
+ * 默认推送配置
+ */
+export const DEFAULT_MARKET_STREAM_OPTIONS: MarketStreamOptions = {
+  tickIntervalMs: 250,
+  maxInstancesPerClient: 10,
+};
+
+/**
+ * 未指定周期时推送的 K 线周期
+ */
+export const DEFAULT_BAR_GRANULARITY = Granularity.MIN_1;
+
+/**
+ * 判断是否为字符串数组
+ */
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * 判断是否为 JSON 对象
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * 解析客户端消息
+ *
+ * @param raw - 收到的文本消息
+ * @returns 客户端消息
+ * @throws MarketStreamError 如果消息不是有效的 JSON 或字段无效
+ */
+export function parseClientMessage(raw: string): MarketStreamClientMessage {
+  let message: unknown;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    throw new MarketStreamError('Message must be valid JSON', MarketStreamErrorCode.INVALID_MESSAGE);
+  }
+
+  if (!isRecord(message)) {
+    throw new MarketStreamError('Message must be a JSON object', MarketStreamErrorCode.INVALID_MESSAGE);
+  }
+
+  const { action, instanceId, symbols, granularities } = message;
+
+  if (action === 'ping') {
+    return { action: 'ping' };
+  }
+
+  if (action !== 'subscribe' && action !== 'unsubscribe') {
+    throw new MarketStreamError(`Unknown action: ${String(action)}`, MarketStreamErrorCode.UNKNOWN_ACTION);
+  }
+
+  if (typeof instanceId !== 'string' || instanceId.length === 0) {
+    throw new MarketStreamError('instanceId is required', MarketStreamErrorCode.INVALID_MESSAGE);
+  }
+
+  if (symbols !== undefined && !isStringArray(symbols)) {
+    throw new MarketStreamError('symbols must be an array of strings', MarketStreamErrorCode.INVALID_MESSAGE, instanceId);
+  }
+
+  if (action === 'unsubscribe') {
+    return { action: 'unsubscribe', instanceId, symbols };
+  }
+
+  if (granularities !== undefined) {
+    if (!isStringArray(granularities)) {
+      throw new MarketStreamError('granularities must be an array of strings', MarketStreamErrorCode.INVALID_MESSAGE, instanceId);
+    }
+    const invalid = granularities.find(granularity => !isGranularity(granularity));
+    if (invalid !== undefined) {
+      throw new MarketStreamError(`Invalid granularity: ${invalid}`, MarketStreamErrorCode.INVALID_GRANULARITY, instanceId);
+    }
+  }
+
+  return { action: 'subscribe', instanceId, symbols, granularities };
+}
+
+/**
+ * 序列化服务端消息
+ */
+export function serializeServerMessage(message: MarketStreamServerMessage): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * 根据撮合成交创建成交回报推送
+ *
+ * @param instanceId - 市场实例 ID
+ * @param trade - 撮合成交
+ */
+export function createTradePrint(instanceId: string, trade: MatchedTrade): TradePrint {
+  return {
+    instanceId,
+    symbol: trade.symbol,
+    tradeId: trade.tradeId,
+    price: trade.price,
+    quantity: trade.quantity,
+    amount: trade.amount,
+    side: trade.aggressorSide,
+    executedAt: trade.executedAt.toISOString(),
+  };
+}
+
+/**
+ * 根据已关闭窗口的聚合数据创建 K 线收盘推送
+ *
+ * @param instanceId - 市场实例 ID
+ * @param symbol - 股票代码
+ * @param point - 价格序列的聚合数据点
+ */
+export function createBarClose(instanceId: string, symbol: string, point: AggregatedPoint): BarClose {
+  return {
+    instanceId,
+    symbol,
+    granularity: point.granularity,
+    startTime: point.startTime.toISOString(),
+    endTime: point.endTime.toISOString(),
+    open: point.open,
+    high: point.high,
+    low: point.low,
+    close: point.close,
+    volume: point.volume,
+    vwap: point.vwap,
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * Order Book Implementation
+ * 订单簿与撮合引擎实现
+ *
+ * 本文件实现单个股票的限价订单簿，负责：
+ * 1. 维护买卖两侧挂单（价格优先、时间优先）
+ * 2. 撮合主动方订单，支持部分成交及 IOC / FOK
+ * 3. 生成成交及买卖双方成交回报
+ * 4. 撤单与按价位聚合的盘口快照
+ * 5. 集合竞价：只收集订单，按最大成交量原则统一价格撮合
+ *
+ * 成交价格采用被动方（挂单方）价格，给定撮合价格区间时不超出区间
+ *
+ * @feature order-book-matching
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradeOrder, TradeAction } from '../../../../shared/types/trading';
+import type {
+  BookEntry,
+  MatchedTrade,
+  MatchResult,
+  OrderBookLevel,
+  OrderBookSnapshot,
+  AuctionClearing,
+  AuctionResult,
+  MatchPriceLimits,
+} from './core';
+import {
+  roundPrice,
+  getRemainingQuantity,
+  isOrderOpen,
+  hasLimitPrice,
+  canRest,
+  compareBookEntries,
+  getMatchPrice,
+  applyFill,
+  calculateAuctionClearing,
+} from './utils';
+
+/**
+ * 订单簿
+ * 每个 StockInstance 持有一个实例
+ */
+export class OrderBook {
+  /** 股票代码 */
+  public readonly symbol: string;
+
+  /** 买盘：价格降序，时间升序 */
+  private bids: BookEntry[] = [];
+
+  /** 卖盘：价格升序，时间升序 */
+  private asks: BookEntry[] = [];
+
+  /** 挂单索引：orderId -> BookEntry */
+  private restingOrders: Map<string, BookEntry> = new Map();
+
+  /** 入簿序号（时间优先） */
+  private sequence: number = 0;
+
+  /** 成交序号（生成成交 ID） */
+  private tradeSequence: number = 0;
+
+  constructor(symbol: string) {
+    this.symbol = symbol;
+  }
+
+  /**
+   * 提交订单并撮合
+   * 限价单未成交部分进入订单簿；市价单和 IOC 订单未成交部分直接撤销；
+   * FOK 订单无法全部成交时不撮合，直接撤销
+   *
+   * @param order - 订单（原地更新状态）
+   * @param timestamp - 撮合时间（游戏时间）
+   * @param limits - 撮合价格区间（可选）
+   * @returns 撮合结果
+   * @throws 如果订单不属于本股票或参数无效
+   */
+  submit(order: TradeOrder, timestamp: Date, limits?: MatchPriceLimits): MatchResult {
+    this.validateOrder(order);
+
+    if (order.timeInForce === 'fok' && this.getMatchableQuantity(order, limits) < getRemainingQuantity(order)) {
+      order.status = 'cancelled';
+      order.updatedAt = timestamp;
+      return { order, trades: [], resting: false };
+    }
+
+    const trades = this.matchIncoming(order, timestamp, limits);
+    let resting = false;
+
+    if (isOrderOpen(order) && getRemainingQuantity(order) > 0) {
+      if (canRest(order)) {
+        this.insert(order);
+        resting = true;
+      } else {
+        order.status = 'cancelled';
+        order.updatedAt = timestamp;
+      }
+    }
+
+    return { order, trades, resting };
+  }
+
+  /**
+   * 集合竞价期间收集订单（只挂单，不撮合）
+   *
+   * @param order - 限价类订单
+   * @param timestamp - 申报时间（游戏时间）
+   * @returns 撮合结果（无成交）
+   * @throws 如果订单参数无效或不是限价类订单
+   */
+  collect(order: TradeOrder, timestamp: Date): MatchResult {
+    this.validateOrder(order);
+
+    if (!hasLimitPrice(order)) {
+      throw new Error(`Order ${order.id} must carry a limit price during the call auction`);
+    }
+
+    order.updatedAt = timestamp;
+    this.insert(order);
+    return { order, trades: [], resting: true };
+  }
+
+  /**
+   * 计算当前订单簿的集合竞价参考撮合价格（不修改订单簿）
+   *
+   * @param referencePrice - 参考价
+   * @param limits - 撮合价格区间（可选）
+   * @returns 撮合价格，无法成交时返回 null
+   */
+  getIndicativeClearing(referencePrice: number, limits?: MatchPriceLimits): AuctionClearing | null {
+    return calculateAuctionClearing(this.bids, this.asks, referencePrice, limits);
+  }
+
+  /**
+   * 集合竞价统一撮合
+   * 所有价格不劣于撮合价的订单按价格优先、时间优先以撮合价成交，未成交部分保留在订单簿
+   *
+   * @param timestamp - 撮合时间
+   * @param referencePrice - 参考价
+   * @param limits - 撮合价格区间（可选）
+   * @returns 集合竞价结果
+   */
+  uncross(timestamp: Date, referencePrice: number, limits?: MatchPriceLimits): AuctionResult {
+    const clearing = this.getIndicativeClearing(referencePrice, limits);
+    const trades: MatchedTrade[] = [];
+
+    if (!clearing) {
+      return { symbol: this.symbol, clearing, trades };
+    }
+
+    let remaining = clearing.volume;
+    while (remaining > 0 && this.bids.length > 0 && this.asks.length > 0) {
+      const bid = this.bids[0];
+      const ask = this.asks[0];
+      const quantity = Math.min(remaining, getRemainingQuantity(bid.order), getRemainingQuantity(ask.order));
+
+      applyFill(bid.order, clearing.price, quantity, timestamp);
+      applyFill(ask.order, clearing.price, quantity, timestamp);
+
+      // 后申报的一方视为主动方
+      const [incoming, resting] = bid.sequence > ask.sequence ? [bid, ask] : [ask, bid];
+      trades.push(this.createTrade(incoming.order, resting.order, clearing.price, quantity, timestamp));
+      remaining -= quantity;
+
+      for (const entry of [bid, ask]) {
+        if (getRemainingQuantity(entry.order) === 0) {
+          this.remove(entry.order.id);
+        }
+      }
+    }
+
+    return { symbol: this.symbol, clearing, trades };
+  }
+
+  /**
+   * 撤销挂单
+   *
+   * @param orderId - 订单 ID
+   * @param timestamp - 撤单时间
+   * @returns 被撤销的订单，不在订单簿中时返回 null
+   */
+  cancel(orderId: string, timestamp: Date): TradeOrder | null {
+    const order = this.remove(orderId);
+    if (!order) {
+      return null;
+    }
+
+    order.status = 'cancelled';
+    order.updatedAt = timestamp;
+    return order;
+  }
+
+  /**
+   * 从订单簿中移除挂单（不修改订单状态）
+   *
+   * @param orderId - 订单 ID
+   * @returns 被移除的订单，不存在时返回 null
+   */
+  remove(orderId: string): TradeOrder | null {
+    const entry = this.restingOrders.get(orderId);
+    if (!entry) {
+      return null;
+    }
+
+    const side = entry.order.action === 'buy' ? this.bids : this.asks;
+    const index = side.indexOf(entry);
+    if (index >= 0) {
+      side.splice(index, 1);
+    }
+    this.restingOrders.delete(orderId);
+
+    return entry.order;
+  }
+
+  /**
+   * 清空订单簿
+   *
+   * @returns 被移除的全部挂单
+   */
+  clear(): TradeOrder[] {
+    const orders = Array.from(this.restingOrders.values()).map(entry => entry.order);
+    this.bids = [];
+    this.asks = [];
+    this.restingOrders.clear();
+    return orders;
+  }
+
+  /**
+   * 获取挂单
+   *
+   * @param orderId - 订单 ID
+   * @returns 挂单，不在订单簿中时返回 null
+   */
+  getOrder(orderId: string): TradeOrder | null {
+    return this.restingOrders.get(orderId)?.order ?? null;
+  }
+
+  /**
+   * 获取全部挂单（买盘在前，按优先级排序）
+   *
+   * @returns 挂单数组
+   */
+  getRestingOrders(): TradeOrder[] {
+    return [...this.bids, ...this.asks].map(entry => entry.order);
+  }
+
+  /**
+   * 获取最优买价
+   *
+   * @returns 最优买价，买盘为空时返回 null
+   */
+  getBestBid(): number | null {
+    return this.bids.length > 0 ? this.bids[0].order.price ?? null : null;
+  }
+
+  /**
+   * 获取最优卖价
+   *
+   * @returns 最优卖价，卖盘为空时返回 null
+   */
+  getBestAsk(): number | null {
+    return this.asks.length > 0 ? this.asks[0].order.price ?? null : null;
+  }
+
+  /**
+   * 获取按价位聚合的盘口快照
+   *
+   * @param depth - 每侧价位数量
+   * @param timestamp - 快照时间
+   * @returns 盘口快照
+   */
+  getSnapshot(depth: number, timestamp: Date): OrderBookSnapshot {
+    return {
+      symbol: this.symbol,
+      bids: this.aggregateLevels(this.bids, depth),
+      asks: this.aggregateLevels(this.asks, depth),
+      timestamp,
+    };
+  }
+
+  /**
+   * 计算订单当前可立即成交的数量（不修改订单簿）
+   *
+   * @param order - 主动方订单
+   * @param limits - 撮合价格区间（可选）
+   * @returns 可成交数量，不超过订单剩余数量
+   */
+  getMatchableQuantity(order: TradeOrder, limits?: MatchPriceLimits): number {
+    const remaining = getRemainingQuantity(order);
+    const opposite = order.action === 'buy' ? this.asks : this.bids;
+    let matchable = 0;
+
+    for (const entry of opposite) {
+      if (matchable >= remaining || getMatchPrice(order, entry.order, limits) === null) {
+        break;
+      }
+      matchable += getRemainingQuantity(entry.order);
+    }
+
+    return Math.min(matchable, remaining);
+  }
+
+  /**
+   * 获取挂单数量
+   */
+  get size(): number {
+    return this.restingOrders.size;
+  }
+
+  /**
+   * 获取指定方向的挂单数量
+   *
+   * @param side - 方向
+   * @returns 挂单笔数
+   */
+  getDepth(side: TradeAction): number {
+    return side === 'buy' ? this.bids.length : this.asks.length;
+  }
+
+  // ============================================================================
+  // 撮合逻辑
+  // ============================================================================
+
+  /**
+   * 撮合主动方订单
+   */
+  private matchIncoming(order: TradeOrder, timestamp: Date, limits?: MatchPriceLimits): MatchedTrade[] {
+    const trades: MatchedTrade[] = [];
+    const opposite = order.action === 'buy' ? this.asks : this.bids;
+
+    while (getRemainingQuantity(order) > 0 && opposite.length > 0) {
+      const best = opposite[0];
+      const price = getMatchPrice(order, best.order, limits);
+
+      if (price === null) {
+        break;
+      }
+
+      const quantity = Math.min(getRemainingQuantity(order), getRemainingQuantity(best.order));
+
+      applyFill(order, price, quantity, timestamp);
+      applyFill(best.order, price, quantity, timestamp);
+
+      trades.push(this.createTrade(order, best.order, price, quantity, timestamp));
+
+      // 移除完全成交的挂单
+      if (getRemainingQuantity(best.order) === 0) {
+        opposite.shift();
+        this.restingOrders.delete(best.order.id);
+      }
+    }
+
+    return trades;
+  }
+
+  /**
+   * 创建成交记录
+   */
+  private createTrade(
+    incoming: TradeOrder,
+    resting: TradeOrder,
+    price: number,
+    quantity: number,
+    timestamp: Date
+  ): MatchedTrade {
+    const tradeId = `${this.symbol}-T${++this.tradeSequence}`;
+    const buyOrder = incoming.action === 'buy' ? incoming : resting;
+    const sellOrder = incoming.action === 'buy' ? resting : incoming;
+
+    return {
+      tradeId,
+      symbol: this.symbol,
+      price,
+      quantity,
+      amount: roundPrice(price * quantity),
+      buyOrderId: buyOrder.id,
+      sellOrderId: sellOrder.id,
+      buyerId: buyOrder.userId,
+      sellerId: sellOrder.userId,
+      aggressorSide: incoming.action,
+      executedAt: timestamp,
+      executions: {
+        buy: {
+          id: `${tradeId}-B`,
+          orderId: buyOrder.id,
+          tradeId,
+          quantity,
+          price,
+          commission: 0,
+          executedAt: timestamp,
+        },
+        sell: {
+          id: `${tradeId}-S`,
+          orderId: sellOrder.id,
+          tradeId,
+          quantity,
+          price,
+          commission: 0,
+          executedAt: timestamp,
+        },
+      },
+    };
+  }
+
+  // ============================================================================
+  // 订单簿维护
+  // ============================================================================
+
+  /**
+   * 按优先级插入挂单（二分查找插入位置）
+   */
+  private insert(order: TradeOrder): void {
+    const entry: BookEntry = { order, sequence: ++this.sequence };
+    const side = order.action === 'buy' ? this.bids : this.asks;
+
+    let low = 0;
+    let high = side.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareBookEntries(order.action, side[mid], entry) <= 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    side.splice(low, 0, entry);
+    this.restingOrders.set(order.id, entry);
+  }
+
+  /**
+   * 按价位聚合挂单
+   */
+  private aggregateLevels(entries: BookEntry[], depth: number): OrderBookLevel[] {
+    const levels: OrderBookLevel[] = [];
+
+    for (const entry of entries) {
+      const price = entry.order.price!;
+      const remaining = getRemainingQuantity(entry.order);
+      const last = levels[levels.length - 1];
+
+      if (last && last.price === price) {
+        last.quantity += remaining;
+        last.orderCount += 1;
+      } else {
+        if (levels.length >= depth) {
+          break;
+        }
+        levels.push({ price, quantity: remaining, orderCount: 1 });
+      }
+    }
+
+    return levels;
+  }
+
+  /**
+   * 验证订单
+   */
+  private validateOrder(order: TradeOrder): void {
+    if (order.stockSymbol !== this.symbol) {
+      throw new Error(`Order ${order.id} is for ${order.stockSymbol}, not ${this.symbol}`);
+    }
+
+    if (!Number.isInteger(order.quantity) || order.quantity <= 0) {
+      throw new Error(`Invalid order quantity: ${order.quantity}`);
+    }
+
+    if (hasLimitPrice(order) && (order.price === undefined || order.price <= 0)) {
+      throw new Error(`Limit order ${order.id} requires a positive price`);
+    }
+
+    if (this.restingOrders.has(order.id)) {
+      throw new Error(`Order ${order.id} is already in the book`);
+    }
+  }
+}
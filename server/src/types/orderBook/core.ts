@@ -0,0 +1,292 @@
+/**
+ * Order Book Core Types
+ * 订单簿核心类型定义
+ *
+ * 本文件定义订单簿与撮合引擎使用的类型，订单和成交回报
+ * 直接复用 shared/types/trading.ts 中的 TradeOrder / TradeExecution
+ *
+ * @feature order-book-matching
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type {
+  TradeOrder,
+  TradeExecution,
+  TradeAction,
+  TradeType,
+  TimeInForce,
+  OrderStatus,
+} from '../../../../shared/types/trading';
+
+/**
+ * 订单簿中的挂单条目
+ * sequence 为进入订单簿的序号，用于时间优先排序（模拟时间可能相同）
+ */
+export interface BookEntry {
+  /** 订单对象（与外部共享引用，撮合时原地更新） */
+  order: TradeOrder;
+  /** 入簿序号 */
+  sequence: number;
+}
+
+/**
+ * 撮合价格区间（通常为当日涨跌停价）
+ * 成交价格不超出区间；挂单价格超出区间时以区间边界成交（须仍满足双方限价）
+ */
+export interface MatchPriceLimits {
+  /** 最高成交价 */
+  limitUp: number;
+  /** 最低成交价 */
+  limitDown: number;
+}
+
+/**
+ * 单笔撮合成交
+ * 一笔成交对应买卖双方各一条 TradeExecution
+ */
+export interface MatchedTrade {
+  /** 成交 ID */
+  tradeId: string;
+  /** 股票代码 */
+  symbol: string;
+  /** 成交价格（被动方挂单价格） */
+  price: number;
+  /** 成交数量 */
+  quantity: number;
+  /** 成交金额 */
+  amount: number;
+  /** 买方订单 ID */
+  buyOrderId: string;
+  /** 卖方订单 ID */
+  sellOrderId: string;
+  /** 买方交易员 ID */
+  buyerId: string;
+  /** 卖方交易员 ID */
+  sellerId: string;
+  /** 主动方方向 */
+  aggressorSide: TradeAction;
+  /** 成交时间（游戏时间） */
+  executedAt: Date;
+  /** 买卖双方成交回报 */
+  executions: {
+    buy: TradeExecution;
+    sell: TradeExecution;
+  };
+}
+
+/**
+ * 订单提交结果
+ */
+export interface MatchResult {
+  /** 提交后的订单状态 */
+  order: TradeOrder;
+  /** 本次撮合产生的成交 */
+  trades: MatchedTrade[];
+  /** 订单剩余部分是否进入订单簿挂单 */
+  resting: boolean;
+}
+
+/**
+ * 订单簿价位
+ */
+export interface OrderBookLevel {
+  /** 价格 */
+  price: number;
+  /** 该价位剩余挂单总量 */
+  quantity: number;
+  /** 该价位挂单笔数 */
+  orderCount: number;
+}
+
+/**
+ * 订单簿快照（按价位聚合）
+ */
+export interface OrderBookSnapshot {
+  /** 股票代码 */
+  symbol: string;
+  /** 买盘（价格降序） */
+  bids: OrderBookLevel[];
+  /** 卖盘（价格升序） */
+  asks: OrderBookLevel[];
+  /** 快照时间 */
+  timestamp: Date;
+}
+
+/**
+ * 集合竞价撮合价格
+ */
+export interface AuctionClearing {
+  /** 统一撮合价格 */
+  price: number;
+  /** 该价格下的可成交量 */
+  volume: number;
+  /** 该价格下的买方申报量（价格 >= 撮合价） */
+  buyVolume: number;
+  /** 该价格下的卖方申报量（价格 <= 撮合价） */
+  sellVolume: number;
+}
+
+/**
+ * 集合竞价结果
+ */
+export interface AuctionResult {
+  /** 股票代码 */
+  symbol: string;
+  /** 撮合价格，无法成交时为 null */
+  clearing: AuctionClearing | null;
+  /** 集合竞价产生的成交 */
+  trades: MatchedTrade[];
+}
+
+// ============================================================================
+// 订单管理
+// ============================================================================
+
+/**
+ * 下单请求
+ */
+export interface OrderRequest {
+  /** 交易员 ID */
+  traderId: string;
+  /** 股票代码 */
+  symbol: string;
+  /** 订单类型 */
+  type: TradeType;
+  /** 买卖方向 */
+  action: TradeAction;
+  /** 数量（股） */
+  quantity: number;
+  /** 限价（limit） */
+  price?: number;
+  /** 触发价（stop / stop_limit） */
+  stopPrice?: number;
+  /** 触发后的限价（stop_limit） */
+  limitPrice?: number;
+  /** 有效期，默认 day */
+  timeInForce?: TimeInForce;
+}
+
+/**
+ * 改单请求（仅修改提供的字段）
+ */
+export interface OrderAmendment {
+  /** 新的总数量（不能小于已成交数量） */
+  quantity?: number;
+  /** 新的限价（limit） */
+  price?: number;
+  /** 新的触发价（未触发的 stop / stop_limit） */
+  stopPrice?: number;
+  /** 新的触发后限价（stop_limit） */
+  limitPrice?: number;
+}
+
+/**
+ * 订单查询条件
+ */
+export interface OrderQuery {
+  /** 交易员 ID */
+  traderId?: string;
+  /** 股票代码 */
+  symbol?: string;
+  /** 订单状态 */
+  status?: OrderStatus;
+  /** 仅返回未终结订单 */
+  openOnly?: boolean;
+  /** 最大返回数量 */
+  limit?: number;
+}
+
+/**
+ * 订单提交结果
+ */
+export interface OrderSubmitResult extends MatchResult {
+  /** 是否为等待触发的止损单 */
+  awaitingTrigger: boolean;
+}
+
+/**
+ * 订单撮合场所（由 StockInstance 实现）
+ */
+export interface OrderVenue {
+  /** 股票 ID */
+  readonly id: number;
+  /** 股票代码 */
+  readonly symbol: string;
+  /** 提交订单到订单簿并撮合（集合竞价期间只挂单） */
+  submitOrder(order: TradeOrder): MatchResult;
+  /** 从订单簿撤回挂单（不修改订单状态） */
+  withdrawOrder(orderId: string): TradeOrder | null;
+  /** 获取最新价格（止损触发参考价） */
+  getCurrentPrice(): number;
+}
+
+/**
+ * 订单管理器上下文（由 ExchangeInstance 提供）
+ */
+export interface OrderManagerContext {
+  /** 按股票代码获取撮合场所 */
+  getVenue(symbol: string): OrderVenue | undefined;
+  /** 交易员是否在本交易所注册（可选，未提供时只要求交易员 ID 非空） */
+  isKnownTrader?(traderId: string): boolean;
+  /** 获取当前游戏时间 */
+  getTime(): Date;
+  /** 当前是否允许下单和改单（连续竞价或集合竞价） */
+  isMarketOpen(): boolean;
+  /** 当前是否处于集合竞价（只收集订单不撮合） */
+  isCallAuction(): boolean;
+  /**
+   * 交易规则检查（可选），违反规则时抛出 OrderError
+   * openSellQuantity 为该交易员在该股票上其他未终结卖单的剩余数量
+   */
+  checkRules?(order: TradeOrder, openSellQuantity: number): void;
+  /** 股票是否停牌（可选），停牌期间不触发止损单 */
+  isHalted?(symbol: string): boolean;
+  /** 触发的止损单未通过交易规则检查而被拒绝时回调（可选） */
+  onTriggeredOrderRejected?(order: TradeOrder, error: OrderError): void;
+}
+
+/**
+ * 订单错误代码枚举
+ */
+export enum OrderErrorCode {
+  INVALID_TRADER = 'INVALID_TRADER',
+  UNKNOWN_SYMBOL = 'UNKNOWN_SYMBOL',
+  INVALID_ORDER_TYPE = 'INVALID_ORDER_TYPE',
+  INVALID_ACTION = 'INVALID_ACTION',
+  INVALID_TIME_IN_FORCE = 'INVALID_TIME_IN_FORCE',
+  INVALID_QUANTITY = 'INVALID_QUANTITY',
+  INVALID_PRICE = 'INVALID_PRICE',
+  INVALID_STOP_PRICE = 'INVALID_STOP_PRICE',
+  INVALID_AMENDMENT = 'INVALID_AMENDMENT',
+  MARKET_CLOSED = 'MARKET_CLOSED',
+  TRADING_HALTED = 'TRADING_HALTED',
+  ORDER_NOT_FOUND = 'ORDER_NOT_FOUND',
+  ORDER_NOT_ACTIVE = 'ORDER_NOT_ACTIVE',
+  // 交易规则
+  PRICE_LIMIT_EXCEEDED = 'PRICE_LIMIT_EXCEEDED',
+  INVALID_LOT_SIZE = 'INVALID_LOT_SIZE',
+  INVALID_TICK_SIZE = 'INVALID_TICK_SIZE',
+  T1_SELL_RESTRICTED = 'T1_SELL_RESTRICTED',
+  INSUFFICIENT_POSITION = 'INSUFFICIENT_POSITION',
+  // 资金
+  INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
+  // 交易员风控
+  RISK_POSITION_SIZE_EXCEEDED = 'RISK_POSITION_SIZE_EXCEEDED',
+  RISK_MAX_OPEN_POSITIONS = 'RISK_MAX_OPEN_POSITIONS',
+  RISK_DAILY_LOSS_HALTED = 'RISK_DAILY_LOSS_HALTED',
+}
+
+/**
+ * 订单被拒绝或无法操作时抛出的错误
+ */
+export class OrderError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OrderErrorCode,
+    public readonly orderId?: string
+  ) {
+    super(message);
+    this.name = 'OrderError';
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Order Book Library
+ * 订单簿与撮合引擎 - 价格优先、时间优先的连续竞价撮合
+ *
+ * 本模块提供纯内存的数据结构、撮合逻辑和订单生命周期管理，不涉及持久化或API
+ * 订单与成交回报沿用 shared/types/trading.ts 中的类型
+ *
+ * @feature order-book-matching
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// OrderBook
+export { OrderBook } from './book';
+
+// OrderManager
+export { OrderManager } from './manager';
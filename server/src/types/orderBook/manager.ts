@@ -0,0 +1,563 @@
+/**
+ * Order Manager Implementation
+ * 订单管理器实现
+ *
+ * 本文件实现交易所级别的订单管理，负责：
+ * 1. 校验下单请求并生成订单（market / limit / stop / stop_limit）
+ * 2. 按有效期处理订单（day / gtc / ioc / fok）
+ * 3. 维护等待触发的止损单，按最新价格触发
+ * 4. 改单、撤单与订单查询
+ * 5. 收盘后使当日有效订单过期
+ * 6. 集合竞价期间只接受限价类订单，止损单暂停触发
+ *
+ * 撮合由各股票的订单簿完成，本类只负责订单生命周期
+ *
+ * @feature order-book-matching
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type {
+  TradeOrder,
+  TradeType,
+  TradeAction,
+  TimeInForce,
+} from '../../../../shared/types/trading';
+import type {
+  OrderRequest,
+  OrderAmendment,
+  OrderQuery,
+  OrderSubmitResult,
+  OrderVenue,
+  OrderManagerContext,
+} from './core';
+import { OrderError, OrderErrorCode } from './core';
+import { getRemainingQuantity, isOrderOpen, isStopOrder, isStopTriggered } from './utils';
+
+const ORDER_TYPES: TradeType[] = ['market', 'limit', 'stop', 'stop_limit'];
+const ORDER_ACTIONS: TradeAction[] = ['buy', 'sell'];
+const TIME_IN_FORCE_VALUES: TimeInForce[] = ['day', 'gtc', 'ioc', 'fok'];
+
+/**
+ * 订单管理器
+ * 每个 ExchangeInstance 持有一个实例
+ */
+export class OrderManager {
+  /** 全部订单：orderId -> TradeOrder（按创建顺序） */
+  private orders: Map<string, TradeOrder> = new Map();
+
+  /** 等待触发的止损单：orderId -> TradeOrder */
+  private pendingStops: Map<string, TradeOrder> = new Map();
+
+  /** 订单序号（生成订单 ID） */
+  private orderSequence: number = 0;
+
+  /** 保留的最大订单数量，超出时清除最早的已终结订单 */
+  private readonly maxOrders: number = 10000;
+
+  constructor(private readonly context: OrderManagerContext) {}
+
+  /**
+   * 提交订单
+   * 止损单进入等待触发队列，其他订单立即撮合
+   *
+   * @param request - 下单请求
+   * @returns 提交结果
+   * @throws OrderError 如果请求无效或当前不允许下单
+   */
+  submit(request: OrderRequest): OrderSubmitResult {
+    const venue = this.validateRequest(request);
+    const now = this.context.getTime();
+    const isStop = request.type === 'stop' || request.type === 'stop_limit';
+
+    const order: TradeOrder = {
+      id: `ORD${++this.orderSequence}`,
+      userId: request.traderId,
+      portfolioId: request.traderId,
+      stockId: venue.id.toString(),
+      stockSymbol: venue.symbol,
+      type: request.type,
+      action: request.action,
+      quantity: request.quantity,
+      price: request.type === 'limit' ? request.price : undefined,
+      stopPrice: isStop ? request.stopPrice : undefined,
+      limitPrice: request.type === 'stop_limit' ? request.limitPrice : undefined,
+      timeInForce: request.timeInForce ?? 'day',
+      status: 'pending',
+      filledQuantity: 0,
+      commission: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.context.checkRules?.(order, this.getOpenSellQuantity(order));
+
+    this.orders.set(order.id, order);
+    this.pruneOrders();
+
+    if (isStop) {
+      this.pendingStops.set(order.id, order);
+      this.processStopOrders();
+      return {
+        order: { ...order },
+        trades: [],
+        resting: false,
+        awaitingTrigger: this.pendingStops.has(order.id),
+      };
+    }
+
+    const result = venue.submitOrder(order);
+    this.processStopOrders();
+    return { ...result, order: { ...order }, awaitingTrigger: false };
+  }
+
+  /**
+   * 修改订单
+   * 仅减少数量时保留时间优先级；修改价格或增加数量时重新排队并撮合
+   *
+   * @param orderId - 订单 ID
+   * @param amendment - 改单内容
+   * @returns 改单后的提交结果
+   * @throws OrderError 如果订单不存在、已终结或改单内容无效
+   */
+  amend(orderId: string, amendment: OrderAmendment): OrderSubmitResult {
+    const order = this.getOpenOrder(orderId);
+    this.ensureMarketOpen();
+    this.validateAmendment(order, amendment);
+
+    const candidate = { ...order };
+    this.applyAmendment(candidate, amendment);
+    this.context.checkRules?.(candidate, this.getOpenSellQuantity(order));
+
+    const now = this.context.getTime();
+    const awaitingTrigger = this.pendingStops.has(order.id);
+
+    if (awaitingTrigger) {
+      this.applyAmendment(order, amendment);
+      order.updatedAt = now;
+      this.processStopOrders();
+      return {
+        order: { ...order },
+        trades: [],
+        resting: false,
+        awaitingTrigger: this.pendingStops.has(order.id),
+      };
+    }
+
+    const priceChanged = amendment.price !== undefined && amendment.price !== order.price;
+    const quantityIncreased = amendment.quantity !== undefined && amendment.quantity > order.quantity;
+
+    // 仅减少数量：原地修改，订单簿按剩余数量动态聚合
+    if (!priceChanged && !quantityIncreased) {
+      this.applyAmendment(order, amendment);
+      order.updatedAt = now;
+      return { order: { ...order }, trades: [], resting: true, awaitingTrigger: false };
+    }
+
+    // 撤回后重新提交，失去原有时间优先级
+    const venue = this.context.getVenue(order.stockSymbol);
+    if (!venue) {
+      throw new OrderError(`Stock ${order.stockSymbol} is not available`, OrderErrorCode.UNKNOWN_SYMBOL, order.id);
+    }
+
+    venue.withdrawOrder(order.id);
+    this.applyAmendment(order, amendment);
+    order.updatedAt = now;
+
+    const result = venue.submitOrder(order);
+    this.processStopOrders();
+    return { ...result, order: { ...order }, awaitingTrigger: false };
+  }
+
+  /**
+   * 撤销订单（任何时间均可撤单）
+   *
+   * @param orderId - 订单 ID
+   * @returns 被撤销的订单
+   * @throws OrderError 如果订单不存在或已终结
+   */
+  cancel(orderId: string): TradeOrder {
+    const order = this.getOpenOrder(orderId);
+
+    this.detach(order);
+    order.status = 'cancelled';
+    order.updatedAt = this.context.getTime();
+
+    return { ...order };
+  }
+
+  /**
+   * 获取订单
+   *
+   * @param orderId - 订单 ID
+   * @returns 订单副本，不存在时返回 null
+   */
+  getOrder(orderId: string): TradeOrder | null {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : null;
+  }
+
+  /**
+   * 查询订单（按创建时间倒序）
+   *
+   * @param query - 查询条件
+   * @returns 订单副本数组
+   */
+  getOrders(query: OrderQuery = {}): TradeOrder[] {
+    const result: TradeOrder[] = [];
+    const orders = Array.from(this.orders.values()).reverse();
+
+    for (const order of orders) {
+      if (query.traderId !== undefined && order.userId !== query.traderId) continue;
+      if (query.symbol !== undefined && order.stockSymbol !== query.symbol) continue;
+      if (query.status !== undefined && order.status !== query.status) continue;
+      if (query.openOnly && !isOrderOpen(order)) continue;
+
+      result.push({ ...order });
+      if (query.limit !== undefined && result.length >= query.limit) {
+        break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 累计订单已收取的佣金
+   *
+   * @param orderId - 订单 ID
+   * @param commission - 本笔成交收取的佣金
+   */
+  addCommission(orderId: string, commission: number): void {
+    const order = this.orders.get(orderId);
+    if (order) {
+      order.commission = Math.round((order.commission + commission) * 100) / 100;
+    }
+  }
+
+  /**
+   * 判断订单是否为等待触发的止损单
+   *
+   * @param orderId - 订单 ID
+   */
+  isAwaitingTrigger(orderId: string): boolean {
+    return this.pendingStops.has(orderId);
+  }
+
+  /**
+   * 检查并触发止损单
+   * 触发后 stop 按市价、stop_limit 按 limitPrice 进入订单簿；
+   * 触发时重新检查交易规则（如 GTC 止损限价单的限价超出当日涨跌停区间），未通过时拒绝；
+   * 触发产生的成交可能继续触发其他止损单，循环直到没有新的触发；
+   * 集合竞价期间不触发
+   *
+   * @returns 本次触发的订单数量
+   */
+  processStopOrders(): number {
+    if (!this.context.isMarketOpen() || this.context.isCallAuction()) {
+      return 0;
+    }
+
+    let triggeredCount = 0;
+    let triggered = true;
+
+    while (triggered) {
+      triggered = false;
+
+      for (const order of Array.from(this.pendingStops.values())) {
+        const venue = this.context.getVenue(order.stockSymbol);
+        if (!venue || this.context.isHalted?.(order.stockSymbol) || !isStopTriggered(order, venue.getCurrentPrice())) {
+          continue;
+        }
+
+        this.pendingStops.delete(order.id);
+        if (order.type === 'stop_limit') {
+          order.price = order.limitPrice;
+        }
+        order.updatedAt = this.context.getTime();
+
+        try {
+          this.context.checkRules?.(order, this.getOpenSellQuantity(order));
+        } catch (error) {
+          if (!(error instanceof OrderError)) {
+            throw error;
+          }
+          order.status = 'rejected';
+          this.context.onTriggeredOrderRejected?.(order, error);
+          continue;
+        }
+
+        venue.submitOrder(order);
+        triggeredCount++;
+        triggered = true;
+      }
+    }
+
+    return triggeredCount;
+  }
+
+  /**
+   * 使当日有效（day）的未终结订单过期
+   *
+   * @returns 过期的订单数量
+   */
+  expireDayOrders(): number {
+    return this.expireOrders(order => order.timeInForce === 'day').length;
+  }
+
+  /**
+   * 使满足条件的未终结订单过期（如跨日后限价超出当日涨跌停区间的 GTC 订单）
+   *
+   * @param predicate - 过期条件
+   * @returns 过期的订单
+   */
+  expireOrders(predicate: (order: TradeOrder) => boolean): TradeOrder[] {
+    const now = this.context.getTime();
+    const expired: TradeOrder[] = [];
+
+    for (const order of this.orders.values()) {
+      if (!isOrderOpen(order) || !predicate(order)) {
+        continue;
+      }
+
+      this.detach(order);
+      order.status = 'expired';
+      order.updatedAt = now;
+      expired.push({ ...order });
+    }
+
+    return expired;
+  }
+
+  /**
+   * 清空所有订单（交易所销毁时调用）
+   */
+  clear(): void {
+    this.orders.clear();
+    this.pendingStops.clear();
+  }
+
+  // ============================================================================
+  // 私有方法
+  // ============================================================================
+
+  /**
+   * 获取未终结订单
+   */
+  private getOpenOrder(orderId: string): TradeOrder {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new OrderError(`Order ${orderId} not found`, OrderErrorCode.ORDER_NOT_FOUND, orderId);
+    }
+    if (!isOrderOpen(order)) {
+      throw new OrderError(`Order ${orderId} is already ${order.status}`, OrderErrorCode.ORDER_NOT_ACTIVE, orderId);
+    }
+    return order;
+  }
+
+  /**
+   * 计算同一交易员在同一股票上其他未终结卖单的剩余数量
+   */
+  private getOpenSellQuantity(order: TradeOrder): number {
+    if (order.action !== 'sell') {
+      return 0;
+    }
+
+    let quantity = 0;
+    for (const other of this.orders.values()) {
+      if (other.id !== order.id &&
+        other.action === 'sell' &&
+        other.userId === order.userId &&
+        other.stockSymbol === order.stockSymbol &&
+        isOrderOpen(other)) {
+        quantity += getRemainingQuantity(other);
+      }
+    }
+    return quantity;
+  }
+
+  /**
+   * 将订单从止损队列或订单簿中移除（不修改状态）
+   */
+  private detach(order: TradeOrder): void {
+    if (this.pendingStops.delete(order.id)) {
+      return;
+    }
+    this.context.getVenue(order.stockSymbol)?.withdrawOrder(order.id);
+  }
+
+  /**
+   * 检查当前是否允许下单
+   */
+  private ensureMarketOpen(): void {
+    if (!this.context.isMarketOpen()) {
+      throw new OrderError('Market is closed for order entry', OrderErrorCode.MARKET_CLOSED);
+    }
+  }
+
+  /**
+   * 验证下单请求
+   */
+  private validateRequest(request: OrderRequest): OrderVenue {
+    if (typeof request.traderId !== 'string' || request.traderId.trim() === '') {
+      throw new OrderError('Trader ID is required', OrderErrorCode.INVALID_TRADER);
+    }
+
+    if (this.context.isKnownTrader && !this.context.isKnownTrader(request.traderId)) {
+      throw new OrderError(`Unknown trader: ${request.traderId}`, OrderErrorCode.INVALID_TRADER);
+    }
+
+    if (!ORDER_TYPES.includes(request.type)) {
+      throw new OrderError(
+        `Invalid order type: ${request.type}, expected one of ${ORDER_TYPES.join(', ')}`,
+        OrderErrorCode.INVALID_ORDER_TYPE
+      );
+    }
+
+    if (!ORDER_ACTIONS.includes(request.action)) {
+      throw new OrderError(`Invalid order action: ${request.action}, expected buy or sell`, OrderErrorCode.INVALID_ACTION);
+    }
+
+    const timeInForce = request.timeInForce ?? 'day';
+    if (!TIME_IN_FORCE_VALUES.includes(timeInForce)) {
+      throw new OrderError(
+        `Invalid time in force: ${timeInForce}, expected one of ${TIME_IN_FORCE_VALUES.join(', ')}`,
+        OrderErrorCode.INVALID_TIME_IN_FORCE
+      );
+    }
+
+    if (request.type === 'market' && timeInForce === 'gtc') {
+      throw new OrderError('Market orders never rest in the book and cannot be gtc', OrderErrorCode.INVALID_TIME_IN_FORCE);
+    }
+
+    if ((request.type === 'stop' || request.type === 'stop_limit') && (timeInForce === 'ioc' || timeInForce === 'fok')) {
+      throw new OrderError('Stop orders support only day or gtc', OrderErrorCode.INVALID_TIME_IN_FORCE);
+    }
+
+    if (!Number.isInteger(request.quantity) || request.quantity <= 0) {
+      throw new OrderError(`Quantity must be a positive integer, got ${request.quantity}`, OrderErrorCode.INVALID_QUANTITY);
+    }
+
+    if (request.type === 'limit' && !this.isPositivePrice(request.price)) {
+      throw new OrderError('Limit orders require a positive price', OrderErrorCode.INVALID_PRICE);
+    }
+
+    if (this.context.isCallAuction()) {
+      if (request.type === 'market') {
+        throw new OrderError('Market orders are not accepted during the call auction', OrderErrorCode.INVALID_ORDER_TYPE);
+      }
+      if (timeInForce === 'ioc' || timeInForce === 'fok') {
+        throw new OrderError('IOC and FOK orders are not accepted during the call auction', OrderErrorCode.INVALID_TIME_IN_FORCE);
+      }
+    }
+
+    if ((request.type === 'stop' || request.type === 'stop_limit') && !this.isPositivePrice(request.stopPrice)) {
+      throw new OrderError('Stop orders require a positive stopPrice', OrderErrorCode.INVALID_STOP_PRICE);
+    }
+
+    if (request.type === 'stop_limit' && !this.isPositivePrice(request.limitPrice)) {
+      throw new OrderError('Stop-limit orders require a positive limitPrice', OrderErrorCode.INVALID_PRICE);
+    }
+
+    const venue = this.context.getVenue(request.symbol);
+    if (!venue) {
+      throw new OrderError(`Unknown symbol: ${request.symbol}`, OrderErrorCode.UNKNOWN_SYMBOL);
+    }
+
+    this.ensureMarketOpen();
+
+    return venue;
+  }
+
+  /**
+   * 验证改单请求
+   */
+  private validateAmendment(order: TradeOrder, amendment: OrderAmendment): void {
+    const { quantity, price, stopPrice, limitPrice } = amendment;
+
+    if (quantity === undefined && price === undefined && stopPrice === undefined && limitPrice === undefined) {
+      throw new OrderError('Amendment must change quantity, price, stopPrice or limitPrice', OrderErrorCode.INVALID_AMENDMENT, order.id);
+    }
+
+    if (quantity !== undefined) {
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new OrderError(`Quantity must be a positive integer, got ${quantity}`, OrderErrorCode.INVALID_QUANTITY, order.id);
+      }
+      if (quantity <= order.filledQuantity) {
+        throw new OrderError(
+          `Quantity ${quantity} must exceed filled quantity ${order.filledQuantity}`,
+          OrderErrorCode.INVALID_QUANTITY,
+          order.id
+        );
+      }
+    }
+
+    if (price !== undefined) {
+      if (order.type !== 'limit') {
+        throw new OrderError(`Price can only be amended on limit orders`, OrderErrorCode.INVALID_AMENDMENT, order.id);
+      }
+      if (!this.isPositivePrice(price)) {
+        throw new OrderError('Price must be positive', OrderErrorCode.INVALID_PRICE, order.id);
+      }
+    }
+
+    if (stopPrice !== undefined || limitPrice !== undefined) {
+      if (!isStopOrder(order) || !this.pendingStops.has(order.id)) {
+        throw new OrderError(
+          'stopPrice and limitPrice can only be amended on untriggered stop orders',
+          OrderErrorCode.INVALID_AMENDMENT,
+          order.id
+        );
+      }
+      if (stopPrice !== undefined && !this.isPositivePrice(stopPrice)) {
+        throw new OrderError('stopPrice must be positive', OrderErrorCode.INVALID_STOP_PRICE, order.id);
+      }
+      if (limitPrice !== undefined && (order.type !== 'stop_limit' || !this.isPositivePrice(limitPrice))) {
+        throw new OrderError('limitPrice must be positive and only applies to stop_limit orders', OrderErrorCode.INVALID_PRICE, order.id);
+      }
+    }
+  }
+
+  /**
+   * 应用改单内容
+   */
+  private applyAmendment(order: TradeOrder, amendment: OrderAmendment): void {
+    if (amendment.quantity !== undefined) {
+      order.quantity = amendment.quantity;
+    }
+    if (amendment.price !== undefined) {
+      order.price = amendment.price;
+    }
+    if (amendment.stopPrice !== undefined) {
+      order.stopPrice = amendment.stopPrice;
+    }
+    if (amendment.limitPrice !== undefined) {
+      order.limitPrice = amendment.limitPrice;
+    }
+  }
+
+  /**
+   * 判断价格是否为有效正数
+   */
+  private isPositivePrice(price: number | undefined): boolean {
+    return typeof price === 'number' && Number.isFinite(price) && price > 0;
+  }
+
+  /**
+   * 清除最早的已终结订单，控制内存占用
+   */
+  private pruneOrders(): void {
+    if (this.orders.size <= this.maxOrders) {
+      return;
+    }
+
+    for (const [orderId, order] of this.orders) {
+      if (this.orders.size <= this.maxOrders) {
+        break;
+      }
+      if (!isOrderOpen(order)) {
+        this.orders.delete(orderId);
+      }
+    }
+  }
+}
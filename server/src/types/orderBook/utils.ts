@@ -0,0 +1,240 @@
+/**
+ * Order Book Utilities
+ * 订单簿工具函数
+ *
+ * 包含价格时间优先比较、剩余数量计算、订单状态更新等纯函数
+ *
+ * @feature order-book-matching
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradeOrder, TradeAction, OrderStatus } from '../../../../shared/types/trading';
+import type { BookEntry, AuctionClearing, MatchPriceLimits } from './core';
+
+/** 价格精度（小数位数） */
+export const PRICE_PRECISION = 2;
+
+/** 订单状态 */
+export const ORDER_STATUSES: readonly OrderStatus[] = ['pending', 'partial', 'filled', 'cancelled', 'rejected', 'expired'];
+
+/**
+ * 判断是否为有效的订单状态
+ *
+ * @param value - 待检查的值（如查询参数）
+ * @returns 是否为 OrderStatus
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === 'string' && (ORDER_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * 将价格四舍五入到价格精度
+ *
+ * @param price - 原始价格
+ * @returns 对齐精度后的价格
+ */
+export function roundPrice(price: number): number {
+  const factor = Math.pow(10, PRICE_PRECISION);
+  return Math.round(price * factor) / factor;
+}
+
+/**
+ * 获取订单剩余未成交数量
+ *
+ * @param order - 订单
+ * @returns 剩余数量
+ */
+export function getRemainingQuantity(order: TradeOrder): number {
+  return order.quantity - order.filledQuantity;
+}
+
+/**
+ * 判断订单是否仍可成交（未终结）
+ *
+ * @param order - 订单
+ * @returns 是否处于 pending 或 partial 状态
+ */
+export function isOrderOpen(order: TradeOrder): boolean {
+  return order.status === 'pending' || order.status === 'partial';
+}
+
+/**
+ * 判断订单是否以限价参与撮合（限价单、已触发的止损限价单）
+ *
+ * @param order - 订单
+ * @returns 是否使用 price 作为限价
+ */
+export function hasLimitPrice(order: TradeOrder): boolean {
+  return order.type === 'limit' || order.type === 'stop_limit';
+}
+
+/**
+ * 判断订单是否为止损类订单（需要触发后才进入订单簿）
+ *
+ * @param order - 订单
+ * @returns 是否为 stop 或 stop_limit
+ */
+export function isStopOrder(order: TradeOrder): boolean {
+  return order.type === 'stop' || order.type === 'stop_limit';
+}
+
+/**
+ * 判断止损单是否被最新价格触发
+ * 买入止损：最新价 >= 触发价；卖出止损：最新价 <= 触发价
+ *
+ * @param order - 止损单
+ * @param lastPrice - 最新价格
+ * @returns 是否触发
+ */
+export function isStopTriggered(order: TradeOrder, lastPrice: number): boolean {
+  if (order.stopPrice === undefined) {
+    return false;
+  }
+  return order.action === 'buy' ? lastPrice >= order.stopPrice : lastPrice <= order.stopPrice;
+}
+
+/**
+ * 判断订单剩余部分能否进入订单簿挂单
+ * 仅限价类订单且非 IOC / FOK 时挂单
+ *
+ * @param order - 订单
+ * @returns 是否可以挂单
+ */
+export function canRest(order: TradeOrder): boolean {
+  return hasLimitPrice(order) && order.timeInForce !== 'ioc' && order.timeInForce !== 'fok';
+}
+
+/**
+ * 比较同侧两条挂单的优先级
+ * 买盘：价格降序，时间升序；卖盘：价格升序，时间升序
+ *
+ * @param side - 挂单方向
+ * @param a - 挂单 A
+ * @param b - 挂单 B
+ * @returns 负数表示 A 优先
+ */
+export function compareBookEntries(side: TradeAction, a: BookEntry, b: BookEntry): number {
+  const priceA = a.order.price ?? 0;
+  const priceB = b.order.price ?? 0;
+  if (priceA !== priceB) {
+    return side === 'buy' ? priceB - priceA : priceA - priceB;
+  }
+  return a.sequence - b.sequence;
+}
+
+/**
+ * 判断主动方订单能否与对手方挂单价格成交
+ * 市价单（含已触发的止损单）与任意价格成交；限价类订单需价格交叉
+ *
+ * @param incoming - 主动方订单
+ * @param restingPrice - 对手方挂单价格
+ * @returns 是否可以成交
+ */
+export function isPriceCrossed(incoming: TradeOrder, restingPrice: number): boolean {
+  if (!hasLimitPrice(incoming) || incoming.price === undefined) {
+    return true;
+  }
+  return incoming.action === 'buy'
+    ? incoming.price >= restingPrice
+    : incoming.price <= restingPrice;
+}
+
+/**
+ * 计算主动方订单与对手方挂单的成交价格
+ * 以挂单价格成交；给定撮合价格区间时挂单价格限制在区间内，限制后的价格须仍满足双方限价
+ *
+ * @param incoming - 主动方订单
+ * @param resting - 对手方挂单
+ * @param limits - 撮合价格区间（可选）
+ * @returns 成交价格，无法成交时返回 null
+ */
+export function getMatchPrice(incoming: TradeOrder, resting: TradeOrder, limits?: MatchPriceLimits): number | null {
+  const price = limits ? Math.min(limits.limitUp, Math.max(limits.limitDown, resting.price!)) : resting.price!;
+  return isPriceCrossed(incoming, price) && isPriceCrossed(resting, price) ? price : null;
+}
+
+/**
+ * 应用一次成交到订单（原地更新成交数量、均价和状态）
+ *
+ * @param order - 订单
+ * @param price - 成交价格
+ * @param quantity - 成交数量
+ * @param timestamp - 成交时间
+ */
+export function applyFill(order: TradeOrder, price: number, quantity: number, timestamp: Date): void {
+  const previousNotional = (order.averagePrice ?? 0) * order.filledQuantity;
+  order.filledQuantity += quantity;
+  order.averagePrice = (previousNotional + price * quantity) / order.filledQuantity;
+  order.status = order.filledQuantity >= order.quantity ? 'filled' : 'partial';
+  order.updatedAt = timestamp;
+}
+
+/**
+ * 计算集合竞价撮合价格
+ * 1. 成交量最大
+ * 2. 成交量相同时，未成交量（买卖申报量之差）最小
+ * 3. 仍相同时，最接近参考价（通常为前收盘价或最新价）
+ *
+ * @param bids - 买盘（价格降序）
+ * @param asks - 卖盘（价格升序）
+ * @param referencePrice - 参考价
+ * @param limits - 撮合价格区间（可选），区间外的价格不作为候选
+ * @returns 撮合价格，无法成交时返回 null
+ */
+export function calculateAuctionClearing(
+  bids: BookEntry[],
+  asks: BookEntry[],
+  referencePrice: number,
+  limits?: MatchPriceLimits
+): AuctionClearing | null {
+  const candidates = new Set<number>();
+  for (const entry of [...bids, ...asks]) {
+    const price = entry.order.price!;
+    if (!limits || (price >= limits.limitDown && price <= limits.limitUp)) {
+      candidates.add(price);
+    }
+  }
+
+  let best: AuctionClearing | null = null;
+
+  for (const price of candidates) {
+    const buyVolume = bids
+      .filter(entry => entry.order.price! >= price)
+      .reduce((sum, entry) => sum + getRemainingQuantity(entry.order), 0);
+    const sellVolume = asks
+      .filter(entry => entry.order.price! <= price)
+      .reduce((sum, entry) => sum + getRemainingQuantity(entry.order), 0);
+    const volume = Math.min(buyVolume, sellVolume);
+
+    if (volume === 0) {
+      continue;
+    }
+
+    const candidate: AuctionClearing = { price, volume, buyVolume, sellVolume };
+    if (!best || compareAuctionCandidates(candidate, best, referencePrice) < 0) {
+      best = candidate;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * 比较两个集合竞价候选价格
+ *
+ * @returns 负数表示 A 更优
+ */
+function compareAuctionCandidates(a: AuctionClearing, b: AuctionClearing, referencePrice: number): number {
+  if (a.volume !== b.volume) {
+    return b.volume - a.volume;
+  }
+
+  const imbalanceA = Math.abs(a.buyVolume - a.sellVolume);
+  const imbalanceB = Math.abs(b.buyVolume - b.sellVolume);
+  if (imbalanceA !== imbalanceB) {
+    return imbalanceA - imbalanceB;
+  }
+
+  return Math.abs(a.price - referencePrice) - Math.abs(b.price - referencePrice);
+}
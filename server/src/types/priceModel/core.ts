@@ -0,0 +1,143 @@
+/**
+ * Price Model Core Types
+ * 价格模型核心类型定义
+ *
+ * 价格模型只在没有真实成交的更新区间推进参考价，输出的价格由 StockInstance
+ * 对齐价格步长并限制在涨跌停区间内
+ *
+ * 参数约定：
+ * - 连续时间模型（gbm、ou、jump_diffusion）的漂移率、波动率和强度为年化值，
+ *   按游戏时间换算，一年为 TRADING_SECONDS_PER_YEAR 个交易秒
+ * - 离散模型（random_walk、garch）的参数为每次更新的值，与更新间隔无关
+ *
+ * @feature price-model
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RandomSource } from '../randomStream';
+
+export type { RandomSource } from '../randomStream';
+
+/**
+ * 价格模型类型
+ * - random_walk：固定波动率随机游走（默认，每次更新 P × (1 + σZ)）
+ * - gbm：带漂移的几何布朗运动
+ * - ou：对数价格的 Ornstein–Uhlenbeck 均值回归
+ * - jump_diffusion：Merton 跳跃扩散（几何布朗运动叠加泊松跳跃）
+ * - garch：GARCH(1,1) 波动率聚集
+ */
+export type PriceModelType = 'random_walk' | 'gbm' | 'ou' | 'jump_diffusion' | 'garch';
+
+/**
+ * 随机游走参数
+ */
+export interface RandomWalkParams {
+  /** 每次更新的波动率 */
+  volatility: number;
+}
+
+/**
+ * 几何布朗运动参数
+ */
+export interface GBMParams {
+  /** 年化漂移率 */
+  drift: number;
+  /** 年化波动率 */
+  volatility: number;
+}
+
+/**
+ * Ornstein–Uhlenbeck 均值回归参数（作用于对数价格）
+ */
+export interface OUParams {
+  /** 均衡价格，为 0 时以起始价格为均衡价格 */
+  meanPrice: number;
+  /** 年化回归速度（κ，半衰期为 ln2 / κ 年） */
+  reversionSpeed: number;
+  /** 年化波动率 */
+  volatility: number;
+}
+
+/**
+ * Merton 跳跃扩散参数
+ */
+export interface JumpDiffusionParams {
+  /** 年化漂移率（已扣除跳跃的期望贡献） */
+  drift: number;
+  /** 扩散部分的年化波动率 */
+  volatility: number;
+  /** 年化跳跃强度（每年平均跳跃次数） */
+  jumpIntensity: number;
+  /** 跳跃幅度（对数收益率）的均值 */
+  jumpMean: number;
+  /** 跳跃幅度（对数收益率）的标准差 */
+  jumpStdDev: number;
+}
+
+/**
+ * GARCH(1,1) 参数（每次更新的对数收益率）
+ * σ²(t) = ω + α × ε²(t-1) + β × σ²(t-1)，要求 α + β < 1
+ */
+export interface GARCHParams {
+  /** 每次更新的平均对数收益率 */
+  drift: number;
+  /** 常数项 ω */
+  omega: number;
+  /** 上一次冲击的权重 α */
+  alpha: number;
+  /** 上一次方差的权重 β */
+  beta: number;
+}
+
+/**
+ * 各模型类型的参数
+ */
+export interface PriceModelParamsMap {
+  random_walk: RandomWalkParams;
+  gbm: GBMParams;
+  ou: OUParams;
+  jump_diffusion: JumpDiffusionParams;
+  garch: GARCHParams;
+}
+
+/**
+ * 价格模型配置（保存在股票模板中）
+ */
+export interface PriceModelConfig {
+  /** 模型类型 */
+  type: PriceModelType;
+  /** 模型参数，省略的参数使用默认值 */
+  params?: Record<string, number>;
+}
+
+/**
+ * 价格模型
+ */
+export interface PriceModel {
+  /** 模型类型 */
+  readonly type: PriceModelType;
+
+  /**
+   * 推进一次价格
+   *
+   * @param price - 当前价格
+   * @param dtSeconds - 距上次更新的游戏时间（秒）
+   * @param random - 随机数源
+   * @returns 下一个价格（未对齐价格步长）
+   */
+  next(price: number, dtSeconds: number, random: RandomSource): number;
+}
+
+/**
+ * 价格模型配置无效时抛出的错误
+ */
+export class PriceModelError extends Error {
+  constructor(
+    message: string,
+    public readonly parameter?: string
+  ) {
+    super(message);
+    this.name = 'PriceModelError';
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Price Model Library
+ * 价格模型 - 随机游走、几何布朗运动、OU 均值回归、Merton 跳跃扩散和 GARCH(1,1)
+ *
+ * 模型和参数按股票模板配置，StockInstance 在没有真实成交的更新区间由模型推进参考价，
+ * 同一市场模板中的股票可以呈现不同的价格行为
+ *
+ * @feature price-model
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// Models
+export { createPriceModel } from './models';
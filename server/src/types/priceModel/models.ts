@@ -0,0 +1,144 @@
+/**
+ * Price Models
+ * 价格模型实现
+ *
+ * 连续时间模型按对数价格的精确解离散化，更新间隔不固定时仍保持正确的分布：
+ * - GBM：ln P' = ln P + (μ - σ²/2)Δt + σ√Δt Z
+ * - OU：X = ln P，X' = θ + (X - θ)e^(-κΔt) + σ√((1 - e^(-2κΔt)) / 2κ) Z，θ = ln(均衡价格)
+ * - Merton：GBM 叠加 N ~ Poisson(λΔt) 次跳跃，每次跳跃 J ~ N(m, s²)，
+ *   漂移扣除 λk（k = e^(m + s²/2) - 1），使期望收益率仍为 μ
+ * - GARCH(1,1)：每次更新 r = μ + σε，ε 为本次冲击，方差随冲击递推
+ *
+ * @feature price-model
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type {
+  GARCHParams,
+  GBMParams,
+  JumpDiffusionParams,
+  OUParams,
+  PriceModel,
+  PriceModelConfig,
+  RandomSource,
+  RandomWalkParams,
+} from './core';
+import { getPriceModelParams, normalRandom, poissonRandom, TRADING_SECONDS_PER_YEAR, validatePriceModelConfig } from './utils';
+
+/**
+ * 随机游走：P' = P × (1 + σZ)
+ */
+class RandomWalkModel implements PriceModel {
+  readonly type = 'random_walk';
+
+  constructor(private readonly params: RandomWalkParams) {}
+
+  next(price: number, _dtSeconds: number, random: RandomSource): number {
+    return price * (1 + this.params.volatility * normalRandom(random));
+  }
+}
+
+/**
+ * 带漂移的几何布朗运动
+ */
+class GBMModel implements PriceModel {
+  readonly type = 'gbm';
+
+  constructor(private readonly params: GBMParams) {}
+
+  next(price: number, dtSeconds: number, random: RandomSource): number {
+    const dt = dtSeconds / TRADING_SECONDS_PER_YEAR;
+    const { drift, volatility } = this.params;
+    return price * Math.exp((drift - volatility ** 2 / 2) * dt + volatility * Math.sqrt(dt) * normalRandom(random));
+  }
+}
+
+/**
+ * 对数价格的 Ornstein–Uhlenbeck 均值回归
+ */
+class OUModel implements PriceModel {
+  readonly type = 'ou';
+  private readonly logMean: number;
+
+  constructor(private readonly params: OUParams, startPrice: number) {
+    this.logMean = Math.log(params.meanPrice > 0 ? params.meanPrice : startPrice);
+  }
+
+  next(price: number, dtSeconds: number, random: RandomSource): number {
+    const dt = dtSeconds / TRADING_SECONDS_PER_YEAR;
+    const { reversionSpeed, volatility } = this.params;
+    const decay = Math.exp(-reversionSpeed * dt);
+    const stdDev = volatility * Math.sqrt((1 - decay ** 2) / (2 * reversionSpeed));
+    return Math.exp(this.logMean + (Math.log(price) - this.logMean) * decay + stdDev * normalRandom(random));
+  }
+}
+
+/**
+ * Merton 跳跃扩散
+ */
+class JumpDiffusionModel implements PriceModel {
+  readonly type = 'jump_diffusion';
+  private readonly jumpCompensation: number;
+
+  constructor(private readonly params: JumpDiffusionParams) {
+    this.jumpCompensation = params.jumpIntensity * (Math.exp(params.jumpMean + params.jumpStdDev ** 2 / 2) - 1);
+  }
+
+  next(price: number, dtSeconds: number, random: RandomSource): number {
+    const dt = dtSeconds / TRADING_SECONDS_PER_YEAR;
+    const { drift, volatility, jumpIntensity, jumpMean, jumpStdDev } = this.params;
+
+    let logReturn = (drift - volatility ** 2 / 2 - this.jumpCompensation) * dt
+      + volatility * Math.sqrt(dt) * normalRandom(random);
+    const jumps = poissonRandom(jumpIntensity * dt, random);
+    for (let i = 0; i < jumps; i++) {
+      logReturn += jumpMean + jumpStdDev * normalRandom(random);
+    }
+    return price * Math.exp(logReturn);
+  }
+}
+
+/**
+ * GARCH(1,1) 波动率聚集（初始方差为长期方差）
+ */
+class GARCHModel implements PriceModel {
+  readonly type = 'garch';
+  private variance: number;
+
+  constructor(private readonly params: GARCHParams) {
+    this.variance = params.omega / (1 - params.alpha - params.beta);
+  }
+
+  next(price: number, _dtSeconds: number, random: RandomSource): number {
+    const { drift, omega, alpha, beta } = this.params;
+    const shock = Math.sqrt(this.variance) * normalRandom(random);
+    this.variance = omega + alpha * shock ** 2 + beta * this.variance;
+    return price * Math.exp(drift + shock);
+  }
+}
+
+/**
+ * 创建价格模型
+ *
+ * @param config - 价格模型配置
+ * @param startPrice - 起始价格（ou 未设置均衡价格时作为均衡价格）
+ * @returns 价格模型
+ * @throws PriceModelError 配置无效时
+ */
+export function createPriceModel(config: PriceModelConfig, startPrice: number): PriceModel {
+  validatePriceModelConfig(config);
+
+  switch (config.type) {
+    case 'random_walk':
+      return new RandomWalkModel(getPriceModelParams({ type: 'random_walk', params: config.params }));
+    case 'gbm':
+      return new GBMModel(getPriceModelParams({ type: 'gbm', params: config.params }));
+    case 'ou':
+      return new OUModel(getPriceModelParams({ type: 'ou', params: config.params }), startPrice);
+    case 'jump_diffusion':
+      return new JumpDiffusionModel(getPriceModelParams({ type: 'jump_diffusion', params: config.params }));
+    case 'garch':
+      return new GARCHModel(getPriceModelParams({ type: 'garch', params: config.params }));
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Price Model Utilities
+ * 价格模型工具函数
+ *
+ * @feature price-model
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { PriceModelError } from './core';
+import type { PriceModelConfig, PriceModelParamsMap, PriceModelType, RandomSource } from './core';
+
+/**
+ * 支持的价格模型类型
+ */
+export const PRICE_MODEL_TYPES: readonly PriceModelType[] = ['random_walk', 'gbm', 'ou', 'jump_diffusion', 'garch'];
+
+/**
+ * 一年的交易秒数（252 个交易日，每日 4 小时连续竞价），用于换算年化参数
+ */
+export const TRADING_SECONDS_PER_YEAR = 252 * 4 * 3600;
+
+/**
+ * 各模型的默认参数
+ * garch 默认的长期方差 ω / (1 - α - β) 为 1e-4，与默认随机游走的 1% 波动率相当
+ */
+export const DEFAULT_PRICE_MODEL_PARAMS: { [T in PriceModelType]: PriceModelParamsMap[T] } = {
+  random_walk: { volatility: 0.01 },
+  gbm: { drift: 0.05, volatility: 0.3 },
+  ou: { meanPrice: 0, reversionSpeed: 50, volatility: 0.3 },
+  jump_diffusion: { drift: 0.05, volatility: 0.25, jumpIntensity: 20, jumpMean: -0.02, jumpStdDev: 0.05 },
+  garch: { drift: 0, omega: 0.000005, alpha: 0.1, beta: 0.85 },
+};
+
+/**
+ * 各模型参数的取值范围 [最小值, 最大值]
+ */
+export const PRICE_MODEL_PARAM_RANGES: { [T in PriceModelType]: Record<keyof PriceModelParamsMap[T], [number, number]> } = {
+  random_walk: { volatility: [0, 0.1] },
+  gbm: { drift: [-5, 5], volatility: [0, 5] },
+  ou: { meanPrice: [0, 999999.99], reversionSpeed: [0, 10000], volatility: [0, 5] },
+  jump_diffusion: {
+    drift: [-5, 5],
+    volatility: [0, 5],
+    jumpIntensity: [0, 10000],
+    jumpMean: [-1, 1],
+    jumpStdDev: [0, 1],
+  },
+  garch: { drift: [-0.01, 0.01], omega: [0, 0.01], alpha: [0, 1], beta: [0, 1] },
+};
+
+/**
+ * 默认价格模型（每次更新 1% 的随机游走）
+ */
+export const DEFAULT_PRICE_MODEL_CONFIG: PriceModelConfig = { type: 'random_walk' };
+
+/**
+ * 判断是否为合法的价格模型类型
+ */
+export function isPriceModelType(value: unknown): value is PriceModelType {
+  return typeof value === 'string' && (PRICE_MODEL_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * 获取模型参数（补全默认参数）
+ *
+ * @param config - 价格模型配置
+ * @returns 完整参数
+ */
+export function getPriceModelParams<T extends PriceModelType>(config: PriceModelConfig & { type: T }): PriceModelParamsMap[T] {
+  return { ...DEFAULT_PRICE_MODEL_PARAMS[config.type], ...config.params };
+}
+
+/**
+ * 校验价格模型配置：类型合法，参数名属于该模型且在取值范围内，
+ * ou 回归速度和 garch ω 为正数，garch 满足 α + β < 1
+ *
+ * @throws PriceModelError 配置无效时
+ */
+export function validatePriceModelConfig(config: PriceModelConfig): void {
+  if (!isPriceModelType(config.type)) {
+    throw new PriceModelError(`Unknown price model type: ${config.type}`, 'type');
+  }
+
+  const ranges: Record<string, [number, number]> = PRICE_MODEL_PARAM_RANGES[config.type];
+  for (const [name, value] of Object.entries(config.params ?? {})) {
+    const range = ranges[name];
+    if (!range) {
+      throw new PriceModelError(`Price model ${config.type} has no parameter ${name}`, name);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < range[0] || value > range[1]) {
+      throw new PriceModelError(`Price model ${config.type} parameter ${name} must be between ${range[0]} and ${range[1]}`, name);
+    }
+  }
+
+  if (config.type === 'ou' && !(getPriceModelParams({ type: 'ou', params: config.params }).reversionSpeed > 0)) {
+    throw new PriceModelError('Price model ou parameter reversionSpeed must be positive', 'reversionSpeed');
+  }
+  if (config.type === 'garch') {
+    const params = getPriceModelParams({ type: 'garch', params: config.params });
+    if (!(params.omega > 0)) {
+      throw new PriceModelError('Price model garch parameter omega must be positive', 'omega');
+    }
+    if (params.alpha + params.beta >= 1) {
+      throw new PriceModelError('Price model garch parameters alpha + beta must be less than 1', 'beta');
+    }
+  }
+}
+
+/**
+ * 生成标准正态随机数（Box-Muller 变换）
+ *
+ * @param random - 随机数源
+ * @returns 均值为 0、标准差为 1 的正态随机数
+ */
+export function normalRandom(random: RandomSource): number {
+  const u1 = 1 - random(); // (0, 1]，避免 log(0)
+  const u2 = random();
+  return Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+}
+
+/**
+ * 生成泊松随机数（Knuth 算法，适用于每次更新的小强度）
+ *
+ * @param lambda - 期望次数
+ * @param random - 随机数源
+ * @returns 事件次数
+ */
+export function poissonRandom(lambda: number, random: RandomSource): number {
+  if (lambda <= 0) {
+    return 0;
+  }
+
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
@@ -0,0 +1,17 @@
+/**
+ * Random Stream Core Types
+ * 可复现随机数流核心类型定义
+ *
+ * 每个市场实例持有一个随机种子，股票、交易员策略和剧本事件各自从按名称派生的
+ * 子流取随机数。子流只由种子和名称决定，与创建顺序无关，增减股票或交易员
+ * 不会改变其他对象的随机序列
+ *
+ * @feature random-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+/**
+ * 随机数源，返回 [0, 1) 均匀分布随机数
+ */
+export type RandomSource = () => number;
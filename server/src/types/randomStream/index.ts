@@ -0,0 +1,20 @@
+/**
+ * Random Stream Library
+ * 可复现随机数流 - 市场实例的随机种子和按名称派生的子流
+ *
+ * 每个 ExchangeInstance 持有一个 RandomStreams，股票价格模型、交易员策略和剧本事件
+ * 都从其子流取随机数，使用相同模板和种子创建的实例得到相同的价格路径
+ *
+ * @feature random-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// RandomStreams
+export { RandomStreams } from './streams';
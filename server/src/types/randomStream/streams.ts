@@ -0,0 +1,49 @@
+/**
+ * Random Streams
+ * 市场实例的可复现随机数流
+ *
+ * 子流名称约定：
+ * - stock:<股票代码>：股票价格模型
+ * - trader:<交易员模板 ID>:<序号>：交易员策略（同一模板的交易员按创建顺序编号）
+ * - factor:market、factor:sector:<股票分类>：市场和行业因子
+ * - scenario:<剧本名称>：剧本事件
+ *
+ * @feature random-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RandomSource } from './core';
+import { createSeededRandom, deriveSeed, isValidRandomSeed } from './utils';
+
+/**
+ * 随机数流集合：同一名称始终返回同一个子流
+ */
+export class RandomStreams {
+  private readonly streams: Map<string, RandomSource> = new Map();
+
+  /**
+   * @param seed - 实例随机种子
+   * @throws Error 种子不是 32 位无符号整数时
+   */
+  constructor(public readonly seed: number) {
+    if (!isValidRandomSeed(seed)) {
+      throw new Error(`Random seed must be an integer between 0 and 4294967295, got ${seed}`);
+    }
+  }
+
+  /**
+   * 获取子流（首次获取时由种子和名称派生）
+   *
+   * @param key - 子流名称
+   * @returns 子流随机数源
+   */
+  get(key: string): RandomSource {
+    let stream = this.streams.get(key);
+    if (!stream) {
+      stream = createSeededRandom(deriveSeed(this.seed, key));
+      this.streams.set(key, stream);
+    }
+    return stream;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Random Stream Utilities
+ * 可复现随机数流工具函数
+ *
+ * @feature random-stream
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RandomSource } from './core';
+
+/**
+ * 随机种子的最大值（种子为 32 位无符号整数）
+ */
+export const MAX_RANDOM_SEED = 0xffffffff;
+
+/**
+ * 判断是否为合法的随机种子（0 到 MAX_RANDOM_SEED 之间的整数）
+ */
+export function isValidRandomSeed(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_RANDOM_SEED;
+}
+
+/**
+ * 生成新的随机种子（未指定种子时使用，生成后记录在实例状态中以便复现）
+ */
+export function generateRandomSeed(): number {
+  return Math.floor(Math.random() * (MAX_RANDOM_SEED + 1));
+}
+
+/**
+ * 32 位整数混合（MurmurHash3 fmix32），使相近的输入得到差异很大的输出
+ */
+function mix32(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+/**
+ * 由种子和子流名称派生子流种子（FNV-1a 散列名称，以混合后的种子为初值）
+ *
+ * @param seed - 实例随机种子
+ * @param key - 子流名称，如 stock:600000
+ * @returns 子流种子
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = mix32(seed ^ 0x811c9dc5);
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return mix32(hash);
+}
+
+/**
+ * 创建带种子的均匀随机数源（mulberry32，周期 2^32）
+ *
+ * @param seed - 随机种子
+ * @returns 相同种子返回相同序列的随机数源
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,263 @@
+/**
+ * Trading Calendar
+ * 交易日历 - 按交易所交易时段计算时间窗口边界
+ *
+ * - 分钟粒度：在每个交易时段内从时段开始划分，不跨越午休；
+ *   开盘前的数据点（如开盘集合竞价）归入当日第一根，时段结束及之后（如收盘集合竞价、午休）归入该时段最后一根
+ * - 日粒度：1 天为一个交易日（第一个时段开始至最后一个时段结束），N 天为按交易日计数的连续 N 个交易日
+ * - 非交易日的数据点归入下一个交易日
+ *
+ * @feature 008-time-series-aggregation
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradingCalendarConfig, WindowBounds } from './core';
+import { Granularity } from './core';
+import { getGranularityMilliseconds, getGranularityTradingDays } from './utils';
+
+/** 交易日计数起点（交易日序号 = 起点至该日之前的交易日数量） */
+const INDEX_ANCHOR = new Date(2000, 0, 3);
+
+/** 查找交易日时最多向前或向后检查的自然日数量 */
+const MAX_CALENDAR_SCAN_DAYS = 366;
+
+interface Session {
+  /** 开始时间（当日分钟数） */
+  start: number;
+  /** 结束时间（当日分钟数） */
+  end: number;
+}
+
+/**
+ * 解析 HH:mm 为当日分钟数
+ */
+function parseMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * 获取日期当天零点
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * 获取相对日期偏移若干自然日的零点
+ */
+function addDays(day: Date, days: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+}
+
+/**
+ * 交易日历
+ */
+export class TradingCalendar {
+  private readonly sessions: Session[];
+  private readonly isTradingDayFn: (date: Date) => boolean;
+
+  /** 交易日序号缓存：零点时间戳 -> 序号 */
+  private dayIndexCache: Map<number, number> = new Map();
+  /** 最近一次计算序号的交易日，作为下一次计数的起点 */
+  private lastIndexed: { day: Date; index: number } | null = null;
+  /** 日粒度窗口边界缓存：粒度 + 交易日零点时间戳 -> 边界 */
+  private dayBoundsCache: Map<string, WindowBounds> = new Map();
+
+  /**
+   * @throws Error 如果未配置交易时段或时段无效
+   */
+  constructor(config: TradingCalendarConfig) {
+    this.isTradingDayFn = config.isTradingDay;
+    this.sessions = config.sessions
+      .map(session => ({ start: parseMinutes(session.start), end: parseMinutes(session.end) }))
+      .sort((a, b) => a.start - b.start);
+
+    if (this.sessions.length === 0) {
+      throw new Error('Trading calendar requires at least one trading session');
+    }
+    if (this.sessions.some(session => isNaN(session.start) || isNaN(session.end) || session.end <= session.start)) {
+      throw new Error('Trading sessions must use HH:mm format and end after they start');
+    }
+  }
+
+  /**
+   * 判断日期是否为交易日
+   */
+  isTradingDay(date: Date): boolean {
+    return this.isTradingDayFn(date);
+  }
+
+  /**
+   * 获取时间戳所属的交易日（零点）
+   * 非交易日归入下一个交易日
+   *
+   * @throws Error 如果一年内没有交易日
+   */
+  getTradingDay(timestamp: Date): Date {
+    return this.findTradingDay(startOfDay(timestamp), 1);
+  }
+
+  /**
+   * 计算时间戳所属窗口的边界
+   *
+   * @param timestamp - 数据点时间戳
+   * @param granularity - 时间粒度
+   */
+  getWindowBounds(timestamp: Date, granularity: Granularity): WindowBounds {
+    const day = this.getTradingDay(timestamp);
+    const tradingDays = getGranularityTradingDays(granularity);
+
+    if (tradingDays > 0) {
+      return this.getDayBounds(day, granularity, tradingDays);
+    }
+
+    // 非交易日的数据点归入下一个交易日的开盘前
+    const minuteOfDay = day.getTime() === startOfDay(timestamp).getTime()
+      ? (timestamp.getTime() - day.getTime()) / 60000
+      : -1;
+    return this.getIntradayBounds(day, minuteOfDay, getGranularityMilliseconds(granularity) / 60000);
+  }
+
+  /**
+   * 获取交易日序号（起点至该日之前的交易日数量）
+   *
+   * @param tradingDay - 交易日零点
+   */
+  getTradingDayIndex(tradingDay: Date): number {
+    const key = tradingDay.getTime();
+    const cached = this.dayIndexCache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    // 从最近一次计算的交易日开始逐日计数（模拟时间单调推进，通常只需少量步数）
+    let { day, index } = this.lastIndexed ?? { day: INDEX_ANCHOR, index: 0 };
+    while (day.getTime() < key) {
+      if (this.isTradingDayFn(day)) index++;
+      day = addDays(day, 1);
+    }
+    while (day.getTime() > key) {
+      day = addDays(day, -1);
+      if (this.isTradingDayFn(day)) index--;
+    }
+
+    this.lastIndexed = { day: tradingDay, index };
+    this.dayIndexCache.set(key, index);
+    return index;
+  }
+
+  /**
+   * 从交易日向前或向后移动若干个交易日
+   *
+   * @param tradingDay - 交易日零点
+   * @param count - 移动的交易日数量，负数向前
+   */
+  shiftTradingDays(tradingDay: Date, count: number): Date {
+    let day = tradingDay;
+    const step = count >= 0 ? 1 : -1;
+    for (let i = 0; i < Math.abs(count); i++) {
+      day = this.findTradingDay(addDays(day, step), step);
+    }
+    return day;
+  }
+
+  /**
+   * 估算覆盖截至 endTime 最近 count 个窗口的查询起点（交易日零点）
+   * 分钟粒度按每个交易日的窗口数量换算为交易日，并多算一个交易日覆盖当日未走完的时段
+   *
+   * @param endTime - 查询截止时间
+   * @param granularity - 时间粒度
+   * @param count - 窗口数量
+   */
+  getLookbackStart(endTime: Date, granularity: Granularity, count: number): Date {
+    const day = this.getTradingDay(endTime);
+    const tradingDays = getGranularityTradingDays(granularity);
+    if (tradingDays > 0) {
+      return this.shiftTradingDays(day, -count * tradingDays);
+    }
+
+    const barMinutes = getGranularityMilliseconds(granularity) / 60000;
+    const barsPerDay = this.sessions.reduce((sum, session) => sum + Math.ceil((session.end - session.start) / barMinutes), 0);
+    return this.shiftTradingDays(day, -Math.ceil(count / barsPerDay));
+  }
+
+  /**
+   * 计算分钟粒度窗口边界（在所属交易时段内划分）
+   */
+  private getIntradayBounds(day: Date, minuteOfDay: number, barMinutes: number): WindowBounds {
+    const lastBarStart = (session: Session): number =>
+      session.start + (Math.ceil((session.end - session.start) / barMinutes) - 1) * barMinutes;
+
+    const sessionIndex = this.sessions.findIndex(session => minuteOfDay < session.end);
+    let session: Session;
+    let barStart: number;
+
+    if (sessionIndex === -1) {
+      // 收盘后归入最后一个时段的最后一根
+      session = this.sessions[this.sessions.length - 1];
+      barStart = lastBarStart(session);
+    } else if (minuteOfDay >= this.sessions[sessionIndex].start) {
+      session = this.sessions[sessionIndex];
+      barStart = session.start + Math.floor((minuteOfDay - session.start) / barMinutes) * barMinutes;
+    } else if (sessionIndex === 0) {
+      // 开盘前归入第一根
+      session = this.sessions[0];
+      barStart = session.start;
+    } else {
+      // 时段间隔（午休）归入上一个时段的最后一根
+      session = this.sessions[sessionIndex - 1];
+      barStart = lastBarStart(session);
+    }
+
+    const barEnd = Math.min(barStart + barMinutes, session.end);
+    return { startTime: this.atMinute(day, barStart), endTime: this.atMinute(day, barEnd) };
+  }
+
+  /**
+   * 计算日粒度窗口边界（按交易日序号分组）
+   */
+  private getDayBounds(day: Date, granularity: Granularity, tradingDays: number): WindowBounds {
+    const cacheKey = `${granularity}:${day.getTime()}`;
+    const cached = this.dayBoundsCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const index = this.getTradingDayIndex(day);
+    const position = ((index % tradingDays) + tradingDays) % tradingDays;
+    const firstDay = this.shiftTradingDays(day, -position);
+    const lastDay = this.shiftTradingDays(day, tradingDays - 1 - position);
+
+    const bounds = {
+      startTime: this.atMinute(firstDay, this.sessions[0].start),
+      endTime: this.atMinute(lastDay, this.sessions[this.sessions.length - 1].end),
+    };
+    this.dayBoundsCache.set(cacheKey, bounds);
+    return bounds;
+  }
+
+  /**
+   * 从指定日期开始按方向查找交易日
+   *
+   * @throws Error 如果扫描范围内没有交易日
+   */
+  private findTradingDay(day: Date, step: number): Date {
+    let current = day;
+    for (let i = 0; i < MAX_CALENDAR_SCAN_DAYS; i++) {
+      if (this.isTradingDayFn(current)) {
+        return current;
+      }
+      current = addDays(current, step);
+    }
+    throw new Error(`No trading day found within ${MAX_CALENDAR_SCAN_DAYS} days of ${day.toDateString()}`);
+  }
+
+  /**
+   * 获取交易日内指定分钟数对应的时间
+   */
+  private atMinute(day: Date, minuteOfDay: number): Date {
+    return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minuteOfDay);
+  }
+}
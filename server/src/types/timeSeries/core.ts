@@ -10,6 +10,9 @@
  * @since 2026-01-27
  */
 
+import type { TradingCalendar } from './calendar';
+import type { TimeSeriesEvents } from '../eventTypes';
+
 /**
  * 数据类型枚举
  */
@@ -127,6 +130,27 @@ export interface DataPoint {
   volume?: number;
 }
 
+/**
+ * 历史 K 线接口
+ * 从外部导入的已聚合数据（如股票模板的种子历史）
+ */
+export interface HistoricalBar {
+  /** 所属窗口内的任一时刻 */
+  timestamp: Date;
+  /** 开盘价 */
+  open: number;
+  /** 最高价 */
+  high: number;
+  /** 最低价 */
+  low: number;
+  /** 收盘价 */
+  close: number;
+  /** 成交量 */
+  volume: number;
+  /** 成交量加权平均价（可选，省略时按收盘价计入） */
+  vwap?: number;
+}
+
 /**
  * 聚合累加器接口
  * 用于增量聚合，避免重复计算
@@ -206,6 +230,92 @@ export interface AggregatedPoint {
   updatedAt: Date;
 }
 
+/**
+ * 交易日历配置
+ * 提供后时间窗口按交易时段对齐：分钟粒度在每个交易时段内划分，日粒度按交易日计数
+ */
+export interface TradingCalendarConfig {
+  /** 判断日期是否为交易日 */
+  isTradingDay: (date: Date) => boolean;
+  /** 交易时段（HH:mm 格式，左闭右开，按时间升序） */
+  sessions: Array<{ start: string; end: string }>;
+}
+
+/**
+ * 时间序列管理器配置
+ */
+export interface TimeSeriesManagerOptions {
+  /** 交易日历，未配置时按 epoch 毫秒对齐窗口 */
+  calendar?: TradingCalendar;
+}
+
+/**
+ * 时间序列管理器事件数据
+ * 事件在 addDataPoint / createSeries / removeSeries 中同步广播，监听器不应抛出异常
+ */
+export interface TimeSeriesManagerEventData extends Record<TimeSeriesEvents, any[]> {
+  /** 窗口关闭（每个序列、每个粒度的每个窗口一次），参数为该窗口的聚合数据点 */
+  [TimeSeriesEvents.WINDOW_CLOSED]: [point: AggregatedPoint];
+  /** 序列已创建 */
+  [TimeSeriesEvents.SERIES_CREATED]: [definition: SeriesDefinition];
+  /** 序列已删除 */
+  [TimeSeriesEvents.SERIES_REMOVED]: [seriesId: string];
+}
+
+/**
+ * 聚合数据查询条件
+ */
+export interface AggregatedDataQuery {
+  /** 序列 ID */
+  seriesId: string;
+  /** 时间粒度 */
+  granularity: Granularity;
+  /** 开始时间（包含，按窗口开始时间过滤） */
+  startTime: Date;
+  /** 结束时间（包含，按窗口结束时间过滤） */
+  endTime: Date;
+}
+
+/**
+ * 聚合数据存储
+ * 窗口关闭后的聚合数据点交给存储持久化，超出内存保留期的范围从存储读取
+ */
+export interface AggregatedDataStore {
+  /** 保存已关闭窗口的聚合数据点（异步批量写入，失败不抛出） */
+  save(point: AggregatedPoint): void;
+  /** 查询已持久化的聚合数据（按开始时间升序） */
+  query(options: AggregatedDataQuery): Promise<AggregatedPoint[]>;
+  /** 删除指定粒度在 before 之前结束的聚合数据 */
+  prune(granularity: Granularity, before: Date): Promise<void>;
+  /** 存储当前是否可用（可选），不可用时不按保留规则清理内存 */
+  isAvailable?(): boolean;
+}
+
+/**
+ * 聚合数据保留规则（按交易日计，包含当前交易日；null 表示永久保留）
+ */
+export interface RetentionRule {
+  /** 内存中保留的交易日数量，更早的数据从存储读取 */
+  memoryTradingDays: number | null;
+  /** 存储中保留的交易日数量 */
+  storeTradingDays: number | null;
+}
+
+/**
+ * 各粒度的保留规则
+ */
+export type RetentionPolicy = Record<Granularity, RetentionRule>;
+
+/**
+ * 时间窗口边界
+ */
+export interface WindowBounds {
+  /** 窗口开始时间 */
+  startTime: Date;
+  /** 窗口结束时间 */
+  endTime: Date;
+}
+
 /**
  * 测试数据生成器配置接口
  */
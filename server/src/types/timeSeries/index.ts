@@ -16,5 +16,8 @@ export * from './core';
 // Utility functions (aggregators, metrics, window utilities)
 export * from './utils';
 
+// TradingCalendar
+export { TradingCalendar } from './calendar';
+
 // TimeSeriesManager
 export { TimeSeriesManager } from './manager';
@@ -6,8 +6,12 @@
  * 1. 管理多个时间序列定义
  * 2. 维护多个粒度的活跃窗口
  * 3. 接收并聚合数据点到时间窗口
- * 4. 查询聚合数据
+ * 4. 查询聚合数据（超出内存保留期的范围从聚合数据存储读取）
  * 5. 自动管理窗口生命周期（关闭和清除）
+ * 6. 按粒度的保留规则清理内存和存储中的旧数据
+ * 7. 窗口关闭时更新技术指标引擎，并提供指标查询
+ * 8. 广播窗口关闭、序列创建和删除事件（存储和指标引擎也通过事件接收已关闭的窗口）
+ * 9. 导入历史 K 线（如股票模板的种子历史）并汇总到更大的粒度
  *
  * @feature 008-time-series-aggregation
  * @author System
@@ -17,9 +21,20 @@
 import type {
   SeriesDefinition,
   DataPoint,
+  HistoricalBar,
   TimeWindow,
   AggregatedPoint,
+  AggregatedDataQuery,
+  AggregatedDataStore,
+  RetentionPolicy,
+  TimeSeriesManagerEventData,
+  TimeSeriesManagerOptions,
+  WindowBounds,
 } from './core';
+import type { TradingCalendar } from './calendar';
+import type { IndicatorEngine, IndicatorPoint, IndicatorSpec } from '../indicator';
+import { TypedEventEmitter } from '../typedEventEmitter';
+import { TimeSeriesEvents } from '../eventTypes';
 import { WindowStatus, Granularity } from './core';
 import {
   generateWindowKey,
@@ -27,14 +42,16 @@ import {
   getGranularityMilliseconds,
   initializeAccumulator,
   updateAccumulator,
+  accumulateBar,
   createAggregatedPoint,
+  DEFAULT_RETENTION_POLICY,
 } from './utils';
 
 /**
  * 时间序列管理器
  * 负责管理多个时间序列的聚合和查询
  */
-export class TimeSeriesManager {
+export class TimeSeriesManager extends TypedEventEmitter<TimeSeriesManagerEventData> {
   /** 序列定义存储 */
   private seriesDefinitions: Map<string, SeriesDefinition> = new Map();
 
@@ -47,6 +64,58 @@ export class TimeSeriesManager {
   /** 最后数据点时间戳：seriesId -> timestamp，用于验证时间顺序 */
   private lastDataPointTimestamps: Map<string, Date> = new Map();
 
+  /** 交易日历（按交易时段对齐窗口） */
+  private readonly calendar?: TradingCalendar;
+
+  /** 聚合数据存储（未附加时只保存在内存中且不做清理） */
+  private store: AggregatedDataStore | null = null;
+
+  /** 保留规则 */
+  private retentionPolicy: RetentionPolicy = DEFAULT_RETENTION_POLICY;
+
+  /** 各粒度内存数据的清理边界：早于此时间结束的数据只在存储中 */
+  private memoryCutoffs: Map<Granularity, Date> = new Map();
+
+  /** 最近一次执行保留规则的交易日（零点时间戳） */
+  private lastRetentionDay: number | null = null;
+
+  /** 技术指标引擎 */
+  private indicatorEngine: IndicatorEngine | null = null;
+
+  constructor(options: TimeSeriesManagerOptions = {}) {
+    super();
+    this.calendar = options.calendar;
+  }
+
+  /**
+   * 连接聚合数据存储
+   * 此后关闭的窗口写入存储，每个交易日开始时按保留规则清理内存和存储中的旧数据
+   *
+   * @param store - 聚合数据存储
+   * @param retentionPolicy - 保留规则，省略时使用默认规则
+   */
+  attachStore(store: AggregatedDataStore, retentionPolicy: Partial<RetentionPolicy> = {}): void {
+    if (!this.store) {
+      this.bind(TimeSeriesEvents.WINDOW_CLOSED, this.saveToStore);
+    }
+    this.store = store;
+    this.retentionPolicy = { ...DEFAULT_RETENTION_POLICY, ...retentionPolicy };
+  }
+
+  /**
+   * 连接技术指标引擎
+   * 此后关闭的窗口输入指标引擎，按序列和粒度增量更新指标
+   *
+   * @param engine - 技术指标引擎
+   */
+  attachIndicatorEngine(engine: IndicatorEngine): void {
+    if (!this.indicatorEngine) {
+      this.bind(TimeSeriesEvents.WINDOW_CLOSED, this.updateIndicators);
+      this.bind(TimeSeriesEvents.SERIES_REMOVED, this.removeIndicators);
+    }
+    this.indicatorEngine = engine;
+  }
+
   /**
    * 创建时间序列定义
    *
@@ -54,6 +123,7 @@ export class TimeSeriesManager {
    */
   createSeries(seriesDefinition: SeriesDefinition): void {
     this.seriesDefinitions.set(seriesDefinition.seriesId, seriesDefinition);
+    this.broadcast(TimeSeriesEvents.SERIES_CREATED, seriesDefinition);
   }
 
   /**
@@ -62,10 +132,14 @@ export class TimeSeriesManager {
    * @param seriesId - 序列 ID
    */
   removeSeries(seriesId: string): void {
-    this.seriesDefinitions.delete(seriesId);
+    const existed = this.seriesDefinitions.delete(seriesId);
     this.activeWindows.delete(seriesId);
     this.aggregatedData.delete(seriesId);
     this.lastDataPointTimestamps.delete(seriesId);
+
+    if (existed) {
+      this.broadcast(TimeSeriesEvents.SERIES_REMOVED, seriesId);
+    }
   }
 
   /**
@@ -125,8 +199,11 @@ export class TimeSeriesManager {
 
     // 为每个粒度创建或更新窗口（默认支持所有粒度）
     const allGranularities = Object.values(Granularity);
+    const currentWindowKeys = new Set<string>();
     for (const granularity of allGranularities) {
-      const windowKey = generateWindowKey(seriesId, granularity, dataPoint.timestamp);
+      const bounds = this.getWindowBounds(dataPoint.timestamp, granularity);
+      const windowKey = generateWindowKey(seriesId, granularity, bounds.startTime);
+      currentWindowKeys.add(windowKey);
 
       // 获取该粒度的窗口 Map
       let windowsMap = granularityWindows.get(granularity);
@@ -145,15 +222,12 @@ export class TimeSeriesManager {
         }
       } else {
         // 创建新窗口
-        const startTime = alignTimeToGranularity(dataPoint.timestamp, granularity);
-        const endTime = new Date(startTime.getTime() + getGranularityMilliseconds(granularity));
-
         const newWindow: TimeWindow = {
           windowId: windowKey,
           seriesId,
           granularity,
-          startTime,
-          endTime,
+          startTime: bounds.startTime,
+          endTime: bounds.endTime,
           status: WindowStatus.ACTIVE,
           dataPoints: [dataPoint],
           accumulator: updateAccumulator(initializeAccumulator(), dataPoint),
@@ -164,7 +238,97 @@ export class TimeSeriesManager {
     }
 
     // 检查并关闭已完成的窗口（基于数据点时间戳，而非系统时间）
-    this.checkAndCloseWindows(seriesId, dataPoint.timestamp);
+    this.checkAndCloseWindows(seriesId, dataPoint.timestamp, currentWindowKeys);
+
+    // 进入新的交易日时执行保留规则
+    if (this.store) {
+      this.applyRetentionIfNeeded(dataPoint.timestamp);
+    }
+  }
+
+  /**
+   * 导入历史 K 线
+   * K 线归入所属窗口并汇总到不小于导入粒度的各个粒度：在最后一根 K 线结束前已结束的窗口成为已关闭的聚合数据，
+   * 其余窗口（如包含最后一个交易日的 5 日窗口）作为活跃窗口，之后写入的数据点继续在其中聚合。
+   * 导入的数据不广播窗口关闭事件，因此不写入聚合数据存储
+   *
+   * @param seriesId - 序列 ID
+   * @param granularity - 历史 K 线的粒度
+   * @param bars - 历史 K 线（按时间升序）
+   * @throws 如果序列不存在、已写入数据点或 K 线未按时间升序排列
+   */
+  importBars(seriesId: string, granularity: Granularity, bars: HistoricalBar[]): void {
+    if (!this.seriesDefinitions.has(seriesId)) {
+      throw new Error(`Series ${seriesId} does not exist`);
+    }
+    if (this.lastDataPointTimestamps.has(seriesId)) {
+      throw new Error(`Series ${seriesId} already has data, history must be imported before the first data point`);
+    }
+    if (bars.length === 0) {
+      return;
+    }
+    for (let i = 1; i < bars.length; i++) {
+      if (bars[i].timestamp <= bars[i - 1].timestamp) {
+        throw new Error('Historical bars must be in strictly ascending time order');
+      }
+    }
+
+    const lastBar = bars[bars.length - 1];
+    const importedUntil = this.getWindowBounds(lastBar.timestamp, granularity).endTime;
+    const sourceMilliseconds = getGranularityMilliseconds(granularity);
+    const seriesAggregated = this.aggregatedData.get(seriesId) ?? [];
+    const granularityWindows = this.activeWindows.get(seriesId) ?? new Map<Granularity, Map<string, TimeWindow>>();
+
+    for (const target of Object.values(Granularity)) {
+      if (getGranularityMilliseconds(target) < sourceMilliseconds) continue;
+
+      // 按窗口汇总（K 线按时间升序，窗口按开始时间升序创建）
+      const windows: Map<string, TimeWindow> = new Map();
+      for (const bar of bars) {
+        const bounds = this.getWindowBounds(bar.timestamp, target);
+        const windowKey = generateWindowKey(seriesId, target, bounds.startTime);
+        const window = windows.get(windowKey) ?? {
+          windowId: windowKey,
+          seriesId,
+          granularity: target,
+          startTime: bounds.startTime,
+          endTime: bounds.endTime,
+          status: WindowStatus.ACTIVE,
+          dataPoints: [],
+          accumulator: initializeAccumulator(),
+        };
+        window.accumulator = accumulateBar(window.accumulator, bar);
+        windows.set(windowKey, window);
+      }
+
+      const activeWindows: Map<string, TimeWindow> = new Map();
+      for (const [windowKey, window] of windows) {
+        if (window.endTime <= importedUntil) {
+          window.status = WindowStatus.CLOSED;
+          seriesAggregated.push(createAggregatedPoint(window.accumulator, window.startTime, window.endTime, seriesId, target));
+        } else {
+          activeWindows.set(windowKey, window);
+        }
+      }
+      granularityWindows.set(target, activeWindows);
+    }
+
+    this.aggregatedData.set(seriesId, seriesAggregated);
+    this.activeWindows.set(seriesId, granularityWindows);
+    this.lastDataPointTimestamps.set(seriesId, lastBar.timestamp);
+  }
+
+  /**
+   * 计算数据点所属窗口的边界
+   * 配置交易日历时按交易时段对齐，否则按 epoch 毫秒对齐
+   */
+  private getWindowBounds(timestamp: Date, granularity: Granularity): WindowBounds {
+    if (this.calendar) {
+      return this.calendar.getWindowBounds(timestamp, granularity);
+    }
+
+    const startTime = alignTimeToGranularity(timestamp, granularity);
+    return { startTime, endTime: new Date(startTime.getTime() + getGranularityMilliseconds(granularity)) };
   }
 
   /**
@@ -176,10 +340,14 @@ export class TimeSeriesManager {
    * 改进：先收集所有需要关闭的窗口，然后统一处理，避免在遍历时修改集合
    * 这样可以确保即使数据点间隔很大，所有应该关闭的窗口都能被正确处理
    *
+   * 按交易时段对齐时，收盘集合竞价等时段结束时刻的数据点仍归入该时段最后一个窗口，
+   * 因此当前数据点所在的窗口不会关闭
+   *
    * @param seriesId - 序列 ID
    * @param currentTimestamp - 当前数据点的时间戳
+   * @param currentWindowKeys - 当前数据点所在的窗口
    */
-  private checkAndCloseWindows(seriesId: string, currentTimestamp: Date): void {
+  private checkAndCloseWindows(seriesId: string, currentTimestamp: Date, currentWindowKeys: Set<string>): void {
     const granularityWindows = this.activeWindows.get(seriesId);
     if (!granularityWindows) return;
 
@@ -200,7 +368,7 @@ export class TimeSeriesManager {
       for (const [windowKey, window] of windowsMap.entries()) {
         // 当窗口的 endTime 早于或等于当前数据点时间戳时，该窗口应该关闭
         // 这意味着当前数据点的时间戳已经超出了该窗口的时间范围
-        if (window.status === WindowStatus.ACTIVE && window.endTime <= currentTimestamp) {
+        if (window.status === WindowStatus.ACTIVE && window.endTime <= currentTimestamp && !currentWindowKeys.has(windowKey)) {
           windowsToClose.push({ granularity, windowKey, window, windowsMap });
         }
       }
@@ -244,21 +412,77 @@ export class TimeSeriesManager {
 
       // 从活跃窗口中移除
       windowsMap.delete(windowKey);
+
+      // 通知订阅者（聚合数据存储、技术指标引擎、交易所等）
+      this.broadcast(TimeSeriesEvents.WINDOW_CLOSED, aggregatedPoint);
     }
   }
 
+  /**
+   * 将关闭的窗口写入聚合数据存储
+   */
+  private saveToStore = (point: AggregatedPoint): void => {
+    this.store?.save(point);
+  };
+
+  /**
+   * 将关闭的窗口输入技术指标引擎
+   */
+  private updateIndicators = (point: AggregatedPoint): void => {
+    this.indicatorEngine?.update(point);
+  };
+
+  /**
+   * 删除序列的技术指标
+   */
+  private removeIndicators = (seriesId: string): void => {
+    this.indicatorEngine?.removeSeries(seriesId);
+  };
+
   /**
    * 查询聚合数据
+   * 范围早于内存保留期时，从聚合数据存储读取更早的部分并与内存数据合并；
+   * 存储不可用时只返回内存中的数据
    *
    * @param options - 查询选项
-   * @returns 聚合数据点数组
+   * @returns 聚合数据点数组（按开始时间升序）
+   * @throws 如果序列不存在或时间范围无效
    */
-  queryAggregatedData(options: {
-    seriesId: string;
-    granularity: Granularity;
-    startTime: Date;
-    endTime: Date;
-  }): AggregatedPoint[] {
+  async queryAggregatedData(options: AggregatedDataQuery): Promise<AggregatedPoint[]> {
+    const cached = this.queryCachedData(options);
+
+    const cutoff = this.memoryCutoffs.get(options.granularity);
+    if (!this.store || !cutoff || options.startTime >= cutoff) {
+      return cached;
+    }
+
+    let stored: AggregatedPoint[];
+    try {
+      stored = await this.store.query({
+        ...options,
+        endTime: options.endTime < cutoff ? options.endTime : cutoff,
+      });
+    } catch (error) {
+      console.warn(`[TimeSeriesManager] Failed to read aggregated data of ${options.seriesId} from store:`, error);
+      return cached;
+    }
+
+    // cutoff 之前结束的数据以存储为准（其他序列在清理之后才关闭的窗口可能仍在内存中）
+    return [
+      ...stored.filter(point => point.endTime < cutoff),
+      ...cached.filter(point => point.endTime >= cutoff),
+    ];
+  }
+
+  /**
+   * 查询内存中的聚合数据（同步，不读取存储）
+   * 适用于只需要最近数据的场景，如交易策略和实时推送
+   *
+   * @param options - 查询选项
+   * @returns 聚合数据点数组（按开始时间升序）
+   * @throws 如果序列不存在或时间范围无效
+   */
+  queryCachedData(options: AggregatedDataQuery): AggregatedPoint[] {
     // 验证序列定义
     const seriesDef = this.seriesDefinitions.get(options.seriesId);
     if (!seriesDef) {
@@ -287,6 +511,33 @@ export class TimeSeriesManager {
       .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
   }
 
+  /**
+   * 查询技术指标
+   * 指标尚未计算时开始计算，并用内存中已收盘的 K 线预热
+   *
+   * @param seriesId - 序列 ID
+   * @param granularity - 时间粒度
+   * @param spec - 指标定义
+   * @param limit - 返回最近的数据点数量，省略时返回全部保留的数据点
+   * @returns 指标数据点（按时间升序），预热期内没有数据点
+   * @throws 如果序列不存在、未连接指标引擎或指标参数无效
+   */
+  queryIndicator(seriesId: string, granularity: Granularity, spec: IndicatorSpec, limit?: number): IndicatorPoint[] {
+    if (!this.seriesDefinitions.has(seriesId)) {
+      throw new Error(`Series ${seriesId} does not exist`);
+    }
+    if (!this.indicatorEngine) {
+      throw new Error('Indicator engine is not attached');
+    }
+
+    const name = this.indicatorEngine.track(seriesId, granularity, spec, () =>
+      (this.aggregatedData.get(seriesId) ?? [])
+        .filter(point => point.granularity === granularity)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    );
+    return this.indicatorEngine.getHistory(seriesId, granularity, name, limit);
+  }
+
   /**
    * 获取最新数据
    *
@@ -310,6 +561,31 @@ export class TimeSeriesManager {
     );
   }
 
+  /**
+   * 获取正在形成的窗口（最新的活跃窗口）的聚合快照
+   * 快照不写入聚合数据，窗口关闭后以 queryAggregatedData 返回的结果为准
+   *
+   * @param seriesId - 序列 ID
+   * @param granularity - 时间粒度
+   * @returns 聚合快照，没有包含数据的活跃窗口时返回 null
+   */
+  getActiveWindowData(seriesId: string, granularity: Granularity): AggregatedPoint | null {
+    const windowsMap = this.activeWindows.get(seriesId)?.get(granularity);
+    if (!windowsMap) return null;
+
+    let latest: TimeWindow | null = null;
+    for (const window of windowsMap.values()) {
+      if (window.status !== WindowStatus.ACTIVE || window.accumulator.count === 0) continue;
+      if (!latest || window.startTime.getTime() > latest.startTime.getTime()) {
+        latest = window;
+      }
+    }
+
+    if (!latest) return null;
+
+    return createAggregatedPoint(latest.accumulator, latest.startTime, latest.endTime, seriesId, granularity);
+  }
+
   /**
    * 获取所有序列 ID
    *
@@ -351,4 +627,53 @@ export class TimeSeriesManager {
   clearActiveWindows(seriesId: string): void {
     this.activeWindows.delete(seriesId);
   }
+
+  /**
+   * 进入新的交易日时按保留规则清理内存和存储
+   * 内存清理同步进行，存储清理异步进行，失败只记录日志；
+   * 存储不可用时暂不清理（之后的数据点再检查），避免尚未写入存储的数据从内存中丢失
+   *
+   * @param timestamp - 当前数据点时间戳
+   */
+  private applyRetentionIfNeeded(timestamp: Date): void {
+    const tradingDay = this.calendar
+      ? this.calendar.getTradingDay(timestamp)
+      : new Date(timestamp.getFullYear(), timestamp.getMonth(), timestamp.getDate());
+    if (this.lastRetentionDay === tradingDay.getTime()) return;
+    if (this.store?.isAvailable?.() === false) return;
+    this.lastRetentionDay = tradingDay.getTime();
+
+    for (const granularity of Object.values(Granularity)) {
+      const rule = this.retentionPolicy[granularity];
+
+      if (rule.memoryTradingDays !== null) {
+        const cutoff = this.getRetentionCutoff(tradingDay, rule.memoryTradingDays);
+        for (const [seriesId, points] of this.aggregatedData.entries()) {
+          this.aggregatedData.set(seriesId, points.filter(point =>
+            point.granularity !== granularity || point.endTime >= cutoff
+          ));
+        }
+        this.memoryCutoffs.set(granularity, cutoff);
+      }
+
+      if (rule.storeTradingDays !== null && this.store) {
+        const cutoff = this.getRetentionCutoff(tradingDay, rule.storeTradingDays);
+        this.store.prune(granularity, cutoff).catch(error => {
+          console.error(`[TimeSeriesManager] Failed to prune ${granularity} aggregated data:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * 计算保留 tradingDays 个交易日（包含当前交易日）时的清理边界
+   * 未配置交易日历时按自然日计算
+   */
+  private getRetentionCutoff(tradingDay: Date, tradingDays: number): Date {
+    const offset = Math.max(tradingDays, 1) - 1;
+    if (this.calendar) {
+      return this.calendar.shiftTradingDays(tradingDay, -offset);
+    }
+    return new Date(tradingDay.getFullYear(), tradingDay.getMonth(), tradingDay.getDate() - offset);
+  }
 }
@@ -12,7 +12,7 @@
  * @since 2026-01-27
  */
 
-import type { Accumulator, DataPoint, AggregatedPoint } from './core';
+import type { Accumulator, DataPoint, AggregatedPoint, HistoricalBar, RetentionPolicy } from './core';
 import { Granularity, Metric } from './core';
 
 // ============================================================================
@@ -62,6 +62,30 @@ export function updateAccumulator(
   };
 }
 
+/**
+ * 将一根历史 K 线合并到累加器（导入历史数据时汇总到更大的粒度）
+ *
+ * @param acc - 当前累加器
+ * @param bar - 历史 K 线
+ * @returns 更新后的累加器
+ */
+export function accumulateBar(
+  acc: Accumulator,
+  bar: HistoricalBar
+): Accumulator {
+  const weight = bar.volume || 1;
+  return {
+    count: acc.count + 1,
+    open: acc.open ?? bar.open,
+    high: Math.max(acc.high, bar.high),
+    low: Math.min(acc.low, bar.low),
+    close: bar.close,
+    volume: acc.volume + bar.volume,
+    priceSum: acc.priceSum + (bar.vwap ?? bar.close) * weight,
+    volumeSum: acc.volumeSum + weight,
+  };
+}
+
 /**
  * 从累加器创建聚合数据点
  *
@@ -152,6 +176,15 @@ export function validateAggregatedValues(
 // 时间窗口工具函数
 // ============================================================================
 
+const GRANULARITIES = new Set<string>(Object.values(Granularity));
+
+/**
+ * 判断是否为有效的时间粒度
+ */
+export function isGranularity(value: unknown): value is Granularity {
+  return typeof value === 'string' && GRANULARITIES.has(value);
+}
+
 /**
  * 获取粒度对应的毫秒数
  */
@@ -164,18 +197,54 @@ export function getGranularityMilliseconds(granularity: Granularity): number {
     [Granularity.MIN_60]: 60 * 60 * 1000,        // 1 小时
     [Granularity.MIN_120]: 120 * 60 * 1000,       // 2 小时
     [Granularity.DAY_1]: 24 * 60 * 60 * 1000,        // 1 天
-    [Granularity.DAY_5]: 5 * 24 * 60 * 1000,         // 5 天
-    [Granularity.DAY_20]: 20 * 24 * 60 * 1000,        // 20 天
-    [Granularity.DAY_120]: 120 * 24 * 60 * 1000,      // 120 天
-    [Granularity.DAY_250]: 250 * 24 * 60 * 1000,     // 250 天
+    [Granularity.DAY_5]: 5 * 24 * 60 * 60 * 1000,         // 5 天
+    [Granularity.DAY_20]: 20 * 24 * 60 * 60 * 1000,        // 20 天
+    [Granularity.DAY_120]: 120 * 24 * 60 * 60 * 1000,      // 120 天
+    [Granularity.DAY_250]: 250 * 24 * 60 * 60 * 1000,     // 250 天
   };
 
   return millisecondsMap[granularity] || 60 * 1000;
 }
 
+/**
+ * 默认保留规则
+ * 分钟数据在内存中只保留最近几个交易日，存储中按粒度保留；日线数据永久保留
+ */
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  [Granularity.MIN_1]: { memoryTradingDays: 2, storeTradingDays: 5 },
+  [Granularity.MIN_5]: { memoryTradingDays: 2, storeTradingDays: 20 },
+  [Granularity.MIN_15]: { memoryTradingDays: 5, storeTradingDays: 60 },
+  [Granularity.MIN_30]: { memoryTradingDays: 5, storeTradingDays: 120 },
+  [Granularity.MIN_60]: { memoryTradingDays: 5, storeTradingDays: 250 },
+  [Granularity.MIN_120]: { memoryTradingDays: 5, storeTradingDays: 250 },
+  [Granularity.DAY_1]: { memoryTradingDays: null, storeTradingDays: null },
+  [Granularity.DAY_5]: { memoryTradingDays: null, storeTradingDays: null },
+  [Granularity.DAY_20]: { memoryTradingDays: null, storeTradingDays: null },
+  [Granularity.DAY_120]: { memoryTradingDays: null, storeTradingDays: null },
+  [Granularity.DAY_250]: { memoryTradingDays: null, storeTradingDays: null },
+};
+
+/**
+ * 获取日粒度包含的交易日数量
+ *
+ * @returns 交易日数量，分钟粒度返回 0
+ */
+export function getGranularityTradingDays(granularity: Granularity): number {
+  const tradingDaysMap: Partial<Record<Granularity, number>> = {
+    [Granularity.DAY_1]: 1,
+    [Granularity.DAY_5]: 5,
+    [Granularity.DAY_20]: 20,
+    [Granularity.DAY_120]: 120,
+    [Granularity.DAY_250]: 250,
+  };
+
+  return tradingDaysMap[granularity] ?? 0;
+}
+
 /**
  * 将时间戳对齐到指定粒度的自然边界
  * 确保时间窗口精确对齐（FR-006）
+ * 按 epoch 毫秒向下取整，仅用于未配置交易日历的场景（见 TradingCalendar）
  *
  * @param timestamp - 原始时间戳
  * @param granularity - 时间粒度
@@ -192,14 +261,13 @@ export function alignTimeToGranularity(timestamp: Date, granularity: Granularity
  *
  * @param seriesId - 序列 ID
  * @param granularity - 时间粒度
- * @param timestamp - 时间戳
+ * @param startTime - 窗口开始时间（已对齐）
  * @returns 窗口 ID
  */
 export function generateWindowKey(
   seriesId: string,
   granularity: Granularity,
-  timestamp: Date
+  startTime: Date
 ): string {
-  const alignedTime = alignTimeToGranularity(timestamp, granularity);
-  return `${seriesId}:${granularity}:${alignedTime.getTime()}`;
+  return `${seriesId}:${granularity}:${startTime.getTime()}`;
 }
@@ -0,0 +1,113 @@
+/**
+ * Trade History Core Types
+ * 成交历史核心类型定义
+ *
+ * 成交在 TRADE_EXECUTED 事件中转换为 TradeHistoryRecord，
+ * 由 TradeHistoryWriter 批量写入持久化存储（MongoDB trade_history 集合）
+ *
+ * @feature trade-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradeAction } from '../../../../shared/types/trading';
+import type { BatchSink, BatchWriterOptions, BatchWriterStats } from '../batchWriter';
+
+/**
+ * 成交历史记录（一笔撮合成交对应一条记录）
+ */
+export interface TradeHistoryRecord {
+  /** 全局唯一成交 ID：市场实例 ID + 实例创建时间 + 订单簿成交 ID */
+  tradeId: string;
+  /** 所属市场实例 ID */
+  exchangeId: string;
+  /** 市场实例创建时间（区分服务重启后复用的实例 ID） */
+  instanceCreatedAt: Date;
+  /** 市场实例所属用户 ID（实例销毁后按此校验访问权限） */
+  userId: string;
+  /** 成交时间（游戏时间） */
+  timestamp: Date;
+  /** 股票代码 */
+  symbol: string;
+  /** 股票名称 */
+  stockName: string;
+  /** 买方交易员 ID */
+  buyerId: string;
+  /** 买方名称 */
+  buyerName: string;
+  /** 卖方交易员 ID */
+  sellerId: string;
+  /** 卖方名称 */
+  sellerName: string;
+  /** 成交价格 */
+  price: number;
+  /** 成交数量 */
+  quantity: number;
+  /** 成交金额 */
+  amount: number;
+  /** 主动方方向 */
+  tradeType: TradeAction;
+  /** 买方订单 ID */
+  buyerOrderId: string;
+  /** 卖方订单 ID */
+  sellerOrderId: string;
+  /** 买方交易费用 */
+  buyerFee: number;
+  /** 卖方交易费用 */
+  sellerFee: number;
+}
+
+/**
+ * 生成成交历史记录所需的上下文
+ */
+export interface TradeHistoryContext {
+  /** 市场实例 ID */
+  exchangeId: string;
+  /** 市场实例创建时间（区分服务重启后复用的实例 ID） */
+  instanceCreatedAt: Date;
+  /** 市场实例所属用户 ID */
+  userId: string;
+  /** 股票名称 */
+  stockName: string;
+  /** 买方名称 */
+  buyerName: string;
+  /** 卖方名称 */
+  sellerName: string;
+}
+
+/**
+ * 成交历史查询条件
+ */
+export interface TradeHistoryQuery {
+  /** 市场实例 ID */
+  exchangeId?: string;
+  /** 市场实例创建时间 */
+  instanceCreatedAt?: Date;
+  /** 市场实例所属用户 ID */
+  userId?: string;
+  /** 股票代码 */
+  symbol?: string;
+  /** 交易员 ID（买方或卖方） */
+  traderId?: string;
+  /** 起始时间（含） */
+  startTime?: Date;
+  /** 结束时间（含） */
+  endTime?: Date;
+  /** 返回条数上限 */
+  limit?: number;
+}
+
+/**
+ * 成交历史存储
+ */
+export type TradeHistorySink = BatchSink<TradeHistoryRecord>;
+
+/**
+ * 批量写入器配置
+ */
+export type TradeHistoryWriterOptions = BatchWriterOptions;
+
+/**
+ * 批量写入器统计
+ */
+export type TradeHistoryWriterStats = BatchWriterStats;
@@ -0,0 +1,20 @@
+/**
+ * Trade History Library
+ * 成交历史 - 撮合成交的持久化记录与批量写入
+ *
+ * 市场实例创建后，其 TRADE_EXECUTED 事件转换为 TradeHistoryRecord 交给批量写入器，
+ * 写入 MongoDB trade_history 集合；市场实例销毁后仍可按实例、股票、交易员和时间范围查询
+ *
+ * @feature trade-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// TradeHistoryWriter
+export { TradeHistoryWriter } from './writer';
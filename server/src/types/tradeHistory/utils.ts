@@ -0,0 +1,109 @@
+/**
+ * Trade History Utilities
+ * 成交历史工具函数
+ *
+ * @feature trade-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { MatchedTrade } from '../orderBook';
+import type { TradeHistoryContext, TradeHistoryQuery, TradeHistoryRecord, TradeHistoryWriterOptions } from './core';
+
+/**
+ * 默认批量写入配置
+ */
+export const DEFAULT_TRADE_HISTORY_WRITER_OPTIONS: TradeHistoryWriterOptions = {
+  batchSize: 200,
+  flushIntervalMs: 2000,
+  maxBufferSize: 20000,
+};
+
+/**
+ * 查询默认返回条数
+ */
+export const DEFAULT_TRADE_HISTORY_LIMIT = 100;
+
+/**
+ * 查询最大返回条数
+ */
+export const MAX_TRADE_HISTORY_LIMIT = 1000;
+
+/**
+ * 将撮合成交转换为成交历史记录
+ *
+ * @param trade - 撮合成交
+ * @param context - 市场实例、股票和交易员名称
+ * @returns 成交历史记录
+ */
+export function createTradeHistoryRecord(trade: MatchedTrade, context: TradeHistoryContext): TradeHistoryRecord {
+  const { buy, sell } = trade.executions;
+
+  return {
+    tradeId: `${context.exchangeId}-${context.instanceCreatedAt.getTime()}-${trade.tradeId}`,
+    exchangeId: context.exchangeId,
+    instanceCreatedAt: context.instanceCreatedAt,
+    userId: context.userId,
+    timestamp: trade.executedAt,
+    symbol: trade.symbol,
+    stockName: context.stockName,
+    buyerId: trade.buyerId,
+    buyerName: context.buyerName,
+    sellerId: trade.sellerId,
+    sellerName: context.sellerName,
+    price: trade.price,
+    quantity: trade.quantity,
+    amount: trade.amount,
+    tradeType: trade.aggressorSide,
+    buyerOrderId: trade.buyOrderId,
+    sellerOrderId: trade.sellOrderId,
+    buyerFee: buy.fees?.total ?? buy.commission,
+    sellerFee: sell.fees?.total ?? sell.commission,
+  };
+}
+
+/**
+ * 将查询条件转换为 MongoDB 过滤条件
+ *
+ * @param query - 查询条件
+ * @returns 过滤条件
+ */
+export function buildTradeHistoryFilter(query: TradeHistoryQuery): Record<string, any> {
+  const filter: Record<string, any> = {};
+
+  if (query.exchangeId) {
+    filter.exchangeId = query.exchangeId;
+  }
+  if (query.instanceCreatedAt) {
+    filter.instanceCreatedAt = query.instanceCreatedAt;
+  }
+  if (query.userId) {
+    filter.userId = query.userId;
+  }
+  if (query.symbol) {
+    filter.symbol = query.symbol.toUpperCase();
+  }
+  if (query.traderId) {
+    filter.$or = [{ buyerId: query.traderId }, { sellerId: query.traderId }];
+  }
+  if (query.startTime || query.endTime) {
+    filter.timestamp = {};
+    if (query.startTime) filter.timestamp.$gte = query.startTime;
+    if (query.endTime) filter.timestamp.$lte = query.endTime;
+  }
+
+  return filter;
+}
+
+/**
+ * 规范化查询返回条数
+ *
+ * @param limit - 请求的条数
+ * @returns 1 ~ MAX_TRADE_HISTORY_LIMIT 之间的整数
+ */
+export function normalizeTradeHistoryLimit(limit: number | undefined): number {
+  if (limit === undefined || !Number.isFinite(limit)) {
+    return DEFAULT_TRADE_HISTORY_LIMIT;
+  }
+  return Math.min(Math.max(Math.floor(limit), 1), MAX_TRADE_HISTORY_LIMIT);
+}
@@ -0,0 +1,23 @@
+/**
+ * Trade History Writer
+ * 成交历史批量写入器
+ *
+ * 使用成交历史的默认批量配置；写入在撮合流程之外异步进行，失败只记录日志，不影响撮合
+ *
+ * @feature trade-history
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { BatchWriter } from '../batchWriter';
+import type { TradeHistoryRecord, TradeHistorySink, TradeHistoryWriterOptions } from './core';
+import { DEFAULT_TRADE_HISTORY_WRITER_OPTIONS } from './utils';
+
+/**
+ * 成交历史批量写入器
+ */
+export class TradeHistoryWriter extends BatchWriter<TradeHistoryRecord> {
+  constructor(sink: TradeHistorySink, options: Partial<TradeHistoryWriterOptions> = {}) {
+    super('TradeHistoryWriter', sink, { ...DEFAULT_TRADE_HISTORY_WRITER_OPTIONS, ...options });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Trader Ledger Core Types
+ * 交易员账本核心类型定义
+ *
+ * 账本按平均成本法记录现金、持仓和已实现盈亏，
+ * 对外快照复用 shared/types/portfolio.ts 中的 Portfolio / Position
+ *
+ * @feature trader-ledger
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { Portfolio, PortfolioAnalysis, Position } from '../../../../shared/types/portfolio';
+
+/**
+ * 初始持仓（来自市场模板中 AllocationService 分配的 holdings）
+ */
+export interface LedgerHolding {
+  /** 股票代码 */
+  stockSymbol: string;
+  /** 股票名称 */
+  stockName?: string;
+  /** 持仓数量 */
+  quantity: number;
+  /** 持仓均价（分配时为发行价） */
+  averagePrice: number;
+}
+
+/**
+ * 账本中的单只股票持仓
+ */
+export interface LedgerPosition {
+  /** 股票代码 */
+  symbol: string;
+  /** 股票名称 */
+  stockName: string;
+  /** 持仓数量（负数表示卖空） */
+  quantity: number;
+  /** 持仓均价 */
+  averagePrice: number;
+  /** 该股票累计已实现盈亏 */
+  realizedPnL: number;
+  /** 建仓时间 */
+  openedAt: Date;
+  /** 最后更新时间 */
+  updatedAt: Date;
+}
+
+/**
+ * 账本估值使用的价格来源
+ */
+export interface LedgerPriceSource {
+  /** 最新价，未知时返回 null（按持仓均价估值） */
+  getCurrentPrice(symbol: string): number | null;
+  /** 前收盘价，未知时返回 null（日内变动记为 0） */
+  getPreviousClose(symbol: string): number | null;
+}
+
+/**
+ * 账本快照
+ */
+export interface LedgerSnapshot {
+  /** 投资组合汇总 */
+  portfolio: Portfolio;
+  /** 持仓明细 */
+  positions: Position[];
+  /** 组合分析（由交易所根据行情补充） */
+  analysis?: LedgerAnalysis;
+}
+
+/**
+ * 账本组合分析，目前只包含持仓股票日收益率的相关系数矩阵
+ */
+export type LedgerAnalysis = Pick<PortfolioAnalysis, 'portfolioId' | 'correlation'>;
@@ -0,0 +1,17 @@
+/**
+ * Trader Ledger Library
+ * 交易员账本 - 运行时现金、持仓、平均成本与盈亏
+ *
+ * 每个 AITraderInstance 持有一个账本，期初持仓来自市场模板分配的 holdings，
+ * 之后根据交易所成交更新；快照结构与 shared/types/portfolio.ts 一致
+ *
+ * @feature trader-ledger
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// TraderLedger
+export { TraderLedger } from './ledger';
@@ -0,0 +1,266 @@
+/**
+ * Trader Ledger
+ * 交易员账本 - 现金、持仓、平均成本和盈亏
+ *
+ * 记账规则（平均成本法）：
+ * - 同向成交（加仓）按成交金额加权更新均价
+ * - 反向成交（减仓）按 (成交价 - 均价) × 数量 计入已实现盈亏，均价不变
+ * - 反向成交超过持仓时，超出部分以成交价开立反向持仓
+ * - 交易费用从现金中扣除，并作为费用计入已实现盈亏（不计入持仓均价）
+ * 未实现盈亏和当日变动在生成快照时按最新价 / 前收盘价计算
+ *
+ * @feature trader-ledger
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradeAction } from '../../../../shared/types/trading';
+import type { Portfolio, Position } from '../../../../shared/types/portfolio';
+import type { MatchedTrade } from '../orderBook';
+import type { LedgerHolding, LedgerPosition, LedgerPriceSource, LedgerSnapshot } from './core';
+
+/**
+ * 金额保留两位小数
+ */
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 交易员账本
+ */
+export class TraderLedger {
+  private cash: number;
+  private initialBalance: number;       // 期初权益：初始现金 + 初始持仓成本
+  private realizedPnL: number = 0;
+  private totalFees: number = 0;
+  private positions: Map<string, LedgerPosition> = new Map();
+
+  constructor(
+    public readonly traderId: string,
+    public readonly name: string,
+    initialCash: number,
+    private readonly createdAt: Date
+  ) {
+    this.cash = initialCash;
+    this.initialBalance = initialCash;
+  }
+
+  /**
+   * 登记初始持仓（计入期初权益，不影响现金）
+   *
+   * @param holdings - 初始持仓
+   * @param time - 登记时间
+   */
+  seed(holdings: LedgerHolding[], time: Date): void {
+    for (const holding of holdings) {
+      if (!holding.stockSymbol || !(holding.quantity > 0)) {
+        continue;
+      }
+
+      const position = this.getOrCreatePosition(holding.stockSymbol, time, holding.stockName);
+      const quantity = position.quantity + holding.quantity;
+      position.averagePrice = (position.averagePrice * position.quantity + holding.averagePrice * holding.quantity) / quantity;
+      position.quantity = quantity;
+      position.updatedAt = time;
+      this.initialBalance += holding.averagePrice * holding.quantity;
+    }
+  }
+
+  /**
+   * 根据撮合成交更新账本（只处理本交易员作为买方或卖方的部分）
+   *
+   * @param trade - 成交
+   */
+  applyTrade(trade: MatchedTrade): void {
+    if (trade.buyerId === this.traderId) {
+      const fees = trade.executions?.buy.fees?.total ?? trade.executions?.buy.commission ?? 0;
+      this.applyFill(trade.symbol, 'buy', trade.quantity, trade.price, trade.executedAt, fees);
+    }
+    if (trade.sellerId === this.traderId) {
+      const fees = trade.executions?.sell.fees?.total ?? trade.executions?.sell.commission ?? 0;
+      this.applyFill(trade.symbol, 'sell', trade.quantity, trade.price, trade.executedAt, fees);
+    }
+  }
+
+  /**
+   * 记录一笔成交
+   *
+   * @param symbol - 股票代码
+   * @param action - 买卖方向
+   * @param quantity - 成交数量
+   * @param price - 成交价格
+   * @param time - 成交时间
+   * @param fees - 本笔成交的交易费用
+   * @returns 本笔成交的已实现盈亏（已扣除交易费用）
+   */
+  applyFill(symbol: string, action: TradeAction, quantity: number, price: number, time: Date, fees: number = 0): number {
+    const position = this.getOrCreatePosition(symbol, time);
+    const signedQuantity = action === 'buy' ? quantity : -quantity;
+    let realized = 0;
+
+    if (position.quantity === 0 || Math.sign(position.quantity) === Math.sign(signedQuantity)) {
+      // 开仓或加仓
+      const total = position.quantity + signedQuantity;
+      position.averagePrice = (position.averagePrice * Math.abs(position.quantity) + price * quantity) / Math.abs(total);
+      position.quantity = total;
+    } else {
+      // 减仓，超出部分开立反向持仓
+      const closing = Math.min(Math.abs(position.quantity), quantity);
+      realized = (price - position.averagePrice) * closing * Math.sign(position.quantity);
+      position.quantity += signedQuantity;
+      if (Math.sign(position.quantity) === Math.sign(signedQuantity)) {
+        position.averagePrice = price;
+      }
+    }
+
+    realized -= fees;
+    position.realizedPnL += realized;
+    position.updatedAt = time;
+    this.realizedPnL += realized;
+    this.totalFees += fees;
+    this.cash += (action === 'buy' ? -price * quantity : price * quantity) - fees;
+
+    if (position.quantity === 0) {
+      this.positions.delete(symbol);
+    }
+
+    return realized;
+  }
+
+  /**
+   * 获取现金
+   */
+  getCash(): number {
+    return this.cash;
+  }
+
+  /**
+   * 获取累计已实现盈亏
+   */
+  getRealizedPnL(): number {
+    return this.realizedPnL;
+  }
+
+  /**
+   * 获取累计交易费用
+   */
+  getTotalFees(): number {
+    return this.totalFees;
+  }
+
+  /**
+   * 获取期初权益
+   */
+  getInitialBalance(): number {
+    return this.initialBalance;
+  }
+
+  /**
+   * 获取单只股票持仓
+   */
+  getPosition(symbol: string): LedgerPosition | null {
+    const position = this.positions.get(symbol);
+    return position ? { ...position } : null;
+  }
+
+  /**
+   * 获取所有持仓
+   */
+  getPositions(): LedgerPosition[] {
+    return Array.from(this.positions.values()).map(position => ({ ...position }));
+  }
+
+  /**
+   * 生成账本快照（Portfolio / Position 结构）
+   *
+   * @param prices - 价格来源
+   * @param time - 快照时间
+   * @returns 账本快照
+   */
+  getSnapshot(prices: LedgerPriceSource, time: Date): LedgerSnapshot {
+    const portfolioId = `portfolio_${this.traderId}`;
+
+    const valuations = Array.from(this.positions.values()).map(position => {
+      const currentPrice = prices.getCurrentPrice(position.symbol) ?? position.averagePrice;
+      const previousClose = prices.getPreviousClose(position.symbol);
+      return {
+        position,
+        currentPrice,
+        marketValue: position.quantity * currentPrice,
+        costBasis: position.quantity * position.averagePrice,
+        dayChange: previousClose ? position.quantity * (currentPrice - previousClose) : 0,
+        dayChangePercent: previousClose ? ((currentPrice - previousClose) / previousClose) * 100 : 0,
+      };
+    });
+
+    const marketValue = valuations.reduce((sum, v) => sum + v.marketValue, 0);
+    const costBasis = valuations.reduce((sum, v) => sum + v.costBasis, 0);
+    const dayChange = valuations.reduce((sum, v) => sum + v.dayChange, 0);
+    const totalValue = this.cash + marketValue;
+    const totalReturn = totalValue - this.initialBalance;
+    const previousValue = totalValue - dayChange;
+
+    const portfolio: Portfolio = {
+      id: portfolioId,
+      userId: this.traderId,
+      name: this.name,
+      initialBalance: roundAmount(this.initialBalance),
+      currentBalance: roundAmount(this.cash),
+      totalValue: roundAmount(totalValue),
+      availableCash: roundAmount(this.cash),
+      investedAmount: roundAmount(costBasis),
+      unrealizedPnL: roundAmount(marketValue - costBasis),
+      realizedPnL: roundAmount(this.realizedPnL),
+      totalReturn: roundAmount(totalReturn),
+      totalReturnPercent: this.initialBalance > 0 ? roundAmount((totalReturn / this.initialBalance) * 100) : 0,
+      dayChange: roundAmount(dayChange),
+      dayChangePercent: previousValue > 0 ? roundAmount((dayChange / previousValue) * 100) : 0,
+      isActive: true,
+      createdAt: this.createdAt,
+      updatedAt: time,
+    };
+
+    const positions: Position[] = valuations.map(v => ({
+      id: `${this.traderId}_${v.position.symbol}`,
+      portfolioId,
+      stockId: v.position.symbol,
+      stockSymbol: v.position.symbol,
+      stockName: v.position.stockName,
+      quantity: v.position.quantity,
+      averagePrice: Math.round(v.position.averagePrice * 10000) / 10000,
+      currentPrice: v.currentPrice,
+      marketValue: roundAmount(v.marketValue),
+      costBasis: roundAmount(v.costBasis),
+      unrealizedPnL: roundAmount(v.marketValue - v.costBasis),
+      unrealizedPnLPercent: v.costBasis !== 0 ? roundAmount(((v.marketValue - v.costBasis) / Math.abs(v.costBasis)) * 100) : 0,
+      dayChange: roundAmount(v.dayChange),
+      dayChangePercent: roundAmount(v.dayChangePercent),
+      weight: totalValue > 0 ? roundAmount((v.marketValue / totalValue) * 100) : 0,
+      createdAt: v.position.openedAt,
+      updatedAt: v.position.updatedAt,
+    }));
+
+    return { portfolio, positions };
+  }
+
+  /**
+   * 获取或创建持仓
+   */
+  private getOrCreatePosition(symbol: string, time: Date, stockName?: string): LedgerPosition {
+    let position = this.positions.get(symbol);
+    if (!position) {
+      position = {
+        symbol,
+        stockName: stockName ?? symbol,
+        quantity: 0,
+        averagePrice: 0,
+        realizedPnL: 0,
+        openedAt: time,
+        updatedAt: time,
+      };
+      this.positions.set(symbol, position);
+    }
+    return position;
+  }
+}
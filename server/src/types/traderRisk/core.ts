@@ -0,0 +1,61 @@
+/**
+ * Trader Risk Core Types
+ * 交易员风控核心类型定义
+ *
+ * 风控限额直接复用 shared/types/trading.ts 中的 RiskManagement，各字段含义：
+ * - maxPositionSize：单只股票敞口上限（持仓市值 + 未成交买单，占总资产百分比）
+ * - maxDailyLoss：单日最大亏损（相对当日首次评估时的总资产，百分比），触及后当日停止交易
+ * - stopLossPercent：相对持仓均价的止损百分比
+ * - takeProfitPercent：相对持仓均价的止盈百分比
+ * - maxOpenPositions：最多同时持有的股票数（默认取模板 maxPositions）
+ *
+ * @feature trader-risk
+ * @author System
+ * @since 2026-10-18
+ */
+
+export type { RiskManagement } from '../../../../shared/types/trading';
+
+/**
+ * 风控检查使用的账户敞口
+ * 检查通过的买单会计入 symbols，使同一批订单的累计敞口受限
+ */
+export interface RiskExposure {
+  /** 当前总资产 */
+  equity: number;
+  /** 股票代码 -> 敞口金额（持仓市值 + 未成交买单金额） */
+  symbols: Map<string, number>;
+}
+
+/**
+ * 止损止盈检查使用的持仓
+ */
+export interface RiskPosition {
+  /** 股票代码 */
+  symbol: string;
+  /** 可卖数量 */
+  availableQuantity: number;
+  /** 持仓均价 */
+  averagePrice: number;
+  /** 最新价 */
+  currentPrice: number;
+}
+
+/**
+ * 止损止盈触发原因
+ */
+export type RiskExitReason = 'stop_loss' | 'take_profit';
+
+/**
+ * 风控状态
+ */
+export interface RiskStatus {
+  /** 当前交易日 */
+  tradingDay: string;
+  /** 当日首次评估时的总资产 */
+  startOfDayEquity: number;
+  /** 当日盈亏百分比 */
+  dailyPnLPercent: number;
+  /** 当日是否已停止交易 */
+  halted: boolean;
+}
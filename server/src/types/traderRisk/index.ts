@@ -0,0 +1,20 @@
+/**
+ * Trader Risk Library
+ * 交易员风控 - 基于 RiskManagement 限额的下单前检查与自动止损止盈
+ *
+ * 每个 AITraderInstance 持有一个风控管理器，交易所接受该交易员的订单前逐笔检查（不论订单来源），
+ * 违反限额的订单以 OrderError 拒绝（RISK_* 错误代码）
+ *
+ * @feature trader-risk
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// TraderRiskManager
+export { TraderRiskManager } from './manager';
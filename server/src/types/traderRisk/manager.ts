@@ -0,0 +1,179 @@
+/**
+ * Trader Risk Manager
+ * 交易员风控 - 下单前检查、止损止盈和单日亏损停止交易
+ *
+ * - checkOrder：买单受单只股票敞口和最大持仓数限制，卖单只在停止交易时拒绝
+ * - getExitOrders：持仓相对均价触及止损 / 止盈时生成全部可卖数量的市价卖单
+ * - updateDailyState：跨日时记录期初总资产，当日亏损达到 maxDailyLoss 后停止交易至次日
+ * 限额为 0 表示不启用对应检查
+ *
+ * @feature trader-risk
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RiskManagement } from '../../../../shared/types/trading';
+import { OrderError, OrderErrorCode } from '../orderBook';
+import type { StrategyOrder } from '../traderStrategy';
+import type { RiskExposure, RiskExitReason, RiskPosition, RiskStatus } from './core';
+
+/**
+ * 交易员风控管理器
+ */
+export class TraderRiskManager {
+  private readonly limits: RiskManagement;
+  private tradingDay: string = '';
+  private startOfDayEquity: number = 0;
+  private lastEquity: number = 0;
+  private halted: boolean = false;
+
+  constructor(limits: RiskManagement) {
+    this.limits = { ...limits };
+  }
+
+  /**
+   * 获取风控限额
+   */
+  getLimits(): RiskManagement {
+    return { ...this.limits };
+  }
+
+  /**
+   * 更新当日状态：新交易日重置期初总资产并恢复交易，亏损达到上限时停止交易
+   *
+   * @param time - 当前游戏时间
+   * @param equity - 当前总资产
+   * @returns 本次更新是否触发停止交易
+   */
+  updateDailyState(time: Date, equity: number): boolean {
+    const tradingDay = time.toDateString();
+    if (tradingDay !== this.tradingDay) {
+      this.tradingDay = tradingDay;
+      this.startOfDayEquity = equity;
+      this.halted = false;
+    }
+    this.lastEquity = equity;
+
+    if (this.halted || this.limits.maxDailyLoss <= 0 || this.startOfDayEquity <= 0) {
+      return false;
+    }
+
+    if (this.getDailyPnLPercent() <= -this.limits.maxDailyLoss) {
+      this.halted = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 当日是否已停止交易
+   */
+  isHalted(): boolean {
+    return this.halted;
+  }
+
+  /**
+   * 获取风控状态
+   */
+  getStatus(): RiskStatus {
+    return {
+      tradingDay: this.tradingDay,
+      startOfDayEquity: this.startOfDayEquity,
+      dailyPnLPercent: this.getDailyPnLPercent(),
+      halted: this.halted,
+    };
+  }
+
+  /**
+   * 下单前风控检查，通过的买单计入敞口
+   *
+   * @param order - 策略订单
+   * @param price - 估算成交价（限价单为限价，市价单为最新价）
+   * @param exposure - 账户敞口
+   * @throws OrderError 如果订单违反风控限额
+   */
+  checkOrder(order: StrategyOrder, price: number, exposure: RiskExposure): void {
+    if (this.halted) {
+      throw new OrderError(
+        `Trading halted for ${this.tradingDay}: daily loss limit ${this.limits.maxDailyLoss}% reached`,
+        OrderErrorCode.RISK_DAILY_LOSS_HALTED
+      );
+    }
+
+    if (order.action !== 'buy') {
+      return;
+    }
+
+    const current = exposure.symbols.get(order.symbol) ?? 0;
+    if (current === 0 && exposure.symbols.size >= this.limits.maxOpenPositions) {
+      throw new OrderError(
+        `Opening ${order.symbol} would exceed the maximum of ${this.limits.maxOpenPositions} open positions`,
+        OrderErrorCode.RISK_MAX_OPEN_POSITIONS
+      );
+    }
+
+    const next = current + order.quantity * price;
+    const maxValue = (exposure.equity * this.limits.maxPositionSize) / 100;
+    if (this.limits.maxPositionSize > 0 && next > maxValue) {
+      throw new OrderError(
+        `Exposure to ${order.symbol} of ${next.toFixed(2)} would exceed ${this.limits.maxPositionSize}% of equity (${maxValue.toFixed(2)})`,
+        OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED
+      );
+    }
+
+    exposure.symbols.set(order.symbol, next);
+  }
+
+  /**
+   * 生成止损止盈卖单
+   *
+   * @param positions - 持仓
+   * @param excludedSymbols - 跳过的股票（例如已有卖单）
+   * @returns 卖单及触发原因
+   */
+  getExitOrders(
+    positions: RiskPosition[],
+    excludedSymbols: Set<string> = new Set()
+  ): Array<{ order: StrategyOrder; reason: RiskExitReason }> {
+    const exits: Array<{ order: StrategyOrder; reason: RiskExitReason }> = [];
+
+    for (const position of positions) {
+      if (position.availableQuantity <= 0 || position.averagePrice <= 0 || excludedSymbols.has(position.symbol)) {
+        continue;
+      }
+
+      const changePercent = ((position.currentPrice - position.averagePrice) / position.averagePrice) * 100;
+      let reason: RiskExitReason | null = null;
+      if (this.limits.stopLossPercent > 0 && changePercent <= -this.limits.stopLossPercent) {
+        reason = 'stop_loss';
+      } else if (this.limits.takeProfitPercent > 0 && changePercent >= this.limits.takeProfitPercent) {
+        reason = 'take_profit';
+      }
+
+      if (reason) {
+        exits.push({
+          order: {
+            symbol: position.symbol,
+            type: 'market',
+            action: 'sell',
+            quantity: position.availableQuantity,
+            timeInForce: 'ioc',
+          },
+          reason,
+        });
+      }
+    }
+
+    return exits;
+  }
+
+  /**
+   * 当日盈亏百分比
+   */
+  private getDailyPnLPercent(): number {
+    if (this.startOfDayEquity <= 0) {
+      return 0;
+    }
+    return ((this.lastEquity - this.startOfDayEquity) / this.startOfDayEquity) * 100;
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Trader Risk Utilities
+ * 交易员风控工具函数
+ *
+ * @feature trader-risk
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { RiskManagement } from '../../../../shared/types/trading';
+import type { RiskProfile } from '../traderStrategy';
+import { getNumberParameter } from '../traderStrategy';
+
+/**
+ * 各风险偏好的默认风控限额（maxOpenPositions 取模板 maxPositions）
+ */
+export const DEFAULT_RISK_LIMITS: Record<RiskProfile, Omit<RiskManagement, 'maxOpenPositions'>> = {
+  conservative: { maxPositionSize: 10, maxDailyLoss: 2, stopLossPercent: 5, takeProfitPercent: 10 },
+  moderate: { maxPositionSize: 20, maxDailyLoss: 5, stopLossPercent: 8, takeProfitPercent: 15 },
+  aggressive: { maxPositionSize: 40, maxDailyLoss: 10, stopLossPercent: 12, takeProfitPercent: 25 },
+};
+
+/**
+ * 生成风控限额：风险偏好默认值，被模板参数 riskManagement 中的字段覆盖
+ *
+ * @param riskProfile - 风险偏好
+ * @param maxPositions - 模板最大持仓数
+ * @param parameters - 模板参数
+ * @returns 风控限额
+ */
+export function createRiskLimits(
+  riskProfile: RiskProfile,
+  maxPositions: number,
+  parameters: Record<string, any>
+): RiskManagement {
+  const defaults = DEFAULT_RISK_LIMITS[riskProfile] ?? DEFAULT_RISK_LIMITS.moderate;
+  const overrides = parameters.riskManagement && typeof parameters.riskManagement === 'object'
+    ? parameters.riskManagement
+    : {};
+
+  return {
+    maxPositionSize: getNumberParameter(overrides, 'maxPositionSize', defaults.maxPositionSize, { min: 0, max: 100 }),
+    maxDailyLoss: getNumberParameter(overrides, 'maxDailyLoss', defaults.maxDailyLoss, { min: 0, max: 100 }),
+    stopLossPercent: getNumberParameter(overrides, 'stopLossPercent', defaults.stopLossPercent, { min: 0, max: 100 }),
+    takeProfitPercent: getNumberParameter(overrides, 'takeProfitPercent', defaults.takeProfitPercent, { min: 0 }),
+    maxOpenPositions: Math.floor(getNumberParameter(overrides, 'maxOpenPositions', maxPositions, { min: 1 })),
+  };
+}
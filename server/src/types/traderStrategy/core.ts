@@ -0,0 +1,143 @@
+/**
+ * Trader Strategy Core Types
+ * AI 交易员策略核心类型定义
+ *
+ * 策略是一个纯决策组件：每次评估时读取行情视图、交易员自身的资金持仓和游戏时间，
+ * 返回要提交的订单和要撤销的挂单，由 AITraderInstance 负责实际下单
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { StrategyType, TradeOrder } from '../../../../shared/types/trading';
+import type { AggregatedPoint, Granularity } from '../timeSeries';
+import type { IndicatorPoint, IndicatorSpec } from '../indicator';
+import type { OrderRequest } from '../orderBook';
+import type { PriceLimitBand } from '../tradingRules';
+import type { FeeSchedule } from '../tradingFees';
+import type { RandomSource } from '../randomStream';
+
+/**
+ * 交易风格（与交易员模板一致）
+ */
+export type TradingStyle = 'day_trading' | 'swing_trading' | 'position_trading';
+
+/**
+ * 风险偏好（与交易员模板一致）
+ */
+export type RiskProfile = 'conservative' | 'moderate' | 'aggressive';
+
+/**
+ * 策略配置，由交易员模板生成
+ */
+export interface StrategyConfig {
+  /** 策略类型（已按交易风格和参数解析） */
+  type: StrategyType;
+  /** 交易风格 */
+  tradingStyle: TradingStyle;
+  /** 风险偏好 */
+  riskProfile: RiskProfile;
+  /** 最大持仓股票数 */
+  maxPositions: number;
+  /** 模板参数（ITraderTemplate.parameters） */
+  parameters: Record<string, any>;
+}
+
+/**
+ * 策略可见的单只股票持仓
+ */
+export interface StrategyPosition {
+  /** 股票代码 */
+  symbol: string;
+  /** 持仓数量 */
+  quantity: number;
+  /** 可卖数量（已交收，未扣除挂单） */
+  availableQuantity: number;
+  /** 持仓均价 */
+  averageCost: number;
+}
+
+/**
+ * 策略可见的交易员账户
+ */
+export interface StrategyAccount {
+  /** 可用现金 */
+  cash: number;
+  /** 持仓列表 */
+  positions: StrategyPosition[];
+}
+
+/**
+ * 策略可见的行情视图，数据来自交易所的 TimeSeriesManager
+ */
+export interface StrategyMarketView {
+  /** 可交易的股票代码 */
+  getSymbols(): string[];
+  /** 最新价，股票不存在时返回 null */
+  getCurrentPrice(symbol: string): number | null;
+  /** 已收盘的 K 线（按时间升序，最多 limit 根） */
+  getBars(symbol: string, granularity: Granularity, limit?: number): AggregatedPoint[];
+  /** 技术指标（基于已收盘的 K 线，按时间升序，最多 limit 个；预热期内没有数据点） */
+  getIndicator(symbol: string, granularity: Granularity, spec: IndicatorSpec, limit?: number): IndicatorPoint[];
+  /** 当日涨跌停区间，规则关闭或股票不存在时返回 null */
+  getPriceLimitBand(symbol: string): PriceLimitBand | null;
+  /** 交易所当前的费率配置 */
+  getFeeSchedule(): FeeSchedule;
+  /** 市场指数最新点位，指数未启用或尚未开始编制时返回 null */
+  getIndexValue(): number | null;
+  /** 市场指数已收盘的 K 线（按时间升序，最多 limit 根），用于计算相对强弱等基准 */
+  getIndexBars(granularity: Granularity, limit?: number): AggregatedPoint[];
+}
+
+/**
+ * 单次策略评估的上下文
+ */
+export interface StrategyContext {
+  /** 交易员 ID（与订单 traderId 一致） */
+  traderId: string;
+  /** 当前游戏时间 */
+  time: Date;
+  /** 资金和持仓 */
+  account: StrategyAccount;
+  /** 交易员当前未终结的订单 */
+  openOrders: TradeOrder[];
+  /** 行情视图 */
+  market: StrategyMarketView;
+  /** 交易员的随机数子流（策略需要随机性时使用，保证相同种子可复现） */
+  random: RandomSource;
+}
+
+/**
+ * 策略生成的订单（traderId 由交易员实例填写）
+ */
+export type StrategyOrder = Omit<OrderRequest, 'traderId'>;
+
+/**
+ * 策略评估结果
+ */
+export interface StrategyDecision {
+  /** 要提交的订单 */
+  orders: StrategyOrder[];
+  /** 要撤销的订单 ID */
+  cancelOrderIds: string[];
+}
+
+/**
+ * 交易策略接口
+ */
+export interface TraderStrategy {
+  /** 策略类型 */
+  readonly type: StrategyType;
+  /** 策略名称（用于日志和展示） */
+  readonly name: string;
+  /** 信号使用的 K 线周期（设置后该周期 K 线收盘时立即评估，不必等到下一个决策间隔） */
+  readonly barGranularity?: Granularity;
+  /** 评估当前市场并给出交易决策 */
+  evaluate(context: StrategyContext): StrategyDecision;
+}
+
+/**
+ * 策略工厂
+ */
+export type StrategyFactory = (config: StrategyConfig) => TraderStrategy;
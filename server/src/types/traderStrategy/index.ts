@@ -0,0 +1,23 @@
+/**
+ * Trader Strategy Library
+ * AI 交易员策略 - 可插拔的交易决策接口
+ *
+ * 每个 AITraderInstance 在构造时按模板的 tradingStyle / parameters.strategy
+ * 从 StrategyRegistry 获取策略，定期评估后将订单提交到交易所
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// Built-in strategies
+export * from './strategies';
+
+// StrategyRegistry
+export { StrategyRegistry, IdleStrategy } from './registry';
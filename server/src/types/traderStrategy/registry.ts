@@ -0,0 +1,133 @@
+/**
+ * Trader Strategy Registry
+ * AI 交易员策略注册表
+ *
+ * 按名称注册策略工厂：内置策略（动量、均值回归、突破）以 StrategyType 为名称注册，
+ * 自定义策略（type 为 'custom'）通过模板参数 customStrategy 指定注册名称
+ * 找不到对应工厂时使用观望策略（不下单）
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { StrategyType } from '../../../../shared/types/trading';
+import type { StrategyConfig, StrategyContext, StrategyDecision, StrategyFactory, TraderStrategy } from './core';
+import { createEmptyDecision } from './utils';
+import { MomentumStrategy, MeanReversionStrategy, BreakoutStrategy } from './strategies';
+
+/**
+ * 观望策略：不产生任何订单
+ */
+export class IdleStrategy implements TraderStrategy {
+  public readonly name: string = 'idle';
+
+  constructor(public readonly type: StrategyType) {}
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  evaluate(context: StrategyContext): StrategyDecision {
+    return createEmptyDecision();
+  }
+}
+
+/**
+ * 策略注册表（单例）
+ */
+export class StrategyRegistry {
+  private static instance: StrategyRegistry | null = null;
+
+  private factories: Map<string, StrategyFactory> = new Map();
+
+  private constructor() {
+    this.registerBuiltInStrategies();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      StrategyRegistry.instance = new StrategyRegistry();
+    }
+    return StrategyRegistry.instance;
+  }
+
+  /**
+   * 重置单例实例（主要用于测试）
+   */
+  public static resetInstance(): void {
+    StrategyRegistry.instance = null;
+  }
+
+  /**
+   * 注册策略工厂（同名覆盖）
+   *
+   * @param name - 策略名称，内置策略使用 StrategyType
+   * @param factory - 策略工厂
+   */
+  public register(name: string, factory: StrategyFactory): void {
+    if (!name) {
+      throw new Error('Strategy name must be a non-empty string');
+    }
+    this.factories.set(name, factory);
+  }
+
+  /**
+   * 注销策略工厂
+   */
+  public unregister(name: string): boolean {
+    return this.factories.delete(name);
+  }
+
+  /**
+   * 是否已注册
+   */
+  public has(name: string): boolean {
+    return this.factories.has(name);
+  }
+
+  /**
+   * 获取已注册的策略名称
+   */
+  public getRegisteredNames(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * 按配置创建策略实例
+   *
+   * @param config - 策略配置
+   * @returns 策略实例，找不到工厂时返回观望策略
+   */
+  public create(config: StrategyConfig): TraderStrategy {
+    const name = this.getFactoryName(config);
+    const factory = this.factories.get(name);
+
+    if (!factory) {
+      console.warn(`[StrategyRegistry] No strategy registered as "${name}", falling back to idle strategy`);
+      return new IdleStrategy(config.type);
+    }
+
+    return factory(config);
+  }
+
+  /**
+   * 注册内置策略
+   */
+  private registerBuiltInStrategies(): void {
+    this.register('momentum', config => new MomentumStrategy(config));
+    this.register('mean_reversion', config => new MeanReversionStrategy(config));
+    this.register('breakout', config => new BreakoutStrategy(config));
+  }
+
+  /**
+   * 获取配置对应的工厂名称
+   */
+  private getFactoryName(config: StrategyConfig): string {
+    if (config.type === 'custom') {
+      const customName = config.parameters.customStrategy;
+      return typeof customName === 'string' && customName ? customName : 'custom';
+    }
+    return config.type;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Base Strategy
+ * 内置策略基类
+ *
+ * 负责内置策略共用的下单流程：
+ * - 撤销超时未成交的挂单，有挂单的股票本轮不再下单
+ * - 按风险偏好计算目标仓位（整手），扣除预估买入费用，受可用现金和最大持仓数限制
+ * - 以最新价加减偏移的限价下单，并限制在涨跌停区间内
+ * 子类只需根据 K 线和技术指标给出买卖信号
+ *
+ * 通用参数（ITraderTemplate.parameters）：
+ * - positionSizePercent：单只股票目标仓位占总资产百分比，默认按风险偏好
+ * - limitOffsetPercent：限价相对最新价的偏移百分比，默认 0.1
+ * - orderTimeoutSeconds：挂单超时撤销时间（游戏秒），默认 300
+ * - lotSize / tickSize：每手股数和最小价格变动单位，默认 100 / 0.01
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { StrategyType, TradeAction, TradeOrder } from '../../../../../shared/types/trading';
+import type { AggregatedPoint, Granularity } from '../../timeSeries';
+import type { IndicatorPoint, IndicatorSpec } from '../../indicator';
+import { getRemainingQuantity } from '../../orderBook';
+import { PriceLimitBand, clampToBand, roundToTick } from '../../tradingRules';
+import { FeeSchedule, calculateTradeFees, roundFee } from '../../tradingFees';
+import type {
+  StrategyConfig,
+  StrategyContext,
+  StrategyDecision,
+  StrategyMarketView,
+  StrategyOrder,
+  StrategyPosition,
+  TraderStrategy,
+} from '../core';
+import { POSITION_SIZE_BY_RISK, calculateLotQuantity, createEmptyDecision, getNumberParameter } from '../utils';
+
+/**
+ * 策略信号
+ */
+export type StrategySignal = 'buy' | 'sell' | 'hold';
+
+/**
+ * 读取当前股票在策略 K 线周期上的技术指标（最多 limit 个数据点）
+ */
+export type IndicatorReader = (spec: IndicatorSpec, limit?: number) => IndicatorPoint[];
+
+/**
+ * 内置策略基类
+ */
+export abstract class BaseStrategy implements TraderStrategy {
+  public abstract readonly type: StrategyType;
+  public abstract readonly name: string;
+
+  protected readonly config: StrategyConfig;
+  private readonly positionSize: number;   // 占总资产比例
+  private readonly limitOffset: number;    // 限价偏移比例
+  private readonly orderTimeout: number;   // 游戏时间毫秒
+  private readonly lotSize: number;
+  private readonly tickSize: number;
+
+  constructor(config: StrategyConfig) {
+    this.config = config;
+
+    const { parameters } = config;
+    this.positionSize = getNumberParameter(
+      parameters,
+      'positionSizePercent',
+      POSITION_SIZE_BY_RISK[config.riskProfile] * 100,
+      { min: 0, max: 100 }
+    ) / 100;
+    this.limitOffset = getNumberParameter(parameters, 'limitOffsetPercent', 0.1, { min: 0, max: 10 }) / 100;
+    this.orderTimeout = getNumberParameter(parameters, 'orderTimeoutSeconds', 300, { min: 1 }) * 1000;
+    this.lotSize = getNumberParameter(parameters, 'lotSize', 100, { min: 1 });
+    this.tickSize = getNumberParameter(parameters, 'tickSize', 0.01, { min: 0.0001 });
+  }
+
+  /**
+   * 信号使用的 K 线周期（交易员在该周期 K 线收盘时立即评估）
+   */
+  get barGranularity(): Granularity {
+    return this.getGranularity();
+  }
+
+  /**
+   * 评估所有可交易股票并生成决策
+   */
+  evaluate(context: StrategyContext): StrategyDecision {
+    const decision = createEmptyDecision();
+    const { account, market, openOrders } = context;
+    const fees = market.getFeeSchedule();
+
+    // 挂单：超时撤销，并预留买单占用的资金（与交易所的资金检查口径一致）
+    const busySymbols = new Set<string>();
+    let reservedCash = 0;
+    for (const order of openOrders) {
+      busySymbols.add(order.stockSymbol);
+      if (context.time.getTime() - new Date(order.createdAt).getTime() >= this.orderTimeout) {
+        decision.cancelOrderIds.push(order.id);
+      }
+      if (order.action === 'buy') {
+        reservedCash += this.estimateBuyCost(order, market, fees);
+      }
+    }
+
+    const positions = new Map(account.positions.map(position => [position.symbol, position]));
+    let equity = account.cash;
+    for (const position of account.positions) {
+      equity += position.quantity * (market.getCurrentPrice(position.symbol) ?? position.averageCost);
+    }
+    let availableCash = account.cash - reservedCash;
+    let positionCount = positions.size;
+
+    const requiredBars = this.getRequiredBars();
+    for (const symbol of market.getSymbols()) {
+      if (busySymbols.has(symbol)) {
+        continue;
+      }
+
+      const price = market.getCurrentPrice(symbol);
+      if (!price || price <= 0) {
+        continue;
+      }
+
+      const bars = market.getBars(symbol, this.getGranularity(), requiredBars);
+      if (bars.length < requiredBars) {
+        continue;
+      }
+
+      const position = positions.get(symbol);
+      const indicators: IndicatorReader = (spec, limit) => market.getIndicator(symbol, this.getGranularity(), spec, limit);
+      const signal = this.getSignal(bars, price, position, indicators);
+      const band = market.getPriceLimitBand(symbol);
+
+      if (signal === 'sell' && position && position.availableQuantity > 0) {
+        decision.orders.push(this.createOrder(symbol, 'sell', position.availableQuantity, price, band));
+      } else if (signal === 'buy' && !position && positionCount < this.config.maxPositions) {
+        const order = this.createOrder(symbol, 'buy', 0, price, band);
+        // 费用随金额递增，按目标金额预扣的费用不少于实际买入金额的费用
+        const budget = Math.min(equity * this.positionSize, availableCash);
+        const quantity = calculateLotQuantity(budget - calculateTradeFees('buy', budget, fees).total, order.price!, this.lotSize);
+        if (quantity > 0) {
+          const amount = quantity * order.price!;
+          order.quantity = quantity;
+          decision.orders.push(order);
+          availableCash -= amount + calculateTradeFees('buy', amount, fees).total;
+          positionCount++;
+        }
+      }
+    }
+
+    return decision;
+  }
+
+  /**
+   * 信号使用的 K 线周期
+   */
+  protected abstract getGranularity(): Granularity;
+
+  /**
+   * 生成信号所需的已收盘 K 线数量
+   */
+  protected abstract getRequiredBars(): number;
+
+  /**
+   * 根据已收盘 K 线、技术指标和最新价生成信号
+   *
+   * @param bars - 已收盘 K 线（按时间升序，数量为 getRequiredBars()）
+   * @param price - 最新价
+   * @param position - 当前持仓，未持有时为 undefined
+   * @param indicators - 技术指标读取函数（由交易所的指标引擎计算）
+   */
+  protected abstract getSignal(
+    bars: AggregatedPoint[],
+    price: number,
+    position: StrategyPosition | undefined,
+    indicators: IndicatorReader
+  ): StrategySignal;
+
+  /**
+   * 预估未成交买单剩余部分占用的资金（含费用）
+   * 限价单按限价；市价单和止损单按涨停价，未启用涨跌停时按最新价和触发价中的较高者
+   */
+  private estimateBuyCost(order: TradeOrder, market: StrategyMarketView, fees: FeeSchedule): number {
+    let price = order.price ?? order.limitPrice;
+    if (price === undefined) {
+      const band = market.getPriceLimitBand(order.stockSymbol);
+      price = band ? band.limitUp : Math.max(market.getCurrentPrice(order.stockSymbol) ?? 0, order.stopPrice ?? 0);
+    }
+    const amount = getRemainingQuantity(order) * price;
+    return roundFee(amount + calculateTradeFees('buy', amount, fees).total);
+  }
+
+  /**
+   * 创建限价单：买入略高于最新价，卖出略低于最新价，限制在涨跌停区间内
+   */
+  private createOrder(
+    symbol: string,
+    action: TradeAction,
+    quantity: number,
+    price: number,
+    band: PriceLimitBand | null
+  ): StrategyOrder {
+    const offset = action === 'buy' ? 1 + this.limitOffset : 1 - this.limitOffset;
+    let limitPrice = Math.max(this.tickSize, roundToTick(price * offset, this.tickSize));
+    if (band) {
+      limitPrice = clampToBand(limitPrice, band);
+    }
+
+    return { symbol, type: 'limit', action, quantity, price: limitPrice, timeInForce: 'day' };
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Breakout Strategy
+ * 突破策略：N 根 K 线高低点
+ *
+ * 最新价突破前 N 根 K 线最高价时买入；持仓期间跌破前 N 根 K 线最低价时卖出
+ *
+ * 参数（ITraderTemplate.parameters）：
+ * - granularity：K 线周期，默认 MIN_15
+ * - lookbackBars：回看 K 线数量 N，默认 20
+ * - breakoutBufferPercent：突破确认幅度百分比，默认 0
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { AggregatedPoint, Granularity } from '../../timeSeries';
+import type { StrategyConfig, StrategyPosition } from '../core';
+import { getGranularityParameter, getNumberParameter } from '../utils';
+import { BaseStrategy, StrategySignal } from './base';
+
+const BREAKOUT_GRANULARITIES = [
+  Granularity.MIN_5,
+  Granularity.MIN_15,
+  Granularity.MIN_30,
+  Granularity.MIN_60,
+  Granularity.DAY_1,
+] as const;
+
+/**
+ * 突破策略
+ */
+export class BreakoutStrategy extends BaseStrategy {
+  public readonly type = 'breakout' as const;
+  public readonly name: string = 'channel-breakout';
+
+  private readonly granularity: Granularity;
+  private readonly lookbackBars: number;
+  private readonly buffer: number;
+
+  constructor(config: StrategyConfig) {
+    super(config);
+
+    const { parameters } = config;
+    this.granularity = getGranularityParameter(parameters, 'granularity', Granularity.MIN_15, BREAKOUT_GRANULARITIES);
+    this.lookbackBars = Math.floor(getNumberParameter(parameters, 'lookbackBars', 20, { min: 2, max: 250 }));
+    this.buffer = getNumberParameter(parameters, 'breakoutBufferPercent', 0, { min: 0, max: 10 }) / 100;
+  }
+
+  protected getGranularity(): Granularity {
+    return this.granularity;
+  }
+
+  protected getRequiredBars(): number {
+    return this.lookbackBars;
+  }
+
+  protected getSignal(bars: AggregatedPoint[], price: number, position?: StrategyPosition): StrategySignal {
+    if (position) {
+      const low = Math.min(...bars.map(bar => bar.low));
+      return price < low * (1 - this.buffer) ? 'sell' : 'hold';
+    }
+
+    const high = Math.max(...bars.map(bar => bar.high));
+    return price > high * (1 + this.buffer) ? 'buy' : 'hold';
+  }
+}
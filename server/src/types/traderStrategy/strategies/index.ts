@@ -0,0 +1,14 @@
+/**
+ * Built-in Strategies
+ * 内置交易策略
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+export { BaseStrategy } from './base';
+export type { StrategySignal } from './base';
+export { MomentumStrategy } from './momentum';
+export { MeanReversionStrategy } from './meanReversion';
+export { BreakoutStrategy } from './breakout';
@@ -0,0 +1,81 @@
+/**
+ * Mean Reversion Strategy
+ * 均值回归策略：布林带
+ *
+ * 最新价跌破下轨（中轨 - k × 标准差）时买入；持仓期间回到中轨上方（可加偏移）时卖出
+ *
+ * 参数（ITraderTemplate.parameters）：
+ * - granularity：K 线周期，默认 MIN_15
+ * - period：中轨周期，默认 20
+ * - stdDevMultiplier：下轨标准差倍数 k，默认 2
+ * - exitStdDev：卖出阈值相对中轨的标准差倍数，默认 0（回到中轨即卖出）
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { AggregatedPoint, Granularity } from '../../timeSeries';
+import type { StrategyConfig, StrategyPosition } from '../core';
+import { getGranularityParameter, getNumberParameter } from '../utils';
+import { BaseStrategy, IndicatorReader, StrategySignal } from './base';
+
+const MEAN_REVERSION_GRANULARITIES = [
+  Granularity.MIN_5,
+  Granularity.MIN_15,
+  Granularity.MIN_30,
+  Granularity.MIN_60,
+] as const;
+
+/**
+ * 均值回归策略
+ */
+export class MeanReversionStrategy extends BaseStrategy {
+  public readonly type = 'mean_reversion' as const;
+  public readonly name: string = 'bollinger-bands';
+
+  private readonly granularity: Granularity;
+  private readonly period: number;
+  private readonly stdDevMultiplier: number;
+  private readonly exitStdDev: number;
+
+  constructor(config: StrategyConfig) {
+    super(config);
+
+    const { parameters } = config;
+    this.granularity = getGranularityParameter(parameters, 'granularity', Granularity.MIN_15, MEAN_REVERSION_GRANULARITIES);
+    this.period = Math.floor(getNumberParameter(parameters, 'period', 20, { min: 2, max: 200 }));
+    this.stdDevMultiplier = getNumberParameter(parameters, 'stdDevMultiplier', 2, { min: 0.1, max: 5 });
+    this.exitStdDev = getNumberParameter(parameters, 'exitStdDev', 0, { min: -5, max: 5 });
+  }
+
+  protected getGranularity(): Granularity {
+    return this.granularity;
+  }
+
+  protected getRequiredBars(): number {
+    return this.period;
+  }
+
+  protected getSignal(
+    _bars: AggregatedPoint[],
+    price: number,
+    position: StrategyPosition | undefined,
+    indicators: IndicatorReader
+  ): StrategySignal {
+    const [band] = indicators({ type: 'BOLL', params: [this.period, this.stdDevMultiplier] }, 1);
+    if (!band) {
+      return 'hold';
+    }
+
+    const { upper, middle, lower } = band.values;
+    const stdDev = (upper - middle) / this.stdDevMultiplier;
+
+    if (position) {
+      return price >= middle + this.exitStdDev * stdDev ? 'sell' : 'hold';
+    }
+
+    // 无波动时没有有效的带宽
+    return stdDev > 0 && price < lower ? 'buy' : 'hold';
+  }
+}
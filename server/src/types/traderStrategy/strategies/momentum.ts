@@ -0,0 +1,76 @@
+/**
+ * Momentum Strategy
+ * 动量策略：均线交叉
+ *
+ * 快线上穿慢线（金叉）时买入；持仓期间快线跌破慢线时卖出
+ *
+ * 参数（ITraderTemplate.parameters）：
+ * - granularity：K 线周期，MIN_5 或 MIN_15，默认 MIN_5
+ * - fastPeriod：快线周期，默认 5
+ * - slowPeriod：慢线周期，默认 20
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import { AggregatedPoint, Granularity } from '../../timeSeries';
+import type { StrategyConfig, StrategyPosition } from '../core';
+import { getGranularityParameter, getNumberParameter } from '../utils';
+import { BaseStrategy, IndicatorReader, StrategySignal } from './base';
+
+const MOMENTUM_GRANULARITIES = [Granularity.MIN_5, Granularity.MIN_15] as const;
+
+/**
+ * 动量策略
+ */
+export class MomentumStrategy extends BaseStrategy {
+  public readonly type = 'momentum' as const;
+  public readonly name: string = 'ma-crossover';
+
+  private readonly granularity: Granularity;
+  private readonly fastPeriod: number;
+  private readonly slowPeriod: number;
+
+  constructor(config: StrategyConfig) {
+    super(config);
+
+    const { parameters } = config;
+    this.granularity = getGranularityParameter(parameters, 'granularity', Granularity.MIN_5, MOMENTUM_GRANULARITIES);
+    this.fastPeriod = Math.floor(getNumberParameter(parameters, 'fastPeriod', 5, { min: 1, max: 100 }));
+    this.slowPeriod = Math.max(
+      this.fastPeriod + 1,
+      Math.floor(getNumberParameter(parameters, 'slowPeriod', 20, { min: 2, max: 200 }))
+    );
+  }
+
+  protected getGranularity(): Granularity {
+    return this.granularity;
+  }
+
+  protected getRequiredBars(): number {
+    // 需要前一根 K 线的均线判断交叉
+    return this.slowPeriod + 1;
+  }
+
+  protected getSignal(
+    _bars: AggregatedPoint[],
+    _price: number,
+    position: StrategyPosition | undefined,
+    indicators: IndicatorReader
+  ): StrategySignal {
+    const fastLine = indicators({ type: 'MA', params: [this.fastPeriod] }, 2);
+    const slowLine = indicators({ type: 'MA', params: [this.slowPeriod] }, 2);
+    if (fastLine.length < 2 || slowLine.length < 2) {
+      return 'hold';
+    }
+
+    const [previousFast, fast] = fastLine.map(point => point.values.value);
+    const [previousSlow, slow] = slowLine.map(point => point.values.value);
+
+    if (position) {
+      return fast < slow ? 'sell' : 'hold';
+    }
+    return previousFast <= previousSlow && fast > slow ? 'buy' : 'hold';
+  }
+}
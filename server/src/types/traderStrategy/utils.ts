@@ -0,0 +1,155 @@
+/**
+ * Trader Strategy Utilities
+ * AI 交易员策略工具函数
+ *
+ * 包含策略类型解析、模板参数读取和仓位计算等纯函数
+ *
+ * @feature trader-strategy
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { StrategyType } from '../../../../shared/types/trading';
+import { Granularity } from '../timeSeries';
+import type { StrategyConfig, StrategyDecision, TradingStyle, RiskProfile } from './core';
+
+/**
+ * 合法的策略类型
+ */
+export const STRATEGY_TYPES: readonly StrategyType[] = ['momentum', 'mean_reversion', 'breakout', 'custom'];
+
+/**
+ * 各交易风格的默认策略
+ * 日内交易追随短线动量，波段交易做均值回归，长期持有等待突破
+ */
+export const DEFAULT_STRATEGY_BY_STYLE: Record<TradingStyle, StrategyType> = {
+  day_trading: 'momentum',
+  swing_trading: 'mean_reversion',
+  position_trading: 'breakout',
+};
+
+/**
+ * 判断是否为合法的策略类型
+ */
+export function isStrategyType(value: unknown): value is StrategyType {
+  return typeof value === 'string' && (STRATEGY_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * 解析策略类型：模板参数 strategy 优先，否则按交易风格选择
+ *
+ * @param tradingStyle - 交易风格
+ * @param parameters - 模板参数
+ * @returns 策略类型
+ */
+export function resolveStrategyType(tradingStyle: TradingStyle, parameters: Record<string, any>): StrategyType {
+  if (isStrategyType(parameters.strategy)) {
+    return parameters.strategy;
+  }
+  return DEFAULT_STRATEGY_BY_STYLE[tradingStyle] ?? DEFAULT_STRATEGY_BY_STYLE.swing_trading;
+}
+
+/**
+ * 由交易员模板数据生成策略配置
+ *
+ * @param template - 模板中与策略相关的字段
+ * @returns 策略配置
+ */
+export function createStrategyConfig(template: {
+  riskProfile: RiskProfile;
+  tradingStyle?: TradingStyle;
+  maxPositions?: number;
+  parameters?: Record<string, any>;
+}): StrategyConfig {
+  const tradingStyle = template.tradingStyle ?? 'swing_trading';
+  const parameters = template.parameters && typeof template.parameters === 'object' ? { ...template.parameters } : {};
+
+  return {
+    type: resolveStrategyType(tradingStyle, parameters),
+    tradingStyle,
+    riskProfile: template.riskProfile,
+    maxPositions: template.maxPositions && template.maxPositions > 0 ? template.maxPositions : 10,
+    parameters,
+  };
+}
+
+/**
+ * 读取数值参数，缺失或非法时返回默认值
+ *
+ * @param parameters - 模板参数
+ * @param key - 参数名
+ * @param defaultValue - 默认值
+ * @param range - 可选的取值范围（超出时截断）
+ * @returns 参数值
+ */
+export function getNumberParameter(
+  parameters: Record<string, any>,
+  key: string,
+  defaultValue: number,
+  range?: { min?: number; max?: number }
+): number {
+  const raw = parameters[key];
+  const value = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return defaultValue;
+  }
+
+  let result = value;
+  if (range?.min !== undefined) {
+    result = Math.max(range.min, result);
+  }
+  if (range?.max !== undefined) {
+    result = Math.min(range.max, result);
+  }
+  return result;
+}
+
+/**
+ * 读取 K 线周期参数，缺失或不在允许列表中时返回默认值
+ *
+ * @param parameters - 模板参数
+ * @param key - 参数名
+ * @param defaultValue - 默认周期
+ * @param allowed - 允许的周期
+ * @returns K 线周期
+ */
+export function getGranularityParameter(
+  parameters: Record<string, any>,
+  key: string,
+  defaultValue: Granularity,
+  allowed: readonly Granularity[]
+): Granularity {
+  const value = parameters[key];
+  return allowed.includes(value) ? value : defaultValue;
+}
+
+/**
+ * 创建空的策略决策
+ */
+export function createEmptyDecision(): StrategyDecision {
+  return { orders: [], cancelOrderIds: [] };
+}
+
+/**
+ * 各风险偏好的单只股票目标仓位（占总资产比例）
+ */
+export const POSITION_SIZE_BY_RISK: Record<RiskProfile, number> = {
+  conservative: 0.05,
+  moderate: 0.1,
+  aggressive: 0.2,
+};
+
+/**
+ * 按目标金额计算整手买入数量
+ *
+ * @param amount - 目标金额
+ * @param price - 价格
+ * @param lotSize - 每手股数
+ * @returns 买入数量（整手），不足一手时为 0
+ */
+export function calculateLotQuantity(amount: number, price: number, lotSize: number): number {
+  if (amount <= 0 || price <= 0 || lotSize <= 0) {
+    return 0;
+  }
+  return Math.floor(amount / price / lotSize) * lotSize;
+}
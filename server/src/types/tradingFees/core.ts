@@ -0,0 +1,42 @@
+/**
+ * Trading Fees Core Types
+ * 交易费用核心类型定义
+ *
+ * 成交费用明细直接复用 shared/types/trading.ts 中的 TradeFees，各字段含义：
+ * - commission：券商佣金（买卖双向，按订单累计成交金额计收，不足最低收费按最低收费）
+ * - stampDuty：印花税（仅卖出）
+ * - transferFee：过户费（买卖双向）
+ * - total：本笔成交实际扣除的全部费用
+ *
+ * @feature trading-fees
+ * @author System
+ * @since 2026-10-18
+ */
+
+export type { TradeFees } from '../../../../shared/types/trading';
+
+/**
+ * 费率配置（每个交易所一份）
+ */
+export interface FeeSchedule {
+  /** 是否收取交易费用 */
+  enabled: boolean;
+  /** 佣金费率（如 0.00025 表示万分之二点五） */
+  commissionRate: number;
+  /** 单笔订单最低佣金（元） */
+  minCommission: number;
+  /** 印花税率（仅卖出） */
+  stampDutyRate: number;
+  /** 过户费率 */
+  transferFeeRate: number;
+}
+
+/**
+ * 订单在本笔成交之前的累计状态（用于按订单计收最低佣金）
+ */
+export interface OrderFeeState {
+  /** 此前累计成交金额 */
+  filledAmount: number;
+  /** 此前已收取的佣金 */
+  commission: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * Trading Fees Library
+ * 交易费用 - 券商佣金（含最低收费）、印花税（仅卖出）和过户费
+ *
+ * 费率配置按交易所加载（server/trading-fees.yml），成交时为买卖双方分别计算费用，
+ * 明细记录在成交回报 TradeExecution.fees 中，并从交易员现金中扣除
+ *
+ * @feature trading-fees
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
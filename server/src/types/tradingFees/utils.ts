@@ -0,0 +1,75 @@
+/**
+ * Trading Fees Utilities
+ * 交易费用工具函数
+ *
+ * @feature trading-fees
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradeAction } from '../../../../shared/types/trading';
+import type { FeeSchedule, OrderFeeState, TradeFees } from './core';
+
+/**
+ * 获取默认费率配置（A 股常见费率）
+ */
+export function getDefaultFeeSchedule(): FeeSchedule {
+  return {
+    enabled: true,
+    commissionRate: 0.00025,
+    minCommission: 5,
+    stampDutyRate: 0.0005,
+    transferFeeRate: 0.00001,
+  };
+}
+
+/**
+ * 创建零费用明细
+ */
+export function createEmptyFees(): TradeFees {
+  return { commission: 0, stampDuty: 0, transferFee: 0, total: 0 };
+}
+
+/**
+ * 费用保留两位小数（分）
+ */
+export function roundFee(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 计算一笔成交的费用
+ * 佣金按订单累计成交金额计算并与最低佣金比较，本笔只收取差额，
+ * 同一订单分多笔成交时最低佣金只收一次
+ *
+ * @param action - 买卖方向
+ * @param amount - 本笔成交金额
+ * @param schedule - 费率配置
+ * @param previous - 订单此前的累计状态，省略时视为订单首笔成交
+ * @returns 费用明细
+ */
+export function calculateTradeFees(
+  action: TradeAction,
+  amount: number,
+  schedule: FeeSchedule,
+  previous: OrderFeeState = { filledAmount: 0, commission: 0 }
+): TradeFees {
+  if (!schedule.enabled || amount <= 0) {
+    return createEmptyFees();
+  }
+
+  const orderCommission = Math.max(
+    roundFee((previous.filledAmount + amount) * schedule.commissionRate),
+    schedule.minCommission
+  );
+  const commission = roundFee(Math.max(orderCommission - previous.commission, 0));
+  const stampDuty = action === 'sell' ? roundFee(amount * schedule.stampDutyRate) : 0;
+  const transferFee = roundFee(amount * schedule.transferFeeRate);
+
+  return {
+    commission,
+    stampDuty,
+    transferFee,
+    total: roundFee(commission + stampDuty + transferFee),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Trading Rules Core Types
+ * 交易规则核心类型定义
+ *
+ * 本文件定义 A 股交易规则相关的配置和数据结构
+ * 包括涨跌停、最小交易单位、最小价格变动单位和 T+1 交收
+ *
+ * @feature a-share-trading-rules
+ * @author System
+ * @since 2026-10-18
+ */
+
+/**
+ * 涨跌停规则
+ */
+export interface PriceLimitRule {
+  /** 默认涨跌幅限制（百分比，如 10 表示 ±10%） */
+  defaultPercent: number;
+  /** 按股票类别覆盖的涨跌幅限制（百分比） */
+  categoryOverrides: Record<string, number>;
+}
+
+/**
+ * 交易规则配置（每个交易所一份）
+ */
+export interface TradingRuleConfig {
+  /** 是否启用交易规则 */
+  enabled: boolean;
+  /** 涨跌停规则 */
+  priceLimit: PriceLimitRule;
+  /** 最小交易单位（股，买入须为整数倍） */
+  lotSize: number;
+  /** 最小价格变动单位 */
+  tickSize: number;
+  /** 是否实行 T+1（当日买入次日可卖） */
+  tPlusOne: boolean;
+}
+
+/**
+ * 当日涨跌停价格区间
+ */
+export interface PriceLimitBand {
+  /** 前收盘价 */
+  previousClose: number;
+  /** 涨跌幅限制（百分比） */
+  percent: number;
+  /** 涨停价 */
+  limitUp: number;
+  /** 跌停价 */
+  limitDown: number;
+}
+
+/**
+ * 交易员单只股票的交收持仓
+ */
+export interface SettlementPosition {
+  /** 已交收（可卖）数量 */
+  settled: number;
+  /** 当日买入未交收数量 */
+  unsettled: number;
+}
+
+/**
+ * 订单规则检查上下文
+ */
+export interface RuleCheckContext {
+  /** 当日涨跌停区间 */
+  band: PriceLimitBand;
+  /** 交易员在该股票上的交收持仓 */
+  position: SettlementPosition;
+  /** 交易员在该股票上其他未终结卖单的剩余数量 */
+  openSellQuantity: number;
+}
@@ -0,0 +1,23 @@
+/**
+ * Trading Rules Library
+ * 交易规则 - A 股涨跌停、整手交易、价格步长与 T+1 交收
+ *
+ * 规则配置按交易所加载（server/trading-rules.yml），可按股票类别覆盖涨跌幅
+ * 违反规则的订单以 OrderError 拒绝，错误代码见 OrderErrorCode
+ *
+ * @feature a-share-trading-rules
+ * @author System
+ * @since 2026-10-18
+ */
+
+// Core types
+export * from './core';
+
+// Utility functions
+export * from './utils';
+
+// Validator
+export { validateOrderRules } from './validator';
+
+// SettlementTracker
+export { SettlementTracker } from './settlement';
@@ -0,0 +1,119 @@
+/**
+ * Settlement Tracker Implementation
+ * 交收持仓跟踪实现
+ *
+ * 本文件实现 T+1 交收所需的持仓跟踪，负责：
+ * 1. 记录交易员初始持仓（视为已交收）
+ * 2. 根据成交更新持仓：买入计入未交收，卖出扣减已交收
+ * 3. 交易日切换时将未交收持仓转为已交收
+ *
+ * @feature a-share-trading-rules
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { MatchedTrade } from '../orderBook';
+import type { SettlementPosition } from './core';
+
+/**
+ * 交收持仓跟踪器
+ * 每个 ExchangeInstance 持有一个实例
+ */
+export class SettlementTracker {
+  /** 持仓：traderId -> symbol -> SettlementPosition */
+  private positions: Map<string, Map<string, SettlementPosition>> = new Map();
+
+  /**
+   * @param tPlusOne - 是否实行 T+1；关闭时买入立即可卖
+   */
+  constructor(private tPlusOne: boolean = true) {}
+
+  /**
+   * 设置是否实行 T+1
+   *
+   * @param tPlusOne - 是否实行 T+1
+   */
+  setTPlusOne(tPlusOne: boolean): void {
+    this.tPlusOne = tPlusOne;
+    if (!tPlusOne) {
+      this.settle();
+    }
+  }
+
+  /**
+   * 增加已交收持仓（初始持仓）
+   *
+   * @param traderId - 交易员 ID
+   * @param symbol - 股票代码
+   * @param quantity - 数量
+   */
+  seed(traderId: string, symbol: string, quantity: number): void {
+    this.getOrCreate(traderId, symbol).settled += quantity;
+  }
+
+  /**
+   * 根据成交更新买卖双方持仓
+   *
+   * @param trade - 成交
+   */
+  recordTrade(trade: MatchedTrade): void {
+    const buyer = this.getOrCreate(trade.buyerId, trade.symbol);
+    if (this.tPlusOne) {
+      buyer.unsettled += trade.quantity;
+    } else {
+      buyer.settled += trade.quantity;
+    }
+
+    this.getOrCreate(trade.sellerId, trade.symbol).settled -= trade.quantity;
+  }
+
+  /**
+   * 交收：将全部未交收持仓转为已交收（交易日切换时调用）
+   */
+  settle(): void {
+    for (const symbols of this.positions.values()) {
+      for (const position of symbols.values()) {
+        position.settled += position.unsettled;
+        position.unsettled = 0;
+      }
+    }
+  }
+
+  /**
+   * 获取交收持仓
+   *
+   * @param traderId - 交易员 ID
+   * @param symbol - 股票代码
+   * @returns 持仓副本，无记录时返回空持仓
+   */
+  getPosition(traderId: string, symbol: string): SettlementPosition {
+    const position = this.positions.get(traderId)?.get(symbol);
+    return position ? { ...position } : { settled: 0, unsettled: 0 };
+  }
+
+  /**
+   * 清空所有持仓
+   */
+  clear(): void {
+    this.positions.clear();
+  }
+
+  /**
+   * 获取或创建持仓记录
+   */
+  private getOrCreate(traderId: string, symbol: string): SettlementPosition {
+    let symbols = this.positions.get(traderId);
+    if (!symbols) {
+      symbols = new Map();
+      this.positions.set(traderId, symbols);
+    }
+
+    let position = symbols.get(symbol);
+    if (!position) {
+      position = { settled: 0, unsettled: 0 };
+      symbols.set(symbol, position);
+    }
+
+    return position;
+  }
+}
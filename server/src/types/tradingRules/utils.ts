@@ -0,0 +1,109 @@
+/**
+ * Trading Rules Utilities
+ * 交易规则工具函数
+ *
+ * 包含涨跌停价格计算、价格步长对齐等纯函数
+ *
+ * @feature a-share-trading-rules
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradingRuleConfig, PriceLimitBand } from './core';
+
+/**
+ * 获取默认交易规则配置（A 股主板）
+ *
+ * @returns 默认配置
+ */
+export function getDefaultTradingRuleConfig(): TradingRuleConfig {
+  return {
+    enabled: true,
+    priceLimit: {
+      defaultPercent: 10,
+      categoryOverrides: {},
+    },
+    lotSize: 100,
+    tickSize: 0.01,
+    tPlusOne: true,
+  };
+}
+
+/**
+ * 将价格四舍五入到最小价格变动单位
+ *
+ * @param price - 原始价格
+ * @param tickSize - 最小价格变动单位
+ * @returns 对齐后的价格
+ */
+export function roundToTick(price: number, tickSize: number): number {
+  const ticks = Math.round(price / tickSize);
+  return Number((ticks * tickSize).toFixed(getTickDecimals(tickSize)));
+}
+
+/**
+ * 判断价格是否为最小价格变动单位的整数倍
+ *
+ * @param price - 价格
+ * @param tickSize - 最小价格变动单位
+ * @returns 是否对齐
+ */
+export function isOnTick(price: number, tickSize: number): boolean {
+  return Math.abs(roundToTick(price, tickSize) - price) < tickSize * 1e-6;
+}
+
+/**
+ * 获取股票类别适用的涨跌幅限制
+ *
+ * @param config - 交易规则配置
+ * @param category - 股票类别
+ * @returns 涨跌幅限制（百分比）
+ */
+export function getPriceLimitPercent(config: TradingRuleConfig, category: string): number {
+  return config.priceLimit.categoryOverrides[category] ?? config.priceLimit.defaultPercent;
+}
+
+/**
+ * 计算当日涨跌停区间
+ * 涨跌停价 = 前收盘价 × (1 ± 涨跌幅)，四舍五入到最小价格变动单位
+ *
+ * @param config - 交易规则配置
+ * @param category - 股票类别
+ * @param previousClose - 前收盘价
+ * @returns 涨跌停区间
+ */
+export function calculatePriceLimitBand(
+  config: TradingRuleConfig,
+  category: string,
+  previousClose: number
+): PriceLimitBand {
+  const percent = getPriceLimitPercent(config, category);
+  const ratio = percent / 100;
+
+  return {
+    previousClose,
+    percent,
+    limitUp: roundToTick(previousClose * (1 + ratio), config.tickSize),
+    limitDown: Math.max(config.tickSize, roundToTick(previousClose * (1 - ratio), config.tickSize)),
+  };
+}
+
+/**
+ * 将价格限制在涨跌停区间内
+ *
+ * @param price - 价格
+ * @param band - 涨跌停区间
+ * @returns 限制后的价格
+ */
+export function clampToBand(price: number, band: PriceLimitBand): number {
+  return Math.min(band.limitUp, Math.max(band.limitDown, price));
+}
+
+/**
+ * 获取最小价格变动单位的小数位数
+ */
+function getTickDecimals(tickSize: number): number {
+  const text = tickSize.toString();
+  const index = text.indexOf('.');
+  return index >= 0 ? text.length - index - 1 : 0;
+}
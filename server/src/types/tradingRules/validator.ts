@@ -0,0 +1,112 @@
+/**
+ * Trading Rules Validator
+ * 交易规则校验
+ *
+ * 按交易规则配置校验订单，违反规则时抛出带原因代码的 OrderError：
+ * - PRICE_LIMIT_EXCEEDED：限价超出当日涨跌停区间
+ * - INVALID_TICK_SIZE：价格不是最小价格变动单位的整数倍
+ * - INVALID_LOT_SIZE：买入数量不是整手；卖出时零股部分须一次性卖出
+ * - T1_SELL_RESTRICTED：卖出数量包含当日买入未交收的股份
+ * - INSUFFICIENT_POSITION：卖出数量超过持仓
+ *
+ * 涨跌停只检查订单自带的限价；市价单和触发后的止损单由订单簿按当日涨跌停区间限制成交价格，
+ * 隔日保留的 GTC 订单由交易所在跨日时重新检查
+ *
+ * @feature a-share-trading-rules
+ * @author System
+ * @since 2026-10-18
+ */
+
+import type { TradeOrder } from '../../../../shared/types/trading';
+import { OrderError, OrderErrorCode, getRemainingQuantity } from '../orderBook';
+import type { TradingRuleConfig, RuleCheckContext } from './core';
+import { isOnTick } from './utils';
+
+/**
+ * 校验订单是否符合交易规则
+ *
+ * @param order - 订单（改单时为修改后的订单）
+ * @param config - 交易规则配置
+ * @param context - 规则检查上下文
+ * @throws OrderError 如果订单违反交易规则
+ */
+export function validateOrderRules(order: TradeOrder, config: TradingRuleConfig, context: RuleCheckContext): void {
+  if (!config.enabled) {
+    return;
+  }
+
+  validatePrices(order, config, context);
+  validateQuantity(order, config, context);
+}
+
+/**
+ * 校验价格：价格步长和涨跌停
+ */
+function validatePrices(order: TradeOrder, config: TradingRuleConfig, context: RuleCheckContext): void {
+  const { band } = context;
+  const limitPrice = order.type === 'stop_limit' ? order.limitPrice : order.type === 'limit' ? order.price : undefined;
+
+  for (const [field, price] of [['price', limitPrice], ['stopPrice', order.stopPrice]] as const) {
+    if (price !== undefined && !isOnTick(price, config.tickSize)) {
+      throw new OrderError(
+        `${field} ${price} is not a multiple of tick size ${config.tickSize}`,
+        OrderErrorCode.INVALID_TICK_SIZE,
+        order.id
+      );
+    }
+  }
+
+  if (limitPrice !== undefined && (limitPrice > band.limitUp || limitPrice < band.limitDown)) {
+    throw new OrderError(
+      `Price ${limitPrice} is outside the daily limit band ${band.limitDown} - ${band.limitUp} (±${band.percent}% of ${band.previousClose})`,
+      OrderErrorCode.PRICE_LIMIT_EXCEEDED,
+      order.id
+    );
+  }
+}
+
+/**
+ * 校验数量：整手、持仓和 T+1
+ */
+function validateQuantity(order: TradeOrder, config: TradingRuleConfig, context: RuleCheckContext): void {
+  const quantity = getRemainingQuantity(order);
+
+  if (order.action === 'buy') {
+    if (order.quantity % config.lotSize !== 0) {
+      throw new OrderError(
+        `Buy quantity ${order.quantity} must be a multiple of the board lot ${config.lotSize}`,
+        OrderErrorCode.INVALID_LOT_SIZE,
+        order.id
+      );
+    }
+    return;
+  }
+
+  const { position, openSellQuantity } = context;
+  const available = position.settled - openSellQuantity;
+
+  if (quantity > available) {
+    if (quantity <= available + position.unsettled) {
+      throw new OrderError(
+        `Sell quantity ${quantity} exceeds sellable ${Math.max(0, available)}; ${position.unsettled} shares bought today settle on the next trading day (T+1)`,
+        OrderErrorCode.T1_SELL_RESTRICTED,
+        order.id
+      );
+    }
+    throw new OrderError(
+      `Sell quantity ${quantity} exceeds available position ${Math.max(0, available)}`,
+      OrderErrorCode.INSUFFICIENT_POSITION,
+      order.id
+    );
+  }
+
+  // 零股部分只能一次性卖出
+  const oddLot = quantity % config.lotSize;
+  if (oddLot !== 0 && oddLot !== available % config.lotSize) {
+    throw new OrderError(
+      `Sell quantity ${quantity} must be a multiple of the board lot ${config.lotSize} unless selling the whole odd-lot position`,
+      OrderErrorCode.INVALID_LOT_SIZE,
+      order.id
+    );
+  }
+}
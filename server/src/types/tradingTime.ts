@@ -35,6 +35,17 @@ export enum TradingTimeState {
   CONFIGURED_NON_TRADING = 'CONFIGURED_NON_TRADING'
 }
 
+/**
+ * 集合竞价类型枚举
+ */
+export enum AuctionType {
+  /** 开盘集合竞价（产生开盘价） */
+  OPENING = 'OPENING',
+  
+  /** 收盘集合竞价（产生收盘价） */
+  CLOSING = 'CLOSING'
+}
+
 /**
  * 时间区间接口
  */
@@ -47,6 +58,8 @@ export interface TimeInterval {
   end: string;
   /** 描述（可选） */
   description?: string;
+  /** 集合竞价类型（可选，仅非交易区间有效） */
+  auction?: AuctionType;
 }
 
 /**
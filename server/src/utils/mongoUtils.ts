@@ -0,0 +1,42 @@
+/**
+ * MongoDB 工具函数
+ * 识别批量写入的错误类型
+ */
+
+// MongoDB 重复键错误代码
+export const DUPLICATE_KEY_ERROR = 11000
+
+/**
+ * 读取错误对象上的错误代码
+ */
+const getErrorCode = (error: unknown): unknown => {
+  if (typeof error !== 'object' || error === null) {
+    return undefined
+  }
+  if ('code' in error && error.code !== undefined) {
+    return error.code
+  }
+  // insertMany 的单条写入错误把代码放在 err 上
+  return 'err' in error ? getErrorCode(error.err) : undefined
+}
+
+/**
+ * 判断是否为仅包含重复键的写入错误
+ * 失败批次重试时，已写入的记录会触发重复键错误，视为写入成功
+ */
+export const isDuplicateOnlyError = (error: unknown): boolean => {
+  if (getErrorCode(error) === DUPLICATE_KEY_ERROR) {
+    return true
+  }
+  if (typeof error !== 'object' || error === null || !('writeErrors' in error)) {
+    return false
+  }
+  const { writeErrors } = error
+  return Array.isArray(writeErrors) && writeErrors.length > 0 &&
+    writeErrors.every(writeError => getErrorCode(writeError) === DUPLICATE_KEY_ERROR)
+}
+
+export default {
+  DUPLICATE_KEY_ERROR,
+  isDuplicateOnlyError,
+}
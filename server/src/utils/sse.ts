@@ -0,0 +1,68 @@
+/**
+ * Server-Sent Events 工具
+ * 将 Express 响应转换为事件流，定时发送注释行保持连接，客户端断开时自动清理
+ */
+
+import type { Request, Response } from 'express'
+
+// 心跳间隔（避免代理因空闲断开连接）
+const HEARTBEAT_INTERVAL_MS = 15000
+
+// 客户端断线后的重连间隔
+const RETRY_INTERVAL_MS = 3000
+
+export interface EventStream {
+  /** 发送事件 */
+  send(event: string, data: unknown): void
+  /** 关闭事件流 */
+  close(): void
+  /** 注册关闭回调（客户端断开或主动关闭时调用一次） */
+  onClose(listener: () => void): void
+}
+
+/**
+ * 打开事件流
+ * Cache-Control 包含 no-transform，compression 中间件不会缓冲事件流
+ */
+export const openEventStream = (req: Request, res: Response): EventStream => {
+  let closed = false
+  let eventId = 0
+  const closeListeners: Array<() => void> = []
+
+  res.status(200)
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-cache, no-transform')
+  res.setHeader('Connection', 'keep-alive')
+  // 关闭 Nginx 等反向代理的响应缓冲
+  res.setHeader('X-Accel-Buffering', 'no')
+  res.flushHeaders()
+  res.write(`retry: ${RETRY_INTERVAL_MS}\n\n`)
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n')
+  }, HEARTBEAT_INTERVAL_MS)
+
+  const handleClose = (): void => {
+    if (closed) return
+    closed = true
+    clearInterval(heartbeat)
+    closeListeners.forEach(listener => listener())
+  }
+
+  req.on('close', handleClose)
+
+  return {
+    send(event: string, data: unknown): void {
+      if (closed) return
+      res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    },
+    close(): void {
+      if (closed) return
+      res.end()
+      handleClose()
+    },
+    onClose(listener: () => void): void {
+      closeListeners.push(listener)
+    },
+  }
+}
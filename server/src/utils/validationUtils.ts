@@ -1,4 +1,6 @@
 import mongoose from 'mongoose'
+import { PriceModelConfig, PriceModelError, validatePriceModelConfig } from '../types/priceModel'
+import { FactorExposure, validateFactorExposure } from '../types/marketFactor'
 
 // 验证结果接口
 export interface ValidationError {
@@ -188,6 +190,8 @@ interface StockTemplateData {
   totalShares?: number
   description?: string
   category?: string
+  priceModel?: PriceModelConfig | null
+  factorExposure?: Partial<FactorExposure> | null
 }
 
 // 交易员模板数据接口
@@ -256,6 +260,23 @@ export const validators = {
       )
     }
 
+    if (data.priceModel) {
+      try {
+        validatePriceModelConfig(data.priceModel)
+      } catch (error) {
+        if (!(error instanceof PriceModelError)) throw error
+        result.addError(error.parameter ? `priceModel.${error.parameter}` : 'priceModel', error.message)
+      }
+    }
+
+    if (data.factorExposure) {
+      try {
+        validateFactorExposure(data.factorExposure)
+      } catch (error) {
+        result.addError('factorExposure', (error as Error).message)
+      }
+    }
+
     return result
   },
 
@@ -19,6 +19,7 @@ import {
   StockTemplate,
   MarketTemplateStage
 } from '../types/business/marketTemplate';
+import type { SeedBar } from '../../types/klineSeed';
 import {
   sendProgress,
   sendError,
@@ -27,6 +28,7 @@ import {
 
 // 导入数据库模型
 import MarketEnvironment from '../../models/marketTemplate';
+import StockTemplateModel from '../../models/stockTemplate';
 import type { IMarketTemplateDocument } from '../../models/marketTemplate';
 
 /**
@@ -165,6 +167,7 @@ export class MarketTemplateTaskHandler implements TaskHandler<MarketTemplateRequ
       _id: this.cachedMarketTemplate._id.toString(),
       name: this.cachedMarketTemplate.name || `Market Template ${templateId}`,
       description: this.cachedMarketTemplate.description || `Market environment template ${templateId}`,
+      scenario: this.cachedMarketTemplate.scenario ?? undefined,
       createdAt: this.cachedMarketTemplate.createdAt,
       updatedAt: this.cachedMarketTemplate.updatedAt
     };
@@ -190,6 +193,15 @@ export class MarketTemplateTaskHandler implements TaskHandler<MarketTemplateRequ
         _id: traderData.id,
         name: traderData.name,
         riskProfile: traderData.riskProfile,
+        tradingStyle: traderData.tradingStyle,
+        maxPositions: traderData.maxPositions,
+        parameters: traderData.parameters ? { ...traderData.parameters } : {},
+        holdings: (traderData.holdings || []).map(holding => ({
+          stockSymbol: holding.stockSymbol,
+          stockName: holding.stockName,
+          quantity: holding.quantity,
+          averagePrice: holding.averagePrice
+        })),
         initialCapital: traderData.initialCapital,
         createdAt: traderData.createdAt
       });
@@ -210,6 +222,9 @@ export class MarketTemplateTaskHandler implements TaskHandler<MarketTemplateRequ
     }
 
     const stocks: StockTemplate[] = [];
+    const templateIds = this.cachedMarketTemplate.stocks.map(stockData => stockData.templateId);
+    const seedHistories = await this.readSeedHistories(templateIds);
+    const priceSettings = await this.readPriceSettings(templateIds);
 
     // 转换股票数据
     for (let i = 0; i < this.cachedMarketTemplate.stocks.length; i++) {
@@ -222,6 +237,8 @@ export class MarketTemplateTaskHandler implements TaskHandler<MarketTemplateRequ
         category: stockData.category || 'General',
         issuePrice: stockData.issuePrice,
         totalShares: stockData.totalShares,
+        seedHistory: seedHistories.get(String(stockData.templateId)),
+        ...priceSettings.get(String(stockData.templateId)),
         createdAt: stockData.createdAt
       });
     }
@@ -230,6 +247,52 @@ export class MarketTemplateTaskHandler implements TaskHandler<MarketTemplateRequ
     return stocks;
   }
 
+  /**
+   * 从股票模板读取种子历史（市场模板中的股票是创建时的快照，不包含种子历史）
+   *
+   * @returns 股票模板 ID -> 种子日 K 线
+   */
+  private async readSeedHistories(templateIds: mongoose.Types.ObjectId[]): Promise<Map<string, SeedBar[]>> {
+    const templates = await StockTemplateModel.find({
+      _id: { $in: templateIds },
+      'seedHistory.barCount': { $gt: 0 }
+    }).select('seedHistory.bars').lean();
+
+    const seedHistories = new Map<string, SeedBar[]>();
+    for (const template of templates) {
+      if (template.seedHistory?.bars) {
+        seedHistories.set(String(template._id), template.seedHistory.bars);
+      }
+    }
+    return seedHistories;
+  }
+
+  /**
+   * 从股票模板读取价格模型和因子暴露（模板修改后，新建的市场实例即按新设置运行）
+   *
+   * @returns 股票模板 ID -> 价格模型和因子暴露
+   */
+  private async readPriceSettings(
+    templateIds: mongoose.Types.ObjectId[]
+  ): Promise<Map<string, Pick<StockTemplate, 'priceModel' | 'factorExposure'>>> {
+    const templates = await StockTemplateModel.find({
+      _id: { $in: templateIds },
+      $or: [
+        { priceModel: { $exists: true, $ne: null } },
+        { factorExposure: { $exists: true, $ne: null } }
+      ]
+    }).select('priceModel factorExposure').lean();
+
+    const priceSettings = new Map<string, Pick<StockTemplate, 'priceModel' | 'factorExposure'>>();
+    for (const template of templates) {
+      priceSettings.set(String(template._id), {
+        priceModel: template.priceModel ?? undefined,
+        factorExposure: template.factorExposure ?? undefined
+      });
+    }
+    return priceSettings;
+  }
+
   /**
    * 验证模板数据完整性
    */
@@ -5,6 +5,10 @@
  */
 
 import { BaseTaskPayload, BaseTaskResult, TaskType } from '../worker/genericTask';
+import type { SeedBar } from '../../../types/klineSeed';
+import type { PriceModelConfig } from '../../../types/priceModel';
+import type { FactorExposure } from '../../../types/marketFactor';
+import type { MarketScenario } from '../../../types/marketScenario';
 
 /**
  * 市场模板请求
@@ -22,6 +26,8 @@ export interface ExchangeTemplate {
   _id: string;
   name: string;
   description: string;
+  /** 市场剧本（市场模板配置了剧本时） */
+  scenario?: MarketScenario;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -33,6 +39,15 @@ export interface TraderTemplate {
   _id: string;
   name: string;
   riskProfile: 'conservative' | 'moderate' | 'aggressive';
+  tradingStyle?: 'day_trading' | 'swing_trading' | 'position_trading';
+  maxPositions?: number;
+  parameters?: Record<string, any>;
+  holdings?: Array<{
+    stockSymbol: string;
+    stockName: string;
+    quantity: number;
+    averagePrice: number;
+  }>;
   initialCapital: number;
   createdAt: Date;
 }
@@ -47,6 +62,12 @@ export interface StockTemplate {
   category: string;
   issuePrice: number;
   totalShares: number;
+  /** 种子历史日 K 线（股票模板导入了种子历史时） */
+  seedHistory?: SeedBar[];
+  /** 价格模型（股票模板未配置时使用默认随机游走） */
+  priceModel?: PriceModelConfig;
+  /** 因子暴露（省略的 β 默认为 1） */
+  factorExposure?: Partial<FactorExposure>;
   createdAt: Date;
 }
 
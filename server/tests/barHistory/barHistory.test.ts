@@ -0,0 +1,203 @@
+/**
+ * K 线历史 Jest 测试套件
+ *
+ * 覆盖聚合数据点与 K 线历史记录的转换、写入失败重试，
+ * 以及时间序列管理器按保留规则清理内存并从存储读取较早的范围，数据库未连接时不清理内存
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/barHistory/barHistory.test.ts
+ */
+
+import {
+  BarHistoryRecord,
+  BarHistoryWriter,
+  buildBarHistoryFilter,
+  createBarHistoryRecord,
+  toAggregatedPoint
+} from '../../src/types/barHistory'
+import {
+  AggregatedDataStore,
+  AggregatedPoint,
+  DataType,
+  Granularity,
+  Metric,
+  MissingDataStrategy,
+  TimeSeriesManager,
+  TradingCalendar
+} from '../../src/types/timeSeries'
+
+const SERIES_ID = '600000_price'
+const CONTEXT = { exchangeId: 'env_1', instanceCreatedAt: new Date(1000) }
+
+// 2026-01-05 为周一
+function at(day: number, hours: number, minutes: number): Date {
+  return new Date(2026, 0, day, hours, minutes)
+}
+
+function createManager(): TimeSeriesManager {
+  const manager = new TimeSeriesManager({
+    calendar: new TradingCalendar({
+      isTradingDay: (date: Date) => date.getDay() >= 1 && date.getDay() <= 5,
+      sessions: [
+        { start: '09:30', end: '11:30' },
+        { start: '13:00', end: '15:00' }
+      ]
+    })
+  })
+  manager.createSeries({
+    seriesId: SERIES_ID,
+    name: '600000 Price',
+    dataType: DataType.CONTINUOUS,
+    metrics: [Metric.OPEN, Metric.HIGH, Metric.LOW, Metric.CLOSE, Metric.VWAP],
+    missingDataStrategy: MissingDataStrategy.USE_PREVIOUS
+  })
+  return manager
+}
+
+/**
+ * 内存中的聚合数据存储
+ */
+function createMemoryStore(): AggregatedDataStore & { points: AggregatedPoint[], pruned: Array<[Granularity, Date]> } {
+  const points: AggregatedPoint[] = []
+  const pruned: Array<[Granularity, Date]> = []
+  return {
+    points,
+    pruned,
+    save: point => { points.push(point) },
+    query: async options => points.filter(point =>
+      point.seriesId === options.seriesId &&
+      point.granularity === options.granularity &&
+      point.startTime >= options.startTime &&
+      point.endTime <= options.endTime
+    ),
+    prune: async (granularity, before) => { pruned.push([granularity, before]) }
+  }
+}
+
+describe('K 线历史', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('聚合数据点应转换为带全局唯一 ID 的记录并可还原', () => {
+    const point: AggregatedPoint = {
+      seriesId: SERIES_ID,
+      granularity: Granularity.MIN_1,
+      startTime: at(5, 9, 30),
+      endTime: at(5, 9, 31),
+      open: 10,
+      high: 10.2,
+      low: 9.9,
+      close: 10.1,
+      volume: 300,
+      vwap: 10.05,
+      dataPointCount: 3,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+
+    const record = createBarHistoryRecord(point, CONTEXT)
+    expect(record.barId).toBe(`env_1-1000-${SERIES_ID}-MIN_1-${at(5, 9, 30).getTime()}`)
+    expect(record).toMatchObject({ exchangeId: 'env_1', instanceCreatedAt: new Date(1000), close: 10.1, vwap: 10.05 })
+
+    expect(toAggregatedPoint(record)).toMatchObject({ ...point, createdAt: point.endTime, updatedAt: point.endTime })
+    expect(toAggregatedPoint({ ...record, vwap: undefined })).not.toHaveProperty('vwap')
+
+    const query = { seriesId: SERIES_ID, granularity: Granularity.MIN_1, startTime: at(5, 0, 0), endTime: at(6, 0, 0) }
+    expect(buildBarHistoryFilter(query, CONTEXT)).toEqual({
+      ...CONTEXT,
+      seriesId: SERIES_ID,
+      granularity: Granularity.MIN_1,
+      startTime: { $gte: at(5, 0, 0) },
+      endTime: { $lte: at(6, 0, 0) }
+    })
+  })
+
+  test('写入失败的批次应保留并在下次写入时重试', async () => {
+    const written: string[] = []
+    let fail = true
+    const writer = new BarHistoryWriter({
+      insert: async records => {
+        if (fail) throw new Error('db down')
+        written.push(...records.map(r => r.barId))
+      }
+    }, { batchSize: 10 })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    writer.enqueue({ barId: 'B1' } as BarHistoryRecord)
+    writer.enqueue({ barId: 'B2' } as BarHistoryRecord)
+    await writer.flush()
+    expect(writer.getStats()).toMatchObject({ buffered: 2, failedBatches: 1 })
+
+    fail = false
+    await writer.flush()
+    expect(written).toEqual(['B1', 'B2'])
+  })
+
+  test('超出内存保留期的 K 线应从内存清理，查询时从存储读取', async () => {
+    const manager = createManager()
+    const store = createMemoryStore()
+    manager.attachStore(store, { [Granularity.MIN_1]: { memoryTradingDays: 1, storeTradingDays: 3 } })
+
+    // 周五和下周一（跨周末）各两根 1 分钟 K 线
+    manager.addDataPoint(SERIES_ID, { timestamp: at(9, 9, 30), value: 10, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(9, 9, 31), value: 10.1, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(12, 9, 30), value: 10.2, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(12, 9, 31), value: 10.3, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(12, 9, 32), value: 10.4, volume: 100 })
+
+    const range = { seriesId: SERIES_ID, granularity: Granularity.MIN_1, startTime: at(9, 0, 0), endTime: at(13, 0, 0) }
+    expect(manager.queryCachedData(range).map(point => point.close)).toEqual([10.2, 10.3])
+    expect(store.points.filter(point => point.granularity === Granularity.MIN_1)).toHaveLength(4)
+
+    const bars = await manager.queryAggregatedData(range)
+    expect(bars.map(point => point.close)).toEqual([10, 10.1, 10.2, 10.3])
+
+    // 存储保留 3 个交易日：周一往前数到上周四
+    expect(store.pruned).toContainEqual([Granularity.MIN_1, at(8, 0, 0)])
+    // 日 K 线永久保留，不清理
+    expect(store.pruned.some(([granularity]) => granularity === Granularity.DAY_1)).toBe(false)
+  })
+
+  test('数据库未连接（未附加存储或存储不可用）时不应清理内存中的 K 线', () => {
+    const range = { seriesId: SERIES_ID, granularity: Granularity.MIN_1, startTime: at(5, 0, 0), endTime: at(10, 0, 0) }
+    const addDays = (manager: TimeSeriesManager, days: number[]) => {
+      for (const day of days) {
+        manager.addDataPoint(SERIES_ID, { timestamp: at(day, 9, 30), value: day, volume: 100 })
+      }
+    }
+
+    // 未附加存储：全部保留在内存中
+    const detached = createManager()
+    addDays(detached, [5, 6, 7, 8, 9])
+    expect(detached.queryCachedData(range).map(point => point.close)).toEqual([5, 6, 7, 8])
+
+    // 存储不可用时跳过清理，恢复后在下一个数据点按保留规则清理
+    const manager = createManager()
+    const store = createMemoryStore()
+    let available = false
+    store.isAvailable = () => available
+    manager.attachStore(store, { [Granularity.MIN_1]: { memoryTradingDays: 2, storeTradingDays: null } })
+    addDays(manager, [5, 6, 7, 8])
+    expect(manager.queryCachedData(range).map(point => point.close)).toEqual([5, 6, 7])
+
+    available = true
+    addDays(manager, [9])
+    expect(manager.queryCachedData(range).map(point => point.close)).toEqual([8])
+  })
+
+  test('存储读取失败时应只返回内存中的数据', async () => {
+    const manager = createManager()
+    const store = createMemoryStore()
+    store.query = async () => { throw new Error('db down') }
+    manager.attachStore(store, { [Granularity.MIN_1]: { memoryTradingDays: 1, storeTradingDays: null } })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    manager.addDataPoint(SERIES_ID, { timestamp: at(9, 9, 30), value: 10, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(12, 9, 30), value: 10.2, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(12, 9, 31), value: 10.3, volume: 100 })
+
+    const bars = await manager.queryAggregatedData({ seriesId: SERIES_ID, granularity: Granularity.MIN_1, startTime: at(9, 0, 0), endTime: at(13, 0, 0) })
+    expect(bars.map(point => point.close)).toEqual([10.2])
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * 交易所事件日志 Jest 测试套件
+ *
+ * 覆盖容量上限、条件过滤和游标分页
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/exchangeJournal/exchangeJournal.test.ts
+ */
+
+import { ExchangeJournal, JournalEventType } from '../../src/types/exchangeJournal'
+
+function minute(m: number): Date {
+  return new Date(2026, 0, 5, 10, m, 0)
+}
+
+describe('交易所事件日志', () => {
+  let journal: ExchangeJournal
+
+  beforeEach(() => {
+    journal = new ExchangeJournal(100)
+    for (let i = 0; i < 10; i++) {
+      journal.record({
+        type: i % 2 === 0 ? JournalEventType.ORDER_SUBMITTED : JournalEventType.ORDER_FILLED,
+        time: minute(i),
+        traderId: i < 5 ? 't1' : 't2',
+        symbol: i % 3 === 0 ? '600000' : '000001',
+        message: `event ${i}`
+      })
+    }
+  })
+
+  test('超出容量时应丢弃最早的条目', () => {
+    const small = new ExchangeJournal(3)
+    for (let i = 0; i < 5; i++) {
+      small.record({ type: JournalEventType.ORDER_SUBMITTED, time: minute(i), message: `event ${i}` })
+    }
+
+    const page = small.query()
+    expect(page.retained).toBe(3)
+    expect(page.entries.map(e => e.id)).toEqual([5, 4, 3])
+  })
+
+  test('应按交易员、股票、事件类型和时间过滤，最新的在前', () => {
+    expect(journal.query({ traderId: 't1', types: [JournalEventType.ORDER_FILLED] }).entries.map(e => e.message))
+      .toEqual(['event 3', 'event 1'])
+    expect(journal.query({ symbol: '600000' }).entries.map(e => e.message))
+      .toEqual(['event 9', 'event 6', 'event 3', 'event 0'])
+    expect(journal.query({ startTime: minute(7), endTime: minute(8) }).entries.map(e => e.message))
+      .toEqual(['event 8', 'event 7'])
+  })
+
+  test('游标分页应不重不漏地遍历全部匹配条目', () => {
+    const first = journal.query({ traderId: 't2', limit: 2 })
+    expect(first.entries.map(e => e.message)).toEqual(['event 9', 'event 8'])
+    expect(first.nextCursor).toBe(9)
+
+    const second = journal.query({ traderId: 't2', limit: 2, cursor: first.nextCursor! })
+    expect(second.entries.map(e => e.message)).toEqual(['event 7', 'event 6'])
+
+    const last = journal.query({ traderId: 't2', limit: 2, cursor: second.nextCursor! })
+    expect(last.entries.map(e => e.message)).toEqual(['event 5'])
+    expect(last.nextCursor).toBeNull()
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * 技术指标 Jest 测试套件
+ *
+ * 覆盖指标命名解析、各指标的增量计算和信号、指标引擎的默认指标、预热和保留数量，
+ * 以及时间序列管理器在窗口关闭时更新指标
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/indicator/indicator.test.ts
+ */
+
+import {
+  IndicatorEngine,
+  IndicatorSpec,
+  createIndicatorCalculator,
+  getIndicatorName,
+  parseIndicatorName
+} from '../../src/types/indicator'
+import {
+  AggregatedPoint,
+  DataType,
+  Granularity,
+  Metric,
+  MissingDataStrategy,
+  TimeSeriesManager
+} from '../../src/types/timeSeries'
+
+const SERIES_ID = '600000_price'
+const START = new Date(2026, 0, 5, 10, 0)
+
+function createBar(index: number, close: number, high = close, low = close): AggregatedPoint {
+  return {
+    seriesId: SERIES_ID,
+    granularity: Granularity.MIN_1,
+    startTime: new Date(START.getTime() + index * 60000),
+    endTime: new Date(START.getTime() + (index + 1) * 60000),
+    open: close,
+    high,
+    low,
+    close,
+    volume: 100,
+    dataPointCount: 1,
+    createdAt: START,
+    updatedAt: START
+  }
+}
+
+function calculate(spec: IndicatorSpec, bars: AggregatedPoint[]): Array<Record<string, number> | null> {
+  const calculator = createIndicatorCalculator(spec)
+  return bars.map(bar => calculator.update(bar))
+}
+
+describe('技术指标', () => {
+  test('指标名称应包含全部参数，解析时补全默认参数并校验', () => {
+    expect(getIndicatorName({ type: 'MACD' })).toBe('MACD_12_26_9')
+    expect(getIndicatorName({ type: 'MA', params: [5] })).toBe('MA_5')
+    expect(parseIndicatorName('ma_5')).toEqual({ type: 'MA', params: [5] })
+    expect(parseIndicatorName('RSI')).toEqual({ type: 'RSI' })
+    expect(parseIndicatorName('BOLL_20_2.5')).toEqual({ type: 'BOLL', params: [20, 2.5] })
+    expect(parseIndicatorName('MACD_26_12')).toBeNull()
+    expect(parseIndicatorName('MA_5_10')).toBeNull()
+    expect(parseIndicatorName('MA_0')).toBeNull()
+    expect(parseIndicatorName('VOL')).toBeNull()
+  })
+
+  test('均线、RSI、布林带和 ATR 应在预热期后按定义计算', () => {
+    const rising = [1, 2, 3, 4, 5].map((close, i) => createBar(i, close))
+    expect(calculate({ type: 'MA', params: [3] }, rising)).toEqual([null, null, { value: 2 }, { value: 3 }, { value: 4 }])
+    expect(calculate({ type: 'EMA', params: [3] }, rising).slice(2)).toEqual([{ value: 2.25 }, { value: 3.125 }, { value: 4.0625 }])
+
+    const rsi = calculate({ type: 'RSI', params: [3] }, [10, 11, 12, 11, 12].map((close, i) => createBar(i, close)))
+    expect(rsi.slice(0, 3)).toEqual([null, null, null])
+    expect(rsi[3]!.value).toBeCloseTo(66.67, 2)
+    expect(rsi[4]!.value).toBeCloseTo(77.78, 2)
+
+    const [boll] = calculate({ type: 'BOLL', params: [4, 1] }, [9, 11, 9, 11].map((close, i) => createBar(i, close))).slice(-1)
+    expect(boll).toEqual({ upper: 11, middle: 10, lower: 9 })
+
+    const atr = calculate({ type: 'ATR', params: [2] }, [createBar(0, 10, 11, 9), createBar(1, 11, 12, 10), createBar(2, 9, 11, 8)])
+    expect(atr).toEqual([null, { value: 2 }, { value: 2.5 }])
+  })
+
+  test('MACD 和 KDJ 应按国内行情软件的平滑方式计算', () => {
+    const bars = [10, 11, 12].map((close, i) => createBar(i, close))
+
+    const macd = calculate({ type: 'MACD', params: [2, 3, 2] }, bars)
+    expect(macd.slice(0, 2)).toEqual([null, null])
+    expect(macd[2]!.dif).toBeCloseTo(0.3056, 4)
+    expect(macd[2]!.dea).toBeCloseTo(0.2407, 4)
+    expect(macd[2]!.macd).toBeCloseTo(2 * (macd[2]!.dif - macd[2]!.dea), 10)
+
+    const [kdj] = calculate({ type: 'KDJ', params: [3, 3, 3] }, bars).slice(-1)
+    expect(kdj!.k).toBeCloseTo(77.78, 2)
+    expect(kdj!.d).toBeCloseTo(62.96, 2)
+    expect(kdj!.j).toBeCloseTo(107.41, 2)
+  })
+
+  test('引擎应为新序列创建默认指标，记录交叉信号并只保留最近的数据点', () => {
+    const engine = new IndicatorEngine({ defaultIndicators: [{ type: 'MA', params: [2] }], maxHistory: 2 })
+
+    const bars = [3, 2, 1, 4].map((close, i) => createBar(i, close))
+    bars.forEach(bar => engine.update(bar))
+    // 重复输入的 K 线应跳过
+    engine.update(bars[3])
+
+    const history = engine.getHistory(SERIES_ID, Granularity.MIN_1, 'MA_2')
+    expect(history.map(point => point.values.value)).toEqual([1.5, 2.5])
+    expect(history.map(point => point.signal)).toEqual(['hold', 'buy'])
+    expect(engine.getLatest(SERIES_ID, Granularity.MIN_1, 'MA_2')!.timestamp).toEqual(bars[3].startTime)
+
+    // 追加的指标用已收盘 K 线预热
+    const name = engine.track(SERIES_ID, Granularity.MIN_1, { type: 'MA', params: [3] }, () => bars)
+    expect(engine.getHistory(SERIES_ID, Granularity.MIN_1, name).map(point => point.values.value)).toEqual([2, 7 / 3])
+    expect(engine.getSeries(SERIES_ID, Granularity.MIN_1).map(series => series.name)).toEqual(['MA_2', 'MA_3'])
+  })
+
+  test('时间序列管理器应在窗口关闭时更新指标，并按序列过滤', () => {
+    const manager = new TimeSeriesManager()
+    const engine = new IndicatorEngine({
+      defaultIndicators: [{ type: 'MA', params: [2] }],
+      seriesFilter: seriesId => seriesId.endsWith('_price')
+    })
+    manager.attachIndicatorEngine(engine)
+    for (const [seriesId, dataType] of [[SERIES_ID, DataType.CONTINUOUS], ['600000_volume', DataType.DISCRETE]] as const) {
+      manager.createSeries({
+        seriesId,
+        name: seriesId,
+        dataType,
+        metrics: [Metric.CLOSE],
+        missingDataStrategy: MissingDataStrategy.USE_PREVIOUS
+      })
+    }
+
+    for (let minute = 0; minute < 4; minute++) {
+      const timestamp = new Date(START.getTime() + minute * 60000)
+      manager.addDataPoint(SERIES_ID, { timestamp, value: 10 + minute })
+      manager.addDataPoint('600000_volume', { timestamp, value: 100 })
+    }
+
+    // 已关闭 3 根 1 分钟 K 线，最后一根仍在形成
+    const ma = manager.queryIndicator(SERIES_ID, Granularity.MIN_1, { type: 'MA', params: [2] })
+    expect(ma.map(point => point.values.value)).toEqual([10.5, 11.5])
+    expect(engine.getSeries('600000_volume', Granularity.MIN_1)).toEqual([])
+    expect(manager.queryIndicator(SERIES_ID, Granularity.MIN_1, { type: 'RSI', params: [2] }, 1)).toEqual([
+      expect.objectContaining({ values: { value: 100 }, signal: 'sell' })
+    ])
+    expect(() => new TimeSeriesManager().queryIndicator(SERIES_ID, Granularity.MIN_1, { type: 'MA' })).toThrow()
+  })
+})
@@ -0,0 +1,256 @@
+/**
+ * K 线查询 Jest 测试套件
+ *
+ * 覆盖聚合数据到 K 线数据点的转换、正在形成的 K 线、返回数量截取、元数据，
+ * 分时数据的当日均价、累计成交量和多日拼接，以及 K 线和分时查询路由的参数处理
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/kline/kline.test.ts
+ */
+
+import express from 'express'
+import request from 'supertest'
+import {
+  DEFAULT_KLINE_LIMIT,
+  MAX_KLINE_LIMIT,
+  buildKLineResponse,
+  buildTimeShareResponse,
+  getMarketType,
+  getPriceDecimals,
+  normalizeKLineLimit
+} from '../../src/types/kline'
+import {
+  DataType,
+  Granularity,
+  Metric,
+  MissingDataStrategy,
+  TimeSeriesManager
+} from '../../src/types/timeSeries'
+import gameInstanceRoutes from '../../src/routes/gameInstanceRoutes'
+import gameInstanceController from '../../src/controllers/gameInstanceController'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+
+// 路由模块加载控制器单例，避免创建 Worker 线程池
+jest.mock('../../src/services/workerThreadPoolService', () => ({
+  WorkerThreadPoolService: { getInstance: () => ({}) }
+}))
+
+const SERIES_ID = '600000_price'
+const VOLUME_SERIES_ID = '600000_volume'
+
+function at(minute: number, second = 0): Date {
+  return new Date(2026, 0, 5, 10, minute, second)
+}
+
+function createManager(): TimeSeriesManager {
+  const manager = new TimeSeriesManager()
+  manager.createSeries({
+    seriesId: SERIES_ID,
+    name: '600000 Price',
+    dataType: DataType.CONTINUOUS,
+    metrics: [Metric.OPEN, Metric.HIGH, Metric.LOW, Metric.CLOSE, Metric.VWAP],
+    missingDataStrategy: MissingDataStrategy.USE_PREVIOUS
+  })
+  manager.createSeries({
+    seriesId: VOLUME_SERIES_ID,
+    name: '600000 Volume',
+    dataType: DataType.DISCRETE,
+    metrics: [Metric.VOLUME],
+    missingDataStrategy: MissingDataStrategy.USE_ZERO
+  })
+  return manager
+}
+
+function write(manager: TimeSeriesManager, timestamp: Date, price: number, volume: number): void {
+  manager.addDataPoint(SERIES_ID, { timestamp, value: price, volume })
+  manager.addDataPoint(VOLUME_SERIES_ID, { timestamp, value: volume, volume })
+}
+
+function buildTimeShareFrom(manager: TimeSeriesManager, days: number) {
+  const range = { granularity: Granularity.MIN_1, startTime: new Date(0), endTime: new Date(2026, 0, 7) }
+  return buildTimeShareResponse({
+    symbol: '000001',
+    name: '平安银行',
+    tickSize: 0.01,
+    preClose: 9.8,
+    priceBars: manager.queryCachedData({ seriesId: SERIES_ID, ...range }),
+    volumeBars: manager.queryCachedData({ seriesId: VOLUME_SERIES_ID, ...range }),
+    formingPrice: manager.getActiveWindowData(SERIES_ID, Granularity.MIN_1),
+    formingVolume: manager.getActiveWindowData(VOLUME_SERIES_ID, Granularity.MIN_1)
+  }, days)
+}
+
+function buildFrom(manager: TimeSeriesManager, limit = DEFAULT_KLINE_LIMIT) {
+  return buildKLineResponse({
+    symbol: '600000',
+    name: '浦发银行',
+    tickSize: 0.01,
+    preClose: 10,
+    totalShares: 1000000,
+    bars: manager.queryCachedData({ seriesId: SERIES_ID, granularity: Granularity.MIN_1, startTime: new Date(0), endTime: at(59) }),
+    formingBar: manager.getActiveWindowData(SERIES_ID, Granularity.MIN_1)
+  }, Granularity.MIN_1, limit)
+}
+
+describe('K 线查询', () => {
+  test('应转换已收盘的 K 线并将正在形成的窗口作为最后一根 partial K 线', () => {
+    const manager = createManager()
+    manager.addDataPoint(SERIES_ID, { timestamp: at(0, 0), value: 10, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(0, 30), value: 10.4, volume: 300 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(1, 0), value: 10.2, volume: 200 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(1, 20), value: 10.5, volume: 100 })
+
+    const forming = manager.getActiveWindowData(SERIES_ID, Granularity.MIN_1)
+    expect(forming).toMatchObject({ open: 10.2, high: 10.5, low: 10.2, close: 10.5, volume: 300 })
+    expect(forming!.startTime).toEqual(at(1))
+
+    const response = buildFrom(manager)
+    expect(response.metadata).toEqual({
+      symbol: '600000',
+      name: '浦发银行',
+      market: 1,
+      decimal: 2,
+      preClose: 10,
+      total: 2
+    })
+    expect(response.granularity).toBe(Granularity.MIN_1)
+    expect(response.isFull).toBe(true)
+
+    const [first, last] = response.data
+    expect(first).toEqual({
+      timestamp: at(0),
+      open: 10,
+      close: 10.4,
+      high: 10.4,
+      low: 10,
+      volume: 400,
+      amount: 4120,
+      turnoverRate: 0.04
+    })
+    expect(last).toMatchObject({
+      timestamp: at(1),
+      close: 10.5,
+      changeAmount: 0.1,
+      changePercent: 0.96,
+      amplitude: 2.88,
+      partial: true
+    })
+  })
+
+  test('超出数量上限时应只保留最近的 K 线，并以截取前的数量作为 total', () => {
+    const manager = createManager()
+    for (let minute = 0; minute < 5; minute++) {
+      manager.addDataPoint(SERIES_ID, { timestamp: at(minute), value: 10 + minute / 10, volume: 100 })
+    }
+
+    const response = buildFrom(manager, 2)
+    expect(response.metadata.total).toBe(5)
+    expect(response.isFull).toBe(false)
+    expect(response.data.map(point => point.close)).toEqual([10.3, 10.4])
+    // 截取后的第一根仍相对其前一根计算涨跌
+    expect(response.data[0].changeAmount).toBe(0.1)
+    expect(response.data[1].partial).toBe(true)
+  })
+
+  test('应规范化返回数量并推断市场和价格小数位数', () => {
+    expect(normalizeKLineLimit()).toBe(DEFAULT_KLINE_LIMIT)
+    expect(normalizeKLineLimit(NaN)).toBe(DEFAULT_KLINE_LIMIT)
+    expect(normalizeKLineLimit(0)).toBe(DEFAULT_KLINE_LIMIT)
+    expect(normalizeKLineLimit(50)).toBe(50)
+    expect(normalizeKLineLimit(100000)).toBe(MAX_KLINE_LIMIT)
+
+    expect(getMarketType('600000')).toBe(1)
+    expect(getMarketType('000001')).toBe(2)
+    expect(getMarketType('300750')).toBe(2)
+
+    expect(getPriceDecimals(0.01)).toBe(2)
+    expect(getPriceDecimals(0.001)).toBe(3)
+    expect(getPriceDecimals(1)).toBe(0)
+  })
+
+  test('分时数据应计算当日均价和累计成交量，五日模式按交易日拼接并在每日开始时归零', () => {
+    const manager = createManager()
+    const day1 = (minute: number) => new Date(2026, 0, 5, 14, minute)
+    const day2 = (minute: number) => new Date(2026, 0, 6, 9, 30 + minute)
+
+    write(manager, day1(58), 10, 100)
+    write(manager, day1(59), 10.2, 300)
+    write(manager, day2(0), 10.4, 0)
+    write(manager, day2(1), 10.6, 200)
+    write(manager, day2(2), 10.4, 200)
+
+    const today = buildTimeShareFrom(manager, 1)
+    expect(today.metadata).toMatchObject({ symbol: '000001', market: 2, preClose: 10.2, total: 3 })
+    expect(today.hisPrePrices).toEqual([{ date: new Date(2026, 0, 6), prePrice: 10.2 }])
+    expect(today.data.map(point => [point.price, point.volume, point.cumulativeVolume, point.averagePrice])).toEqual([
+      [10.4, 0, 0, 10.4],
+      [10.6, 200, 200, 10.6],
+      [10.4, 200, 400, 10.5]
+    ])
+    expect(today.data[2].partial).toBe(true)
+
+    const fiveDays = buildTimeShareFrom(manager, 5)
+    expect(fiveDays.data).toHaveLength(5)
+    expect(fiveDays.hisPrePrices!.map(item => item.prePrice)).toEqual([10, 10.2])
+    expect(fiveDays.data[1]).toMatchObject({ cumulativeVolume: 400, averagePrice: 10.15, amount: 3060 })
+    expect(fiveDays.data[2].cumulativeVolume).toBe(0)
+  })
+})
+
+describe('K 线查询路由', () => {
+  let exchange: ExchangeInstance
+  let stock: StockInstance
+  const app = express().use('/api/v1/market-instances', gameInstanceRoutes)
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+    stock = new StockInstance(2, exchange, {
+      templateId: 'stock_600000', symbol: '600000', companyName: '浦发银行', category: 'finance', issuePrice: 10, totalShares: 1000000
+    })
+    exchange.addStock(stock)
+    exchange.onBeginPlay()
+    stock.onBeginPlay()
+    stock.state = GameObjectState.ACTIVE
+    jest.spyOn(gameInstanceController, 'getOwnedExchangeInstance').mockReturnValue(exchange)
+  })
+
+  afterAll(() => {
+    stock.onDestroy()
+    exchange.onDestroy()
+    jest.restoreAllMocks()
+  })
+
+  test('开始时间晚于模拟时间且未指定截止时间时应返回空 K 线而不是服务器错误', async () => {
+    const response = await request(app)
+      .get('/api/v1/market-instances/env/stocks/600000/kline')
+      .query({ startTime: '2100-01-01T00:00:00.000Z' })
+
+    expect(response.status).toBe(200)
+    expect(response.body.data.data).toEqual([])
+  })
+  test('分时天数必须是 1 或 5 的整数，拒绝带后缀或重复的参数', async () => {
+    const intraday = (query: string) => request(app).get(`/api/v1/market-instances/env/stocks/600000/intraday${query}`)
+
+    expect((await intraday('')).status).toBe(200)
+    expect((await intraday('?days=5')).status).toBe(200)
+    for (const query of ['?days=5abc', '?days=1&days=5', '?days=2']) {
+      const response = await intraday(query)
+      expect(response.status).toBe(400)
+      expect(response.body.error.code).toBe('INVALID_DAYS')
+    }
+  })
+  test('返回数量必须是正整数', async () => {
+    for (const limit of ['abc', '-5', '0', '5abc']) {
+      const response = await request(app).get('/api/v1/market-instances/env/stocks/600000/kline').query({ limit })
+      expect(response.status).toBe(400)
+      expect(response.body.error).toEqual({ code: 'VALIDATION_ERROR', message: 'limit must be a positive integer' })
+    }
+    expect((await request(app).get('/api/v1/market-instances/env/stocks/600000/kline').query({ limit: '5' })).status).toBe(200)
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * K 线种子历史 Jest 测试套件
+ *
+ * 覆盖 K 线导出文件、分时导出文件和 CSV 的解析，周线数据和无效行的拒绝，
+ * 以及种子 K 线映射到交易日后导入时间序列并汇总到更大的粒度
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/klineSeed/klineSeed.test.ts
+ */
+
+import {
+  KLineSeedErrorCode,
+  parseKLineSeed,
+  toHistoricalBars,
+  toSeedSummary
+} from '../../src/types/klineSeed'
+import {
+  DataType,
+  Granularity,
+  Metric,
+  MissingDataStrategy,
+  TimeSeriesManager,
+  TradingCalendar
+} from '../../src/types/timeSeries'
+
+const SERIES_ID = '600000_price'
+
+const KLINE_DAY_FILE = {
+  rc: 0,
+  rt: 17,
+  full: 1,
+  data: {
+    code: '600000',
+    market: 1,
+    name: '浦发银行',
+    decimal: 2,
+    klines: [
+      '2026-01-06,10.10,10.30,10.40,10.00,2000,2040000.00,0.10,1.98,0.20,3.96',
+      '2026-01-05,10.00,10.10,10.20,9.90,1000,1010000.00,0.05,1.00,0.10,3.00',
+      '2026-01-07,10.30,10.20,10.50,10.10,1500,1545000.00,0.08,-0.97,-0.10,3.88'
+    ]
+  }
+}
+
+function expectSeedError(run: () => unknown, code: KLineSeedErrorCode): void {
+  try {
+    run()
+  } catch (error: any) {
+    expect(error.code).toBe(code)
+    return
+  }
+  throw new Error('Expected a KLineSeedError')
+}
+
+function isWeekday(date: Date): boolean {
+  return date.getDay() >= 1 && date.getDay() <= 5
+}
+
+function previousWeekday(date: Date): Date {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1)
+  return isWeekday(day) ? day : previousWeekday(day)
+}
+
+describe('K 线种子历史', () => {
+  test('应解析 K 线导出文件，按交易日排序并将成交量从手换算为股', () => {
+    const history = parseKLineSeed(JSON.stringify(KLINE_DAY_FILE), {}, new Date(2026, 9, 18))
+
+    expect(history.format).toBe('kline')
+    expect(history.bars.map(bar => bar.close)).toEqual([10.1, 10.3, 10.2])
+    expect(history.bars[0]).toEqual({
+      date: new Date(2026, 0, 5),
+      open: 10,
+      high: 10.2,
+      low: 9.9,
+      close: 10.1,
+      volume: 100000,
+      amount: 1010000
+    })
+    expect(toSeedSummary(history)).toEqual({
+      format: 'kline',
+      importedAt: new Date(2026, 9, 18),
+      barCount: 3,
+      startDate: new Date(2026, 0, 5),
+      endDate: new Date(2026, 0, 7),
+      lastClose: 10.2
+    })
+
+    // 只保留最近的 K 线
+    expect(parseKLineSeed(KLINE_DAY_FILE, { maxBars: 2 }).bars.map(bar => bar.close)).toEqual([10.3, 10.2])
+  })
+
+  test('应将分时导出文件按交易日汇总，并按表头解析 CSV', () => {
+    const trends = parseKLineSeed({
+      data: {
+        trends: [
+          '2026-01-29 09:30,46.00,46.00,46.00,46.00,499,2295400.00,46.000',
+          '2026-01-29 09:31,46.00,46.50,46.80,45.90,100,464000.00,46.100',
+          '2026-01-30 09:30,0.00,47.00,47.10,46.90,200,940000.00,47.000'
+        ]
+      }
+    })
+    expect(trends.format).toBe('trends')
+    expect(trends.bars).toEqual([
+      { date: new Date(2026, 0, 29), open: 46, high: 46.8, low: 45.9, close: 46.5, volume: 59900, amount: 2759400 },
+      { date: new Date(2026, 0, 30), open: 47, high: 47.1, low: 46.9, close: 47, volume: 20000, amount: 940000 }
+    ])
+
+    const csv = parseKLineSeed('日期,开盘,最高,最低,收盘,成交量\n2026/01/05,10,10.2,9.9,10.1,300\n2026/01/06,10.1,10.4,10,10.3,500\n', {
+      volumeUnit: 'share'
+    })
+    expect(csv.format).toBe('csv')
+    expect(csv.bars[1]).toEqual({ date: new Date(2026, 0, 6), open: 10.1, high: 10.4, low: 10, close: 10.3, volume: 500, amount: undefined })
+  })
+
+  test('应拒绝周线数据、无效行和空内容', () => {
+    expectSeedError(() => parseKLineSeed({
+      data: {
+        klines: [
+          '2026-01-09,10.00,10.10,10.20,9.90,1000,1010000.00',
+          '2026-01-16,10.10,10.30,10.40,10.00,2000,2040000.00',
+          '2026-01-23,10.30,10.20,10.50,10.10,1500,1545000.00'
+        ]
+      }
+    }), KLineSeedErrorCode.UNSUPPORTED_PERIOD)
+
+    try {
+      parseKLineSeed('2026-01-05,10,10.1,10.2,9.9,100\n2026-01-06,10,9.5,9.8,9.6,100')
+      throw new Error('Expected a KLineSeedError')
+    } catch (error: any) {
+      expect(error.code).toBe(KLineSeedErrorCode.INVALID_ROW)
+      expect(error.row).toBe(2)
+    }
+
+    expectSeedError(() => parseKLineSeed({ data: { klines: [] } }), KLineSeedErrorCode.EMPTY_HISTORY)
+    expectSeedError(() => parseKLineSeed({ rc: 0, data: null }), KLineSeedErrorCode.INVALID_CONTENT)
+    expectSeedError(() => parseKLineSeed('{not json'), KLineSeedErrorCode.INVALID_CONTENT)
+  })
+
+  test('种子 K 线应映射到开始前的连续交易日并导入时间序列，未结束的 5 日窗口继续接收数据点', () => {
+    const calendar = new TradingCalendar({
+      isTradingDay: isWeekday,
+      sessions: [
+        { start: '09:30', end: '11:30' },
+        { start: '13:00', end: '15:00' }
+      ]
+    })
+    const manager = new TimeSeriesManager({ calendar })
+    manager.createSeries({
+      seriesId: SERIES_ID,
+      name: '600000 Price',
+      dataType: DataType.CONTINUOUS,
+      metrics: [Metric.OPEN, Metric.HIGH, Metric.LOW, Metric.CLOSE, Metric.VWAP],
+      missingDataStrategy: MissingDataStrategy.USE_PREVIOUS
+    })
+
+    // 模拟从 2026-10-16（周五）开始，种子 K 线落在之前的三个交易日：10-13、10-14、10-15
+    const history = parseKLineSeed(KLINE_DAY_FILE)
+    const bars = toHistoricalBars(history.bars, new Date(2026, 9, 15), previousWeekday)
+    expect(bars.map(bar => bar.timestamp)).toEqual([
+      new Date(2026, 9, 13, 12),
+      new Date(2026, 9, 14, 12),
+      new Date(2026, 9, 15, 12)
+    ])
+    expect(bars[0].vwap).toBeCloseTo(10.1)
+
+    manager.importBars(SERIES_ID, Granularity.DAY_1, bars)
+    expect(() => manager.importBars(SERIES_ID, Granularity.DAY_1, bars)).toThrow('already has data')
+
+    const range = { seriesId: SERIES_ID, startTime: new Date(2026, 0, 1), endTime: new Date(2027, 0, 1) }
+    const dayBars = manager.queryCachedData({ ...range, granularity: Granularity.DAY_1 })
+    expect(dayBars.map(bar => [bar.startTime, bar.close])).toEqual([
+      [new Date(2026, 9, 13, 9, 30), 10.1],
+      [new Date(2026, 9, 14, 9, 30), 10.3],
+      [new Date(2026, 9, 15, 9, 30), 10.2]
+    ])
+    expect(manager.queryCachedData({ ...range, granularity: Granularity.MIN_1 })).toHaveLength(0)
+
+    // 包含种子交易日的 5 日窗口（10-12 至 10-16）尚未结束，之后的数据点继续在其中聚合
+    expect(manager.queryCachedData({ ...range, granularity: Granularity.DAY_5 })).toHaveLength(0)
+    expect(manager.getActiveWindowData(SERIES_ID, Granularity.DAY_5)).toMatchObject({
+      startTime: new Date(2026, 9, 12, 9, 30),
+      open: 10,
+      high: 10.5,
+      low: 9.9,
+      close: 10.2,
+      volume: 450000
+    })
+
+    manager.addDataPoint(SERIES_ID, { timestamp: new Date(2026, 9, 16, 9, 30), value: 10.6, volume: 100 })
+    expect(manager.getActiveWindowData(SERIES_ID, Granularity.DAY_5)).toMatchObject({ open: 10, high: 10.6, close: 10.6, volume: 450100 })
+    expect(() => manager.addDataPoint(SERIES_ID, { timestamp: new Date(2026, 9, 15, 14, 0), value: 10, volume: 1 })).toThrow('chronological')
+  })
+})
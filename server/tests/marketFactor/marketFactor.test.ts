@@ -0,0 +1,124 @@
+/**
+ * 市场因子模型 Jest 测试套件
+ *
+ * 覆盖因子在同一游戏时间只推进一次、行业因子按分类登记和覆盖波动率、
+ * 因子暴露校验，以及按 β 叠加因子后同行业股票相关、负 β 股票反向相关
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/marketFactor/marketFactor.test.ts
+ */
+
+import {
+  FactorExposure,
+  FactorModel,
+  calculateCorrelationMatrix,
+  calculateSystematicReturn,
+  getDefaultFactorModelConfig,
+  getFactorExposure,
+  validateFactorExposure
+} from '../../src/types/marketFactor'
+import { RandomStreams } from '../../src/types/randomStream'
+import { createPriceModel } from '../../src/types/priceModel'
+
+const START = new Date(2026, 0, 5, 9, 30)
+
+function at(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000)
+}
+
+function createFactorModel(seed: number, overrides: Partial<ReturnType<typeof getDefaultFactorModelConfig>> = {}): FactorModel {
+  const streams = new RandomStreams(seed)
+  return new FactorModel({ ...getDefaultFactorModelConfig(), ...overrides }, key => streams.get(key))
+}
+
+describe('市场因子模型', () => {
+  test('同一游戏时间只推进一次，未启用时因子不变', () => {
+    const model = createFactorModel(1)
+    const initial = model.getLevels('tech')
+    expect(initial).toEqual({ market: 0, sector: 0 })
+
+    model.advance(at(1), 1)
+    const first = model.getLevels('tech')
+    model.advance(at(1), 1)
+    expect(model.getLevels('tech')).toEqual(first)
+    expect(first.market).not.toBe(0)
+    expect(first.sector).not.toBe(0)
+
+    // 同一时刻各行业看到相同的市场因子
+    expect(model.getLevels('finance').market).toBe(first.market)
+
+    const disabled = createFactorModel(1, { enabled: false })
+    disabled.advance(at(1), 1)
+    expect(disabled.getLevels('tech')).toEqual({ market: 0, sector: 0 })
+  })
+
+  test('行业因子按分类登记，分类覆盖波动率，与登记顺序无关', () => {
+    const a = createFactorModel(5, { sectorVolatility: 0.1, categoryOverrides: { energy: 0 } })
+    const b = createFactorModel(5, { sectorVolatility: 0.1, categoryOverrides: { energy: 0 } })
+    a.getLevels('tech')
+    a.getLevels('energy')
+    b.getLevels('energy')
+    b.getLevels('tech')
+    for (let i = 1; i <= 10; i++) {
+      a.advance(at(i), 1)
+      b.advance(at(i), 1)
+    }
+
+    expect(a.getLevels('tech')).toEqual(b.getLevels('tech'))
+    expect(a.getLevels('energy').sector).toBe(0)
+  })
+
+  test('因子暴露省略的 β 默认为 1，超出范围或未知的 β 被拒绝', () => {
+    expect(getFactorExposure({ sectorBeta: 0.5 })).toEqual({ marketBeta: 1, sectorBeta: 0.5 })
+    expect(calculateSystematicReturn(
+      { marketBeta: 1.5, sectorBeta: -1 },
+      { market: 0.01, sector: 0.02 },
+      { market: 0.03, sector: 0.01 }
+    )).toBeCloseTo(1.5 * 0.02 + 0.01, 12)
+
+    expect(() => validateFactorExposure({ marketBeta: 1.2, sectorBeta: -0.5 })).not.toThrow()
+    expect(() => validateFactorExposure({ marketBeta: 6 })).toThrow('marketBeta')
+    expect(() => validateFactorExposure({ sectorBeta: NaN })).toThrow('sectorBeta')
+    expect(() => validateFactorExposure({ alphaBeta: 1 } as Partial<FactorExposure>)).toThrow('Unknown factor exposure')
+  })
+
+  test('叠加因子后同行业股票高度相关，负 β 股票与市场反向', () => {
+    const streams = new RandomStreams(20261018)
+    const factors = new FactorModel(
+      { enabled: true, marketVolatility: 0.2, sectorVolatility: 0.2, categoryOverrides: {} },
+      key => streams.get(key)
+    )
+    const stocks = [
+      { symbol: 'TECH1', category: 'tech', exposure: getFactorExposure() },
+      { symbol: 'TECH2', category: 'tech', exposure: getFactorExposure() },
+      { symbol: 'BANK1', category: 'finance', exposure: getFactorExposure() },
+      { symbol: 'HEDGE', category: 'finance', exposure: getFactorExposure({ marketBeta: -2, sectorBeta: 0 }) },
+      { symbol: 'SOLO', category: 'tech', exposure: getFactorExposure({ marketBeta: 0, sectorBeta: 0 }) }
+    ].map(stock => ({
+      ...stock,
+      model: createPriceModel({ type: 'gbm', params: { drift: 0, volatility: 0.1 } }, 10),
+      random: streams.get(`stock:${stock.symbol}`),
+      levels: factors.getLevels(stock.category),
+      closes: [10]
+    }))
+
+    for (let i = 1; i <= 2000; i++) {
+      factors.advance(at(i), 60)
+      for (const stock of stocks) {
+        const levels = factors.getLevels(stock.category)
+        const price = stock.closes[stock.closes.length - 1]
+        stock.closes.push(stock.model.next(price, 60, stock.random) * Math.exp(calculateSystematicReturn(stock.exposure, stock.levels, levels)))
+        stock.levels = levels
+      }
+    }
+
+    const correlation = calculateCorrelationMatrix(Object.fromEntries(stocks.map(stock => [stock.symbol, stock.closes])))
+    expect(correlation.TECH1.TECH1).toBe(1)
+    expect(correlation.TECH1.TECH2).toBeGreaterThan(0.8)
+    expect(correlation.TECH1.BANK1).toBeGreaterThan(0.3)
+    expect(correlation.TECH1.BANK1).toBeLessThan(correlation.TECH1.TECH2)
+    expect(correlation.TECH1.HEDGE).toBeLessThan(-0.3)
+    expect(Math.abs(correlation.TECH1.SOLO)).toBeLessThan(0.1)
+    expect(correlation.BANK1.TECH1).toBeCloseTo(correlation.TECH1.BANK1, 12)
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * 市场指数 Jest 测试套件
+ *
+ * 覆盖三种加权方式的点位计算、跨交易日的前收盘点位、用成分股日 K 线回填基日以来的指数历史、
+ * 配置校验，交易所在股票价格更新时写入指数序列并提供指数 K 线和策略视图，以及指数 K 线路由的参数处理
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/marketIndex/marketIndex.test.ts
+ */
+
+import express from 'express'
+import request from 'supertest'
+import {
+  IndexConstituent,
+  MarketIndex,
+  MarketIndexConfig,
+  getDefaultMarketIndexConfig,
+  validateMarketIndexConfig
+} from '../../src/types/marketIndex'
+import { Granularity } from '../../src/types/timeSeries'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+import gameInstanceRoutes from '../../src/routes/gameInstanceRoutes'
+import gameInstanceController from '../../src/controllers/gameInstanceController'
+
+// 路由模块加载控制器单例，避免创建 Worker 线程池
+jest.mock('../../src/services/workerThreadPoolService', () => ({
+  WorkerThreadPoolService: { getInstance: () => ({}) }
+}))
+
+const BASE_DATE = new Date(2026, 0, 5)
+
+const CONSTITUENTS: IndexConstituent[] = [
+  { symbol: 'A', basePrice: 10, totalShares: 1000 },
+  { symbol: 'B', basePrice: 50, totalShares: 100 }
+]
+
+function createIndex(overrides: Partial<MarketIndexConfig> = {}): MarketIndex {
+  const index = new MarketIndex({ ...getDefaultMarketIndexConfig(), ...overrides })
+  index.setBase(BASE_DATE, CONSTITUENTS)
+  return index
+}
+
+function prices(values: Record<string, number>): (symbol: string) => number | null {
+  return symbol => values[symbol] ?? null
+}
+
+function day(date: number, hours = 15): Date {
+  return new Date(2026, 0, date, hours)
+}
+
+describe('市场指数', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('按市值、价格加权和等权计算点位，缺少价格的成分股按基日价格计算', () => {
+    // A 上涨 10%，B 不变
+    const moved = prices({ A: 11, B: 50 })
+
+    // 市值：(11 × 1000 + 50 × 100) / (10 × 1000 + 50 × 100) = 16000 / 15000
+    expect(createIndex({ weighting: 'market_cap' }).calculate(moved)).toBeCloseTo(1066.67, 2)
+    // 价格：(11 + 50) / (10 + 50)
+    expect(createIndex({ weighting: 'price' }).calculate(moved)).toBeCloseTo(1016.67, 2)
+    // 等权：两只股票涨幅的平均值
+    expect(createIndex({ weighting: 'equal', baseValue: 100 }).calculate(moved)).toBeCloseTo(105, 2)
+
+    expect(createIndex().calculate(prices({}))).toBe(1000)
+    expect(new MarketIndex(getDefaultMarketIndexConfig()).getSnapshot()).toBeNull()
+    expect(() => new MarketIndex(getDefaultMarketIndexConfig()).setBase(BASE_DATE, [])).toThrow('no constituent')
+  })
+
+  test('跨交易日时上一交易日最后的点位成为前收盘点位', () => {
+    const index = createIndex({ weighting: 'price', baseValue: 100 })
+    index.update(day(5, 10), prices({ A: 10, B: 50 }))
+    index.update(day(5, 14), prices({ A: 16, B: 50 }))
+
+    let snapshot = index.getSnapshot()!
+    expect(snapshot.previousClose).toBe(100)
+    expect(snapshot.value).toBe(110)
+    expect(snapshot.changePercent).toBe(10)
+    expect(snapshot.baseDate).toBe('2026-01-05')
+
+    index.update(day(6, 10), prices({ A: 16, B: 39 }))
+    snapshot = index.getSnapshot()!
+    expect(snapshot.previousClose).toBe(110)
+    expect(snapshot.value).toBe(91.67)
+    expect(snapshot.change).toBe(-18.33)
+    expect(snapshot.updatedAt).toEqual(day(6, 10))
+  })
+
+  test('用成分股日 K 线回填基日以来的指数历史，缺失的交易日沿用上一收盘价', () => {
+    const index = createIndex({ weighting: 'price', baseValue: 100 })
+    const bars = index.backfill({
+      A: [
+        { startTime: day(2, 9), open: 9, high: 9, low: 9, close: 9 },
+        { startTime: day(5, 9), open: 10, high: 12, low: 9, close: 10 },
+        { startTime: day(6, 9), open: 10, high: 13, low: 10, close: 13 }
+      ],
+      B: [
+        { startTime: day(5, 9), open: 50, high: 52, low: 48, close: 50 },
+        { startTime: day(7, 9), open: 47, high: 47, low: 44, close: 44 }
+      ]
+    })
+
+    expect(bars.map(bar => bar.timestamp)).toEqual([day(5, 9), day(6, 9), day(7, 9)])
+    expect(bars[0]).toMatchObject({ open: 100, high: 106.67, low: 95, close: 100, volume: 0 })
+    // 1 月 6 日 B 没有 K 线，按 50 计算
+    expect(bars[1]).toMatchObject({ open: 100, high: 105, close: 105 })
+    // 1 月 7 日 A 没有 K 线，按上一收盘价 13 计算
+    expect(bars[2]).toMatchObject({ open: 100, close: 95 })
+    expect(index.getSnapshot()!.previousClose).toBe(95)
+  })
+
+  test('配置校验拒绝未知加权方式、非正基点和格式错误的基日', () => {
+    const config = getDefaultMarketIndexConfig()
+    expect(() => validateMarketIndexConfig(config)).not.toThrow()
+    expect(() => validateMarketIndexConfig({ ...config, baseDate: '2026-01-05' })).not.toThrow()
+    expect(() => validateMarketIndexConfig({ ...config, weighting: 'float' as any })).toThrow('weighting')
+    expect(() => validateMarketIndexConfig({ ...config, baseValue: 0 })).toThrow('base value')
+    expect(() => validateMarketIndexConfig({ ...config, baseDate: '2026-02-30' })).toThrow('base date')
+  })
+
+  test('交易所在股票价格更新时写入指数序列，提供指数 K 线和策略视图', async () => {
+    const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '', seed: 42 })
+    const stocks = ['600000', '600001'].map((symbol, i) => new StockInstance(i + 2, exchange, {
+      templateId: `stock_${symbol}`,
+      symbol,
+      companyName: symbol,
+      category: i === 0 ? 'tech' : 'finance',
+      issuePrice: 10 * (i + 1),
+      totalShares: 1000000 * (i + 1)
+    }))
+    stocks.forEach(stock => exchange.addStock(stock))
+
+    exchange.onBeginPlay()
+    stocks.forEach(stock => {
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+    })
+    expect(exchange.getMarketIndex()).toBeNull()
+
+    while (!exchange.isInTradingHours()) {
+      exchange.onTick(60)
+    }
+    for (let i = 0; i < 180; i++) {
+      exchange.onTick(1)
+      stocks.forEach(stock => stock.onTick(1))
+    }
+
+    const snapshot = exchange.getMarketIndex()!
+    const totalCap = stocks.reduce((sum, stock) => sum + stock.getMarketCap(), 0)
+    expect(snapshot.constituentCount).toBe(2)
+    expect(snapshot.previousClose).toBe(1000)
+    expect(snapshot.value).toBeCloseTo(1000 * totalCap / (10 * 1000000 + 20 * 2000000), 2)
+    expect(snapshot.value).not.toBe(1000)
+
+    const kline = (await exchange.getIndexKLine({ granularity: Granularity.MIN_1 }))!
+    expect(kline.metadata.symbol).toBe('000001')
+    expect(kline.metadata.preClose).toBe(1000)
+    expect(kline.data.length).toBeGreaterThanOrEqual(3)
+    expect(kline.data[kline.data.length - 1].close).toBe(snapshot.value)
+
+    const market = exchange.getStrategyMarketView()
+    expect(market.getIndexValue()).toBe(snapshot.value)
+    expect(market.getIndexBars(Granularity.MIN_1).length).toBeGreaterThanOrEqual(2)
+    expect(exchange.exportState().exchange.marketIndex).toEqual(snapshot)
+
+    stocks.forEach(stock => stock.onDestroy())
+    exchange.onDestroy()
+  })
+})
+
+describe('指数 K 线路由', () => {
+  let exchange: ExchangeInstance
+  let stock: StockInstance
+  const app = express().use('/api/v1/market-instances', gameInstanceRoutes)
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+    exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+    stock = new StockInstance(2, exchange, {
+      templateId: 'stock_600000', symbol: '600000', companyName: '600000', category: 'tech', issuePrice: 10, totalShares: 1000000
+    })
+    exchange.addStock(stock)
+    exchange.onBeginPlay()
+    stock.onBeginPlay()
+    stock.state = GameObjectState.ACTIVE
+    exchange.onTick(1)
+    jest.spyOn(gameInstanceController, 'getOwnedExchangeInstance').mockReturnValue(exchange)
+  })
+
+  afterAll(() => {
+    stock.onDestroy()
+    exchange.onDestroy()
+    jest.restoreAllMocks()
+  })
+
+  test('开始时间晚于模拟时间且未指定截止时间时应返回空 K 线而不是服务器错误', async () => {
+    const response = await request(app)
+      .get('/api/v1/market-instances/env/index/kline')
+      .query({ startTime: '2100-01-01T00:00:00.000Z' })
+
+    expect(response.status).toBe(200)
+    expect(response.body.data.data).toEqual([])
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * 市场剧本 Jest 测试套件
+ *
+ * 覆盖剧本校验、时间线换算和到期取出，以及交易所按游戏时钟触发价格跳变、行业冲击和停牌，
+ * 停牌期间拒绝下单、到期复牌，并把每个事件记录到事件日志
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/marketScenario/marketScenario.test.ts
+ */
+
+import {
+  MarketScenario,
+  ScenarioError,
+  ScenarioTimeline,
+  sampleShockPercent,
+  validateScenario
+} from '../../src/types/marketScenario'
+import { OrderError, OrderErrorCode } from '../../src/types/orderBook'
+import { JournalEventType } from '../../src/types/exchangeJournal'
+import { createSeededRandom } from '../../src/types/randomStream'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { AITraderInstance } from '../../src/models/runtime/aiTraderInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+
+function scenario(events: any[]): MarketScenario {
+  return { name: 'test', events }
+}
+
+function validationError(value: MarketScenario): ScenarioError {
+  try {
+    validateScenario(value)
+  } catch (error) {
+    return error as ScenarioError
+  }
+  throw new Error('scenario should be invalid')
+}
+
+function minutesOf(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes()
+}
+
+describe('市场剧本', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    jest.spyOn(console, 'error').mockImplementation(() => undefined)
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('校验事件类型、触发时间和参数范围，错误指出出错字段', () => {
+    expect(() => validateScenario(scenario([
+      { type: 'price_jump', day: 3, time: '10:30', symbol: '600000', percent: 8, stdDev: 1, message: '财报超预期' },
+      { type: 'sector_shock', day: 3, time: '10:30', percent: -5 },
+      { type: 'volatility_regime', day: 3, time: '10:31', multiplier: 2.5 },
+      { type: 'trading_halt', day: 4, time: '09:30', durationMinutes: 30 }
+    ]))).not.toThrow()
+
+    expect(validationError({ name: ' ', events: [] }).path).toBe('name')
+    expect(validationError({ name: 'x'.repeat(201), events: [] }).path).toBe('name')
+    expect(validationError({ name: 'Test', description: 'x'.repeat(1001), events: [] }).path).toBe('description')
+    expect(validationError({ name: 'Test', description: 42, events: [] } as unknown as MarketScenario).path).toBe('description')
+    expect(validationError(scenario([null])).path).toBe('events[0]')
+    expect(validationError(scenario([{ type: 'rumor', day: 1, time: '10:00' }])).path).toBe('events[0].type')
+    expect(validationError(scenario([{ type: 'sector_shock', day: 0, time: '10:00', percent: 1 }])).path).toBe('events[0].day')
+    expect(validationError(scenario([{ type: 'sector_shock', day: 1, time: '24:00', percent: 1 }])).path).toBe('events[0].time')
+    expect(validationError(scenario([{ type: 'price_jump', day: 1, time: '10:00', percent: 1 }])).path).toBe('events[0].symbol')
+    expect(validationError(scenario([{ type: 'price_jump', day: 1, time: '10:00', symbol: 'A', percent: -95 }])).path).toBe('events[0].percent')
+    expect(validationError(scenario([{ type: 'volatility_regime', day: 1, time: '10:00', multiplier: 0 }])).path).toBe('events[0].multiplier')
+    expect(validationError(scenario([{ type: 'trading_halt', day: 1, time: '10:00', durationMinutes: 1.5 }])).path).toBe('events[0].durationMinutes')
+
+    // 无扰动时为设定涨跌幅；扰动后限制在涨跌幅范围内
+    const random = createSeededRandom(1)
+    expect(sampleShockPercent(5, undefined, random)).toBe(5)
+    expect(sampleShockPercent(-90, 50, () => 0.5)).toBe(-90)
+  })
+
+  test('时间线按交易日换算触发时间，附加时已过的事件跳过，到期事件按时间顺序取出', () => {
+    // 第 1 天为周五，第 2 天跳过周末为下周一
+    const days = [new Date(2026, 0, 9), new Date(2026, 0, 12), new Date(2026, 0, 13)]
+    const timeline = new ScenarioTimeline(scenario([
+      { type: 'trading_halt', day: 2, time: '13:00', durationMinutes: 5 },
+      { type: 'sector_shock', day: 1, time: '09:00', percent: 1 },
+      { type: 'sector_shock', day: 2, time: '10:30', percent: -3 },
+      { type: 'volatility_regime', day: 2, time: '10:30', multiplier: 2 }
+    ]), new Date(2026, 0, 9, 9, 15), (day: number) => new Date(days[day - 1]))
+
+    const events = timeline.getEvents()
+    expect(events.map(progress => progress.index)).toEqual([1, 2, 3, 0])
+    expect(events.map(progress => progress.status)).toEqual(['skipped', 'pending', 'pending', 'pending'])
+    expect(events[1].scheduledAt).toEqual(new Date(2026, 0, 12, 10, 30))
+
+    expect(timeline.takeDue(new Date(2026, 0, 12, 10, 29))).toEqual([])
+    const due = timeline.takeDue(new Date(2026, 0, 12, 11))
+    expect(due.map(progress => progress.index)).toEqual([2, 3])
+    expect(due[0].firedAt).toEqual(new Date(2026, 0, 12, 11))
+    expect(timeline.takeDue(new Date(2026, 0, 12, 11))).toEqual([])
+    expect(timeline.hasPending()).toBe(true)
+
+    timeline.takeDue(new Date(2026, 0, 12, 13))
+    expect(timeline.hasPending()).toBe(false)
+  })
+
+  test('交易所按游戏时钟触发价格跳变、行业冲击和停牌，停牌期间拒绝下单并在到期后复牌', () => {
+    const exchange = new ExchangeInstance(1, {
+      templateId: 'market',
+      name: 'Test',
+      description: '',
+      seed: 42,
+      scenario: {
+        name: 'crash',
+        events: [
+          { type: 'price_jump', day: 1, time: '09:00', symbol: '600000', percent: 5 },
+          { type: 'price_jump', day: 1, time: '09:35', symbol: '600000', percent: -5, message: '业绩预警' },
+          { type: 'sector_shock', day: 1, time: '09:40', category: 'tech', percent: 8 },
+          { type: 'trading_halt', day: 1, time: '09:45', symbol: '600001', durationMinutes: 10 },
+          { type: 'volatility_regime', day: 2, time: '10:30', multiplier: 3 }
+        ]
+      }
+    })
+    const stocks = ['600000', '600001', '600002'].map((symbol, i) => new StockInstance(i + 2, exchange, {
+      templateId: `stock_${symbol}`,
+      symbol,
+      companyName: symbol,
+      category: i < 2 ? 'tech' : 'finance',
+      issuePrice: 10 * (i + 1),
+      totalShares: 1000000,
+      // 降低特质波动，避免价格先触及涨跌停
+      priceModel: { type: 'random_walk', params: { volatility: 0.001 } }
+    }))
+    stocks.forEach(stock => exchange.addStock(stock))
+    const trader = new AITraderInstance(5, exchange, {
+      templateId: 'trader', name: 'Trader', riskProfile: 'moderate', initialCapital: 1000000
+    })
+    exchange.addTrader(trader)
+    const traderId = trader.getTraderId()
+
+    // 开始前附加的剧本在开始时换算触发时间
+    expect(exchange.getScenarioStatus()).toBeNull()
+    exchange.onBeginPlay()
+    stocks.forEach(stock => {
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+    })
+    expect(exchange.getScenarioStatus()!.events.map(progress => progress.status))
+      .toEqual(['skipped', 'pending', 'pending', 'pending', 'pending'])
+
+    const runUntil = (hours: number, minutes: number): void => {
+      while (minutesOf(exchange.getSimulatedTime()) < hours * 60 + minutes) {
+        exchange.onTick(5)
+        stocks.forEach(stock => stock.onTick(5))
+      }
+    }
+    const prices = (): number[] => stocks.map(stock => stock.getCurrentPrice())
+    const scenarioEntries = () => exchange.queryJournal({ types: [JournalEventType.SCENARIO_EVENT] }).entries
+
+    // 价格跳变
+    runUntil(9, 35)
+    const jump = scenarioEntries()[0]
+    expect(jump.symbol).toBe('600000')
+    expect(jump.message).toBe('业绩预警')
+    expect(Math.abs(jump.data!.price - jump.data!.previousPrice * 0.95)).toBeLessThanOrEqual(0.01)
+
+    // 行业冲击：科技行业因子跳变，科技股在下一次价格更新时上涨，金融股不受影响
+    runUntil(9, 39)
+    const techBefore = exchange.getFactorLevels('tech').sector
+    const financeBefore = exchange.getFactorLevels('finance').sector
+    const before = prices()
+    runUntil(9, 40)
+    exchange.onTick(5)
+    stocks.forEach(stock => stock.onTick(5))
+    const after = prices()
+    expect(exchange.getFactorLevels('tech').sector - techBefore).toBeCloseTo(Math.log(1.08), 2)
+    expect(Math.abs(exchange.getFactorLevels('finance').sector - financeBefore)).toBeLessThan(0.01)
+    expect(after[0] / before[0]).toBeGreaterThan(1.05)
+    expect(after[1] / before[1]).toBeGreaterThan(1.05)
+    expect(Math.abs(after[2] / before[2] - 1)).toBeLessThan(0.04)
+
+    // 停牌：拒绝下单，价格不再变化，其他股票照常交易
+    runUntil(9, 45)
+    expect(exchange.isTradingHalted('600001')).toBe(true)
+    expect(exchange.isTradingHalted('600000')).toBe(false)
+    expect(exchange.getScenarioStatus()!.halts).toEqual([{ symbol: '600001', resumeAt: expect.any(Date) }])
+
+    const haltedPrice = stocks[1].getCurrentPrice()
+    let rejection: unknown = null
+    try {
+      exchange.submitOrder({ traderId, symbol: '600001', type: 'limit', action: 'buy', quantity: 100, price: haltedPrice })
+    } catch (error) {
+      rejection = error
+    }
+    expect(rejection).toBeInstanceOf(OrderError)
+    expect((rejection as OrderError).code).toBe(OrderErrorCode.TRADING_HALTED)
+    expect(exchange.submitOrder({
+      traderId, symbol: '600000', type: 'limit', action: 'buy', quantity: 100, price: stocks[0].getCurrentPrice()
+    }).order.status).not.toBe('rejected')
+
+    runUntil(9, 54)
+    expect(stocks[1].getCurrentPrice()).toBe(haltedPrice)
+
+    // 到期复牌
+    runUntil(9, 56)
+    expect(exchange.isTradingHalted('600001')).toBe(false)
+    expect(stocks[1].getCurrentPrice()).not.toBe(haltedPrice)
+
+    const entries = scenarioEntries()
+    expect(entries.map(entry => entry.message)).toEqual([
+      'trading resumed for 600001',
+      'trading halt for 600001 (10 min)',
+      'sector tech shock +8%',
+      '业绩预警'
+    ])
+
+    const status = exchange.getScenarioStatus()!
+    expect(status.name).toBe('crash')
+    expect(status.events.map(progress => progress.status)).toEqual(['skipped', 'fired', 'fired', 'fired', 'pending'])
+    expect(status.events[1].appliedPercent).toBe(-5)
+    expect(status.halts).toEqual([])
+    expect(exchange.exportState().exchange.scenario).toEqual(status)
+
+    // 运行中附加的剧本替换原剧本，触发时间已过的事件跳过；无效剧本被拒绝
+    const attached = exchange.attachScenario(scenario([
+      { type: 'sector_shock', day: 1, time: '09:30', percent: -3 },
+      { type: 'volatility_regime', day: 1, time: '10:30', multiplier: 2 }
+    ]))!
+    expect(attached.events.map(progress => progress.status)).toEqual(['skipped', 'pending'])
+    expect(() => exchange.attachScenario(scenario([{ type: 'trading_halt', day: 1, time: '10:00', durationMinutes: 0 }])))
+      .toThrow(ScenarioError)
+
+    runUntil(10, 31)
+    expect(stocks.map(stock => stock.getVolatilityMultiplier())).toEqual([2, 2, 2])
+
+    stocks.forEach(stock => stock.onDestroy())
+    exchange.onDestroy()
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * 实时行情推送 Jest 测试套件
+ *
+ * 覆盖客户端消息解析、按实例和股票的订阅路由、最新价合并和 K 线周期过滤
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/marketStream/marketStream.test.ts
+ */
+
+import {
+  MarketStreamError,
+  MarketStreamErrorCode,
+  MarketStreamHub,
+  MarketTick,
+  parseClientMessage
+} from '../../src/types/marketStream'
+import { Granularity } from '../../src/types/timeSeries'
+
+function createClient(id: string) {
+  const messages: any[] = []
+  return {
+    client: { id, send: (payload: string) => messages.push(JSON.parse(payload)) },
+    messages
+  }
+}
+
+function tick(instanceId: string, symbol: string, price: number): MarketTick {
+  return {
+    instanceId,
+    symbol,
+    price,
+    previousClose: 10,
+    change: price - 10,
+    changePercent: (price - 10) * 10,
+    open: 10,
+    high: price,
+    low: 10,
+    volume: 0,
+    timestamp: new Date(2026, 0, 5, 10, 0, 0).toISOString()
+  }
+}
+
+describe('实时行情推送', () => {
+  test('应解析订阅消息并拒绝无效的周期和动作', () => {
+    expect(parseClientMessage('{"action":"subscribe","instanceId":"env_1","symbols":["600000"],"granularities":["MIN_5"]}')).toEqual({
+      action: 'subscribe',
+      instanceId: 'env_1',
+      symbols: ['600000'],
+      granularities: ['MIN_5']
+    })
+    expect(parseClientMessage('{"action":"ping"}')).toEqual({ action: 'ping' })
+
+    const codeOf = (raw: string) => {
+      try {
+        parseClientMessage(raw)
+      } catch (error) {
+        return (error as MarketStreamError).code
+      }
+      return null
+    }
+    expect(codeOf('not json')).toBe(MarketStreamErrorCode.INVALID_MESSAGE)
+    expect(codeOf('{"action":"subscribe"}')).toBe(MarketStreamErrorCode.INVALID_MESSAGE)
+    expect(codeOf('null')).toBe(MarketStreamErrorCode.INVALID_MESSAGE)
+    expect(codeOf('{"action":"subscribe","instanceId":42}')).toBe(MarketStreamErrorCode.INVALID_MESSAGE)
+    expect(codeOf('{"action":"unsubscribe","instanceId":"env_1","symbols":"600000"}')).toBe(MarketStreamErrorCode.INVALID_MESSAGE)
+    expect(codeOf('{"action":"subscribe","instanceId":"env_1","granularities":[5]}')).toBe(MarketStreamErrorCode.INVALID_MESSAGE)
+    expect(codeOf('{"action":"subscribe","instanceId":"env_1","granularities":["MIN_7"]}')).toBe(MarketStreamErrorCode.INVALID_GRANULARITY)
+    expect(codeOf('{"action":"watch","instanceId":"env_1"}')).toBe(MarketStreamErrorCode.UNKNOWN_ACTION)
+  })
+
+  test('最新价应按股票合并，只推送给订阅了该实例和股票的连接', () => {
+    const hub = new MarketStreamHub()
+    const a = createClient('a')
+    const b = createClient('b')
+    hub.addClient(a.client)
+    hub.addClient(b.client)
+    hub.subscribe('a', 'env_1', ['600000'], [Granularity.MIN_1])
+    hub.subscribe('b', 'env_1', ['000001'], [Granularity.MIN_1])
+
+    hub.queueTick(tick('env_1', '600000', 10.1))
+    hub.queueTick(tick('env_1', '600000', 10.2))
+    hub.queueTick(tick('env_2', '600000', 11))
+    hub.flushTicks()
+
+    expect(a.messages).toHaveLength(1)
+    expect(a.messages[0]).toMatchObject({ type: 'tick', data: { symbol: '600000', price: 10.2 } })
+    expect(b.messages).toHaveLength(0)
+
+    hub.flushTicks()
+    expect(a.messages).toHaveLength(1)
+  })
+
+  test('K 线收盘只推送给订阅了该周期的连接', () => {
+    const hub = new MarketStreamHub()
+    const a = createClient('a')
+    const b = createClient('b')
+    hub.addClient(a.client)
+    hub.addClient(b.client)
+    hub.subscribe('a', 'env_1', ['600000'], [Granularity.MIN_1])
+    hub.subscribe('b', 'env_1', ['600000'], [Granularity.MIN_5])
+
+    expect(Array.from(hub.getBarGranularities('env_1', '600000')).sort()).toEqual([Granularity.MIN_1, Granularity.MIN_5])
+
+    hub.publishBar({
+      instanceId: 'env_1',
+      symbol: '600000',
+      granularity: Granularity.MIN_5,
+      startTime: new Date(2026, 0, 5, 10, 0).toISOString(),
+      endTime: new Date(2026, 0, 5, 10, 5).toISOString(),
+      open: 10,
+      high: 10.5,
+      low: 9.9,
+      close: 10.3,
+      volume: 1200
+    })
+
+    expect(a.messages).toHaveLength(0)
+    expect(b.messages).toEqual([expect.objectContaining({ type: 'bar' })])
+  })
+
+  test('退订和断开连接后应报告无订阅者的实例，实例销毁时通知订阅者', () => {
+    const hub = new MarketStreamHub({ maxInstancesPerClient: 1 })
+    const a = createClient('a')
+    const b = createClient('b')
+    hub.addClient(a.client)
+    hub.addClient(b.client)
+    hub.subscribe('a', 'env_1', ['600000', '000001'], [Granularity.MIN_1])
+    hub.subscribe('b', 'env_1', ['600000'], [Granularity.MIN_1])
+
+    expect(() => hub.subscribe('a', 'env_2', ['600000'], [])).toThrow(MarketStreamError)
+
+    expect(hub.unsubscribe('a', 'env_1', ['000001', '300750'])).toEqual(['000001'])
+    expect(hub.isSubscribed('env_1', '000001')).toBe(false)
+    expect(hub.removeClient('a')).toEqual([])
+
+    hub.closeInstance('env_1')
+    expect(b.messages).toEqual([{ type: 'instance_closed', instanceId: 'env_1' }])
+    expect(hub.hasSubscribers('env_1')).toBe(false)
+    expect(hub.getStats()).toEqual({ clients: 1, subscriptions: 0 })
+  })
+})
@@ -0,0 +1,227 @@
+/**
+ * 订单簿与撮合引擎 Jest 测试套件
+ *
+ * 覆盖价格优先、时间优先撮合，部分成交，市价单剩余撤销、撮合价格区间、盘口快照和集合竞价
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/orderBook/orderBook.test.ts
+ */
+
+import { OrderBook } from '../../src/types/orderBook'
+import type { TradeOrder, TradeAction, TradeType } from '../../../shared/types/trading'
+
+const SYMBOL = '600000'
+const NOW = new Date('2026-01-05T09:30:00')
+
+let orderSeq = 0
+
+function createOrder(action: TradeAction, quantity: number, price?: number, type: TradeType = 'limit'): TradeOrder {
+  orderSeq++
+  return {
+    id: `O${orderSeq}`,
+    userId: `trader_${orderSeq}`,
+    portfolioId: `portfolio_${orderSeq}`,
+    stockId: SYMBOL,
+    stockSymbol: SYMBOL,
+    type,
+    action,
+    quantity,
+    price,
+    timeInForce: 'day',
+    status: 'pending',
+    filledQuantity: 0,
+    commission: 0,
+    createdAt: NOW,
+    updatedAt: NOW
+  }
+}
+
+describe('订单簿', () => {
+  let book: OrderBook
+
+  beforeEach(() => {
+    book = new OrderBook(SYMBOL)
+  })
+
+  describe('价格优先、时间优先', () => {
+    test('买单应优先与最低卖价成交，同价位按入簿顺序成交', () => {
+      const askHigh = createOrder('sell', 100, 10.2)
+      const askLowFirst = createOrder('sell', 100, 10.0)
+      const askLowSecond = createOrder('sell', 100, 10.0)
+      book.submit(askHigh, NOW)
+      book.submit(askLowFirst, NOW)
+      book.submit(askLowSecond, NOW)
+
+      const result = book.submit(createOrder('buy', 150, 10.5), NOW)
+
+      expect(result.trades.map(t => t.sellOrderId)).toEqual([askLowFirst.id, askLowSecond.id])
+      expect(result.trades.map(t => t.quantity)).toEqual([100, 50])
+      // 成交价为被动方挂单价格
+      expect(result.trades.every(t => t.price === 10.0)).toBe(true)
+      expect(result.order.status).toBe('filled')
+      expect(askLowSecond.status).toBe('partial')
+      expect(book.getBestAsk()).toBe(10.0)
+    })
+
+    test('价格不交叉时限价单应进入订单簿', () => {
+      book.submit(createOrder('sell', 100, 10.5), NOW)
+      const result = book.submit(createOrder('buy', 100, 10.0), NOW)
+
+      expect(result.trades).toHaveLength(0)
+      expect(result.resting).toBe(true)
+      expect(book.getBestBid()).toBe(10.0)
+      expect(book.size).toBe(2)
+    })
+  })
+
+  describe('部分成交', () => {
+    test('限价单剩余部分应挂单并记录成交均价', () => {
+      book.submit(createOrder('sell', 100, 10.0), NOW)
+      book.submit(createOrder('sell', 100, 10.1), NOW)
+
+      const buy = createOrder('buy', 300, 10.1)
+      const result = book.submit(buy, NOW)
+
+      expect(result.trades).toHaveLength(2)
+      expect(buy.filledQuantity).toBe(200)
+      expect(buy.status).toBe('partial')
+      expect(buy.averagePrice).toBeCloseTo(10.05)
+      expect(result.resting).toBe(true)
+      expect(book.getOrder(buy.id)).toBe(buy)
+      expect(book.getDepth('sell')).toBe(0)
+    })
+
+    test('成交应生成买卖双方成交回报', () => {
+      const sell = createOrder('sell', 100, 10.0)
+      book.submit(sell, NOW)
+      const buy = createOrder('buy', 100, 10.0)
+      const [trade] = book.submit(buy, NOW).trades
+
+      expect(trade.amount).toBe(1000)
+      expect(trade.aggressorSide).toBe('buy')
+      expect(trade.executions.buy.orderId).toBe(buy.id)
+      expect(trade.executions.sell.orderId).toBe(sell.id)
+      expect(trade.buyerId).toBe(buy.userId)
+      expect(trade.sellerId).toBe(sell.userId)
+    })
+  })
+
+  describe('市价单与撤单', () => {
+    test('市价单未成交部分应被撤销而不进入订单簿', () => {
+      book.submit(createOrder('buy', 100, 9.9), NOW)
+      const market = createOrder('sell', 200, undefined, 'market')
+      const result = book.submit(market, NOW)
+
+      expect(result.trades).toHaveLength(1)
+      expect(market.filledQuantity).toBe(100)
+      expect(market.status).toBe('cancelled')
+      expect(result.resting).toBe(false)
+      expect(book.size).toBe(0)
+    })
+
+    test('给定撮合价格区间时成交价格不超出区间', () => {
+      const limits = { limitDown: 9.9, limitUp: 11 }
+      // 低于跌停价的卖单以跌停价成交，高于涨停价的卖单不成交
+      book.submit(createOrder('sell', 100, 9.5), NOW)
+      book.submit(createOrder('sell', 100, 11.5), NOW)
+
+      expect(book.getMatchableQuantity(createOrder('buy', 200, undefined, 'market'), limits)).toBe(100)
+      const market = createOrder('buy', 200, undefined, 'market')
+      const result = book.submit(market, NOW, limits)
+
+      expect(result.trades.map(t => t.price)).toEqual([9.9])
+      expect(market.filledQuantity).toBe(100)
+      expect(market.status).toBe('cancelled')
+      expect(book.getBestAsk()).toBe(11.5)
+    })
+
+    test('撤单应移除挂单并更新状态', () => {
+      const bid = createOrder('buy', 100, 9.9)
+      book.submit(bid, NOW)
+
+      expect(book.cancel(bid.id, NOW)).toBe(bid)
+      expect(bid.status).toBe('cancelled')
+      expect(book.cancel(bid.id, NOW)).toBeNull()
+      expect(book.size).toBe(0)
+    })
+
+    test('无效订单应抛出错误', () => {
+      expect(() => book.submit(createOrder('buy', 0, 10), NOW)).toThrow()
+      expect(() => book.submit(createOrder('buy', 100), NOW)).toThrow()
+      const other = { ...createOrder('buy', 100, 10), stockSymbol: '000001' }
+      expect(() => book.submit(other, NOW)).toThrow()
+    })
+  })
+
+  describe('盘口快照', () => {
+    test('应按价位聚合并限制深度', () => {
+      book.submit(createOrder('buy', 100, 9.9), NOW)
+      book.submit(createOrder('buy', 200, 9.9), NOW)
+      book.submit(createOrder('buy', 100, 9.8), NOW)
+      book.submit(createOrder('buy', 100, 9.7), NOW)
+      book.submit(createOrder('sell', 300, 10.1), NOW)
+
+      const snapshot = book.getSnapshot(2, NOW)
+
+      expect(snapshot.bids).toEqual([
+        { price: 9.9, quantity: 300, orderCount: 2 },
+        { price: 9.8, quantity: 100, orderCount: 1 }
+      ])
+      expect(snapshot.asks).toEqual([{ price: 10.1, quantity: 300, orderCount: 1 }])
+    })
+  })
+
+  describe('集合竞价', () => {
+    test('收集阶段只挂单不撮合', () => {
+      book.collect(createOrder('buy', 100, 10.2), NOW)
+      const result = book.collect(createOrder('sell', 100, 9.8), NOW)
+
+      expect(result.trades).toHaveLength(0)
+      expect(book.size).toBe(2)
+      expect(() => book.collect(createOrder('buy', 100, undefined, 'market'), NOW)).toThrow()
+    })
+
+    test('应选择成交量最大的价格统一撮合', () => {
+      book.collect(createOrder('buy', 300, 10.2), NOW)
+      book.collect(createOrder('buy', 200, 10.0), NOW)
+      book.collect(createOrder('sell', 100, 9.9), NOW)
+      book.collect(createOrder('sell', 300, 10.0), NOW)
+      book.collect(createOrder('sell', 200, 10.1), NOW)
+
+      const result = book.uncross(NOW, 10)
+
+      // 10.0：买 500 / 卖 400，成交 400；其他价格成交量更小
+      expect(result.clearing).toEqual({ price: 10.0, volume: 400, buyVolume: 500, sellVolume: 400 })
+      expect(result.trades.reduce((sum, t) => sum + t.quantity, 0)).toBe(400)
+      expect(result.trades.every(t => t.price === 10.0)).toBe(true)
+      // 未成交部分保留在订单簿
+      expect(book.getBestBid()).toBe(10.0)
+      expect(book.getBestAsk()).toBe(10.1)
+    })
+
+    test('成交量相同时应选择最接近参考价的价格', () => {
+      book.collect(createOrder('buy', 100, 10.5), NOW)
+      book.collect(createOrder('sell', 100, 9.5), NOW)
+
+      expect(book.getIndicativeClearing(9.6)?.price).toBe(9.5)
+      expect(book.getIndicativeClearing(10.4)?.price).toBe(10.5)
+    })
+
+    test('撮合价格区间外的价格不作为集合竞价候选', () => {
+      book.collect(createOrder('buy', 100, 10.5), NOW)
+      book.collect(createOrder('sell', 100, 9.5), NOW)
+
+      expect(book.getIndicativeClearing(9.6)?.price).toBe(9.5)
+      expect(book.getIndicativeClearing(9.6, { limitDown: 10, limitUp: 11 })?.price).toBe(10.5)
+    })
+
+    test('买卖价格不交叉时不应成交', () => {
+      book.collect(createOrder('buy', 100, 9.5), NOW)
+      book.collect(createOrder('sell', 100, 10.5), NOW)
+
+      const result = book.uncross(NOW, 10)
+      expect(result.clearing).toBeNull()
+      expect(result.trades).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,252 @@
+/**
+ * 订单管理器 Jest 测试套件
+ *
+ * 覆盖下单校验、有效期（IOC / FOK / day）、止损触发、改单和撤单
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/orderBook/orderManager.test.ts
+ */
+
+import { OrderBook, OrderManager, OrderError, OrderErrorCode, OrderVenue, OrderRequest, isOrderStatus } from '../../src/types/orderBook'
+import type { TradeOrder } from '../../../shared/types/trading'
+
+const SYMBOL = '600000'
+const NOW = new Date('2026-01-05T10:00:00')
+
+/**
+ * 基于 OrderBook 的测试撮合场所，最新价取最近成交价
+ */
+function createVenue(initialPrice: number): OrderVenue {
+  const book = new OrderBook(SYMBOL)
+  let lastPrice = initialPrice
+
+  return {
+    id: 1,
+    symbol: SYMBOL,
+    submitOrder: (order: TradeOrder) => {
+      const result = book.submit(order, NOW)
+      if (result.trades.length > 0) {
+        lastPrice = result.trades[result.trades.length - 1].price
+      }
+      return result
+    },
+    withdrawOrder: (orderId: string) => book.remove(orderId),
+    getCurrentPrice: () => lastPrice
+  }
+}
+
+function expectOrderError(fn: () => unknown, code: OrderErrorCode): void {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(OrderError)
+    expect((error as OrderError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected OrderError ${code}`)
+}
+
+describe('订单管理器', () => {
+  let manager: OrderManager
+  let marketOpen: boolean
+
+  const limit = (traderId: string, action: 'buy' | 'sell', quantity: number, price: number, extra: Partial<OrderRequest> = {}) =>
+    manager.submit({ traderId, symbol: SYMBOL, type: 'limit', action, quantity, price, ...extra })
+
+  beforeEach(() => {
+    marketOpen = true
+    const venue = createVenue(10)
+    manager = new OrderManager({
+      getVenue: (symbol: string) => (symbol === SYMBOL ? venue : undefined),
+      getTime: () => NOW,
+      isMarketOpen: () => marketOpen,
+      isCallAuction: () => false
+    })
+  })
+
+  describe('下单校验', () => {
+    test('无效请求应返回对应的拒绝原因', () => {
+      expectOrderError(() => limit('', 'buy', 100, 10), OrderErrorCode.INVALID_TRADER)
+      expectOrderError(() => limit('t1', 'buy', 0, 10), OrderErrorCode.INVALID_QUANTITY)
+      expectOrderError(() => limit('t1', 'buy', 100, -1), OrderErrorCode.INVALID_PRICE)
+      expectOrderError(() => limit('t1', 'buy', 100, 10, { symbol: 'UNKNOWN' }), OrderErrorCode.UNKNOWN_SYMBOL)
+      expectOrderError(() => limit('t1', 'buy', 100, 10, { timeInForce: 'gtd' as any }), OrderErrorCode.INVALID_TIME_IN_FORCE)
+      expectOrderError(
+        () => manager.submit({ traderId: 't1', symbol: SYMBOL, type: 'stop', action: 'sell', quantity: 100 }),
+        OrderErrorCode.INVALID_STOP_PRICE
+      )
+      expectOrderError(
+        () => manager.submit({ traderId: 't1', symbol: SYMBOL, type: 'market', action: 'buy', quantity: 100, timeInForce: 'gtc' }),
+        OrderErrorCode.INVALID_TIME_IN_FORCE
+      )
+    })
+
+    test('已注册交易员列表存在时应拒绝未知交易员', () => {
+      const venue = createVenue(10)
+      const registered = new OrderManager({
+        getVenue: (symbol: string) => (symbol === SYMBOL ? venue : undefined),
+        getTime: () => NOW,
+        isMarketOpen: () => true,
+        isCallAuction: () => false,
+        isKnownTrader: (traderId: string) => traderId === 't1'
+      })
+
+      expectOrderError(
+        () => registered.submit({ traderId: 'default-user', symbol: SYMBOL, type: 'limit', action: 'buy', quantity: 100, price: 10 }),
+        OrderErrorCode.INVALID_TRADER
+      )
+      expect(registered.submit({ traderId: 't1', symbol: SYMBOL, type: 'limit', action: 'buy', quantity: 100, price: 10 }).order.status)
+        .toBe('pending')
+    })
+
+    test('休市时应拒绝下单但允许撤单', () => {
+      const { order } = limit('t1', 'buy', 100, 9.9)
+      marketOpen = false
+
+      expectOrderError(() => limit('t1', 'buy', 100, 9.9), OrderErrorCode.MARKET_CLOSED)
+      expect(manager.cancel(order.id).status).toBe('cancelled')
+    })
+  })
+
+  describe('有效期', () => {
+    test('IOC 限价单未成交部分应撤销', () => {
+      limit('seller', 'sell', 100, 10)
+      const result = limit('buyer', 'buy', 300, 10, { timeInForce: 'ioc' })
+
+      expect(result.order.filledQuantity).toBe(100)
+      expect(result.order.status).toBe('cancelled')
+      expect(result.resting).toBe(false)
+    })
+
+    test('FOK 订单无法全部成交时不应产生成交', () => {
+      limit('seller', 'sell', 100, 10)
+      const result = limit('buyer', 'buy', 200, 10, { timeInForce: 'fok' })
+
+      expect(result.trades).toHaveLength(0)
+      expect(result.order.status).toBe('cancelled')
+      expect(manager.getOrders({ openOnly: true })).toHaveLength(1)
+    })
+
+    test('收盘后当日有效订单应过期，GTC 订单保留', () => {
+      const day = limit('t1', 'buy', 100, 9.5)
+      const gtc = limit('t1', 'buy', 100, 9.4, { timeInForce: 'gtc' })
+
+      expect(manager.expireDayOrders()).toBe(1)
+      expect(manager.getOrder(day.order.id)?.status).toBe('expired')
+      expect(manager.getOrder(gtc.order.id)?.status).toBe('pending')
+    })
+
+    test('按条件过期应只处理满足条件的未终结订单', () => {
+      const low = limit('t1', 'buy', 100, 9.0, { timeInForce: 'gtc' })
+      const high = limit('t1', 'buy', 100, 9.5, { timeInForce: 'gtc' })
+
+      const expired = manager.expireOrders(order => order.price! < 9.2)
+      expect(expired.map(order => order.id)).toEqual([low.order.id])
+      expect(manager.getOrder(low.order.id)?.status).toBe('expired')
+      expect(manager.getOrder(high.order.id)?.status).toBe('pending')
+      expect(manager.expireOrders(() => true).map(order => order.id)).toEqual([high.order.id])
+    })
+  })
+
+  describe('止损单', () => {
+    test('价格触及触发价后止损单应按市价成交', () => {
+      const stop = manager.submit({ traderId: 't1', symbol: SYMBOL, type: 'stop', action: 'sell', quantity: 100, stopPrice: 9.5 })
+      expect(stop.awaitingTrigger).toBe(true)
+
+      limit('buyer', 'buy', 200, 9.4)
+      // 成交价 9.4 触发卖出止损
+      limit('seller', 'sell', 100, 9.4)
+
+      const order = manager.getOrder(stop.order.id)!
+      expect(manager.isAwaitingTrigger(order.id)).toBe(false)
+      expect(order.status).toBe('filled')
+      expect(order.averagePrice).toBe(9.4)
+    })
+
+    test('止损限价单触发后应按限价挂单', () => {
+      const stop = manager.submit({
+        traderId: 't1', symbol: SYMBOL, type: 'stop_limit', action: 'buy', quantity: 100, stopPrice: 10.5, limitPrice: 10.6
+      })
+
+      limit('seller', 'sell', 100, 10.5)
+      limit('buyer', 'buy', 100, 10.5)
+
+      const order = manager.getOrder(stop.order.id)!
+      expect(order.price).toBe(10.6)
+      expect(order.status).toBe('pending')
+      expect(manager.isAwaitingTrigger(order.id)).toBe(false)
+    })
+
+    test('触发时未通过交易规则检查的止损单应被拒绝', () => {
+      const venue = createVenue(10)
+      const rejected: string[] = []
+      const guarded = new OrderManager({
+        getVenue: (symbol: string) => (symbol === SYMBOL ? venue : undefined),
+        getTime: () => NOW,
+        isMarketOpen: () => true,
+        isCallAuction: () => false,
+        // 限价超过 11 视为超出涨跌停区间（止损限价单触发后才带有 price）
+        checkRules: (order: TradeOrder) => {
+          if (order.price !== undefined && order.price > 11) {
+            throw new OrderError('Price above limit up', OrderErrorCode.PRICE_LIMIT_EXCEEDED, order.id)
+          }
+        },
+        onTriggeredOrderRejected: (order: TradeOrder, error: OrderError) => rejected.push(`${order.id}:${error.code}`)
+      })
+
+      const stop = guarded.submit({
+        traderId: 't1', symbol: SYMBOL, type: 'stop_limit', action: 'buy', quantity: 100, stopPrice: 10.5, limitPrice: 11.5
+      })
+      guarded.submit({ traderId: 'seller', symbol: SYMBOL, type: 'limit', action: 'sell', quantity: 100, price: 10.5 })
+      guarded.submit({ traderId: 'buyer', symbol: SYMBOL, type: 'limit', action: 'buy', quantity: 100, price: 10.5 })
+
+      expect(guarded.getOrder(stop.order.id)?.status).toBe('rejected')
+      expect(guarded.isAwaitingTrigger(stop.order.id)).toBe(false)
+      expect(rejected).toEqual([`${stop.order.id}:${OrderErrorCode.PRICE_LIMIT_EXCEEDED}`])
+    })
+  })
+
+  describe('改单与撤单', () => {
+    test('改价应重新撮合', () => {
+      limit('seller', 'sell', 100, 10)
+      const { order } = limit('buyer', 'buy', 100, 9.8)
+
+      const result = manager.amend(order.id, { price: 10 })
+
+      expect(result.trades).toHaveLength(1)
+      expect(result.order.status).toBe('filled')
+    })
+
+    test('改单数量不能小于已成交数量', () => {
+      limit('seller', 'sell', 100, 10)
+      const { order } = limit('buyer', 'buy', 300, 10)
+
+      expectOrderError(() => manager.amend(order.id, { quantity: 100 }), OrderErrorCode.INVALID_QUANTITY)
+      expect(manager.amend(order.id, { quantity: 200 }).order.quantity).toBe(200)
+    })
+
+    test('已终结订单不能撤销，未知订单返回未找到', () => {
+      limit('seller', 'sell', 100, 10)
+      const { order } = limit('buyer', 'buy', 100, 10)
+
+      expectOrderError(() => manager.cancel(order.id), OrderErrorCode.ORDER_NOT_ACTIVE)
+      expectOrderError(() => manager.cancel('ORD999'), OrderErrorCode.ORDER_NOT_FOUND)
+    })
+
+    test('应按交易员和状态查询订单', () => {
+      limit('t1', 'buy', 100, 9.5)
+      limit('t2', 'buy', 100, 9.6)
+      const { order } = limit('t1', 'buy', 100, 9.7)
+      manager.cancel(order.id)
+
+      expect(manager.getOrders({ traderId: 't1' })).toHaveLength(2)
+      expect(manager.getOrders({ traderId: 't1', openOnly: true })).toHaveLength(1)
+      expect(manager.getOrders({ status: 'cancelled' })[0].id).toBe(order.id)
+
+      // 查询参数中的状态先经过校验
+      expect(isOrderStatus('partial')).toBe(true)
+      expect(isOrderStatus('open')).toBe(false)
+      expect(isOrderStatus(['filled'])).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * 价格模型 Jest 测试套件
+ *
+ * 覆盖模型配置校验、默认随机游走、几何布朗运动的漂移、OU 均值回归、
+ * 跳跃扩散与几何布朗运动的一致性，以及 GARCH 的波动率聚集
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/priceModel/priceModel.test.ts
+ */
+
+import {
+  PriceModelError,
+  RandomSource,
+  TRADING_SECONDS_PER_YEAR,
+  createPriceModel,
+  validatePriceModelConfig
+} from '../../src/types/priceModel'
+
+// 固定种子的均匀随机数源（mulberry32），使结果可重复
+function seededRandom(seed: number): RandomSource {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// 依次返回给定值的随机数源
+function sequence(...values: number[]): RandomSource {
+  let i = 0
+  return () => values[i++ % values.length]
+}
+
+function expectModelError(config: Parameters<typeof validatePriceModelConfig>[0], parameter: string): void {
+  try {
+    validatePriceModelConfig(config)
+  } catch (error) {
+    expect(error).toBeInstanceOf(PriceModelError)
+    expect((error as PriceModelError).parameter).toBe(parameter)
+    return
+  }
+  throw new Error('Expected a PriceModelError')
+}
+
+const ONE_DAY = 4 * 3600
+
+describe('价格模型', () => {
+  test('应拒绝未知类型、未知参数、超出范围的参数和不平稳的 GARCH', () => {
+    expectModelError({ type: 'brownian' as any }, 'type')
+    expectModelError({ type: 'gbm', params: { reversionSpeed: 1 } }, 'reversionSpeed')
+    expectModelError({ type: 'gbm', params: { volatility: -0.1 } }, 'volatility')
+    expectModelError({ type: 'random_walk', params: { volatility: NaN } }, 'volatility')
+    expectModelError({ type: 'ou', params: { reversionSpeed: 0 } }, 'reversionSpeed')
+    expectModelError({ type: 'garch', params: { alpha: 0.2, beta: 0.8 } }, 'beta')
+    expectModelError({ type: 'garch', params: { omega: 0 } }, 'omega')
+
+    expect(() => validatePriceModelConfig({ type: 'jump_diffusion', params: { jumpIntensity: 5 } })).not.toThrow()
+    expect(() => createPriceModel({ type: 'garch', params: { alpha: 1 } }, 10)).toThrow(PriceModelError)
+  })
+
+  test('默认随机游走每次更新按 1% 波动率变化，与时间步长无关', () => {
+    const model = createPriceModel({ type: 'random_walk' }, 10)
+    // u1 = 1 - 0.5，u2 = 0：Z = √(2 ln 2)
+    const z = Math.sqrt(2 * Math.log(2))
+
+    expect(model.type).toBe('random_walk')
+    expect(model.next(10, 1, sequence(0.5, 0))).toBeCloseTo(10 * (1 + 0.01 * z), 10)
+    expect(model.next(10, 60, sequence(0.5, 0))).toBeCloseTo(10 * (1 + 0.01 * z), 10)
+  })
+
+  test('几何布朗运动按年化漂移增长，对数收益率的波动率按时间步长的平方根缩放', () => {
+    const noNoise = createPriceModel({ type: 'gbm', params: { drift: 0.1, volatility: 0 } }, 10)
+    expect(noNoise.next(10, TRADING_SECONDS_PER_YEAR, seededRandom(1))).toBeCloseTo(10 * Math.exp(0.1), 10)
+
+    const model = createPriceModel({ type: 'gbm', params: { drift: 0, volatility: 0.3 } }, 10)
+    const random = seededRandom(42)
+    const returns: number[] = []
+    for (let i = 0; i < 4000; i++) {
+      returns.push(Math.log(model.next(10, ONE_DAY, random) / 10))
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length
+    const stdDev = Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length)
+    expect(stdDev).toBeCloseTo(0.3 / Math.sqrt(252), 2)
+  })
+
+  test('OU 模型向均衡价格回归，未设置均衡价格时以起始价格为均衡价格', () => {
+    const dt = TRADING_SECONDS_PER_YEAR / 50
+    const model = createPriceModel({ type: 'ou', params: { meanPrice: 10, reversionSpeed: 50, volatility: 0 } }, 20)
+    // 一个单位时间后对数偏离衰减为 e^-1
+    expect(Math.log(model.next(20, dt, seededRandom(1)) / 10)).toBeCloseTo(Math.log(2) * Math.exp(-1), 10)
+
+    const anchored = createPriceModel({ type: 'ou', params: { volatility: 0 } }, 12)
+    expect(anchored.next(15, dt, seededRandom(1))).toBeLessThan(15)
+    expect(anchored.next(9, dt, seededRandom(1))).toBeGreaterThan(9)
+    expect(anchored.next(12, dt, seededRandom(1))).toBeCloseTo(12, 10)
+  })
+
+  test('跳跃强度为 0 时跳跃扩散与几何布朗运动一致，跳跃只在发生时改变价格', () => {
+    const gbm = createPriceModel({ type: 'gbm', params: { drift: 0.05, volatility: 0.25 } }, 10)
+    const merton = createPriceModel({ type: 'jump_diffusion', params: { drift: 0.05, volatility: 0.25, jumpIntensity: 0 } }, 10)
+    expect(merton.next(10, ONE_DAY, seededRandom(7))).toBeCloseTo(gbm.next(10, ONE_DAY, seededRandom(7)), 10)
+
+    // 只有跳跃：每次跳跃固定为 -10%，不跳跃时只有跳跃补偿带来的漂移
+    const jumpsOnly = createPriceModel({
+      type: 'jump_diffusion',
+      params: { drift: 0, volatility: 0, jumpIntensity: 50, jumpMean: -0.1, jumpStdDev: 0 }
+    }, 10)
+    const random = seededRandom(3)
+    const steps = Array.from({ length: 500 }, () => Math.log(jumpsOnly.next(10, ONE_DAY, random) / 10))
+    const compensation = -50 * (Math.exp(-0.1) - 1) * ONE_DAY / TRADING_SECONDS_PER_YEAR
+    const jumpCounts = steps.map(step => Math.round((step - compensation) / -0.1))
+    steps.forEach((step, i) => expect(step).toBeCloseTo(compensation - 0.1 * jumpCounts[i], 10))
+    // 每天平均 50 / 252 次跳跃
+    expect(jumpCounts.reduce((sum, count) => sum + count, 0) / steps.length).toBeCloseTo(50 / 252, 1)
+  })
+
+  test('GARCH 大幅冲击后波动率升高，随后回落到长期水平', () => {
+    const config = { type: 'garch' as const, params: { omega: 0.000005, alpha: 0.1, beta: 0.85 } }
+    const calm = createPriceModel(config, 10)
+    const shocked = createPriceModel(config, 10)
+
+    // 第一次更新：极端冲击（u1 ≈ 1e-6，Z ≈ 5.26）
+    shocked.next(10, 1, sequence(0.999999, 0))
+    // 相同的第二次冲击，经历过极端冲击的模型收益率更大
+    const calmMove = Math.abs(Math.log(calm.next(10, 1, sequence(0.5, 0)) / 10))
+    const shockedMove = Math.abs(Math.log(shocked.next(10, 1, sequence(0.5, 0)) / 10))
+    expect(calmMove).toBeCloseTo(0.01 * Math.sqrt(2 * Math.log(2)), 10)
+    expect(shockedMove).toBeGreaterThan(calmMove * 1.5)
+
+    // 没有新冲击时方差按 α + β 衰减
+    for (let i = 0; i < 200; i++) {
+      shocked.next(10, 1, sequence(0, 0.25))
+    }
+    const decayedMove = Math.abs(Math.log(shocked.next(10, 1, sequence(0.5, 0)) / 10))
+    expect(decayedMove).toBeLessThan(calmMove)
+  })
+})
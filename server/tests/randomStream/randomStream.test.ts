@@ -0,0 +1,142 @@
+/**
+ * 可复现随机数流 Jest 测试套件
+ *
+ * 覆盖带种子随机数源的可复现性、按名称派生子流与创建顺序无关、种子校验，
+ * 相同模板和种子创建的交易所实例得到相同的价格路径并在导出状态中记录种子，
+ * 以及同一模板的多个交易员各自使用独立子流
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/randomStream/randomStream.test.ts
+ */
+
+import {
+  MAX_RANDOM_SEED,
+  RandomStreams,
+  createSeededRandom,
+  deriveSeed,
+  isValidRandomSeed
+} from '../../src/types/randomStream'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { AITraderInstance } from '../../src/models/runtime/aiTraderInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+
+const STOCKS = [
+  { symbol: '600000', priceModel: { type: 'gbm' as const, params: { volatility: 2 } } },
+  { symbol: '600001' }
+]
+
+function take(random: () => number, count: number): number[] {
+  return Array.from({ length: count }, () => random())
+}
+
+// 按模板创建交易所和股票，开盘后推进 count 秒，返回每只股票的价格路径
+function simulate(seed: number, count: number): { exchange: ExchangeInstance; paths: Record<string, number[]> } {
+  const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '', seed })
+  const stocks = STOCKS.map((template, i) => new StockInstance(i + 2, exchange, {
+    templateId: `stock_${template.symbol}`,
+    symbol: template.symbol,
+    companyName: template.symbol,
+    category: 'tech',
+    issuePrice: 10,
+    totalShares: 1000000,
+    priceModel: template.priceModel
+  }))
+  stocks.forEach(stock => exchange.addStock(stock))
+
+  exchange.onBeginPlay()
+  stocks.forEach(stock => {
+    stock.onBeginPlay()
+    stock.state = GameObjectState.ACTIVE
+  })
+
+  // 推进到 09:30 连续竞价
+  while (!exchange.isInTradingHours()) {
+    exchange.onTick(60)
+  }
+
+  const paths: Record<string, number[]> = Object.fromEntries(STOCKS.map(template => [template.symbol, []]))
+  for (let i = 0; i < count; i++) {
+    exchange.onTick(1)
+    for (const stock of stocks) {
+      stock.onTick(1)
+      paths[stock.symbol].push(stock.getCurrentPrice())
+    }
+  }
+
+  stocks.forEach(stock => stock.onDestroy())
+  exchange.onDestroy()
+  return { exchange, paths }
+}
+
+describe('可复现随机数流', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('相同种子得到相同序列，子流只由种子和名称决定', () => {
+    expect(take(createSeededRandom(42), 5)).toEqual(take(createSeededRandom(42), 5))
+    expect(take(createSeededRandom(42), 5)).not.toEqual(take(createSeededRandom(43), 5))
+    take(createSeededRandom(7), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+
+    expect(deriveSeed(42, 'stock:600000')).toBe(deriveSeed(42, 'stock:600000'))
+    expect(deriveSeed(42, 'stock:600000')).not.toBe(deriveSeed(42, 'stock:600001'))
+    expect(deriveSeed(42, 'stock:600000')).not.toBe(deriveSeed(43, 'stock:600000'))
+
+    // 先取哪个子流不影响各子流的序列，同一名称返回同一个子流
+    const a = new RandomStreams(42)
+    const b = new RandomStreams(42)
+    const first = take(a.get('stock:600000'), 3)
+    take(b.get('trader:t1'), 10)
+    expect(take(b.get('stock:600000'), 3)).toEqual(first)
+    expect(a.get('stock:600000')).toBe(a.get('stock:600000'))
+  })
+
+  test('种子必须是 32 位无符号整数', () => {
+    expect(isValidRandomSeed(0)).toBe(true)
+    expect(isValidRandomSeed(MAX_RANDOM_SEED)).toBe(true)
+    expect(isValidRandomSeed(MAX_RANDOM_SEED + 1)).toBe(false)
+    expect(isValidRandomSeed(-1)).toBe(false)
+    expect(isValidRandomSeed(1.5)).toBe(false)
+    expect(isValidRandomSeed('42')).toBe(false)
+    expect(() => new RandomStreams(-1)).toThrow('Random seed')
+  })
+
+  test('相同模板和种子创建的实例价格路径相同，种子记录在导出状态中', () => {
+    const first = simulate(20261018, 30)
+    const second = simulate(20261018, 30)
+    const other = simulate(7, 30)
+
+    expect(first.paths['600000']).toHaveLength(30)
+    expect(new Set(first.paths['600000']).size).toBeGreaterThan(1)
+    expect(second.paths).toEqual(first.paths)
+    expect(other.paths['600000']).not.toEqual(first.paths['600000'])
+
+    expect(first.exchange.exportState().exchange.seed).toBe(20261018)
+    expect(first.exchange.getMarketInstanceSummary().seed).toBe(20261018)
+    expect(isValidRandomSeed(new ExchangeInstance(9, { templateId: 'market', name: 'Test', description: '' }).getRandomSeed())).toBe(true)
+  })
+  test('同一模板的交易员取不同的子流，相同种子重建后按创建顺序得到相同子流', () => {
+    const createTraders = () => {
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '', seed: 42 })
+      return [2, 3].map(id => new AITraderInstance(id, exchange, {
+        templateId: 'trader_template', name: `Trader ${id}`, riskProfile: 'moderate', initialCapital: 100000
+      }))
+    }
+
+    const [first, second] = createTraders().map(trader => take(trader['random'], 10))
+    expect(second).not.toEqual(first)
+
+    const [rebuiltFirst, rebuiltSecond] = createTraders().map(trader => take(trader['random'], 10))
+    expect(rebuiltFirst).toEqual(first)
+    expect(rebuiltSecond).toEqual(second)
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Server-Sent Events 工具 Jest 测试套件
+ *
+ * 覆盖事件流响应头、事件帧格式、心跳注释行，以及客户端断开和主动关闭时的清理
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/sse/sse.test.ts
+ */
+
+import { EventEmitter } from 'events'
+import type { Request, Response } from 'express'
+import { openEventStream } from '../../src/utils/sse'
+
+interface FakeResponse {
+  statusCode: number
+  headers: Record<string, string>
+  chunks: string[]
+  ended: boolean
+}
+
+function createStream() {
+  const req = new EventEmitter()
+  const fake: FakeResponse = { statusCode: 0, headers: {}, chunks: [], ended: false }
+  const res = {
+    status: (code: number) => {
+      fake.statusCode = code
+      return res
+    },
+    setHeader: (name: string, value: string) => {
+      fake.headers[name] = value
+    },
+    flushHeaders: () => undefined,
+    write: (chunk: string) => {
+      fake.chunks.push(chunk)
+      return true
+    },
+    end: () => {
+      fake.ended = true
+    }
+  }
+  const stream = openEventStream(req as unknown as Request, res as unknown as Response)
+  return { req, res: fake, stream }
+}
+
+describe('Server-Sent Events', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  test('打开时应设置事件流响应头并发送重连间隔', () => {
+    const { res, stream } = createStream()
+
+    expect(res.statusCode).toBe(200)
+    expect(res.headers['Content-Type']).toBe('text/event-stream; charset=utf-8')
+    expect(res.headers['Cache-Control']).toBe('no-cache, no-transform')
+    expect(res.headers['X-Accel-Buffering']).toBe('no')
+    expect(res.chunks).toEqual(['retry: 3000\n\n'])
+
+    stream.close()
+  })
+
+  test('事件应带递增 ID、事件名和 JSON 数据，以空行结束', () => {
+    const { res, stream } = createStream()
+
+    stream.send('tick', { symbol: '600000', price: 10.5 })
+    stream.send('status', 'running')
+
+    expect(res.chunks.slice(1)).toEqual([
+      'id: 1\nevent: tick\ndata: {"symbol":"600000","price":10.5}\n\n',
+      'id: 2\nevent: status\ndata: "running"\n\n'
+    ])
+
+    stream.close()
+  })
+
+  test('应定时发送心跳注释行', () => {
+    const { res, stream } = createStream()
+
+    jest.advanceTimersByTime(14999)
+    expect(res.chunks).not.toContain(': ping\n\n')
+
+    jest.advanceTimersByTime(1)
+    expect(res.chunks.slice(1)).toEqual([': ping\n\n'])
+
+    jest.advanceTimersByTime(15000)
+    expect(res.chunks.slice(1)).toEqual([': ping\n\n', ': ping\n\n'])
+
+    stream.close()
+  })
+
+  test('客户端断开时应停止心跳并只调用一次关闭回调', () => {
+    const { req, res, stream } = createStream()
+    const listener = jest.fn()
+    stream.onClose(listener)
+
+    req.emit('close')
+    req.emit('close')
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    const written = res.chunks.length
+    jest.advanceTimersByTime(60000)
+    stream.send('tick', {})
+    expect(res.chunks).toHaveLength(written)
+    expect(jest.getTimerCount()).toBe(0)
+  })
+
+  test('主动关闭时应结束响应，之后的事件和关闭被忽略', () => {
+    const { req, res, stream } = createStream()
+    const listener = jest.fn()
+    stream.onClose(listener)
+
+    stream.close()
+    expect(res.ended).toBe(true)
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    stream.send('tick', {})
+    stream.close()
+    req.emit('close')
+    expect(res.chunks).toEqual(['retry: 3000\n\n'])
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(jest.getTimerCount()).toBe(0)
+  })
+})
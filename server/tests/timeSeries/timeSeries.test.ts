@@ -0,0 +1,188 @@
+/**
+ * 时间序列交易时段对齐 Jest 测试套件
+ *
+ * 覆盖分钟 K 线不跨越午休、集合竞价归属、日 K 线按交易时段对齐、
+ * 多日 K 线按交易日计数、查询起点推算，按交易时段关闭窗口，以及窗口关闭和序列创建/删除事件
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/timeSeries/timeSeries.test.ts
+ */
+
+import {
+  DataType,
+  Granularity,
+  Metric,
+  MissingDataStrategy,
+  AggregatedPoint,
+  TimeSeriesManager,
+  TradingCalendar,
+  getGranularityMilliseconds
+} from '../../src/types/timeSeries'
+import { TimeSeriesEvents } from '../../src/types/eventTypes'
+
+const SERIES_ID = '600000_price'
+
+// 2026-01-05 为周一
+function at(day: number, hours: number, minutes: number): Date {
+  return new Date(2026, 0, day, hours, minutes)
+}
+
+function createSeries(manager: TimeSeriesManager, seriesId = SERIES_ID): void {
+  manager.createSeries({
+    seriesId,
+    name: `${seriesId} Price`,
+    dataType: DataType.CONTINUOUS,
+    metrics: [Metric.OPEN, Metric.HIGH, Metric.LOW, Metric.CLOSE, Metric.VWAP],
+    missingDataStrategy: MissingDataStrategy.USE_PREVIOUS
+  })
+}
+
+function createCalendar(): TradingCalendar {
+  return new TradingCalendar({
+    isTradingDay: (date: Date) => date.getDay() >= 1 && date.getDay() <= 5,
+    sessions: [
+      { start: '09:30', end: '11:30' },
+      { start: '13:00', end: '15:00' }
+    ]
+  })
+}
+
+describe('时间序列交易时段对齐', () => {
+  test('分钟 K 线应在交易时段内划分，不跨越午休', () => {
+    const calendar = createCalendar()
+
+    expect(calendar.getWindowBounds(at(5, 10, 45), Granularity.MIN_60)).toEqual({
+      startTime: at(5, 10, 30),
+      endTime: at(5, 11, 30)
+    })
+    expect(calendar.getWindowBounds(at(5, 13, 10), Granularity.MIN_60)).toEqual({
+      startTime: at(5, 13, 0),
+      endTime: at(5, 14, 0)
+    })
+    expect(calendar.getWindowBounds(at(5, 14, 59), Granularity.MIN_120)).toEqual({
+      startTime: at(5, 13, 0),
+      endTime: at(5, 15, 0)
+    })
+  })
+
+  test('开盘集合竞价归入第一根，午休和收盘集合竞价归入时段最后一根', () => {
+    const calendar = createCalendar()
+
+    expect(calendar.getWindowBounds(at(5, 9, 25), Granularity.MIN_1)).toEqual({
+      startTime: at(5, 9, 30),
+      endTime: at(5, 9, 31)
+    })
+    expect(calendar.getWindowBounds(at(5, 11, 30), Granularity.MIN_5)).toEqual({
+      startTime: at(5, 11, 25),
+      endTime: at(5, 11, 30)
+    })
+    expect(calendar.getWindowBounds(at(5, 15, 0), Granularity.MIN_1)).toEqual({
+      startTime: at(5, 14, 59),
+      endTime: at(5, 15, 0)
+    })
+  })
+
+  test('日 K 线应对齐到交易时段，多日 K 线按交易日计数并跳过周末', () => {
+    const calendar = createCalendar()
+
+    expect(calendar.getWindowBounds(at(6, 10, 0), Granularity.DAY_1)).toEqual({
+      startTime: at(6, 9, 30),
+      endTime: at(6, 15, 0)
+    })
+
+    // 周六的数据点归入下周一
+    expect(calendar.getWindowBounds(at(10, 12, 0), Granularity.DAY_1).startTime).toEqual(at(12, 9, 30))
+
+    const week = calendar.getWindowBounds(at(7, 10, 0), Granularity.DAY_5)
+    const first = calendar.getTradingDay(week.startTime)
+    const last = calendar.getTradingDay(new Date(week.endTime.getTime() - 1))
+    expect(calendar.getTradingDayIndex(last) - calendar.getTradingDayIndex(first)).toBe(4)
+    expect(week.startTime.getHours() * 60 + week.startTime.getMinutes()).toBe(9 * 60 + 30)
+    expect(week.endTime.getHours()).toBe(15)
+    // 同一组内的交易日得到相同的窗口
+    expect(calendar.getWindowBounds(first, Granularity.DAY_5)).toEqual(week)
+    expect(calendar.getWindowBounds(last, Granularity.DAY_5)).toEqual(week)
+
+    expect(getGranularityMilliseconds(Granularity.DAY_5)).toBe(5 * getGranularityMilliseconds(Granularity.DAY_1))
+  })
+
+  test('查询起点应按窗口数量换算为交易日向前推算', () => {
+    const calendar = createCalendar()
+
+    // 周三向前 3 个交易日跨过周末到上周五
+    expect(calendar.getLookbackStart(at(7, 10, 0), Granularity.DAY_1, 3)).toEqual(at(2, 0, 0))
+    // 每个交易日 4 根 60 分钟 K 线，10 根约 3 个交易日
+    expect(calendar.getLookbackStart(at(7, 10, 0), Granularity.MIN_60, 10)).toEqual(at(2, 0, 0))
+    // 每个交易日 240 根 1 分钟 K 线，多算一个交易日覆盖当日未走完的时段
+    expect(calendar.getLookbackStart(at(7, 10, 0), Granularity.MIN_1, 240)).toEqual(at(6, 0, 0))
+  })
+
+  test('收盘集合竞价的多笔数据应归入同一根 K 线，在下一个交易日开盘前关闭', async () => {
+    const manager = new TimeSeriesManager({ calendar: createCalendar() })
+    createSeries(manager)
+
+    manager.addDataPoint(SERIES_ID, { timestamp: at(5, 14, 59), value: 10, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(5, 15, 0), value: 10.1, volume: 200 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(5, 15, 0), value: 10.2, volume: 300 })
+
+    const range = { seriesId: SERIES_ID, startTime: at(5, 0, 0), endTime: at(7, 0, 0) }
+    expect(await manager.queryAggregatedData({ ...range, granularity: Granularity.MIN_1 })).toHaveLength(0)
+    expect(manager.getActiveWindowData(SERIES_ID, Granularity.MIN_1)).toMatchObject({ close: 10.2, volume: 600 })
+
+    manager.addDataPoint(SERIES_ID, { timestamp: at(6, 9, 25), value: 10.3, volume: 100 })
+
+    const minuteBars = await manager.queryAggregatedData({ ...range, granularity: Granularity.MIN_1 })
+    expect(minuteBars).toHaveLength(1)
+    expect(minuteBars[0]).toMatchObject({ startTime: at(5, 14, 59), close: 10.2, volume: 600, dataPointCount: 3 })
+
+    const dayBars = await manager.queryAggregatedData({ ...range, granularity: Granularity.DAY_1 })
+    expect(dayBars).toHaveLength(1)
+    expect(dayBars[0]).toMatchObject({ startTime: at(5, 9, 30), endTime: at(5, 15, 0), open: 10, close: 10.2 })
+  })
+
+  test('窗口关闭时应按序列和粒度各广播一次已关闭的 K 线', () => {
+    const manager = new TimeSeriesManager({ calendar: createCalendar() })
+    createSeries(manager)
+    createSeries(manager, '600001_price')
+
+    const closed: AggregatedPoint[] = []
+    manager.bind(TimeSeriesEvents.WINDOW_CLOSED, point => closed.push(point))
+
+    manager.addDataPoint(SERIES_ID, { timestamp: at(5, 10, 0), value: 10, volume: 100 })
+    manager.addDataPoint('600001_price', { timestamp: at(5, 10, 2), value: 20, volume: 100 })
+    manager.addDataPoint(SERIES_ID, { timestamp: at(5, 10, 3), value: 10.2, volume: 100 })
+    expect(closed).toHaveLength(1)
+    expect(closed[0]).toMatchObject({ seriesId: SERIES_ID, granularity: Granularity.MIN_1, startTime: at(5, 10, 0), close: 10 })
+
+    // 跨过 5 分钟边界时 1 分钟和 5 分钟窗口各关闭一次，其他序列不受影响
+    closed.length = 0
+    manager.addDataPoint(SERIES_ID, { timestamp: at(5, 10, 5), value: 10.4, volume: 100 })
+    expect(closed.map(point => [point.seriesId, point.granularity])).toEqual([
+      [SERIES_ID, Granularity.MIN_1],
+      [SERIES_ID, Granularity.MIN_5]
+    ])
+    expect(closed[1]).toMatchObject({ open: 10, close: 10.2, dataPointCount: 2 })
+  })
+
+  test('应广播序列创建和删除事件，解绑后不再收到事件', () => {
+    const manager = new TimeSeriesManager()
+    const created: string[] = []
+    const removed: string[] = []
+    const onRemoved = (seriesId: string) => removed.push(seriesId)
+    manager.bind(TimeSeriesEvents.SERIES_CREATED, definition => created.push(definition.seriesId))
+    manager.bind(TimeSeriesEvents.SERIES_REMOVED, onRemoved)
+
+    createSeries(manager)
+    manager.removeSeries(SERIES_ID)
+    // 不存在的序列不广播删除事件
+    manager.removeSeries(SERIES_ID)
+    expect(created).toEqual([SERIES_ID])
+    expect(removed).toEqual([SERIES_ID])
+
+    manager.unbind(TimeSeriesEvents.SERIES_REMOVED, onRemoved)
+    createSeries(manager)
+    manager.removeSeries(SERIES_ID)
+    expect(created).toHaveLength(2)
+    expect(removed).toHaveLength(1)
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * 成交历史 Jest 测试套件
+ *
+ * 覆盖成交记录转换、查询条件、批量写入器的分批、重试与溢出，以及重试时的重复键判断
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/tradeHistory/tradeHistory.test.ts
+ */
+
+import {
+  TradeHistoryRecord,
+  TradeHistoryWriter,
+  buildTradeHistoryFilter,
+  createTradeHistoryRecord,
+  normalizeTradeHistoryLimit
+} from '../../src/types/tradeHistory'
+import type { MatchedTrade } from '../../src/types/orderBook'
+import { isDuplicateOnlyError } from '../../src/utils/mongoUtils'
+
+const NOW = new Date('2026-01-05T10:00:00')
+
+function createRecord(index: number): TradeHistoryRecord {
+  return { tradeId: `T${index}` } as TradeHistoryRecord
+}
+
+describe('成交历史', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('成交应转换为带全局唯一 ID 和双方费用的记录', () => {
+    const trade = {
+      tradeId: '600000-T7',
+      symbol: '600000',
+      price: 10,
+      quantity: 100,
+      amount: 1000,
+      buyOrderId: 'O1',
+      sellOrderId: 'O2',
+      buyerId: '3',
+      sellerId: '4',
+      aggressorSide: 'sell',
+      executedAt: NOW,
+      executions: {
+        buy: { commission: 5, fees: { commission: 5, stampDuty: 0, transferFee: 0.01, total: 5.01 } },
+        sell: { commission: 5 }
+      }
+    } as unknown as MatchedTrade
+
+    const record = createTradeHistoryRecord(trade, {
+      exchangeId: 'env_1',
+      instanceCreatedAt: new Date(1000),
+      userId: 'user-1',
+      stockName: '浦发银行',
+      buyerName: 'Alice',
+      sellerName: 'Bob'
+    })
+
+    expect(record).toMatchObject({
+      tradeId: 'env_1-1000-600000-T7',
+      exchangeId: 'env_1',
+      instanceCreatedAt: new Date(1000),
+      userId: 'user-1',
+      tradeType: 'sell',
+      buyerOrderId: 'O1',
+      sellerOrderId: 'O2',
+      buyerFee: 5.01,
+      sellerFee: 5
+    })
+  })
+
+  test('查询条件应组合实例、所属用户、股票、交易员和时间范围', () => {
+    const end = new Date('2026-01-06T00:00:00')
+    const createdAt = new Date(1000)
+    expect(buildTradeHistoryFilter({
+      exchangeId: 'env_1', instanceCreatedAt: createdAt, userId: 'user-1', symbol: 'abc', traderId: '3', startTime: NOW, endTime: end
+    })).toEqual({
+      exchangeId: 'env_1',
+      instanceCreatedAt: createdAt,
+      userId: 'user-1',
+      symbol: 'ABC',
+      $or: [{ buyerId: '3' }, { sellerId: '3' }],
+      timestamp: { $gte: NOW, $lte: end }
+    })
+    expect(normalizeTradeHistoryLimit(undefined)).toBe(100)
+    expect(normalizeTradeHistoryLimit(5000)).toBe(1000)
+  })
+
+  test('写入器应按批次写入缓冲区', async () => {
+    const batches: number[] = []
+    const writer = new TradeHistoryWriter({ insert: async records => { batches.push(records.length) } }, { batchSize: 2 })
+
+    for (let i = 0; i < 5; i++) {
+      writer.enqueue(createRecord(i))
+    }
+    await writer.flush()
+
+    expect(batches.reduce((sum, n) => sum + n, 0)).toBe(5)
+    expect(Math.max(...batches)).toBe(2)
+    expect(writer.getStats()).toMatchObject({ buffered: 0, written: 5 })
+  })
+
+  test('写入失败的批次应保留并在下次写入时重试', async () => {
+    const written: string[] = []
+    let fail = true
+    const writer = new TradeHistoryWriter({
+      insert: async records => {
+        if (fail) throw new Error('db down')
+        written.push(...records.map(r => r.tradeId))
+      }
+    }, { batchSize: 10 })
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    writer.enqueue(createRecord(1))
+    writer.enqueue(createRecord(2))
+    await writer.flush()
+    expect(writer.getStats()).toMatchObject({ buffered: 2, failedBatches: 1 })
+
+    fail = false
+    await writer.flush()
+    expect(written).toEqual(['T1', 'T2'])
+  })
+
+  test('缓冲区超出上限时应丢弃最早的记录', async () => {
+    const written: string[] = []
+    const writer = new TradeHistoryWriter({ insert: async records => { written.push(...records.map(r => r.tradeId)) } }, { batchSize: 10, maxBufferSize: 2 })
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    writer.enqueue(createRecord(1))
+    writer.enqueue(createRecord(2))
+    writer.enqueue(createRecord(3))
+    await writer.stop()
+
+    expect(written).toEqual(['T2', 'T3'])
+    expect(writer.getStats().dropped).toBe(1)
+  })
+
+  test('仅包含重复键的写入错误应视为写入成功', () => {
+    expect(isDuplicateOnlyError({ code: 11000 })).toBe(true)
+    expect(isDuplicateOnlyError({ writeErrors: [{ code: 11000 }, { err: { code: 11000 } }] })).toBe(true)
+    expect(isDuplicateOnlyError({ writeErrors: [{ code: 11000 }, { code: 121 }] })).toBe(false)
+    expect(isDuplicateOnlyError({ writeErrors: [] })).toBe(false)
+    expect(isDuplicateOnlyError(new Error('db down'))).toBe(false)
+    expect(isDuplicateOnlyError(null)).toBe(false)
+    expect(isDuplicateOnlyError('11000')).toBe(false)
+  })
+})
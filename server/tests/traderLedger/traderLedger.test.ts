@@ -0,0 +1,200 @@
+/**
+ * 交易员账本 Jest 测试套件
+ *
+ * 覆盖期初持仓、平均成本、已实现 / 未实现盈亏和快照估值，交易所下单时的买单资金检查，以及账本快照中的持仓相关系数矩阵
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/traderLedger/traderLedger.test.ts
+ */
+
+import { TraderLedger, LedgerPriceSource } from '../../src/types/traderLedger'
+import { OrderError, OrderErrorCode, MatchedTrade } from '../../src/types/orderBook'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { AITraderInstance } from '../../src/models/runtime/aiTraderInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+
+const SYMBOL = '600000'
+const NOW = new Date('2026-01-05T10:00:00')
+
+function createPrices(current: number, previousClose: number | null = null): LedgerPriceSource {
+  return {
+    getCurrentPrice: () => current,
+    getPreviousClose: () => previousClose
+  }
+}
+
+describe('交易员账本', () => {
+  let ledger: TraderLedger
+
+  beforeEach(() => {
+    ledger = new TraderLedger('t1', 'Trader 1', 100000, NOW)
+  })
+
+  test('期初持仓应计入期初权益但不影响现金', () => {
+    ledger.seed([{ stockSymbol: SYMBOL, stockName: '浦发银行', quantity: 1000, averagePrice: 10 }], NOW)
+
+    const { portfolio, positions } = ledger.getSnapshot(createPrices(10), NOW)
+    expect(portfolio.initialBalance).toBe(110000)
+    expect(portfolio.availableCash).toBe(100000)
+    expect(portfolio.totalReturn).toBe(0)
+    expect(positions[0]).toMatchObject({ stockSymbol: SYMBOL, stockName: '浦发银行', quantity: 1000, costBasis: 10000 })
+  })
+
+  test('加仓应按成交金额加权更新均价', () => {
+    ledger.applyFill(SYMBOL, 'buy', 100, 10, NOW)
+    ledger.applyFill(SYMBOL, 'buy', 300, 12, NOW)
+
+    expect(ledger.getPosition(SYMBOL)).toMatchObject({ quantity: 400, averagePrice: 11.5 })
+    expect(ledger.getCash()).toBe(100000 - 1000 - 3600)
+  })
+
+  test('减仓应按均价计算已实现盈亏，清仓后移除持仓', () => {
+    ledger.applyFill(SYMBOL, 'buy', 200, 10, NOW)
+
+    expect(ledger.applyFill(SYMBOL, 'sell', 100, 12, NOW)).toBe(200)
+    expect(ledger.getPosition(SYMBOL)).toMatchObject({ quantity: 100, averagePrice: 10, realizedPnL: 200 })
+
+    expect(ledger.applyFill(SYMBOL, 'sell', 100, 9, NOW)).toBe(-100)
+    expect(ledger.getPosition(SYMBOL)).toBeNull()
+    expect(ledger.getRealizedPnL()).toBe(100)
+    expect(ledger.getCash()).toBe(100100)
+  })
+
+  test('快照应按最新价计算未实现盈亏、当日变动和权重', () => {
+    ledger.applyFill(SYMBOL, 'buy', 1000, 10, NOW)
+
+    const { portfolio, positions } = ledger.getSnapshot(createPrices(11, 10.5), NOW)
+    expect(positions[0]).toMatchObject({
+      marketValue: 11000,
+      unrealizedPnL: 1000,
+      unrealizedPnLPercent: 10,
+      dayChange: 500
+    })
+    expect(portfolio.totalValue).toBe(101000)
+    expect(portfolio.unrealizedPnL).toBe(1000)
+    expect(portfolio.totalReturnPercent).toBe(1)
+    expect(positions[0].weight).toBeCloseTo(10.89, 2)
+  })
+
+  test('应只处理本交易员参与的成交', () => {
+    const trade = { symbol: SYMBOL, price: 10, quantity: 100, buyerId: 't1', sellerId: 't2', executedAt: NOW } as MatchedTrade
+
+    ledger.applyTrade(trade)
+    ledger.applyTrade({ ...trade, buyerId: 't3' })
+
+    expect(ledger.getPosition(SYMBOL)?.quantity).toBe(100)
+    expect(ledger.getCash()).toBe(99000)
+  })
+
+  describe('买单资金', () => {
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined)
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    })
+
+    afterAll(() => {
+      jest.restoreAllMocks()
+    })
+
+    test('买单金额加预估费用超过可用现金（扣除其他未成交买单占用）时应拒绝', () => {
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+      const stock = new StockInstance(2, exchange, {
+        templateId: 'stock_600000', symbol: SYMBOL, companyName: SYMBOL, category: 'tech', issuePrice: 10, totalShares: 1000000
+      })
+      const trader = new AITraderInstance(3, exchange, {
+        templateId: 'trader', name: 'Trader', riskProfile: 'moderate', initialCapital: 20000,
+        // 关闭单只股票敞口限额，只检查资金
+        parameters: { riskManagement: { maxPositionSize: 0 } }
+      })
+      exchange.addStock(stock)
+      exchange.addTrader(trader)
+      exchange.onBeginPlay()
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+      exchange.onTick(15 * 60)
+
+      const traderId = trader.getTraderId()
+      const buy = (quantity: number, price?: number) => exchange.submitOrder({
+        traderId, symbol: SYMBOL, type: price === undefined ? 'market' : 'limit', action: 'buy', quantity, price
+      }).order
+      const expectRejected = (fn: () => unknown) => {
+        try {
+          fn()
+        } catch (error) {
+          expect(error).toBeInstanceOf(OrderError)
+          expect((error as OrderError).code).toBe(OrderErrorCode.INSUFFICIENT_FUNDS)
+          return
+        }
+        throw new Error('Expected INSUFFICIENT_FUNDS')
+      }
+
+      // 1005.01 + 18005.18 占用 19010.19，剩余 989.81
+      const first = buy(100, 10)
+      buy(1800, 10)
+      expectRejected(() => buy(100, 10))
+      // 市价买单按涨停价 11 预估
+      expectRejected(() => buy(100))
+
+      exchange.cancelOrder(first.id)
+      expect(buy(100, 10).status).toBe('pending')
+      expect(trader.getCash()).toBe(20000)
+
+      stock.onDestroy()
+      exchange.onDestroy()
+    })
+  })
+
+  describe('组合分析', () => {
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined)
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    })
+
+    afterAll(() => {
+      jest.restoreAllMocks()
+    })
+
+    test('账本快照应附带持仓股票日收益率的相关系数矩阵', () => {
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+      const closes = [10, 10.5, 10.2, 10.8, 11, 10.6, 10.9, 11.3]
+      const history = (scale: number) => closes.map((close, i) => ({
+        date: new Date(2025, 11, 1 + i), open: close * scale, high: close * scale, low: close * scale, close: close * scale, volume: 1000
+      }))
+      const stocks = [
+        { symbol: '600000', history: history(1) },
+        { symbol: '600001', history: history(2) },
+        { symbol: '600002', history: history(3) }
+      ].map((data, i) => new StockInstance(i + 2, exchange, {
+        templateId: `stock_${data.symbol}`, symbol: data.symbol, companyName: data.symbol, category: 'tech',
+        issuePrice: 10, totalShares: 1000000, seedHistory: data.history
+      }))
+      const trader = new AITraderInstance(5, exchange, {
+        templateId: 'trader', name: 'Trader', riskProfile: 'moderate', initialCapital: 20000,
+        holdings: [
+          { stockSymbol: '600000', quantity: 100, averagePrice: 10 },
+          { stockSymbol: '600001', quantity: 100, averagePrice: 20 }
+        ]
+      })
+      stocks.forEach(stock => exchange.addStock(stock))
+      exchange.addTrader(trader)
+      exchange.onBeginPlay()
+      stocks.forEach(stock => {
+        stock.onBeginPlay()
+        stock.state = GameObjectState.ACTIVE
+      })
+
+      const snapshot = exchange.getTraderPortfolio(trader.getTraderId())!
+      expect(snapshot.analysis?.portfolioId).toBe(snapshot.portfolio.id)
+      const correlation = snapshot.analysis!.correlation
+      expect(Object.keys(correlation).sort()).toEqual(['600000', '600001'])
+      expect(correlation['600000']['600000']).toBe(1)
+      expect(correlation['600000']['600001']).toBeCloseTo(1, 10)
+
+      stocks.forEach(stock => stock.onDestroy())
+      exchange.onDestroy()
+    })
+  })
+})
@@ -0,0 +1,189 @@
+/**
+ * 交易员风控 Jest 测试套件
+ *
+ * 覆盖限额生成、下单前检查、止损止盈和单日亏损停止交易，以及交易所对所有下单来源执行风控检查
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/traderRisk/traderRisk.test.ts
+ */
+
+import { TraderRiskManager, RiskExposure, createRiskLimits } from '../../src/types/traderRisk'
+import { OrderError, OrderErrorCode } from '../../src/types/orderBook'
+import type { StrategyOrder } from '../../src/types/traderStrategy'
+import { JournalEventType } from '../../src/types/exchangeJournal'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { AITraderInstance } from '../../src/models/runtime/aiTraderInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+
+const NOW = new Date('2026-01-05T10:00:00')
+
+const buy = (symbol: string, quantity: number): StrategyOrder =>
+  ({ symbol, type: 'limit', action: 'buy', quantity, price: 10 })
+
+function expectRiskError(fn: () => unknown, code: OrderErrorCode): void {
+  try {
+    fn()
+  } catch (error) {
+    expect(error).toBeInstanceOf(OrderError)
+    expect((error as OrderError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected OrderError ${code}`)
+}
+
+describe('交易员风控', () => {
+  let manager: TraderRiskManager
+  let exposure: RiskExposure
+
+  beforeEach(() => {
+    manager = new TraderRiskManager({
+      maxPositionSize: 20,
+      maxDailyLoss: 5,
+      stopLossPercent: 8,
+      takeProfitPercent: 15,
+      maxOpenPositions: 2
+    })
+    exposure = { equity: 100000, symbols: new Map([['600000', 15000]]) }
+  })
+
+  test('限额应取风险偏好默认值并允许模板参数覆盖', () => {
+    expect(createRiskLimits('conservative', 5, {})).toEqual({
+      maxPositionSize: 10,
+      maxDailyLoss: 2,
+      stopLossPercent: 5,
+      takeProfitPercent: 10,
+      maxOpenPositions: 5
+    })
+    expect(createRiskLimits('aggressive', 5, { riskManagement: { stopLossPercent: 3 } }).stopLossPercent).toBe(3)
+  })
+
+  test('单只股票敞口不能超过总资产比例，通过的买单计入敞口', () => {
+    manager.checkOrder(buy('600000', 500), 10, exposure)
+    expect(exposure.symbols.get('600000')).toBe(20000)
+
+    expectRiskError(() => manager.checkOrder(buy('600000', 100), 10, exposure), OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED)
+  })
+
+  test('持仓股票数达到上限时不能开新仓，卖单不受限', () => {
+    manager.checkOrder(buy('000001', 100), 10, exposure)
+
+    expectRiskError(() => manager.checkOrder(buy('000002', 100), 10, exposure), OrderErrorCode.RISK_MAX_OPEN_POSITIONS)
+    expect(() => manager.checkOrder({ ...buy('000002', 100), action: 'sell' }, 10, exposure)).not.toThrow()
+  })
+
+  test('应按均价生成止损和止盈市价卖单', () => {
+    const exits = manager.getExitOrders([
+      { symbol: 'A', availableQuantity: 300, averagePrice: 10, currentPrice: 9.2 },
+      { symbol: 'B', availableQuantity: 200, averagePrice: 10, currentPrice: 11.5 },
+      { symbol: 'C', availableQuantity: 100, averagePrice: 10, currentPrice: 10.5 },
+      { symbol: 'D', availableQuantity: 100, averagePrice: 10, currentPrice: 8 }
+    ], new Set(['D']))
+
+    expect(exits.map(e => [e.order.symbol, e.reason, e.order.quantity])).toEqual([
+      ['A', 'stop_loss', 300],
+      ['B', 'take_profit', 200]
+    ])
+    expect(exits[0].order).toMatchObject({ type: 'market', action: 'sell', timeInForce: 'ioc' })
+  })
+
+  test('当日亏损达到上限后停止交易，次日恢复', () => {
+    expect(manager.updateDailyState(NOW, 100000)).toBe(false)
+    expect(manager.updateDailyState(new Date('2026-01-05T11:00:00'), 94000)).toBe(true)
+    expect(manager.isHalted()).toBe(true)
+    expectRiskError(() => manager.checkOrder({ ...buy('600000', 100), action: 'sell' }, 10, exposure), OrderErrorCode.RISK_DAILY_LOSS_HALTED)
+
+    manager.updateDailyState(new Date('2026-01-06T09:30:00'), 94000)
+    expect(manager.isHalted()).toBe(false)
+    expect(manager.getStatus().startOfDayEquity).toBe(94000)
+  })
+
+  describe('交易所下单', () => {
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined)
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    })
+
+    afterAll(() => {
+      jest.restoreAllMocks()
+    })
+
+    test('交易所接受订单前执行风控检查，直接提交的订单同样受限并记录风控拒绝', () => {
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+      const stock = new StockInstance(2, exchange, {
+        templateId: 'stock_600000', symbol: '600000', companyName: '600000', category: 'tech', issuePrice: 10, totalShares: 1000000
+      })
+      // moderate：单只股票敞口不超过总资产的 20%（20000）
+      const trader = new AITraderInstance(3, exchange, {
+        templateId: 'trader', name: 'Trader', riskProfile: 'moderate', initialCapital: 100000
+      })
+      exchange.addStock(stock)
+      exchange.addTrader(trader)
+      exchange.onBeginPlay()
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+      exchange.onTick(15 * 60)
+
+      const traderId = trader.getTraderId()
+      const { order } = exchange.submitOrder({ traderId, symbol: '600000', type: 'limit', action: 'buy', quantity: 1500, price: 10 })
+      expectRiskError(
+        () => exchange.submitOrder({ traderId, symbol: '600000', type: 'limit', action: 'buy', quantity: 600, price: 10 }),
+        OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED
+      )
+      // 改单同样检查，改单时不重复计入原订单
+      expect(exchange.amendOrder(order.id, { quantity: 2000 }).order.quantity).toBe(2000)
+      expectRiskError(() => exchange.amendOrder(order.id, { quantity: 2100 }), OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED)
+
+      // 改单违反交易规则时记录为订单拒绝
+      expect(() => exchange.amendOrder(order.id, { quantity: 100, price: 12 })).toThrow(OrderError)
+
+      // 最新的在前：规则拒绝的改单、风控拒绝的改单、风控拒绝的下单
+      const rejected = exchange.queryJournal({ types: [JournalEventType.RISK_REJECTED, JournalEventType.ORDER_REJECTED] }).entries
+      expect(rejected.map(entry => entry.type)).toEqual([
+        JournalEventType.ORDER_REJECTED,
+        JournalEventType.RISK_REJECTED,
+        JournalEventType.RISK_REJECTED
+      ])
+      expect(rejected.map(entry => entry.data!.code)).toEqual([
+        OrderErrorCode.PRICE_LIMIT_EXCEEDED,
+        OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED,
+        OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED
+      ])
+      expect(rejected.slice(0, 2).map(entry => entry.orderId)).toEqual([order.id, order.id])
+      expect(rejected[0]).toMatchObject({ traderId, symbol: '600000' })
+      expect(rejected[0].data!.amendment).toEqual({ quantity: 100, price: 12 })
+
+      stock.onDestroy()
+      exchange.onDestroy()
+    })
+
+    test('未成交的市价和止损买单按涨停价计入敞口，不能叠加超过单只股票限额', () => {
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+      const stock = new StockInstance(2, exchange, {
+        templateId: 'stock_600000', symbol: '600000', companyName: '600000', category: 'tech', issuePrice: 10, totalShares: 1000000
+      })
+      const trader = new AITraderInstance(3, exchange, {
+        templateId: 'trader', name: 'Trader', riskProfile: 'moderate', initialCapital: 100000
+      })
+      exchange.addStock(stock)
+      exchange.addTrader(trader)
+      exchange.onBeginPlay()
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+      exchange.onTick(15 * 60)
+
+      // 涨停价 11：800 股止损买单占用 8800，再挂 1100 股超过 20000
+      const traderId = trader.getTraderId()
+      const stopBuy = (quantity: number) => exchange.submitOrder({
+        traderId, symbol: '600000', type: 'stop', action: 'buy', quantity, stopPrice: 10.5
+      })
+      expect(stopBuy(800).order.status).toBe('pending')
+      expectRiskError(() => stopBuy(1100), OrderErrorCode.RISK_POSITION_SIZE_EXCEEDED)
+      expect(stopBuy(1000).order.status).toBe('pending')
+
+      stock.onDestroy()
+      exchange.onDestroy()
+    })
+  })
+})
@@ -0,0 +1,308 @@
+/**
+ * AI 交易员策略框架 Jest 测试套件
+ *
+ * 覆盖策略类型解析、模板参数读取、策略注册表和内置策略信号，以及交易员在集合竞价期间的评估
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/traderStrategy/traderStrategy.test.ts
+ */
+
+import {
+  StrategyRegistry,
+  StrategyContext,
+  StrategyPosition,
+  MomentumStrategy,
+  MeanReversionStrategy,
+  BreakoutStrategy,
+  StrategyConfig,
+  TraderStrategy,
+  IdleStrategy,
+  createStrategyConfig,
+  createEmptyDecision,
+  getNumberParameter,
+  resolveStrategyType
+} from '../../src/types/traderStrategy'
+import { AggregatedPoint, Granularity } from '../../src/types/timeSeries'
+import { IndicatorEngine } from '../../src/types/indicator'
+import { getDefaultFeeSchedule } from '../../src/types/tradingFees'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { AITraderInstance } from '../../src/models/runtime/aiTraderInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+import type { TradeOrder } from '../../../shared/types/trading'
+
+const SYMBOL = '600000'
+const NOW = new Date('2026-01-05T10:00:00')
+
+function createBars(closes: number[]): AggregatedPoint[] {
+  return closes.map((close, i) => ({
+    seriesId: SYMBOL,
+    granularity: Granularity.MIN_5,
+    startTime: new Date(NOW.getTime() - (closes.length - i) * 300000),
+    endTime: new Date(NOW.getTime() - (closes.length - i - 1) * 300000),
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 100,
+    dataPointCount: 1,
+    createdAt: NOW,
+    updatedAt: NOW
+  }))
+}
+
+function createContext(
+  closes: number[],
+  price: number,
+  options: { positions?: StrategyPosition[]; openOrders?: TradeOrder[] } = {}
+): StrategyContext {
+  const bars = createBars(closes)
+  const indicators = new IndicatorEngine({ defaultIndicators: [] })
+  return {
+    traderId: 't1',
+    time: NOW,
+    account: { cash: 100000, positions: options.positions ?? [] },
+    openOrders: options.openOrders ?? [],
+    random: () => 0.5,
+    market: {
+      getSymbols: () => [SYMBOL],
+      getCurrentPrice: () => price,
+      getBars: (_symbol, _granularity, limit) => (limit ? bars.slice(-limit) : bars),
+      getIndicator: (_symbol, granularity, spec, limit) => {
+        const name = indicators.track(SYMBOL, granularity, spec, () => bars)
+        return indicators.getHistory(SYMBOL, granularity, name, limit)
+      },
+      getPriceLimitBand: () => null,
+      getFeeSchedule: () => getDefaultFeeSchedule(),
+      getIndexValue: () => null,
+      getIndexBars: () => []
+    }
+  }
+}
+
+function createTestStrategy(config: StrategyConfig, name: string): TraderStrategy {
+  return {
+    type: config.type,
+    name,
+    evaluate: () => createEmptyDecision()
+  }
+}
+
+describe('交易员策略框架', () => {
+  describe('策略选择', () => {
+    test('应按交易风格选择默认策略', () => {
+      expect(resolveStrategyType('day_trading', {})).toBe('momentum')
+      expect(resolveStrategyType('swing_trading', {})).toBe('mean_reversion')
+      expect(resolveStrategyType('position_trading', {})).toBe('breakout')
+    })
+
+    test('模板参数 strategy 优先，非法值忽略', () => {
+      expect(resolveStrategyType('day_trading', { strategy: 'breakout' })).toBe('breakout')
+      expect(resolveStrategyType('day_trading', { strategy: 'unknown' })).toBe('momentum')
+    })
+
+    test('应由模板生成策略配置', () => {
+      const config = createStrategyConfig({ riskProfile: 'aggressive', parameters: { strategy: 'custom' } })
+
+      expect(config).toEqual({
+        type: 'custom',
+        tradingStyle: 'swing_trading',
+        riskProfile: 'aggressive',
+        maxPositions: 10,
+        parameters: { strategy: 'custom' }
+      })
+    })
+
+    test('数值参数应校验并截断到范围内', () => {
+      expect(getNumberParameter({ period: '20' }, 'period', 10)).toBe(20)
+      expect(getNumberParameter({ period: 'abc' }, 'period', 10)).toBe(10)
+      expect(getNumberParameter({ period: 500 }, 'period', 10, { max: 100 })).toBe(100)
+    })
+  })
+
+  describe('策略注册表', () => {
+    let registry: StrategyRegistry
+
+    beforeEach(() => {
+      StrategyRegistry.resetInstance()
+      registry = StrategyRegistry.getInstance()
+    })
+
+    test('应按策略类型创建已注册的策略', () => {
+      registry.register('momentum', config => createTestStrategy(config, 'test-momentum'))
+
+      const strategy = registry.create(createStrategyConfig({ riskProfile: 'moderate', tradingStyle: 'day_trading' }))
+      expect(strategy.name).toBe('test-momentum')
+      expect(strategy.type).toBe('momentum')
+    })
+
+    test('自定义策略应按 customStrategy 名称查找，找不到时使用观望策略', () => {
+      registry.register('grid', config => createTestStrategy(config, 'grid'))
+
+      const custom = registry.create(createStrategyConfig({
+        riskProfile: 'moderate',
+        parameters: { strategy: 'custom', customStrategy: 'grid' }
+      }))
+      expect(custom.name).toBe('grid')
+
+      const missing = registry.create(createStrategyConfig({
+        riskProfile: 'moderate',
+        parameters: { strategy: 'custom', customStrategy: 'missing' }
+      }))
+      expect(missing).toBeInstanceOf(IdleStrategy)
+      expect(missing.evaluate({} as any)).toEqual({ orders: [], cancelOrderIds: [] })
+    })
+  })
+
+  describe('内置策略', () => {
+    const holding = (quantity: number): StrategyPosition[] => [
+      { symbol: SYMBOL, quantity, availableQuantity: quantity, averageCost: 10 }
+    ]
+
+    test('动量策略应在金叉时按风险偏好买入整手', () => {
+      const closes = [10, 10, 10, 9, 12]
+      const parameters = { fastPeriod: 2, slowPeriod: 3 }
+
+      const moderate = new MomentumStrategy(createStrategyConfig({ riskProfile: 'moderate', parameters }))
+      const [order] = moderate.evaluate(createContext(closes, 12)).orders
+      // 总资产 100000 × 10% / 12.01 → 800 股
+      expect(order).toEqual({ symbol: SYMBOL, type: 'limit', action: 'buy', quantity: 800, price: 12.01, timeInForce: 'day' })
+
+      const aggressive = new MomentumStrategy(createStrategyConfig({ riskProfile: 'aggressive', parameters }))
+      expect(aggressive.evaluate(createContext(closes, 12)).orders[0].quantity).toBe(1600)
+
+      // 持仓期间快线跌破慢线时卖出
+      const exit = moderate.evaluate(createContext([10, 12, 11, 9, 8], 8, { positions: holding(500) })).orders
+      expect(exit.map(o => [o.action, o.quantity])).toEqual([['sell', 500]])
+    })
+
+    test('均值回归策略应在跌破下轨时买入、回到中轨时卖出', () => {
+      const strategy = new MeanReversionStrategy(createStrategyConfig({
+        riskProfile: 'moderate',
+        parameters: { period: 4, stdDevMultiplier: 1 }
+      }))
+      const closes = [9, 11, 9, 11]
+
+      expect(strategy.evaluate(createContext(closes, 9.5)).orders).toHaveLength(0)
+      expect(strategy.evaluate(createContext(closes, 8.9)).orders[0].action).toBe('buy')
+      expect(strategy.evaluate(createContext(closes, 10, { positions: holding(300) })).orders[0].action).toBe('sell')
+    })
+
+    test('突破策略应在突破 N 根 K 线高点时买入、跌破低点时卖出', () => {
+      const strategy = new BreakoutStrategy(createStrategyConfig({ riskProfile: 'moderate', parameters: { lookbackBars: 3 } }))
+      const closes = [9.5, 10.5, 10]
+
+      expect(strategy.evaluate(createContext(closes, 10.4)).orders).toHaveLength(0)
+      expect(strategy.evaluate(createContext(closes, 10.6)).orders[0].action).toBe('buy')
+      expect(strategy.evaluate(createContext(closes, 9.4, { positions: holding(200) })).orders[0].action).toBe('sell')
+    })
+
+    test('有挂单的股票不再下单，超时挂单应撤销', () => {
+      const strategy = new BreakoutStrategy(createStrategyConfig({
+        riskProfile: 'moderate',
+        parameters: { lookbackBars: 3, orderTimeoutSeconds: 60 }
+      }))
+      const openOrder = {
+        id: 'ORD1',
+        stockSymbol: SYMBOL,
+        action: 'buy',
+        quantity: 100,
+        filledQuantity: 0,
+        price: 10,
+        createdAt: new Date(NOW.getTime() - 120000)
+      } as TradeOrder
+
+      const decision = strategy.evaluate(createContext([9.5, 10.5, 10], 10.6, { openOrders: [openOrder] }))
+      expect(decision.orders).toHaveLength(0)
+      expect(decision.cancelOrderIds).toEqual(['ORD1'])
+    })
+
+    test('买入数量应扣除预估费用，未成交的止损买单按触发价预留资金', () => {
+      const strategy = new BreakoutStrategy(createStrategyConfig({
+        riskProfile: 'moderate',
+        parameters: { lookbackBars: 3, positionSizePercent: 100, limitOffsetPercent: 0 }
+      }))
+      const closes = [9, 9.5, 9.2]
+
+      // 100000 / 10 恰好 10000 股，扣除费用后只能买 9900 股
+      expect(strategy.evaluate(createContext(closes, 10)).orders[0].quantity).toBe(9900)
+
+      const stopBuy = {
+        id: 'ORD2',
+        stockSymbol: 'OTHER',
+        type: 'stop',
+        action: 'buy',
+        quantity: 1000,
+        filledQuantity: 0,
+        stopPrice: 12,
+        createdAt: NOW
+      } as TradeOrder
+      // 止损买单按 12 预留 12005.12，剩余资金扣除费用后买 8700 股
+      expect(strategy.evaluate(createContext(closes, 10, { openOrders: [stopBuy] })).orders[0].quantity).toBe(8700)
+    })
+  })
+
+  describe('集合竞价', () => {
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined)
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    })
+
+    afterAll(() => {
+      StrategyRegistry.getInstance().unregister('auction-bid')
+      jest.restoreAllMocks()
+    })
+
+    test('交易员在集合竞价期间提交限价单，止损止盈市价单留到连续竞价执行', () => {
+      // 没有挂单时按最新价挂一笔限价买单
+      StrategyRegistry.getInstance().register('auction-bid', config => ({
+        type: config.type,
+        name: 'auction-bid',
+        evaluate: context => ({
+          orders: context.openOrders.length > 0 ? [] : [{
+            symbol: SYMBOL, type: 'limit', action: 'buy', quantity: 100, price: context.market.getCurrentPrice(SYMBOL)!, timeInForce: 'day'
+          }],
+          cancelOrderIds: []
+        })
+      }))
+
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+      const stock = new StockInstance(2, exchange, {
+        templateId: 'stock_600000', symbol: SYMBOL, companyName: SYMBOL, category: 'tech', issuePrice: 10, totalShares: 1000000
+      })
+      // 持仓均价远高于现价，触发止损
+      const trader = new AITraderInstance(3, exchange, {
+        templateId: 'trader',
+        name: 'Trader',
+        riskProfile: 'moderate',
+        initialCapital: 100000,
+        parameters: { strategy: 'custom', customStrategy: 'auction-bid' },
+        holdings: [{ stockSymbol: SYMBOL, quantity: 500, averagePrice: 20 }]
+      })
+      exchange.addStock(stock)
+      exchange.addTrader(trader)
+      exchange.onBeginPlay()
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+      trader.onBeginPlay()
+
+      expect(exchange.isCallAuction()).toBe(true)
+      trader.onTick(1)
+
+      const traderId = trader.getTraderId()
+      const [bid] = exchange.getOrders({ traderId, openOnly: true })
+      expect(bid).toMatchObject({ action: 'buy', type: 'limit', quantity: 100 })
+      expect(trader.getStrategyStats()).toMatchObject({ evaluations: 1, submittedOrders: 1, rejectedOrders: 0, riskExits: 0 })
+
+      exchange.onTick(15 * 60)
+      expect(exchange.isCallAuction()).toBe(false)
+      trader.onTick(1)
+      expect(trader.getStrategyStats()).toMatchObject({ evaluations: 2, rejectedOrders: 0, riskExits: 1 })
+
+      trader.onDestroy()
+      stock.onDestroy()
+      exchange.onDestroy()
+    })
+  })
+})
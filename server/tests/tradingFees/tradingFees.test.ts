@@ -0,0 +1,78 @@
+/**
+ * 交易费用 Jest 测试套件
+ *
+ * 覆盖佣金最低收费、印花税、过户费以及账本扣费
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/tradingFees/tradingFees.test.ts
+ */
+
+import { calculateTradeFees, getDefaultFeeSchedule, FeeSchedule } from '../../src/types/tradingFees'
+import { TraderLedger } from '../../src/types/traderLedger'
+import type { MatchedTrade } from '../../src/types/orderBook'
+
+const NOW = new Date('2026-01-05T10:00:00')
+
+describe('交易费用', () => {
+  let schedule: FeeSchedule
+
+  beforeEach(() => {
+    schedule = getDefaultFeeSchedule()
+  })
+
+  test('买入收取佣金和过户费，不收印花税', () => {
+    expect(calculateTradeFees('buy', 100000, schedule)).toEqual({
+      commission: 25,
+      stampDuty: 0,
+      transferFee: 1,
+      total: 26
+    })
+  })
+
+  test('卖出额外收取印花税', () => {
+    expect(calculateTradeFees('sell', 100000, schedule)).toEqual({
+      commission: 25,
+      stampDuty: 50,
+      transferFee: 1,
+      total: 76
+    })
+  })
+
+  test('佣金不足最低收费时按最低收费，同一订单只收一次', () => {
+    const first = calculateTradeFees('buy', 1000, schedule)
+    expect(first.commission).toBe(5)
+
+    const second = calculateTradeFees('buy', 1000, schedule, { filledAmount: 1000, commission: first.commission })
+    expect(second.commission).toBe(0)
+
+    const third = calculateTradeFees('buy', 30000, schedule, { filledAmount: 2000, commission: 5 })
+    expect(third.commission).toBe(3)
+  })
+
+  test('关闭费用时不收取任何费用', () => {
+    expect(calculateTradeFees('sell', 100000, { ...schedule, enabled: false }).total).toBe(0)
+  })
+
+  test('账本应从现金扣除成交回报中的费用并计入已实现盈亏', () => {
+    const ledger = new TraderLedger('t1', 'Trader 1', 100000, NOW)
+    const trade = {
+      symbol: '600000',
+      price: 10,
+      quantity: 1000,
+      buyerId: 't1',
+      sellerId: 't2',
+      executedAt: NOW,
+      executions: {
+        buy: { commission: 5, fees: calculateTradeFees('buy', 10000, schedule) },
+        sell: { commission: 5, fees: calculateTradeFees('sell', 10000, schedule) }
+      }
+    } as unknown as MatchedTrade
+
+    ledger.applyTrade(trade)
+
+    expect(ledger.getCash()).toBe(100000 - 10000 - 5.1)
+    expect(ledger.getTotalFees()).toBe(5.1)
+    expect(ledger.getRealizedPnL()).toBe(-5.1)
+    expect(ledger.getPosition('600000')).toMatchObject({ quantity: 1000, averagePrice: 10 })
+  })
+})
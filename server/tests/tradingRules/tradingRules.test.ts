@@ -0,0 +1,235 @@
+/**
+ * 交易规则 Jest 测试套件
+ *
+ * 覆盖涨跌停计算、价格步长、整手交易、T+1 交收和持仓检查，以及收盘后当日有效订单过期和跨日后超出涨跌停区间的 GTC 订单过期
+ *
+ * 运行方式：
+ * - 全部测试: npm test -- tests/tradingRules/tradingRules.test.ts
+ */
+
+import {
+  SettlementTracker,
+  TradingRuleConfig,
+  RuleCheckContext,
+  calculatePriceLimitBand,
+  getDefaultTradingRuleConfig,
+  validateOrderRules
+} from '../../src/types/tradingRules'
+import { OrderError, OrderErrorCode, MatchedTrade } from '../../src/types/orderBook'
+import { JournalEventType } from '../../src/types/exchangeJournal'
+import { ExchangeInstance } from '../../src/models/runtime/exchangeInstance'
+import { StockInstance } from '../../src/models/runtime/stockInstance'
+import { AITraderInstance } from '../../src/models/runtime/aiTraderInstance'
+import { GameObjectState } from '../../src/lifecycle/types'
+import { TradingTimeState } from '../../src/types/tradingTime'
+import type { TradeOrder, TradeAction } from '../../../shared/types/trading'
+
+const NOW = new Date('2026-01-05T10:00:00')
+
+function createOrder(action: TradeAction, quantity: number, price: number): TradeOrder {
+  return {
+    id: 'ORD1',
+    userId: 't1',
+    portfolioId: 't1',
+    stockId: '1',
+    stockSymbol: '600000',
+    type: 'limit',
+    action,
+    quantity,
+    price,
+    timeInForce: 'day',
+    status: 'pending',
+    filledQuantity: 0,
+    commission: 0,
+    createdAt: NOW,
+    updatedAt: NOW
+  }
+}
+
+function expectRuleError(order: TradeOrder, context: RuleCheckContext, code: OrderErrorCode, config = getDefaultTradingRuleConfig()): void {
+  try {
+    validateOrderRules(order, config, context)
+  } catch (error) {
+    expect(error).toBeInstanceOf(OrderError)
+    expect((error as OrderError).code).toBe(code)
+    return
+  }
+  throw new Error(`Expected OrderError ${code}`)
+}
+
+describe('交易规则', () => {
+  let config: TradingRuleConfig
+  let context: RuleCheckContext
+
+  beforeEach(() => {
+    config = getDefaultTradingRuleConfig()
+    context = {
+      band: calculatePriceLimitBand(config, 'tech', 10),
+      position: { settled: 0, unsettled: 0 },
+      openSellQuantity: 0
+    }
+  })
+
+  describe('涨跌停', () => {
+    test('应按前收盘价计算 ±10% 区间并对齐价格步长', () => {
+      const band = calculatePriceLimitBand(config, 'tech', 12.35)
+      expect(band.limitUp).toBe(13.59)
+      expect(band.limitDown).toBe(11.12)
+    })
+
+    test('类别覆盖应生效', () => {
+      config.priceLimit.categoryOverrides = { growth: 20, st: 5 }
+      expect(calculatePriceLimitBand(config, 'growth', 10).limitUp).toBe(12)
+      expect(calculatePriceLimitBand(config, 'st', 10).limitDown).toBe(9.5)
+    })
+
+    test('超出涨跌停的限价应被拒绝', () => {
+      expectRuleError(createOrder('buy', 100, 11.01), context, OrderErrorCode.PRICE_LIMIT_EXCEEDED)
+      expectRuleError(createOrder('buy', 100, 8.99), context, OrderErrorCode.PRICE_LIMIT_EXCEEDED)
+      expect(() => validateOrderRules(createOrder('buy', 100, 11), config, context)).not.toThrow()
+    })
+  })
+
+  describe('价格步长与整手', () => {
+    test('价格必须是 0.01 的整数倍', () => {
+      expectRuleError(createOrder('buy', 100, 10.005), context, OrderErrorCode.INVALID_TICK_SIZE)
+    })
+
+    test('买入数量必须是 100 股的整数倍', () => {
+      expectRuleError(createOrder('buy', 150, 10), context, OrderErrorCode.INVALID_LOT_SIZE)
+    })
+
+    test('卖出时零股部分须一次性卖出', () => {
+      context.position = { settled: 150, unsettled: 0 }
+      expect(() => validateOrderRules(createOrder('sell', 150, 10), config, context)).not.toThrow()
+      expect(() => validateOrderRules(createOrder('sell', 50, 10), config, context)).not.toThrow()
+      expect(() => validateOrderRules(createOrder('sell', 100, 10), config, context)).not.toThrow()
+      expectRuleError(createOrder('sell', 30, 10), context, OrderErrorCode.INVALID_LOT_SIZE)
+    })
+  })
+
+  describe('T+1 与持仓', () => {
+    test('当日买入的股份不能卖出', () => {
+      context.position = { settled: 100, unsettled: 200 }
+      expectRuleError(createOrder('sell', 300, 10), context, OrderErrorCode.T1_SELL_RESTRICTED)
+    })
+
+    test('卖出超过持仓应被拒绝，并计入其他未成交卖单', () => {
+      context.position = { settled: 200, unsettled: 0 }
+      context.openSellQuantity = 200
+      expectRuleError(createOrder('sell', 100, 10), context, OrderErrorCode.INSUFFICIENT_POSITION)
+    })
+
+    test('规则关闭时不做检查', () => {
+      config.enabled = false
+      expect(() => validateOrderRules(createOrder('sell', 33, 99), config, context)).not.toThrow()
+    })
+  })
+
+  describe('交收持仓跟踪', () => {
+    const trade = { buyerId: 'b', sellerId: 's', symbol: '600000', quantity: 100 } as MatchedTrade
+
+    test('T+1 下买入在交收后才可卖出', () => {
+      const tracker = new SettlementTracker(true)
+      tracker.seed('s', '600000', 300)
+      tracker.recordTrade(trade)
+
+      expect(tracker.getPosition('b', '600000')).toEqual({ settled: 0, unsettled: 100 })
+      expect(tracker.getPosition('s', '600000')).toEqual({ settled: 200, unsettled: 0 })
+
+      tracker.settle()
+      expect(tracker.getPosition('b', '600000')).toEqual({ settled: 100, unsettled: 0 })
+    })
+
+    test('T+0 下买入立即可卖', () => {
+      const tracker = new SettlementTracker(false)
+      tracker.recordTrade(trade)
+      expect(tracker.getPosition('b', '600000')).toEqual({ settled: 100, unsettled: 0 })
+    })
+  })
+
+  describe('隔日订单', () => {
+    beforeAll(() => {
+      jest.spyOn(console, 'log').mockImplementation(() => undefined)
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+      jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    })
+
+    afterAll(() => {
+      jest.restoreAllMocks()
+    })
+
+    function createExchange() {
+      const exchange = new ExchangeInstance(1, { templateId: 'market', name: 'Test', description: '' })
+      const stock = new StockInstance(2, exchange, {
+        templateId: 'stock_600000', symbol: '600000', companyName: '600000', category: 'tech', issuePrice: 10, totalShares: 1000000
+      })
+      const trader = new AITraderInstance(3, exchange, {
+        templateId: 'trader', name: 'Trader', riskProfile: 'moderate', initialCapital: 1000000
+      })
+      exchange.addStock(stock)
+      exchange.addTrader(trader)
+      exchange.onBeginPlay()
+      stock.onBeginPlay()
+      stock.state = GameObjectState.ACTIVE
+
+      const submit = (price: number, timeInForce: 'day' | 'gtc') => exchange.submitOrder({
+        traderId: trader.getTraderId(), symbol: '600000', type: 'limit', action: 'buy', quantity: 100, price, timeInForce
+      }).order
+      const runUntil = (state: TradingTimeState) => {
+        while (exchange.getTimeState() !== state) {
+          exchange.onTick(600)
+        }
+      }
+      return { exchange, stock, submit, runUntil }
+    }
+
+    test('跨日后限价超出新涨跌停区间的 GTC 订单应过期，区间内的保留', () => {
+      const { exchange, stock, submit, runUntil } = createExchange()
+
+      // 开盘后挂两笔 GTC 买单，随后以涨停价收盘
+      exchange.onTick(15 * 60)
+      const low = submit(9, 'gtc')
+      const high = submit(10, 'gtc')
+      runUntil(TradingTimeState.POST_MARKET)
+      stock['currentPrice'] = 11
+
+      // 次日前收盘价 11，区间 9.9 - 12.1
+      for (let i = 0; i < 24; i++) {
+        exchange.onTick(3600)
+      }
+
+      expect(exchange.getPriceLimitBand('600000')).toMatchObject({ limitDown: 9.9, limitUp: 12.1 })
+      expect(exchange.getOrder(low.id)!.status).toBe('expired')
+      expect(exchange.getOrder(high.id)!.status).toBe('pending')
+      const expired = exchange.queryJournal({ types: [JournalEventType.ORDER_EXPIRED] }).entries
+      expect(expired.map(entry => entry.orderId)).toEqual([low.id])
+      expect(expired[0].message).toContain('outside today\'s limit band 9.9 - 12.1')
+
+      stock.onDestroy()
+      exchange.onDestroy()
+    })
+
+    test('收盘后当日有效订单只在进入收盘时段时过期一次，之后不再每帧扫描订单', () => {
+      const { exchange, stock, submit, runUntil } = createExchange()
+
+      exchange.onTick(15 * 60)
+      const order = submit(9, 'day')
+
+      // 推进到收盘后
+      runUntil(TradingTimeState.POST_MARKET)
+      expect(exchange.getOrder(order.id)!.status).toBe('expired')
+
+      const getOrders = jest.spyOn(exchange['orderManager'], 'getOrders')
+      for (let i = 0; i < 6; i++) {
+        exchange.onTick(600)
+      }
+      expect(exchange.getTimeState()).toBe(TradingTimeState.POST_MARKET)
+      expect(getOrders).not.toHaveBeenCalled()
+      expect(exchange.queryJournal({ types: [JournalEventType.ORDER_EXPIRED] }).entries).toHaveLength(1)
+
+      stock.onDestroy()
+      exchange.onDestroy()
+    })
+  })
+})
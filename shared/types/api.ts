@@ -276,8 +276,16 @@ export const API_ENDPOINTS = {
     GET: (id: ID) => `/api/v1/market-instances/${id}`,
     DELETE: (id: ID) => `/api/v1/market-instances/${id}`,
     PROGRESS: (requestId: string) => `/api/v1/market-instances/progress/${requestId}`,
+    EVENTS: '/api/v1/market-instances/events',
     EXPORT: (id: ID) => `/api/v1/market-instances/${id}/export`,
-    LOGS: (id: ID) => `/api/v1/market-instances/${id}/logs`
+    LOGS: (id: ID) => `/api/v1/market-instances/${id}/logs`,
+    KLINE: (id: ID, symbol: string) => `/api/v1/market-instances/${id}/stocks/${symbol}/kline`,
+    INTRADAY: (id: ID, symbol: string) => `/api/v1/market-instances/${id}/stocks/${symbol}/intraday`,
+    INDICATORS: (id: ID, symbol: string) => `/api/v1/market-instances/${id}/stocks/${symbol}/indicators`,
+    INDEX: (id: ID) => `/api/v1/market-instances/${id}/index`,
+    INDEX_KLINE: (id: ID) => `/api/v1/market-instances/${id}/index/kline`,
+    SCENARIO: (id: ID) => `/api/v1/market-instances/${id}/scenario`,
+    STREAM: '/api/v1/market-instances/stream'
   }
 } as const
 
@@ -296,6 +304,7 @@ export namespace MarketInstanceAPI {
   export interface CreateMarketInstanceRequest {
     templateId: string
     name?: string
+    seed?: number
   }
   export interface CreateMarketInstanceResponse extends ApiResponse<{
     requestId: string
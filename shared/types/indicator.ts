@@ -0,0 +1,59 @@
+/**
+ * 技术指标数据类型定义
+ *
+ * 指标在时间序列窗口关闭时按 K 线增量计算，
+ * 每个指标以「类型_参数」命名，如 MA_5、MACD_12_26_9、BOLL_20_2
+ */
+
+import type { TechnicalIndicator } from './trading';
+
+/**
+ * 技术指标类型
+ */
+export type IndicatorType = 'MA' | 'EMA' | 'MACD' | 'RSI' | 'KDJ' | 'BOLL' | 'ATR';
+
+/**
+ * 技术指标数据点（每根已收盘 K 线一个）
+ */
+export interface IndicatorPoint {
+  /** 时间戳（K 线开始时间） */
+  timestamp: Date;
+  /**
+   * 指标值
+   * - MA / EMA / RSI / ATR：value
+   * - MACD：dif、dea、macd（柱，2 × (DIF - DEA)）
+   * - KDJ：k、d、j
+   * - BOLL：upper、middle、lower
+   */
+  values: Record<string, number>;
+  /** 该 K 线收盘时的买卖信号 */
+  signal: TechnicalIndicator['signal'];
+}
+
+/**
+ * 单个技术指标的数据序列
+ */
+export interface IndicatorSeries {
+  /** 指标名称（如 MACD_12_26_9） */
+  name: string;
+  /** 指标类型 */
+  type: IndicatorType;
+  /** 指标参数 */
+  params: number[];
+  /** 数据点数组（按时间升序） */
+  data: IndicatorPoint[];
+}
+
+/**
+ * 技术指标查询响应
+ */
+export interface IndicatorResponse {
+  /** 股票代码 */
+  symbol: string;
+  /** 数据粒度（如 MIN_1、DAY_1） */
+  granularity: string;
+  /** 各指标的数据序列 */
+  indicators: IndicatorSeries[];
+  /** 各指标最新一根 K 线的信号 */
+  signals: TechnicalIndicator[];
+}
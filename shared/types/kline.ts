@@ -0,0 +1,110 @@
+/**
+ * K 线数据类型定义
+ *
+ * 结构参见 document/kline-data-structure-design.md 第 3.1、3.3、3.4 节
+ */
+
+/**
+ * K 线数据点（标准 OHLCV 格式）
+ */
+export interface KLinePoint {
+  /** 时间戳（K 线开始时间） */
+  timestamp: Date;
+  /** 开盘价 */
+  open: number;
+  /** 收盘价 */
+  close: number;
+  /** 最高价 */
+  high: number;
+  /** 最低价 */
+  low: number;
+  /** 成交量 */
+  volume: number;
+  /** 成交额 */
+  amount?: number;
+  /** 换手率（百分比） */
+  turnoverRate?: number;
+  /** 涨跌幅（百分比） */
+  changePercent?: number;
+  /** 涨跌额 */
+  changeAmount?: number;
+  /** 振幅（百分比） */
+  amplitude?: number;
+  /** 是否为尚未收盘的 K 线（只可能是最后一根） */
+  partial?: boolean;
+}
+
+/**
+ * K 线数据元数据
+ */
+export interface KLineMetadata {
+  /** 股票代码 */
+  symbol: string;
+  /** 股票名称 */
+  name: string;
+  /** 市场类型（1=上海，2=深圳） */
+  market: number;
+  /** 价格小数位数 */
+  decimal: number;
+  /** 前收盘价 */
+  preClose: number;
+  /** 前结算价 */
+  preSettlement?: number;
+  /** 数据总数（查询范围内截取前的 K 线数量） */
+  total: number;
+}
+
+/**
+ * K 线数据查询响应
+ */
+export interface KLineResponse {
+  /** 元数据 */
+  metadata: KLineMetadata;
+  /** K 线数据点数组（按时间升序） */
+  data: KLinePoint[];
+  /** 数据粒度（如 MIN_1、DAY_1） */
+  granularity: string;
+  /** 是否完整数据（未因 limit 截取） */
+  isFull: boolean;
+}
+
+/**
+ * 分时数据点（每分钟一个）
+ */
+export interface TimeSharePoint {
+  /** 时间戳（分钟开始时间） */
+  timestamp: Date;
+  /** 当前价（该分钟收盘价） */
+  price: number;
+  /** 该分钟开盘价 */
+  open?: number;
+  /** 最高价 */
+  high: number;
+  /** 最低价 */
+  low: number;
+  /** 该分钟成交量 */
+  volume: number;
+  /** 该分钟成交额 */
+  amount: number;
+  /** 当日均价（当日累计成交额 / 累计成交量，尚无成交时为当前价） */
+  averagePrice: number;
+  /** 当日累计成交量 */
+  cumulativeVolume: number;
+  /** 是否为尚未结束的分钟（只可能是最后一个） */
+  partial?: boolean;
+}
+
+/**
+ * 分时数据查询响应
+ */
+export interface TimeShareResponse {
+  /** 元数据（preClose 为最近一个交易日的前收盘价） */
+  metadata: KLineMetadata;
+  /** 分时数据点数组（按时间升序，多日时依次拼接） */
+  data: TimeSharePoint[];
+  /** 各交易日的前收盘价（按日期升序） */
+  hisPrePrices?: Array<{
+    date: Date;
+    prePrice: number;
+  }>;
+}
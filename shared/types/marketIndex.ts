@@ -0,0 +1,42 @@
+/**
+ * 市场指数类型定义
+ *
+ * 每个市场实例有一个综合指数（类似上证指数），以基日的成分股价格为基准，
+ * 基日指数为基点，之后随成分股价格变化
+ */
+
+/**
+ * 指数加权方式
+ * - market_cap：按总市值加权（权重为总股本）
+ * - price：按价格加权（每只股票一股）
+ * - equal：等权（基日每只股票的权重相同）
+ */
+export type MarketIndexWeighting = 'market_cap' | 'price' | 'equal';
+
+/**
+ * 市场指数行情快照
+ */
+export interface MarketIndexSnapshot {
+  /** 指数代码 */
+  code: string;
+  /** 指数名称 */
+  name: string;
+  /** 加权方式 */
+  weighting: MarketIndexWeighting;
+  /** 基日（YYYY-MM-DD） */
+  baseDate: string;
+  /** 基点 */
+  baseValue: number;
+  /** 最新点位 */
+  value: number;
+  /** 前收盘点位 */
+  previousClose: number;
+  /** 涨跌点数 */
+  change: number;
+  /** 涨跌幅（百分比） */
+  changePercent: number;
+  /** 成分股数量 */
+  constituentCount: number;
+  /** 最新点位的游戏时间 */
+  updatedAt: Date;
+}
@@ -4,6 +4,8 @@
  * 前后端共享的市场实例数据结构
  */
 
+import type { MarketIndexSnapshot } from './marketIndex';
+
 /**
  * 市场实例状态枚举
  */
@@ -55,6 +57,12 @@ export interface MarketInstancePreview {
  * 市场实例详细信息
  */
 export interface MarketInstanceDetails extends MarketInstancePreview {
+  /** 随机种子（使用相同模板和种子重新创建可复现价格路径） */
+  seed?: number;
+
+  /** 市场指数行情（指数未启用或尚未开始编制时省略） */
+  marketIndex?: MarketIndexSnapshot;
+  
   /** AI交易员列表 */
   traders: TraderInfo[];
   
@@ -109,6 +117,8 @@ export interface TraderPerformance {
 export interface CreateMarketInstanceRequest {
   templateId: string;
   name?: string;
+  /** 随机种子（32 位无符号整数，省略时随机生成） */
+  seed?: number;
 }
 
 /**
@@ -147,4 +157,32 @@ export interface MarketInstanceSummary {
   totalTraders: number;
   totalStocks: number;
   totalCapital: number;
-}
\ No newline at end of file
+}
+/**
+ * 市场实例事件流（Server-Sent Events）事件名称
+ */
+export enum MarketInstanceEventType {
+  /** 创建进度更新，数据为 CreationProgress */
+  PROGRESS = 'progress',
+  /** 市场实例创建完成 */
+  CREATED = 'environment_created',
+  /** 市场实例已销毁 */
+  DESTROYED = 'environment_destroyed'
+}
+
+/**
+ * 市场实例创建完成事件数据
+ */
+export interface MarketInstanceCreatedEvent {
+  requestId: string;
+  environmentId: string;
+  environment: MarketInstancePreview | null;
+}
+
+/**
+ * 市场实例销毁事件数据
+ */
+export interface MarketInstanceDestroyedEvent {
+  environmentId: string;
+  destroyedAt: Date;
+}
@@ -0,0 +1,144 @@
+/**
+ * 市场剧本类型定义
+ *
+ * 剧本是按游戏时间编排的事件时间线（如"第 3 天 10:30 市场暴跌"、"某只股票发布超预期财报"），
+ * 可保存在市场模板中，也可附加到运行中的市场实例；事件由交易所的游戏时钟触发并记录到事件日志
+ */
+
+/**
+ * 剧本事件类型
+ * - price_jump：个股价格跳变（消息面冲击）
+ * - volatility_regime：波动率状态切换（持续到同一目标的下一次切换）
+ * - trading_halt：停牌（个股或全市场）
+ * - sector_shock：行业或市场因子冲击（按股票 β 传导）
+ */
+export type ScenarioEventType = 'price_jump' | 'volatility_regime' | 'trading_halt' | 'sector_shock';
+
+/**
+ * 剧本事件公共字段
+ */
+interface ScenarioEventBase {
+  /** 第几个交易日（市场实例开始的交易日为第 1 天） */
+  day: number;
+  /** 触发时间（HH:mm，游戏时间） */
+  time: string;
+  /** 事件说明（记录到事件日志，如"一季报净利润超预期"） */
+  message?: string;
+}
+
+/**
+ * 个股价格跳变
+ */
+export interface PriceJumpEvent extends ScenarioEventBase {
+  type: 'price_jump';
+  /** 股票代码 */
+  symbol: string;
+  /** 涨跌幅（百分比，-8 表示下跌 8%） */
+  percent: number;
+  /** 涨跌幅的随机扰动标准差（百分点），省略时不扰动 */
+  stdDev?: number;
+}
+
+/**
+ * 波动率状态切换
+ */
+export interface VolatilityRegimeEvent extends ScenarioEventBase {
+  type: 'volatility_regime';
+  /** 股票代码，省略时作用于全部股票 */
+  symbol?: string;
+  /** 波动率倍数（1 为恢复正常） */
+  multiplier: number;
+}
+
+/**
+ * 停牌
+ */
+export interface TradingHaltEvent extends ScenarioEventBase {
+  type: 'trading_halt';
+  /** 股票代码，省略时全市场停牌 */
+  symbol?: string;
+  /** 停牌时长（游戏时间分钟） */
+  durationMinutes: number;
+}
+
+/**
+ * 行业或市场因子冲击
+ */
+export interface SectorShockEvent extends ScenarioEventBase {
+  type: 'sector_shock';
+  /** 股票分类，省略时冲击市场因子 */
+  category?: string;
+  /** 因子涨跌幅（百分比，β 为 1 的股票涨跌幅相同） */
+  percent: number;
+  /** 涨跌幅的随机扰动标准差（百分点），省略时不扰动 */
+  stdDev?: number;
+}
+
+/**
+ * 剧本事件
+ */
+export type ScenarioEvent = PriceJumpEvent | VolatilityRegimeEvent | TradingHaltEvent | SectorShockEvent;
+
+/**
+ * 市场剧本
+ */
+export interface MarketScenario {
+  /** 剧本名称（同时决定随机扰动使用的随机数子流） */
+  name: string;
+  /** 剧本说明 */
+  description?: string;
+  /** 事件（无需按时间排序） */
+  events: ScenarioEvent[];
+}
+
+/**
+ * 剧本事件状态
+ * - pending：等待触发
+ * - fired：已触发
+ * - skipped：附加剧本时触发时间已过，不再触发
+ */
+export type ScenarioEventStatus = 'pending' | 'fired' | 'skipped';
+
+/**
+ * 剧本事件进度
+ */
+export interface ScenarioEventProgress {
+  /** 事件在剧本中的序号 */
+  index: number;
+  /** 事件定义 */
+  event: ScenarioEvent;
+  /** 计划触发时间（游戏时间） */
+  scheduledAt: Date;
+  /** 状态 */
+  status: ScenarioEventStatus;
+  /** 实际触发时间（游戏时间） */
+  firedAt?: Date;
+  /** 实际涨跌幅（含随机扰动，仅价格跳变和因子冲击） */
+  appliedPercent?: number;
+}
+
+/**
+ * 停牌状态
+ */
+export interface TradingHaltState {
+  /** 股票代码，全市场停牌时为 * */
+  symbol: string;
+  /** 复牌时间（游戏时间） */
+  resumeAt: Date;
+}
+
+/**
+ * 市场实例的剧本进度
+ */
+export interface ScenarioStatus {
+  /** 剧本名称 */
+  name: string;
+  /** 剧本说明 */
+  description: string;
+  /** 附加时间（游戏时间） */
+  attachedAt: Date;
+  /** 事件进度（按计划触发时间升序） */
+  events: ScenarioEventProgress[];
+  /** 当前停牌 */
+  halts: TradingHaltState[];
+}
@@ -0,0 +1,112 @@
+/**
+ * 实时行情推送协议类型定义
+ *
+ * WebSocket 客户端按市场实例和股票订阅，服务端推送最新价、成交回报和 K 线收盘
+ */
+
+import type { TradeAction } from './trading';
+
+/**
+ * 客户端订阅消息
+ * 未指定 symbols 时订阅该实例的全部股票；granularities 为需要推送的 K 线周期（默认 MIN_1）
+ */
+export interface MarketStreamSubscribeMessage {
+  action: 'subscribe';
+  instanceId: string;
+  symbols?: string[];
+  granularities?: string[];
+}
+
+/**
+ * 客户端退订消息
+ * 未指定 symbols 时退订该实例的全部订阅
+ */
+export interface MarketStreamUnsubscribeMessage {
+  action: 'unsubscribe';
+  instanceId: string;
+  symbols?: string[];
+}
+
+/**
+ * 客户端心跳消息
+ */
+export interface MarketStreamPingMessage {
+  action: 'ping';
+}
+
+/**
+ * 客户端消息
+ */
+export type MarketStreamClientMessage =
+  | MarketStreamSubscribeMessage
+  | MarketStreamUnsubscribeMessage
+  | MarketStreamPingMessage;
+
+/**
+ * 最新价推送（同一股票在推送间隔内合并为一条）
+ */
+export interface MarketTick {
+  instanceId: string;
+  symbol: string;
+  /** 最新价 */
+  price: number;
+  /** 前收盘价 */
+  previousClose: number;
+  /** 涨跌额 */
+  change: number;
+  /** 涨跌幅（百分比） */
+  changePercent: number;
+  open: number;
+  high: number;
+  low: number;
+  /** 当日累计成交量 */
+  volume: number;
+  /** 游戏时间（ISO 字符串） */
+  timestamp: string;
+}
+
+/**
+ * 成交回报推送
+ */
+export interface TradePrint {
+  instanceId: string;
+  symbol: string;
+  tradeId: string;
+  price: number;
+  quantity: number;
+  amount: number;
+  /** 主动方方向 */
+  side: TradeAction;
+  /** 成交时间（游戏时间 ISO 字符串） */
+  executedAt: string;
+}
+
+/**
+ * K 线收盘推送
+ */
+export interface BarClose {
+  instanceId: string;
+  symbol: string;
+  granularity: string;
+  startTime: string;
+  endTime: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  vwap?: number;
+}
+
+/**
+ * 服务端消息
+ */
+export type MarketStreamServerMessage =
+  | { type: 'tick'; data: MarketTick }
+  | { type: 'trade'; data: TradePrint }
+  | { type: 'bar'; data: BarClose }
+  | { type: 'subscribed'; instanceId: string; symbols: string[]; granularities: string[] }
+  | { type: 'unsubscribed'; instanceId: string; symbols: string[] }
+  | { type: 'instance_closed'; instanceId: string }
+  | { type: 'error'; code: string; message: string; instanceId?: string }
+  | { type: 'pong' };
@@ -57,9 +57,18 @@ export interface TradeExecution {
   quantity: number
   price: number
   commission: number
+  fees?: TradeFees
   executedAt: Timestamp
 }
 
+// 成交费用明细（commission 为券商佣金，total 为实际扣除的全部费用）
+export interface TradeFees {
+  commission: number
+  stampDuty: number
+  transferFee: number
+  total: number
+}
+
 // 交易历史
 export interface TradeHistory {
   id: ID